@@ -0,0 +1,54 @@
+import React, { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  canAccessScreen,
+  hasAllPermissions,
+  hasAnyPermission,
+  hasPermission,
+} from '@/services/permissions';
+
+type PermissionMatch = 'any' | 'all';
+
+// True when the signed-in admin holds the permission(s). With an array,
+// `match` decides whether one or every permission is required.
+export const usePermission = (
+  permission: string | string[],
+  match: PermissionMatch = 'any'
+): boolean => {
+  const { adminInfo } = useAuth();
+
+  if (Array.isArray(permission)) {
+    return match === 'all'
+      ? hasAllPermissions(adminInfo, permission)
+      : hasAnyPermission(adminInfo, permission);
+  }
+  return hasPermission(adminInfo, permission);
+};
+
+// Checker for screens that need to test many permissions, e.g. per list item
+export const usePermissionChecker = () => {
+  const { adminInfo } = useAuth();
+  return useCallback(
+    (permission: string) => hasPermission(adminInfo, permission),
+    [adminInfo]
+  );
+};
+
+export const useScreenAccess = (screenName: string): boolean => {
+  const { adminInfo } = useAuth();
+  return canAccessScreen(adminInfo, screenName);
+};
+
+interface CanProps {
+  perform: string | string[];
+  match?: PermissionMatch;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ perform, match = 'any', fallback = null, children }) => {
+  const allowed = usePermission(perform, match);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -17,6 +17,7 @@ import {
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
+import { canAccessScreen } from '@/services/permissions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -28,6 +29,13 @@ interface CustomDrawerContentProps {
   props: any;
 }
 
+// Departments that have a dedicated drawer screen
+const MANAGEMENT_SCREENS: Record<string, string> = {
+  'Employee Management': 'EmployeeManagement',
+  'Manager Management': 'ManagerManagement',
+  'Company Management': 'CompanyManagement',
+};
+
 /* ================= COMPONENT ================= */
 
 const CustomDrawerContent: React.FC<CustomDrawerContentProps> = ({ props }) => {
@@ -161,20 +169,14 @@ const CustomDrawerContent: React.FC<CustomDrawerContentProps> = ({ props }) => {
       navigation.closeDrawer();
     }
     
-    // Navigate based on department
+    // Navigate based on department. Management screens that are not
+    // registered for this admin fall back to the generic department view.
     setTimeout(() => {
-      switch (department) {
-        case 'Employee Management':
-          navigation.navigate('EmployeeManagement');
-          break;
-        case 'Manager Management':
-          navigation.navigate('ManagerManagement');
-          break;
-        case 'Company Management':
-          navigation.navigate('CompanyManagement');
-          break;
-        default:
-          navigation.navigate('Department', { department });
+      const screen = MANAGEMENT_SCREENS[department];
+      if (screen && canAccessScreen(adminInfo, screen)) {
+        navigation.navigate(screen);
+      } else {
+        navigation.navigate('Department', { department });
       }
     }, 100);
   };
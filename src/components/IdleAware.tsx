@@ -0,0 +1,29 @@
+import React, { forwardRef } from 'react';
+import { Modal, ModalProps, TextInput, TextInputProps } from 'react-native';
+import { ActivityCapture, useReportActivity } from '@/contexts/IdleLockContext';
+
+// Drop-in replacements for Modal and TextInput inside the authenticated area.
+// The idle lock only sees touches on its own root view; these report the
+// touches in a modal's separate root and keyboard typing as well.
+
+export const IdleAwareModal: React.FC<ModalProps> = ({ children, ...props }) => (
+  <Modal {...props}>
+    <ActivityCapture>{children}</ActivityCapture>
+  </Modal>
+);
+
+export const IdleAwareTextInput = forwardRef<TextInput, TextInputProps>(
+  ({ onChangeText, ...props }, ref) => {
+    const reportActivity = useReportActivity();
+    return (
+      <TextInput
+        ref={ref}
+        {...props}
+        onChangeText={text => {
+          reportActivity();
+          onChangeText?.(text);
+        }}
+      />
+    );
+  }
+);
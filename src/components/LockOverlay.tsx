@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { api } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import PrayantraLogo from '@/components/PrayantraLogo';
+import MPINInput, { MPINInputRef, useExistingMPINLength } from '@/components/MPINInput';
+import { rememberMPINLength } from '@/services/mpinPolicy';
+import {
+  BiometricType,
+  getBiometricCapability,
+  getBiometricCredential,
+  getBiometricLabel,
+  isBiometricUnlockEnabled,
+} from '@/services/biometric';
+
+interface LockOverlayProps {
+  visible: boolean;
+  onUnlock: () => void;
+}
+
+const LockOverlay: React.FC<LockOverlayProps> = ({ visible, onUnlock }) => {
+  const navigation = useNavigation();
+  const { adminInfo, phoneNumber, login, logout } = useAuth();
+  const { showToast } = useToast();
+  const mpinLength = useExistingMPINLength(phoneNumber);
+
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [biometricType, setBiometricType] = useState<BiometricType | null>(null);
+  const mpinInputRef = useRef<MPINInputRef>(null);
+
+  // Re-verifying the MPIN with the server also rotates the session tokens
+  const verifyAndUnlock = useCallback(async (mpin: string) => {
+    if (!phoneNumber) return;
+
+    setIsVerifying(true);
+    setError('');
+    try {
+      const response = await api.verifyMPIN(phoneNumber, mpin);
+      if (!response.data?.success) {
+        throw new Error(response.data?.message || 'MPIN verification failed');
+      }
+
+      const { admin, tokens } = response.data.data;
+      await login(phoneNumber, tokens, admin);
+      rememberMPINLength(phoneNumber, mpin.length);
+      mpinInputRef.current?.clearAll();
+      onUnlock();
+    } catch (err: any) {
+      console.error('❌ [LOCK] Unlock failed:', err);
+      setError(err.response?.data?.message || err.message || 'Invalid MPIN. Please try again.');
+      mpinInputRef.current?.clearAll();
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [phoneNumber, login, onUnlock]);
+
+  const handleBiometricUnlock = useCallback(async () => {
+    if (!phoneNumber || !biometricType) return;
+
+    const storedMpin = await getBiometricCredential(
+      phoneNumber,
+      `Unlock Prayantra with ${getBiometricLabel(biometricType)}`
+    );
+    if (storedMpin) {
+      await verifyAndUnlock(storedMpin);
+    } else {
+      mpinInputRef.current?.focus();
+    }
+  }, [phoneNumber, biometricType, verifyAndUnlock]);
+
+  useEffect(() => {
+    if (!visible || !phoneNumber) return;
+
+    setError('');
+    const checkBiometric = async () => {
+      const enabled = await isBiometricUnlockEnabled(phoneNumber);
+      const capability = await getBiometricCapability();
+      setBiometricType(
+        enabled && capability.isBiometricSupported && capability.isEnrolled
+          ? capability.biometricType
+          : null
+      );
+    };
+
+    checkBiometric();
+  }, [visible, phoneNumber]);
+
+  const handleSignOut = () => {
+    Alert.alert(
+      'Sign Out',
+      'Sign out instead of unlocking? Unsaved changes will be lost.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            await logout();
+            onUnlock();
+            showToast('success', 'Logged out successfully');
+            navigation.reset({
+              index: 0,
+              routes: [{ name: 'LoginInitiate' as never }],
+            });
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={false}
+      onRequestClose={() => undefined}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <PrayantraLogo size={72} />
+          <View style={styles.lockBadge}>
+            <Icon name="lock" size={16} color="#FFFFFF" />
+          </View>
+        </View>
+
+        <Text style={styles.title}>Session Locked</Text>
+        <Text style={styles.subtitle}>
+          {adminInfo?.full_name
+            ? `Welcome back, ${adminInfo.full_name}. Enter your MPIN to continue.`
+            : 'Enter your MPIN to continue.'}
+        </Text>
+
+        <MPINInput
+          ref={mpinInputRef}
+          length={mpinLength.max}
+          minLength={mpinLength.min}
+          onSubmit={verifyAndUnlock}
+          error={!!error}
+          disabled={isVerifying}
+          autoFocus={!biometricType}
+          showSubmitButton={true}
+        />
+
+        {isVerifying ? (
+          <ActivityIndicator size="small" color="#8B5CF6" />
+        ) : null}
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {biometricType ? (
+          <TouchableOpacity
+            style={styles.biometricButton}
+            onPress={handleBiometricUnlock}
+            disabled={isVerifying}
+          >
+            <Icon
+              name={biometricType === 'facial' ? 'face-recognition' : 'fingerprint'}
+              size={22}
+              color="#8B5CF6"
+            />
+            <Text style={styles.biometricButtonText}>
+              Unlock with {getBiometricLabel(biometricType)}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+
+        <TouchableOpacity
+          style={styles.signOutButton}
+          onPress={handleSignOut}
+          disabled={isVerifying}
+        >
+          <Text style={styles.signOutText}>Sign out</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 24,
+    paddingTop: 80,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  lockBadge: {
+    position: 'absolute',
+    bottom: -4,
+    right: '38%',
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#8B5CF6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#1F2937',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#EF4444',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  biometricButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#DDD6FE',
+    backgroundColor: '#F5F3FF',
+  },
+  biometricButtonText: {
+    marginLeft: 8,
+    color: '#8B5CF6',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  signOutButton: {
+    marginTop: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  signOutText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
+
+export default LockOverlay;
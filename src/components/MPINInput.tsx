@@ -9,11 +9,62 @@ import {
   Dimensions,
   TouchableOpacity,
 } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import {
+  MPINLengthRange,
+  MPINPolicy,
+  MPINPolicyContext,
+  MPINStrengthLevel,
+  DEFAULT_MPIN_POLICY,
+  getMPINLengthRange,
+  getMPINStrength,
+  getStoredMPINLength,
+  policyFromServer,
+} from '@/services/mpinPolicy';
+import { MPINPolicyResponse } from '@/types';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+const STRENGTH_COLORS: Record<MPINStrengthLevel, string> = {
+  weak: '#EF4444',
+  fair: '#F59E0B',
+  good: '#8B5CF6',
+  strong: '#10B981',
+};
+
+// The server's MPIN policy, falling back to the built-in rules while it
+// loads or when the server doesn't provide one
+export const useMPINPolicy = (): MPINPolicy => {
+  const { data } = useQuery({
+    queryKey: ['mpinPolicy'],
+    queryFn: async () => {
+      const response = await api.getMPINPolicy();
+      return policyFromServer((response.data as MPINPolicyResponse).data);
+    },
+    staleTime: 60 * 60 * 1000,
+    retry: 1,
+  });
+  return data ?? DEFAULT_MPIN_POLICY;
+};
+
+// Length of the MPIN the admin already has, for verify and unlock inputs.
+// Screens where a new MPIN is chosen use the policy length instead.
+export const useExistingMPINLength = (phoneNumber: string | null | undefined): MPINLengthRange => {
+  const policy = useMPINPolicy();
+  const { data: storedLength = null } = useQuery({
+    queryKey: ['mpinLength', phoneNumber],
+    queryFn: () => getStoredMPINLength(phoneNumber),
+    enabled: !!phoneNumber,
+  });
+  return getMPINLengthRange(storedLength, policy);
+};
+
 interface MPINInputProps {
   length?: number;
+  // Fewest digits Submit accepts when the length is not known exactly;
+  // onComplete still waits for every box
+  minLength?: number;
   onComplete?: (mpin: string) => void;
   onSubmit?: (mpin: string) => void;
   error?: boolean;
@@ -21,6 +72,10 @@ interface MPINInputProps {
   autoFocus?: boolean;
   showSubmitButton?: boolean;
   secureTextEntry?: boolean;
+  // Live strength meter for screens where a new MPIN is chosen
+  showStrength?: boolean;
+  policy?: MPINPolicy;
+  policyContext?: MPINPolicyContext;
 }
 
 export interface MPINInputRef {
@@ -30,6 +85,7 @@ export interface MPINInputRef {
 
 const MPINInput = forwardRef<MPINInputRef, MPINInputProps>(({
   length = 6,
+  minLength = length,
   onComplete,
   onSubmit,
   error = false,
@@ -37,11 +93,19 @@ const MPINInput = forwardRef<MPINInputRef, MPINInputProps>(({
   autoFocus = true,
   showSubmitButton = true,
   secureTextEntry = true,
+  showStrength = false,
+  policy = DEFAULT_MPIN_POLICY,
+  policyContext,
 }, ref) => {
   const [mpin, setMpin] = useState<string[]>(Array(length).fill(''));
   const inputsRef = useRef<TextInput[]>([]);
   const [containerWidth, setContainerWidth] = useState(0);
 
+  // The policy (and with it the length) can arrive after the first render
+  useEffect(() => {
+    setMpin(prev => (prev.length === length ? prev : Array(length).fill('')));
+  }, [length]);
+
   useEffect(() => {
     if (autoFocus) {
       setTimeout(() => {
@@ -172,12 +236,17 @@ const MPINInput = forwardRef<MPINInputRef, MPINInputProps>(({
 
   const handleSubmit = () => {
     const currentMpin = mpin.join('');
-    if (currentMpin.length === length) {
+    if (currentMpin.length >= minLength) {
       onSubmit?.(currentMpin);
       Keyboard.dismiss();
     }
   };
 
+  const enteredMpin = mpin.join('');
+  const strength = showStrength && enteredMpin.length === length
+    ? getMPINStrength(enteredMpin, policy, policyContext)
+    : null;
+
   const handleContainerLayout = (event: any) => {
     const { width } = event.nativeEvent.layout;
     setContainerWidth(width);
@@ -218,6 +287,28 @@ const MPINInput = forwardRef<MPINInputRef, MPINInputProps>(({
         ))}
       </View>
       
+      {showStrength && enteredMpin.length > 0 && (
+        <View style={styles.strengthContainer}>
+          <View style={styles.strengthBar}>
+            {[1, 2, 3, 4].map(segment => (
+              <View
+                key={segment}
+                style={[
+                  styles.strengthSegment,
+                  strength && segment <= strength.score && { backgroundColor: STRENGTH_COLORS[strength.level] },
+                ]}
+              />
+            ))}
+          </View>
+          <Text style={[styles.strengthLabel, strength && { color: STRENGTH_COLORS[strength.level] }]}>
+            {strength ? strength.label : `${enteredMpin.length}/${length} digits`}
+          </Text>
+          {strength && strength.issues.length > 0 && (
+            <Text style={styles.strengthHint}>{strength.issues[0].message}</Text>
+          )}
+        </View>
+      )}
+
       {error && (
         <Text style={styles.errorText}>Invalid MPIN. Please try again.</Text>
       )}
@@ -226,10 +317,10 @@ const MPINInput = forwardRef<MPINInputRef, MPINInputProps>(({
         <TouchableOpacity
           style={[
             styles.submitButton,
-            (disabled || mpin.join('').length !== length) && styles.submitButtonDisabled,
+            (disabled || enteredMpin.length < minLength) && styles.submitButtonDisabled,
           ]}
           onPress={handleSubmit}
-          disabled={disabled || mpin.join('').length !== length}
+          disabled={disabled || enteredMpin.length < minLength}
         >
           <Text style={styles.submitButtonText}>Submit</Text>
         </TouchableOpacity>
@@ -284,6 +375,36 @@ const styles = StyleSheet.create({
   separator: {
     width: 8, // Reduced from 10 to 8
   },
+  strengthContainer: {
+    width: '100%',
+    maxWidth: 300,
+    alignItems: 'center',
+    marginTop: -16,
+    marginBottom: 20,
+  },
+  strengthBar: {
+    flexDirection: 'row',
+    width: '100%',
+    gap: 6,
+    marginBottom: 8,
+  },
+  strengthSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+  },
+  strengthLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  strengthHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+    textAlign: 'center',
+  },
   errorText: {
     color: '#EF4444',
     fontSize: 14,
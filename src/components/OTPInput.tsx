@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import {
   View,
   TextInput,
@@ -7,7 +7,9 @@ import {
   Text,
   Dimensions,
   TouchableOpacity,
+  Platform,
 } from 'react-native';
+import { extractOTP, getSMSRetriever } from '@/services/smsRetriever';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -19,6 +21,8 @@ interface OTPInputProps {
   disabled?: boolean;
   autoFocus?: boolean;
   showSubmitButton?: boolean;
+  // Fill the code from the SMS retriever (Android) and the keyboard (iOS)
+  autofill?: boolean;
 }
 
 export interface OTPInputRef {
@@ -27,6 +31,111 @@ export interface OTPInputRef {
   getCurrentOtp: () => string;
 }
 
+/* ============================================================
+   AUTOFILL
+   ============================================================ */
+
+// Listens for the OTP message while enabled. Does nothing unless a retriever
+// is registered, which in practice means Android with the native module.
+export const useSMSRetriever = (
+  onCode: (code: string) => void,
+  { enabled = true, length = 6 }: { enabled?: boolean; length?: number } = {}
+) => {
+  const onCodeRef = useRef(onCode);
+  onCodeRef.current = onCode;
+
+  useEffect(() => {
+    const retriever = getSMSRetriever();
+    if (!enabled || !retriever) return;
+
+    let stop: (() => void) | undefined;
+    try {
+      stop = retriever.listen(message => {
+        const code = extractOTP(message, length);
+        if (code) onCodeRef.current(code);
+      });
+    } catch (error) {
+      console.warn('⚠️ [OTP_AUTOFILL] SMS retriever failed to start', error);
+    }
+    return () => stop?.();
+  }, [enabled, length]);
+};
+
+/* ============================================================
+   TIMERS
+   ============================================================ */
+
+export const OTP_EXPIRY_SECONDS = 600;
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+interface OTPTimerOptions {
+  expirySeconds?: number;
+  cooldownSeconds?: number;
+  // Off for screens that only send the OTP later; call restart() once sent
+  autoStart?: boolean;
+}
+
+export const formatOTPTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Expiry and resend countdowns for one OTP. Both run from deadlines rather
+// than decrementing counters, so time spent in the background still counts.
+export const useOTPTimers = ({
+  expirySeconds = OTP_EXPIRY_SECONDS,
+  cooldownSeconds = OTP_RESEND_COOLDOWN_SECONDS,
+  autoStart = true,
+}: OTPTimerOptions = {}) => {
+  const [expiresAt, setExpiresAt] = useState<number | null>(() =>
+    autoStart ? Date.now() + expirySeconds * 1000 : null
+  );
+  const [resendAt, setResendAt] = useState<number | null>(() =>
+    autoStart ? Date.now() + cooldownSeconds * 1000 : null
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const lastDeadline = Math.max(expiresAt ?? 0, resendAt ?? 0);
+    if (lastDeadline <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lastDeadline) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt, resendAt]);
+
+  const secondsUntil = (deadline: number | null) =>
+    deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+
+  // A new OTP was sent: fresh expiry and a fresh resend cooldown
+  const restart = useCallback(() => {
+    const current = Date.now();
+    setNow(current);
+    setExpiresAt(current + expirySeconds * 1000);
+    setResendAt(current + cooldownSeconds * 1000);
+  }, [expirySeconds, cooldownSeconds]);
+
+  // The server asked for a longer wait (429 retry_after)
+  const startCooldown = useCallback((seconds: number = cooldownSeconds) => {
+    const current = Date.now();
+    setNow(current);
+    setResendAt(current + seconds * 1000);
+  }, [cooldownSeconds]);
+
+  const otpTimer = secondsUntil(expiresAt);
+  return {
+    otpTimer,
+    resendCooldown: secondsUntil(resendAt),
+    isExpired: expiresAt !== null && otpTimer === 0,
+    restart,
+    startCooldown,
+  };
+};
+
 const OTPInput = forwardRef<OTPInputRef, OTPInputProps>(({
   length = 6,
   onComplete,
@@ -35,10 +144,38 @@ const OTPInput = forwardRef<OTPInputRef, OTPInputProps>(({
   disabled = false,
   autoFocus = true,
   showSubmitButton = true,
+  autofill = true,
 }, ref) => {
   const [otp, setOtp] = useState<string[]>(Array(length).fill(''));
   const inputsRef = useRef<TextInput[]>([]);
 
+  // Whole code at once: paste, keyboard autofill or the SMS retriever
+  const fillCode = (text: string) => {
+    const digits = text.replace(/[^0-9]/g, '').split('').slice(0, length);
+    const newOtp = Array(length).fill('');
+    digits.forEach((digit, idx) => {
+      newOtp[idx] = digit;
+    });
+    setOtp(newOtp);
+
+    // Focus last input
+    const lastIndex = Math.min(digits.length, length - 1);
+    inputsRef.current[lastIndex]?.focus();
+
+    // Check if complete
+    const currentOtp = newOtp.join('');
+    if (currentOtp.length === length) {
+      onComplete?.(currentOtp);
+      if (!showSubmitButton) {
+        Keyboard.dismiss();
+      }
+    }
+  };
+
+  useSMSRetriever(code => {
+    if (!disabled) fillCode(code);
+  }, { enabled: autofill, length });
+
   // Calculate responsive dimensions
   const calculateDimensions = () => {
     const totalSpacing = (length - 1) * 8; // Spacing between inputs
@@ -66,29 +203,16 @@ const OTPInput = forwardRef<OTPInputRef, OTPInputProps>(({
     if (disabled) return;
 
     const newOtp = [...otp];
-    
+
+    // The first box takes a whole code for autofill, so typing over its digit
+    // arrives as the old digit plus the new one
+    if (index === 0 && text.length === 2 && otp[0] && text.includes(otp[0])) {
+      text = text.replace(otp[0], '');
+    }
+
     // Handle paste
     if (text.length > 1) {
-      const pastedDigits = text.replace(/[^0-9]/g, '').split('').slice(0, length);
-      pastedDigits.forEach((digit, idx) => {
-        if (idx < length) {
-          newOtp[idx] = digit;
-        }
-      });
-      setOtp(newOtp);
-      
-      // Focus last input
-      const lastIndex = Math.min(pastedDigits.length, length - 1);
-      inputsRef.current[lastIndex]?.focus();
-      
-      // Check if complete
-      const currentOtp = newOtp.join('');
-      if (currentOtp.length === length) {
-        onComplete?.(currentOtp);
-        if (!showSubmitButton) {
-          Keyboard.dismiss();
-        }
-      }
+      fillCode(text);
       return;
     }
 
@@ -198,7 +322,9 @@ const OTPInput = forwardRef<OTPInputRef, OTPInputProps>(({
               onKeyPress={e => handleKeyPress(e, index)}
               onFocus={() => handleInputFocus(index)}
               keyboardType="number-pad"
-              maxLength={1}
+              maxLength={index === 0 && autofill ? length : 1}
+              textContentType={index === 0 && autofill ? 'oneTimeCode' : 'none'}
+              autoComplete={index === 0 && autofill ? (Platform.OS === 'android' ? 'sms-otp' : 'one-time-code') : 'off'}
               editable={!disabled}
               selectTextOnFocus
               autoFocus={index === 0 && autoFocus}
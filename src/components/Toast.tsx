@@ -11,11 +11,18 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 
 const { width } = Dimensions.get('window');
 
+// Optional button shown next to the message, e.g. "Undo"
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastContextType {
   showToast: (
     type: 'success' | 'error' | 'info',
     message: string,
-    duration?: number
+    duration?: number,
+    action?: ToastAction
   ) => void;
   hideToast: () => void;
 }
@@ -31,13 +38,17 @@ export const useToast = () => {
 };
 
 interface ToastProps {
+  // Changes on every showToast, so a repeated message restarts the timer
+  id: number;
   type: 'success' | 'error' | 'info';
   message: string;
   visible: boolean;
+  duration: number;
+  action?: ToastAction;
   onHide: () => void;
 }
 
-const Toast: React.FC<ToastProps> = ({ type, message, visible, onHide }) => {
+const Toast: React.FC<ToastProps> = ({ id, type, message, visible, duration, action, onHide }) => {
   const [animation] = useState(new Animated.Value(0));
 
   React.useEffect(() => {
@@ -51,13 +62,13 @@ const Toast: React.FC<ToastProps> = ({ type, message, visible, onHide }) => {
 
       const timer = setTimeout(() => {
         hide();
-      }, 3000);
+      }, duration);
 
       return () => clearTimeout(timer);
     } else {
       hide();
     }
-  }, [visible]);
+  }, [visible, id]);
 
   const hide = () => {
     Animated.spring(animation, {
@@ -128,6 +139,18 @@ const Toast: React.FC<ToastProps> = ({ type, message, visible, onHide }) => {
           {message}
         </Text>
 
+        {action && (
+          <TouchableOpacity
+            onPress={() => {
+              action.onPress();
+              hide();
+            }}
+            style={[styles.actionButton, { borderColor: config.color }]}
+          >
+            <Text style={[styles.actionText, { color: config.color }]}>{action.label}</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity onPress={hide} style={styles.closeButton}>
           <MaterialCommunityIcons
             name="close"
@@ -144,18 +167,23 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
   const [toast, setToast] = useState<{
+    id: number;
     type: 'success' | 'error' | 'info';
     message: string;
     visible: boolean;
+    duration: number;
+    action?: ToastAction;
   }>({
+    id: 0,
     type: 'success',
     message: '',
     visible: false,
+    duration: 3000,
   });
 
   const showToast = useCallback(
-    (type: 'success' | 'error' | 'info', message: string, duration = 3000) => {
-      setToast({ type, message, visible: true });
+    (type: 'success' | 'error' | 'info', message: string, duration = 3000, action?: ToastAction) => {
+      setToast(prev => ({ id: prev.id + 1, type, message, visible: true, duration, action }));
     },
     []
   );
@@ -168,9 +196,12 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
     <ToastContext.Provider value={{ showToast, hideToast }}>
       {children}
       <Toast
+        id={toast.id}
         type={toast.type}
         message={toast.message}
         visible={toast.visible}
+        duration={toast.duration}
+        action={toast.action}
         onHide={hideToast}
       />
     </ToastContext.Provider>
@@ -207,4 +238,15 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  actionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { getStoredDeviceInfo, parseDeviceFingerprint } from '@/services/deviceInfo';
+import { useToast } from '@/components/Toast';
+import { TrustedDevice, TrustedDevicesResponse } from '@/types';
+
+interface TrustedDevicesListProps {
+  // Another admin's devices (super admin only); omitted for the signed-in admin
+  adminId?: string;
+}
+
+// Shared with the sessions screen
+export const formatLastSeen = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (Number.isNaN(minutes)) return 'Unknown';
+  if (minutes < 2) return 'Active now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days} d ago`;
+  return new Date(iso).toLocaleDateString();
+};
+
+const TrustedDevicesList: React.FC<TrustedDevicesListProps> = ({ adminId }) => {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (adminId) return;
+    getStoredDeviceInfo().then(info => setCurrentDeviceId(info.deviceId));
+  }, [adminId]);
+
+  const queryKey = ['trustedDevices', adminId ?? 'me'];
+
+  const { data: devices = [], isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = adminId
+        ? await api.getAdminTrustedDevices(adminId)
+        : await api.getTrustedDevices();
+      const devicesData = response.data as TrustedDevicesResponse;
+      return [...(devicesData.data?.devices || [])].sort((a, b) =>
+        b.last_seen_at.localeCompare(a.last_seen_at)
+      );
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (deviceId: string) =>
+      adminId
+        ? api.revokeAdminTrustedDevice(adminId, deviceId)
+        : api.revokeTrustedDevice(deviceId),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey });
+      showToast('success', response.data?.message || 'Device removed');
+    },
+    onError: (revokeError: any) => {
+      console.error('❌ [DEVICES] Revoke failed:', revokeError);
+      showToast('error', revokeError.response?.data?.message || 'Failed to remove device');
+    },
+  });
+
+  const confirmRevoke = (device: TrustedDevice) => {
+    const { model } = parseDeviceFingerprint(device.device_fingerprint);
+    Alert.alert(
+      'Remove Device',
+      `${model} will have to verify with OTP again before it can sign in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => revokeMutation.mutate(device.device_id),
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#C084FC" style={styles.loader} />;
+  }
+
+  if (error) {
+    return (
+      <TouchableOpacity style={styles.messageRow} onPress={() => refetch()}>
+        <Icon name="alert-circle-outline" size={18} color="#EF4444" />
+        <Text style={styles.errorText}>
+          {(error as any)?.response?.data?.message || 'Could not load devices'}. Tap to retry.
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (devices.length === 0) {
+    return <Text style={styles.emptyText}>No trusted devices</Text>;
+  }
+
+  return (
+    <View>
+      {devices.map((device, index) => {
+        const summary = parseDeviceFingerprint(device.device_fingerprint);
+        const isCurrent = device.device_id === currentDeviceId;
+        const isRevoking = revokeMutation.isPending && revokeMutation.variables === device.device_id;
+        // Own list waits for the local device id so this device is never offered for removal
+        const canRevoke = !isCurrent && (!!adminId || currentDeviceId !== null);
+
+        return (
+          <View
+            key={device.device_id}
+            style={[styles.deviceRow, index === devices.length - 1 && styles.deviceRowLast]}
+          >
+            <View style={styles.deviceIcon}>
+              <Icon
+                name={summary.platform === 'iOS' ? 'apple' : summary.platform === 'Android' ? 'android' : 'cellphone'}
+                size={22}
+                color="#C084FC"
+              />
+            </View>
+            <View style={styles.deviceContent}>
+              <View style={styles.deviceTitleRow}>
+                <Text style={styles.deviceTitle} numberOfLines={1}>{summary.model}</Text>
+                {isCurrent && (
+                  <View style={styles.currentBadge}>
+                    <Text style={styles.currentBadgeText}>This device</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={styles.deviceSubtitle} numberOfLines={1}>
+                {[summary.platform, summary.osVersion, summary.isEmulator ? 'Emulator' : null]
+                  .filter(Boolean)
+                  .join(' • ')}
+              </Text>
+              <Text style={styles.deviceSubtitle}>
+                Last seen: {isCurrent ? 'Active now' : formatLastSeen(device.last_seen_at)}
+              </Text>
+            </View>
+            {canRevoke && (
+              isRevoking ? (
+                <ActivityIndicator size="small" color="#EF4444" />
+              ) : (
+                <TouchableOpacity
+                  style={styles.revokeButton}
+                  onPress={() => confirmRevoke(device)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Text style={styles.revokeButtonText}>Remove</Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loader: {
+    marginVertical: 12,
+  },
+  messageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#EF4444',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94A3B8',
+    fontStyle: 'italic',
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  deviceRowLast: {
+    borderBottomWidth: 0,
+  },
+  deviceIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: '#F5F3FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  deviceContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  deviceTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
+  deviceTitle: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  currentBadge: {
+    backgroundColor: '#D1FAE5',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  currentBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  deviceSubtitle: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  revokeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    backgroundColor: '#FEF2F2',
+  },
+  revokeButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
+
+export default TrustedDevicesList;
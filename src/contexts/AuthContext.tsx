@@ -4,13 +4,14 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useRef,
 } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
 import { AdminInfo, AuthTokens, LoginFlowState } from '@/types';
 import { api } from '@/services/api';
 import {
   getItem,
   setItem,
-  removeItem,
   STORAGE_KEYS,
   hasStoredPhoneNumber,
   getFormattedPhoneNumber,
@@ -18,8 +19,35 @@ import {
   removePhoneNumberPermanently,
   clearSessionData,
 } from '@/services/storage';
+import {
+  getAccessToken,
+  getAccessTokenExpiry,
+  getRefreshToken,
+  saveTokens,
+  saveAdminInfo,
+  migrateLegacySession,
+} from '@/services/tokenVault';
+import { disableBiometricUnlock } from '@/services/biometric';
+import { persistQueryCache, restoreQueryCache } from '@/services/queryCache';
 import { useQueryClient } from '@tanstack/react-query';
 
+/* ============================================================
+   CONSTANTS
+   ============================================================ */
+
+// Refresh this long before the access token expires
+const REFRESH_LEEWAY_MS = 60 * 1000;
+// Back-off when a proactive refresh fails for a transient reason
+const REFRESH_RETRY_MS = 30 * 1000;
+// Gap before re-checking a freshly refreshed token. Tokens that live no longer
+// than the leeway, or clock skew, would otherwise refresh in a tight loop.
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+// Refreshes in a row that still left the token due; after this the 401
+// refresh in the interceptor takes over
+const MAX_BACK_TO_BACK_REFRESHES = 3;
+// Query cache changes are written to disk at most this often
+const CACHE_PERSIST_THROTTLE_MS = 1000;
+
 /* ============================================================
    TYPES
    ============================================================ */
@@ -84,6 +112,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   const [adminId, setAdminId] = useState<string | null>(null);
   const [loginFlow, setLoginFlow] = useState<LoginFlowState | null>(null);
 
+  // Admin whose query cache is loaded in memory and being persisted
+  const cacheOwnerRef = useRef<string | null>(null);
+
   /* ============================================================
      VALIDATE SESSION (NO DIRECT REFRESH HERE)
      ============================================================ */
@@ -92,16 +123,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     try {
       console.log('🔍 [AUTH] Validating session');
 
-      const accessToken = await getItem(STORAGE_KEYS.ACCESS_TOKEN);
+      const accessToken = await getAccessToken();
       if (!accessToken) {
         console.log('❌ [AUTH] No access token');
         return false;
       }
 
-      // Decode JWT expiry
-      try {
-        const payload = JSON.parse(atob(accessToken.split('.')[1]));
-        const expMs = payload.exp * 1000;
+      const expMs = await getAccessTokenExpiry();
+      if (expMs) {
         const now = Date.now();
 
         console.log('⏰ [AUTH] Token expires in', Math.floor((expMs - now) / 1000), 'sec');
@@ -111,7 +140,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
           console.log('⏰ [AUTH] Token expired — interceptor will refresh');
           return true;
         }
-      } catch {
+      } else {
         console.warn('⚠️ [AUTH] Failed to decode token');
       }
 
@@ -123,21 +152,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, []);
 
-  /* ============================================================
-     5-MIN VALIDATION LOOP (SAFE)
-     ============================================================ */
-
-  // useEffect(() => {
-  //   if (!isAuthenticated) return;
-
-  //   const interval = setInterval(async () => {
-  //     console.log('⏱️ [AUTH] 5-minute session check');
-  //     await validateSession();
-  //   }, 5 * 60 * 1000);
-
-  //   return () => clearInterval(interval);
-  // }, [isAuthenticated, validateSession]);
-
   /* ============================================================
      PHONE NUMBER STORAGE
      ============================================================ */
@@ -160,6 +174,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
   const clearPhoneNumber = useCallback(async () => {
     await removePhoneNumberPermanently();
+    await disableBiometricUnlock();
     setPhoneNumber(null);
     setAdminId(null);
   }, []);
@@ -173,8 +188,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       setIsInitializing(true);
       setIsLoading(true);
 
-      // Always clear tokens on cold start
-      await clearSessionData();
+      // Purge plaintext tokens left by pre-vault builds
+      await migrateLegacySession();
+
+      // Always clear tokens on cold start; the query cache is restored at login
+      await clearSessionData({ keepQueryCache: true });
 
       const hasPhone = await hasStoredPhoneNumber();
       const formattedPhone = await getFormattedPhoneNumber();
@@ -209,12 +227,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         throw new Error('Invalid tokens received');
       }
 
-      await setItem(STORAGE_KEYS.ACCESS_TOKEN, tokensData.access_token);
-      await setItem(STORAGE_KEYS.REFRESH_TOKEN, tokensData.refresh_token);
-      await setItem(STORAGE_KEYS.ADMIN_INFO, JSON.stringify(admin));
+      await saveTokens(
+        tokensData.access_token,
+        tokensData.refresh_token,
+        tokensData.expires_in
+      );
+      await saveAdminInfo(admin);
 
       await storePhoneNumberPermanently(phone, admin.admin_id);
 
+      // Never show one admin's cached data to another
+      if (cacheOwnerRef.current !== admin.admin_id) {
+        queryClient.clear();
+        await restoreQueryCache(queryClient, admin.admin_id);
+        cacheOwnerRef.current = admin.admin_id;
+      }
+
       setTokens(tokensData);
       setAdminInfo(admin);
       setAdminId(admin.admin_id);
@@ -223,7 +251,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
       console.log('✅ [AUTH] Login successful');
     },
-    []
+    [queryClient]
   );
 
   /* ============================================================
@@ -232,13 +260,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
   const logout = useCallback(async () => {
     try {
-      const refreshToken = await getItem(STORAGE_KEYS.REFRESH_TOKEN);
+      const refreshToken = await getRefreshToken();
       if (refreshToken) {
         await api.logout(refreshToken);
       }
     } catch (err) {
       console.warn('⚠️ [AUTH] Logout API failed', err);
     } finally {
+      cacheOwnerRef.current = null;
       await clearSessionData();
       queryClient.clear();
 
@@ -256,6 +285,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
      ============================================================ */
 
   const clearTokensAndNavigate = useCallback(async () => {
+    cacheOwnerRef.current = null;
     await clearSessionData();
     queryClient.clear();
 
@@ -265,6 +295,122 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setLoginFlow(null);
   }, [queryClient]);
 
+  /* ============================================================
+     QUERY CACHE PERSISTENCE
+     ============================================================ */
+
+  useEffect(() => {
+    if (!isAuthenticated || !adminId) return;
+
+    const owner = adminId;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        // Skip if the session ended while the write was pending
+        if (cacheOwnerRef.current === owner) {
+          persistQueryCache(queryClient, owner);
+        }
+      }, CACHE_PERSIST_THROTTLE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [isAuthenticated, adminId, queryClient]);
+
+  /* ============================================================
+     PROACTIVE TOKEN REFRESH
+     ============================================================ */
+
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let cancelled = false;
+    let backToBackRefreshes = 0;
+
+    const clearTimer = () => {
+      if (refreshTimerRef.current) {
+        clearTimeout(refreshTimerRef.current);
+        refreshTimerRef.current = null;
+      }
+    };
+
+    const scheduleAt = (delayMs: number) => {
+      clearTimer();
+      refreshTimerRef.current = setTimeout(checkAndRefresh, Math.max(0, delayMs));
+    };
+
+    const checkAndRefresh = async () => {
+      if (cancelled) return;
+
+      const expiresAt = await getAccessTokenExpiry();
+      if (!expiresAt) {
+        console.warn('⚠️ [AUTH] Token expiry unknown — relying on 401 refresh');
+        return;
+      }
+
+      const msUntilRefresh = expiresAt - Date.now() - REFRESH_LEEWAY_MS;
+      if (msUntilRefresh > 0) {
+        backToBackRefreshes = 0;
+        console.log('⏰ [AUTH] Next token refresh in', Math.floor(msUntilRefresh / 1000), 'sec');
+        scheduleAt(msUntilRefresh);
+        return;
+      }
+
+      try {
+        console.log('🔄 [AUTH] Proactively refreshing access token');
+        // Shares the interceptor's single-flight lock, so this never races a 401 refresh
+        const accessToken = await api.refreshAccessToken();
+        if (cancelled) return;
+
+        setTokens((prev) => (prev ? { ...prev, access_token: accessToken } : prev));
+
+        backToBackRefreshes += 1;
+        if (backToBackRefreshes >= MAX_BACK_TO_BACK_REFRESHES) {
+          console.warn('⚠️ [AUTH] New tokens keep arriving already due — relying on 401 refresh');
+          return;
+        }
+        scheduleAt(MIN_REFRESH_INTERVAL_MS);
+      } catch (err: any) {
+        if (cancelled) return;
+
+        // No response means the network failed; the session is still intact
+        if (err?.isAxiosError && !err.response) {
+          console.warn('⚠️ [AUTH] Proactive refresh failed, retrying shortly');
+          scheduleAt(REFRESH_RETRY_MS);
+          return;
+        }
+
+        console.error('❌ [AUTH] Proactive refresh rejected, ending session', err);
+        await clearTokensAndNavigate();
+      }
+    };
+
+    const handleAppStateChange = (state: AppStateStatus) => {
+      if (state === 'active') {
+        checkAndRefresh();
+      } else {
+        // Timers are unreliable in the background, pause until foreground
+        clearTimer();
+      }
+    };
+
+    checkAndRefresh();
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+    return () => {
+      cancelled = true;
+      clearTimer();
+      subscription.remove();
+    };
+  }, [isAuthenticated, clearTokensAndNavigate]);
+
   /* ============================================================
      UPDATE ADMIN INFO
      ============================================================ */
@@ -273,10 +419,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     (info: Partial<AdminInfo>) => {
       setAdminInfo((prev) => (prev ? { ...prev, ...info } : prev));
       if (adminInfo) {
-        setItem(
-          STORAGE_KEYS.ADMIN_INFO,
-          JSON.stringify({ ...adminInfo, ...info })
-        ).catch(console.error);
+        saveAdminInfo({ ...adminInfo, ...info }).catch(console.error);
       }
     },
     [adminInfo]
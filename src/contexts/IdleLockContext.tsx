@@ -0,0 +1,206 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  useMemo,
+} from 'react';
+import { AppState, AppStateStatus, View, ViewProps, StyleSheet } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import LockOverlay from '@/components/LockOverlay';
+
+/* ============================================================
+   POLICY
+   ============================================================ */
+
+export interface IdleLockPolicy {
+  // Lock after this long without a touch while the app is open
+  idleTimeoutMs: number;
+  // Lock on return if the app was in the background at least this long
+  backgroundTimeoutMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+// Keyed by AdminInfo.role_type. Higher privilege locks sooner.
+export const IDLE_LOCK_POLICIES: Record<number, IdleLockPolicy> = {
+  1: { idleTimeoutMs: 10 * MINUTE, backgroundTimeoutMs: 5 * MINUTE }, // Employee
+  2: { idleTimeoutMs: 10 * MINUTE, backgroundTimeoutMs: 5 * MINUTE }, // Manager
+  3: { idleTimeoutMs: 5 * MINUTE, backgroundTimeoutMs: 2 * MINUTE }, // Admin
+  4: { idleTimeoutMs: 3 * MINUTE, backgroundTimeoutMs: 1 * MINUTE }, // Super Admin
+};
+
+export const DEFAULT_IDLE_LOCK_POLICY: IdleLockPolicy = {
+  idleTimeoutMs: 5 * MINUTE,
+  backgroundTimeoutMs: 2 * MINUTE,
+};
+
+export const getIdleLockPolicy = (
+  roleType?: number,
+  overrides?: Partial<Record<number, IdleLockPolicy>>
+): IdleLockPolicy => {
+  if (roleType === undefined) return DEFAULT_IDLE_LOCK_POLICY;
+  return overrides?.[roleType] || IDLE_LOCK_POLICIES[roleType] || DEFAULT_IDLE_LOCK_POLICY;
+};
+
+// How often the idle timer is checked while the app is active
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000;
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+interface IdleLockContextType {
+  isLocked: boolean;
+  policy: IdleLockPolicy;
+  lock: () => void;
+  reportActivity: () => void;
+}
+
+/* ============================================================
+   CONTEXT
+   ============================================================ */
+
+const IdleLockContext = createContext<IdleLockContextType | undefined>(undefined);
+
+export const useIdleLock = () => {
+  const ctx = useContext(IdleLockContext);
+  if (!ctx) {
+    throw new Error('useIdleLock must be used within IdleLockProvider');
+  }
+  return ctx;
+};
+
+const noop = () => {};
+
+// For inputs and modals that also render outside the authenticated area,
+// where there is no idle lock to report to
+export const useReportActivity = (): (() => void) =>
+  useContext(IdleLockContext)?.reportActivity ?? noop;
+
+// Counts every touch inside as activity. RN modals render in their own native
+// root, so touches there never reach the provider's wrapper and each modal
+// needs one of these around its content.
+export const ActivityCapture: React.FC<ViewProps> = ({ style, children, ...rest }) => {
+  const reportActivity = useReportActivity();
+  return (
+    <View
+      {...rest}
+      style={[styles.container, style]}
+      // Capture phase sees every touch first; returning false leaves it to the children
+      onStartShouldSetResponderCapture={() => {
+        reportActivity();
+        return false;
+      }}
+      onMoveShouldSetResponderCapture={() => {
+        reportActivity();
+        return false;
+      }}
+    >
+      {children}
+    </View>
+  );
+};
+
+/* ============================================================
+   PROVIDER
+   ============================================================ */
+
+// Wraps the authenticated area. The overlay sits on top of the children
+// instead of replacing them, so screens and open modals keep their state.
+export const IdleLockProvider: React.FC<{
+  children: React.ReactNode;
+  policies?: Partial<Record<number, IdleLockPolicy>>;
+}> = ({ children, policies }) => {
+  const { adminInfo, isAuthenticated } = useAuth();
+
+  const [isLocked, setIsLocked] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+  const backgroundedAtRef = useRef<number | null>(null);
+
+  const policy = useMemo(
+    () => getIdleLockPolicy(adminInfo?.role_type, policies),
+    [adminInfo?.role_type, policies]
+  );
+
+  const lock = useCallback(() => {
+    console.log('🔒 [IDLE_LOCK] Locking session');
+    setIsLocked(true);
+  }, []);
+
+  const unlock = useCallback(() => {
+    console.log('🔓 [IDLE_LOCK] Session unlocked');
+    lastActivityRef.current = Date.now();
+    setIsLocked(false);
+  }, []);
+
+  const reportActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  /* ---------- IDLE TIMER ---------- */
+
+  useEffect(() => {
+    if (!isAuthenticated || isLocked) return;
+
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= policy.idleTimeoutMs) {
+        lock();
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated, isLocked, policy.idleTimeoutMs, lock]);
+
+  /* ---------- BACKGROUND TIMER ---------- */
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleAppStateChange = (state: AppStateStatus) => {
+      if (state === 'background') {
+        backgroundedAtRef.current = Date.now();
+        return;
+      }
+
+      if (state === 'active' && backgroundedAtRef.current !== null) {
+        const awayMs = Date.now() - backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+
+        if (
+          awayMs >= policy.backgroundTimeoutMs ||
+          Date.now() - lastActivityRef.current >= policy.idleTimeoutMs
+        ) {
+          lock();
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [isAuthenticated, policy, lock]);
+
+  const value: IdleLockContextType = {
+    isLocked,
+    policy,
+    lock,
+    reportActivity,
+  };
+
+  return (
+    <IdleLockContext.Provider value={value}>
+      <ActivityCapture>
+        {children}
+        <LockOverlay visible={isLocked} onUnlock={unlock} />
+      </ActivityCapture>
+    </IdleLockContext.Provider>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,268 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from 'react';
+import { AppState } from 'react-native';
+import { AxiosResponse } from 'axios';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import {
+  OutboxEntry,
+  OutboxOperation,
+  OutboxPayloads,
+  createOutboxEntry,
+  enqueueEntry,
+  executeOutboxEntry,
+  isNetworkError,
+  loadOutbox,
+  replayOutbox,
+  saveOutbox,
+} from '@/services/outbox';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+// Either the server response, or a marker that the change was queued
+export type OutboxSubmitResult =
+  | { queued: false; response: AxiosResponse }
+  | { queued: true; entry: OutboxEntry };
+
+interface OutboxContextType {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+  submit: <K extends OutboxOperation>(
+    operation: K,
+    payload: OutboxPayloads[K],
+    label: string
+  ) => Promise<OutboxSubmitResult>;
+  replay: () => Promise<void>;
+  retry: (entryId: string) => void;
+  discard: (entryId: string) => void;
+  getEntriesFor: (entity: OutboxEntry['entity'], targetId: string) => OutboxEntry[];
+}
+
+/* ============================================================
+   CONTEXT
+   ============================================================ */
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const useOutbox = () => {
+  const ctx = useContext(OutboxContext);
+  if (!ctx) {
+    throw new Error('useOutbox must be used within OutboxProvider');
+  }
+  return ctx;
+};
+
+/* ============================================================
+   PROVIDER
+   ============================================================ */
+
+// Queries that show admins or roles and must be refetched after a replay
+const OUTBOX_QUERY_KEYS = [
+  ['allAdmins'],
+  ['allRoles'],
+  ['adminStats'],
+  ['availableManagers'],
+  ['adminHierarchy'],
+  ['employeeRoles'],
+  ['managerRoles'],
+];
+
+// A replay the server cut short (5xx, 429) is tried again after this long
+const REPLAY_RETRY_MS = 30 * 1000;
+
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { adminId } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const replayingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Every change goes through here so memory and storage never drift apart
+  const updateEntries = useCallback((update: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+    const next = update(entriesRef.current);
+    entriesRef.current = next;
+    setEntries(next);
+    if (adminId) {
+      saveOutbox(adminId, next);
+    }
+  }, [adminId]);
+
+  useEffect(() => {
+    entriesRef.current = [];
+    setEntries([]);
+    setLoadedFor(null);
+    if (!adminId) return;
+
+    loadOutbox(adminId).then((stored) => {
+      entriesRef.current = stored;
+      setEntries(stored);
+      setLoadedFor(adminId);
+    });
+  }, [adminId]);
+
+  const invalidateLists = useCallback(() => {
+    OUTBOX_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  }, [queryClient]);
+
+  /* ---------- REPLAY ---------- */
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current || !onlineManager.isOnline()) return;
+    const snapshot = entriesRef.current;
+    if (!snapshot.some(entry => entry.status === 'pending')) return;
+
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    replayingRef.current = true;
+    setIsReplaying(true);
+    console.log(`📤 [OUTBOX] Replaying ${snapshot.length} queued changes`);
+
+    try {
+      const result = await replayOutbox(snapshot);
+      const snapshotIds = new Set(snapshot.map(entry => entry.id));
+
+      updateEntries(current => {
+        // Keep entries queued or discarded while the replay was running
+        const currentIds = new Set(current.map(entry => entry.id));
+        const replayed = result.entries.filter(entry => currentIds.has(entry.id));
+        const added = current.filter(entry => !snapshotIds.has(entry.id));
+        return [...replayed, ...added];
+      });
+
+      if (result.synced.length > 0) {
+        invalidateLists();
+        showToast('success', `Synced ${result.synced.length} offline ${result.synced.length === 1 ? 'change' : 'changes'}`);
+      }
+
+      const newProblems = result.entries.filter(entry =>
+        entry.status !== 'pending' &&
+        snapshot.find(previous => previous.id === entry.id)?.status === 'pending'
+      );
+      if (newProblems.length > 0) {
+        showToast('error', `${newProblems.length} offline ${newProblems.length === 1 ? 'change needs' : 'changes need'} your attention`);
+      }
+
+      // Going offline is picked up by the reconnect listener; a server error
+      // while still online would otherwise wait for the next reconnect
+      if (result.interrupted && onlineManager.isOnline()) {
+        retryTimerRef.current = setTimeout(() => {
+          retryTimerRef.current = null;
+          replayRef.current();
+        }, REPLAY_RETRY_MS);
+      }
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+    }
+  }, [updateEntries, invalidateLists, showToast]);
+
+  // The retry timer outlives the render that scheduled it
+  const replayRef = useRef(replay);
+  replayRef.current = replay;
+
+  useEffect(() => () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  }, [adminId]);
+
+  // Replay once the queue is loaded and whenever connectivity returns
+  useEffect(() => {
+    if (loadedFor) {
+      replay();
+    }
+  }, [loadedFor, replay]);
+
+  useEffect(() => {
+    return onlineManager.subscribe((isOnline) => {
+      if (isOnline) {
+        replay();
+      }
+    });
+  }, [replay]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        replay();
+      }
+    });
+    return () => subscription.remove();
+  }, [replay]);
+
+  /* ---------- SUBMIT ---------- */
+
+  const submit = useCallback(async <K extends OutboxOperation>(
+    operation: K,
+    payload: OutboxPayloads[K],
+    label: string
+  ): Promise<OutboxSubmitResult> => {
+    const entry = createOutboxEntry(operation, payload, label);
+    const queue = () => {
+      console.log(`📥 [OUTBOX] Queued ${operation} while offline`);
+      updateEntries(prev => enqueueEntry(prev, entry));
+      return { queued: true as const, entry };
+    };
+
+    if (!onlineManager.isOnline()) {
+      return queue();
+    }
+
+    try {
+      // Same idempotency key as a later replay would use
+      const response = await executeOutboxEntry(entry);
+      return { queued: false, response };
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return queue();
+      }
+      throw error;
+    }
+  }, [updateEntries]);
+
+  /* ---------- MANAGEMENT ---------- */
+
+  const retry = useCallback((entryId: string) => {
+    updateEntries(prev => prev.map(entry =>
+      entry.id === entryId ? { ...entry, status: 'pending', error: undefined } : entry
+    ));
+    replay();
+  }, [updateEntries, replay]);
+
+  const discard = useCallback((entryId: string) => {
+    updateEntries(prev => prev.filter(entry => entry.id !== entryId));
+  }, [updateEntries]);
+
+  const getEntriesFor = useCallback((entity: OutboxEntry['entity'], targetId: string) =>
+    entries.filter(entry => entry.entity === entity && entry.targetId === targetId),
+  [entries]);
+
+  const value: OutboxContextType = {
+    entries,
+    isReplaying,
+    submit,
+    replay,
+    retry,
+    discard,
+    getEntriesFor,
+  };
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+};
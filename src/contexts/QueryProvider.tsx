@@ -2,6 +2,7 @@ import React from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import NetInfo from '@react-native-community/netinfo';
 import { onlineManager } from '@tanstack/react-query';
+import { PERSISTED_QUERY_ROOTS, QUERY_CACHE_MAX_AGE } from '@/services/queryCache';
 
 // Set up network status for React Query
 onlineManager.setEventListener(setOnline => {
@@ -27,6 +28,12 @@ const queryClient = new QueryClient({
   },
 });
 
+// Persisted queries stay in memory as long as their snapshot is valid,
+// otherwise garbage collection would drop them from the next save
+PERSISTED_QUERY_ROOTS.forEach(root => {
+  queryClient.setQueryDefaults([root], { gcTime: QUERY_CACHE_MAX_AGE });
+});
+
 export const QueryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return (
     <QueryClientProvider client={queryClient}>
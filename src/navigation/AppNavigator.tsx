@@ -2,6 +2,9 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createDrawerNavigator } from '@react-navigation/drawer';
 import { useAuth } from '@/contexts/AuthContext';
+import { IdleLockProvider } from '@/contexts/IdleLockContext';
+import { OutboxProvider } from '@/contexts/OutboxContext';
+import { canAccessScreen } from '@/services/permissions';
 import { View, ActivityIndicator } from 'react-native';
 import { NavigationContainerRef } from '@react-navigation/native';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
@@ -16,12 +19,17 @@ import ForgotMPINScreen from '@/screens/auth/ForgotMPINScreen';
 import MainDashboardScreen from '@/screens/dashboard/MainDashboardScreen';
 import ProfileScreen from '@/screens/profile/ProfileScreen';
 import ChangeMPINScreen from '@/screens/profile/ChangeMPINScreen';
+import SessionsScreen from '@/screens/profile/SessionsScreen';
 import DepartmentScreen from '@/screens/dashboard/DepartmentScreen';
 
 // Management Screens
 import EmployeeManagementScreen from '@/screens/management/EmployeeManagementScreen';
 import ManagerManagementScreen from '@/screens/management/ManagerManagementScreen';
 import CompanyManagementScreen from '@/screens/management/CompanyManagementScreen';
+import OrgChartScreen from '@/screens/management/OrgChartScreen';
+import AdminAnalyticsScreen from '@/screens/management/AdminAnalyticsScreen';
+import RoleMatrixScreen from '@/screens/management/RoleMatrixScreen';
+import AuditLogScreen from '@/screens/management/AuditLogScreen';
 
 import CustomDrawerContent from '@/components/CustomDrawerContent';
 
@@ -42,126 +50,210 @@ const SCREENS = {
   MAIN_DASHBOARD: 'MainDashboard',
   PROFILE: 'Profile',
   CHANGE_MPIN: 'ChangeMPIN',
+  SESSIONS: 'Sessions',
   DEPARTMENT: 'Department',
   EMPLOYEE_MANAGEMENT: 'EmployeeManagement',
   MANAGER_MANAGEMENT: 'ManagerManagement',
   COMPANY_MANAGEMENT: 'CompanyManagement',
+  ORG_CHART: 'OrgChart',
+  ADMIN_ANALYTICS: 'AdminAnalytics',
+  ROLE_MATRIX: 'RoleMatrix',
+  AUDIT_LOG: 'AuditLog',
   MAIN_DRAWER: 'MainDrawer',
 };
 
 // Drawer Navigator Component
+// Wrapped in IdleLockProvider so an inactive session locks in place, and in
+// OutboxProvider so changes made offline are queued and replayed
 const MainDrawer = () => {
+  const { adminInfo } = useAuth();
+  // Management screens are only registered for admins allowed to open them
+  const canAccess = (screenName: string) => canAccessScreen(adminInfo, screenName);
+
   return (
-    <Drawer.Navigator
-      drawerContent={(props) => <CustomDrawerContent props={props} />}
-      screenOptions={{
-        headerShown: false,
-        drawerType: 'slide',
-        overlayColor: 'transparent',
-
-        drawerStyle: {
-          width: 300,
-          backgroundColor: 'transparent',
-        },
-
-        drawerActiveTintColor: '#C084FC',
-        drawerInactiveTintColor: '#64748B',
-
-        // ✅ NO negative margins
-        drawerLabelStyle: {
-          fontSize: 14,
-          fontWeight: '500',
-          marginLeft: 8,
-        },
-
-        drawerItemStyle: {
-          borderRadius: 8,
-          marginHorizontal: 8,
-          marginVertical: 4,
-          paddingHorizontal: 12,
-        },
-      }}
-    >
-      {/* ✅ REQUIRED CHILDREN */}
+    <IdleLockProvider>
+      <OutboxProvider>
+        <Drawer.Navigator
+          drawerContent={(props) => <CustomDrawerContent props={props} />}
+          screenOptions={{
+            headerShown: false,
+            drawerType: 'slide',
+            overlayColor: 'transparent',
 
-      <Drawer.Screen
-        name={SCREENS.MAIN_DASHBOARD}
-        component={MainDashboardScreen}
-        options={{
-          drawerLabel: 'Dashboard',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="view-dashboard" size={size} color={color} />
-          ),
-        }}
-      />
+            drawerStyle: {
+              width: 300,
+              backgroundColor: 'transparent',
+            },
 
-      {/* Add Management Screens */}
-      <Drawer.Screen
-        name={SCREENS.EMPLOYEE_MANAGEMENT}
-        component={EmployeeManagementScreen}
-        options={{
-          drawerLabel: 'Employee Management',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="account-multiple" size={size} color={color} />
-          ),
-        }}
-      />
+            drawerActiveTintColor: '#C084FC',
+            drawerInactiveTintColor: '#64748B',
 
-      <Drawer.Screen
-        name={SCREENS.MANAGER_MANAGEMENT}
-        component={ManagerManagementScreen}
-        options={{
-          drawerLabel: 'Manager Management',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="account-tie" size={size} color={color} />
-          ),
-        }}
-      />
+            // ✅ NO negative margins
+            drawerLabelStyle: {
+              fontSize: 14,
+              fontWeight: '500',
+              marginLeft: 8,
+            },
 
-      <Drawer.Screen
-        name={SCREENS.COMPANY_MANAGEMENT}
-        component={CompanyManagementScreen}
-        options={{
-          drawerLabel: 'Company Management',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="domain" size={size} color={color} />
-          ),
-        }}
-      />
+            drawerItemStyle: {
+              borderRadius: 8,
+              marginHorizontal: 8,
+              marginVertical: 4,
+              paddingHorizontal: 12,
+            },
+          }}
+        >
+          {/* ✅ REQUIRED CHILDREN */}
 
-      <Drawer.Screen
-        name={SCREENS.PROFILE}
-        component={ProfileScreen}
-        options={{
-          drawerLabel: 'Profile',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="account" size={size} color={color} />
-          ),
-        }}
-      />
+          <Drawer.Screen
+            name={SCREENS.MAIN_DASHBOARD}
+            component={MainDashboardScreen}
+            options={{
+              drawerLabel: 'Dashboard',
+              drawerIcon: ({ color, size }) => (
+                <Icon name="view-dashboard" size={size} color={color} />
+              ),
+            }}
+          />
 
-      <Drawer.Screen
-        name={SCREENS.CHANGE_MPIN}
-        component={ChangeMPINScreen}
-        options={{
-          drawerLabel: 'Change MPIN',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="key-change" size={size} color={color} />
-          ),
-        }}
-      />
+          {/* Add Management Screens */}
+          {canAccess(SCREENS.EMPLOYEE_MANAGEMENT) && (
+            <Drawer.Screen
+              name={SCREENS.EMPLOYEE_MANAGEMENT}
+              component={EmployeeManagementScreen}
+              options={{
+                drawerLabel: 'Employee Management',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="account-multiple" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
 
-      <Drawer.Screen
-        name={SCREENS.DEPARTMENT}
-        component={DepartmentScreen}
-        options={{
-          drawerLabel: 'Department Details',
-          drawerIcon: ({ color, size }) => (
-            <Icon name="office-building" size={size} color={color} />
-          ),
-        }}
-      />
-    </Drawer.Navigator>
+          {canAccess(SCREENS.MANAGER_MANAGEMENT) && (
+            <Drawer.Screen
+              name={SCREENS.MANAGER_MANAGEMENT}
+              component={ManagerManagementScreen}
+              options={{
+                drawerLabel: 'Manager Management',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="account-tie" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
+
+          {canAccess(SCREENS.COMPANY_MANAGEMENT) && (
+            <Drawer.Screen
+              name={SCREENS.COMPANY_MANAGEMENT}
+              component={CompanyManagementScreen}
+              options={{
+                drawerLabel: 'Company Management',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="domain" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
+
+          {canAccess(SCREENS.ORG_CHART) && (
+            <Drawer.Screen
+              name={SCREENS.ORG_CHART}
+              component={OrgChartScreen}
+              options={{
+                drawerLabel: 'Org Chart',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="sitemap" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
+
+          {canAccess(SCREENS.ADMIN_ANALYTICS) && (
+            <Drawer.Screen
+              name={SCREENS.ADMIN_ANALYTICS}
+              component={AdminAnalyticsScreen}
+              options={{
+                drawerLabel: 'Admin Analytics',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="chart-donut" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
+
+          {canAccess(SCREENS.ROLE_MATRIX) && (
+            <Drawer.Screen
+              name={SCREENS.ROLE_MATRIX}
+              component={RoleMatrixScreen}
+              options={{
+                drawerLabel: 'Role Matrix',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="table-large" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
+
+          {canAccess(SCREENS.AUDIT_LOG) && (
+            <Drawer.Screen
+              name={SCREENS.AUDIT_LOG}
+              component={AuditLogScreen}
+              options={{
+                drawerLabel: 'Audit Log',
+                drawerIcon: ({ color, size }) => (
+                  <Icon name="clipboard-text-clock-outline" size={size} color={color} />
+                ),
+              }}
+            />
+          )}
+
+          <Drawer.Screen
+            name={SCREENS.PROFILE}
+            component={ProfileScreen}
+            options={{
+              drawerLabel: 'Profile',
+              drawerIcon: ({ color, size }) => (
+                <Icon name="account" size={size} color={color} />
+              ),
+            }}
+          />
+
+          <Drawer.Screen
+            name={SCREENS.CHANGE_MPIN}
+            component={ChangeMPINScreen}
+            options={{
+              drawerLabel: 'Change MPIN',
+              drawerIcon: ({ color, size }) => (
+                <Icon name="key-change" size={size} color={color} />
+              ),
+            }}
+          />
+
+          <Drawer.Screen
+            name={SCREENS.SESSIONS}
+            component={SessionsScreen}
+            options={{
+              drawerLabel: 'Active Sessions',
+              drawerIcon: ({ color, size }) => (
+                <Icon name="devices" size={size} color={color} />
+              ),
+            }}
+          />
+
+          <Drawer.Screen
+            name={SCREENS.DEPARTMENT}
+            component={DepartmentScreen}
+            options={{
+              drawerLabel: 'Department Details',
+              drawerIcon: ({ color, size }) => (
+                <Icon name="office-building" size={size} color={color} />
+              ),
+            }}
+          />
+        </Drawer.Navigator>
+      </OutboxProvider>
+    </IdleLockProvider>
   );
 };
 
@@ -14,9 +14,12 @@ import { useMutation } from '@tanstack/react-query';
 import { api } from '@/services/api';
 import { useToast } from '@/components/Toast';
 import PrayantraLogo from '@/components/PrayantraLogo';
-import OTPInput from '@/components/OTPInput';
-import MPINInput from '@/components/MPINInput';
+import OTPInput, { OTPInputRef, useOTPTimers, formatOTPTime } from '@/components/OTPInput';
+import MPINInput, { useMPINPolicy } from '@/components/MPINInput';
 import { getFormattedPhoneNumber } from '@/services/storage';
+import { disableBiometricUnlock } from '@/services/biometric';
+import { clearMPINLockState } from '@/services/mpinLockout';
+import { checkNewMPIN, rememberMPIN } from '@/services/mpinPolicy';
 
 // Define navigation types
 type RootStackParamList = {
@@ -37,17 +40,18 @@ const ForgotMPINScreen = () => {
   const params = route.params;
   
   const { showToast } = useToast();
+  const policy = useMPINPolicy();
 
   const [phoneNumber, setPhoneNumber] = useState('');
   const [step, setStep] = useState(1); // 1: Request OTP, 2: Verify OTP, 3: Setup new MPIN
   const [otp, setOtp] = useState('');
   const [mpin, setMpin] = useState('');
   const [confirmMpin, setConfirmMpin] = useState('');
-  const [timer, setTimer] = useState(60);
-  const [canResend, setCanResend] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const otpInputRef = useRef<OTPInputRef>(null);
+  // Nothing is sent until step 1 is submitted
+  const { otpTimer, resendCooldown, isExpired, restart: restartTimers, startCooldown } = useOTPTimers({ autoStart: false });
 
   useEffect(() => {
     const loadPhoneNumber = async () => {
@@ -63,48 +67,28 @@ const ForgotMPINScreen = () => {
     loadPhoneNumber();
   }, [params?.phoneNumber]);
 
+  // Autofilled or fully typed codes move on without tapping Verify
   useEffect(() => {
-    if (step === 1) {
-      startTimer();
-    }
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, [step]);
-
-  const startTimer = () => {
-    setCanResend(false);
-    setTimer(60);
-    
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
+    if (step === 2 && otp.length === 6 && !isLoading) {
+      handleVerifyOTP();
     }
-
-    timerRef.current = setInterval(() => {
-      setTimer((prev) => {
-        if (prev <= 1) {
-          setCanResend(true);
-          if (timerRef.current) {
-            clearInterval(timerRef.current);
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
+  }, [otp]);
 
   const forgotMPINMutation = useMutation({
     mutationFn: () => api.forgotMPIN(phoneNumber),
     onSuccess: () => {
       showToast('success', 'OTP sent successfully for MPIN reset');
       setStep(2);
-      startTimer();
+      setOtp('');
+      setError('');
+      otpInputRef.current?.clearAll();
+      restartTimers();
     },
     onError: (error: any) => {
       const errorMessage = error.response?.data?.message || 'Failed to send OTP';
+      if (error.response?.status === 429) {
+        startCooldown(error.response.data?.retry_after || 60);
+      }
       showToast('error', errorMessage);
     },
     onSettled: () => {
@@ -115,7 +99,12 @@ const ForgotMPINScreen = () => {
   const verifyForgotMPINMutation = useMutation({
     mutationFn: (data: { otpCode: string; newMpin: string }) => 
       api.verifyForgotMPIN(phoneNumber, data.otpCode, data.newMpin),
-    onSuccess: () => {
+    onSuccess: async (_response, { newMpin }) => {
+      await rememberMPIN(phoneNumber, newMpin, policy);
+      // The biometric credential holds the old MPIN
+      await disableBiometricUnlock();
+      // A reset also lifts any lockout on the old MPIN
+      await clearMPINLockState(phoneNumber);
       showToast('success', 'MPIN reset successful. Please login with your new MPIN.');
       navigation.navigate('VerifyMPIN', { phoneNumber });
     },
@@ -144,14 +133,19 @@ const ForgotMPINScreen = () => {
       showToast('error', 'Please enter 6-digit OTP');
       return;
     }
+    if (isExpired) {
+      showToast('error', 'OTP has expired. Please request a new one.');
+      return;
+    }
     setStep(3);
   };
 
-  const handleMPINComplete = (enteredMpin: string) => {
+  const handleMPINComplete = async (enteredMpin: string) => {
     if (mpin === '') {
       // First MPIN entry
-      if (isWeakMpin(enteredMpin)) {
-        setError('MPIN is too weak. Please choose a stronger MPIN.');
+      const problem = await checkNewMPIN(enteredMpin, policy, { phoneNumber });
+      if (problem) {
+        setError(problem);
         return;
       }
       setMpin(enteredMpin);
@@ -172,24 +166,14 @@ const ForgotMPINScreen = () => {
   };
 
   const handleResendOTP = () => {
-    if (!canResend && timer > 0) {
-      showToast('info', `Please wait ${timer} seconds before resending`);
+    if (resendCooldown > 0) {
+      showToast('info', `Please wait ${resendCooldown} seconds before resending`);
       return;
     }
     setIsLoading(true);
     forgotMPINMutation.mutate();
   };
 
-  const isWeakMpin = (mpin: string) => {
-    const weakPatterns = [
-      '111111', '222222', '333333', '444444', '555555',
-      '666666', '777777', '888888', '999999', '000000',
-      '123456', '654321', '121212', '123123', '112233'
-    ];
-    return weakPatterns.includes(mpin) || 
-           mpin.split('').every((digit, i, arr) => digit === arr[0]);
-  };
-
   const renderStep = () => {
     switch (step) {
       case 1:
@@ -231,11 +215,12 @@ const ForgotMPINScreen = () => {
 
             <View style={styles.timerContainer}>
               <Text style={styles.timerText}>
-                OTP expires in: {timer}s
+                OTP expires in: {formatOTPTime(otpTimer)}
               </Text>
             </View>
 
             <OTPInput
+              ref={otpInputRef}
               length={6}
               onComplete={setOtp}
               error={!!error}
@@ -257,13 +242,13 @@ const ForgotMPINScreen = () => {
               <Text style={styles.resendText}>Didn't receive OTP?</Text>
               <TouchableOpacity
                 onPress={handleResendOTP}
-                disabled={!canResend || isLoading}
+                disabled={resendCooldown > 0 || isLoading}
               >
                 <Text style={[
                   styles.resendButton,
-                  (!canResend || isLoading) && styles.resendButtonDisabled
+                  (resendCooldown > 0 || isLoading) && styles.resendButtonDisabled
                 ]}>
-                  {canResend ? 'Resend OTP' : `Resend in ${timer}s`}
+                  {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : 'Resend OTP'}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -275,14 +260,18 @@ const ForgotMPINScreen = () => {
           <>
             <Text style={styles.title}>Set New MPIN</Text>
             <Text style={styles.subtitle}>
-              {mpin ? 'Confirm your new MPIN' : 'Create a new 6-digit MPIN'}
+              {mpin ? 'Confirm your new MPIN' : `Create a new ${policy.length}-digit MPIN`}
             </Text>
 
             <MPINInput
+              length={policy.length}
               onComplete={handleMPINComplete}
               error={!!error}
               disabled={isLoading}
               autoFocus={true}
+              showStrength={!mpin}
+              policy={policy}
+              policyContext={{ phoneNumber }}
             />
 
             {error && (
@@ -299,9 +288,10 @@ const ForgotMPINScreen = () => {
 
             <View style={styles.guidelines}>
               <Text style={styles.guidelinesTitle}>MPIN Guidelines:</Text>
-              <Text style={styles.guideline}>• Must be 6 digits</Text>
+              <Text style={styles.guideline}>• Must be {policy.length} digits</Text>
               <Text style={styles.guideline}>• Avoid simple patterns</Text>
-              <Text style={styles.guideline}>• Don't use repeated digits</Text>
+              <Text style={styles.guideline}>• No birthdays or digits from your phone number</Text>
+              <Text style={styles.guideline}>• Different from your recent MPINs</Text>
               <Text style={styles.guideline}>• Choose something memorable</Text>
             </View>
           </>
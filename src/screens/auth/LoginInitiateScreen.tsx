@@ -225,11 +225,18 @@ const LoginInitiateScreen = () => {
         return;
       }
   
+      // A locked MPIN is unlocked by resetting it with an OTP
       if (mpin_locked) {
         Alert.alert(
           'MPIN Locked',
-          'Your MPIN is locked. Please contact your administrator.',
-          [{ text: 'OK' }]
+          'Your MPIN is locked after too many failed attempts. Verify with an OTP and set a new MPIN to unlock your account.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Reset MPIN',
+              onPress: () => navigation.navigate('ForgotMPIN', { phoneNumber: fullPhoneNumber }),
+            },
+          ]
         );
         return;
       }
@@ -16,7 +16,8 @@ import { api } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
 import PrayantraLogo from '@/components/PrayantraLogo';
-import MPINInput, { MPINInputRef } from '@/components/MPINInput';
+import MPINInput, { MPINInputRef, useMPINPolicy } from '@/components/MPINInput';
+import { checkNewMPIN, rememberMPIN } from '@/services/mpinPolicy';
 
 type RootStackParamList = {
   LoginInitiate: undefined;
@@ -45,6 +46,7 @@ const SetupMPINScreen = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
   const mpinInputRef = useRef<MPINInputRef>(null);
+  const policy = useMPINPolicy();
 
   React.useEffect(() => {
     const keyboardDidShowListener = Keyboard.addListener(
@@ -69,6 +71,7 @@ const SetupMPINScreen = () => {
   const setupMPINMutation = useMutation({
     mutationFn: (mpin: string) => api.setupMPIN(adminId, mpin),
     onSuccess: (response: any) => {
+      rememberMPIN(phoneNumber, mpin, policy);
       // After MPIN setup, verify it to get tokens
       api.verifyMPIN(phoneNumber, mpin)
         .then(verifyResponse => {
@@ -120,11 +123,12 @@ const SetupMPINScreen = () => {
     },
   });
 
-  const handleMPINSubmit = (enteredMpin: string) => {
+  const handleMPINSubmit = async (enteredMpin: string) => {
     if (step === 1) {
-      // Validate MPIN strength
-      if (isWeakMpin(enteredMpin)) {
-        setError('MPIN is too common. Please choose a stronger MPIN.');
+      const problem = await checkNewMPIN(enteredMpin, policy, { phoneNumber });
+      if (problem) {
+        setError(problem);
+        mpinInputRef.current?.clearAll();
         return;
       }
 
@@ -157,16 +161,6 @@ const SetupMPINScreen = () => {
     }
   };
 
-  const isWeakMpin = (mpin: string) => {
-    const weakPatterns = [
-      '111111', '222222', '333333', '444444', '555555',
-      '666666', '777777', '888888', '999999', '000000',
-      '123456', '654321', '121212', '123123', '112233'
-    ];
-    return weakPatterns.includes(mpin) || 
-           mpin.split('').every((digit, i, arr) => digit === arr[0]);
-  };
-
   return (
     <KeyboardAvoidingView 
       style={styles.container}
@@ -193,7 +187,7 @@ const SetupMPINScreen = () => {
           
           <Text style={styles.subtitle}>
             {step === 1 
-              ? 'Create a 6-digit MPIN for secure login' 
+              ? `Create a ${policy.length}-digit MPIN for secure login` 
               : 'Re-enter your MPIN to confirm'}
           </Text>
 
@@ -210,12 +204,16 @@ const SetupMPINScreen = () => {
           <View style={styles.mpinContainer}>
             <MPINInput
               ref={mpinInputRef}
+              length={policy.length}
               onSubmit={handleMPINSubmit}
               error={!!error}
               disabled={isLoading}
               autoFocus={true}
               showSubmitButton={true}
               secureTextEntry={true}
+              showStrength={step === 1}
+              policy={policy}
+              policyContext={{ phoneNumber }}
             />
           </View>
 
@@ -230,14 +228,14 @@ const SetupMPINScreen = () => {
               </Text>
               {step === 1 ? (
                 <>
-                  <Text style={styles.guideline}>• Must be 6 digits</Text>
+                  <Text style={styles.guideline}>• Must be {policy.length} digits</Text>
                   <Text style={styles.guideline}>• Avoid simple patterns (111111, 123456)</Text>
-                  <Text style={styles.guideline}>• Don't use repeated digits</Text>
+                  <Text style={styles.guideline}>• No birthdays or digits from your phone number</Text>
                   <Text style={styles.guideline}>• Choose something memorable but secure</Text>
                 </>
               ) : (
                 <>
-                  <Text style={styles.guideline}>• Re-enter the same 6-digit MPIN</Text>
+                  <Text style={styles.guideline}>• Re-enter the same {policy.length}-digit MPIN</Text>
                   <Text style={styles.guideline}>• Make sure it matches exactly</Text>
                   <Text style={styles.guideline}>• This will be your login password</Text>
                 </>
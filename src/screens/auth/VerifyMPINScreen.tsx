@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,18 +12,41 @@ import {
   Dimensions,
   ActivityIndicator,
 } from 'react-native';
-import { useNavigation, NavigationProp, useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, NavigationProp, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import { useMutation } from '@tanstack/react-query';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import { api } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
 import PrayantraLogo from '@/components/PrayantraLogo';
-import MPINInput, { MPINInputRef } from '@/components/MPINInput';
+import MPINInput, { MPINInputRef, useExistingMPINLength } from '@/components/MPINInput';
+import {
+  describeMPINLength,
+  isMPINLengthInRange,
+  rememberMPINLength,
+} from '@/services/mpinPolicy';
 import {
   hasStoredPhoneNumber,
   getFormattedPhoneNumber,
   getDisplayPhoneNumber
 } from '@/services/storage';
+import {
+  BiometricType,
+  getBiometricCapability,
+  getBiometricCredential,
+  getBiometricLabel,
+  isBiometricUnlockEnabled,
+  disableBiometricUnlock,
+} from '@/services/biometric';
+import {
+  MPINLockState,
+  lockStateFromError,
+  getLockSecondsRemaining,
+  formatLockCountdown,
+  loadMPINLockState,
+  saveMPINLockState,
+  clearMPINLockState,
+} from '@/services/mpinLockout';
 
 const { height } = Dimensions.get('window');
 
@@ -49,16 +72,22 @@ const VerifyMPINScreen = () => {
   
   const [mpin, setMpin] = useState('');
   const [error, setError] = useState('');
-  const [attemptCount, setAttemptCount] = useState(0);
-  const [isLocked, setIsLocked] = useState(false);
-  const [lockTime, setLockTime] = useState(0);
+  // Lockout and attempt counts come from the server; only the lock deadline is persisted
+  const [lockState, setLockState] = useState<MPINLockState | null>(null);
+  const [lockSeconds, setLockSeconds] = useState(0);
+  const [failedAttempts, setFailedAttempts] = useState<{ count: number; max: number | null } | null>(null);
   const [phoneNumber, setPhoneNumber] = useState('');
   const [displayPhoneNumber, setDisplayPhoneNumber] = useState('');
+  const mpinLength = useExistingMPINLength(phoneNumber);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingPhone, setIsLoadingPhone] = useState(true);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
+  const [biometricType, setBiometricType] = useState<BiometricType | null>(null);
   const mpinInputRef = useRef<MPINInputRef>(null);
   const scrollViewRef = useRef<ScrollView>(null);
+  // True while the submitted MPIN came from the biometric credential
+  const usedBiometricRef = useRef(false);
+  const biometricPromptedRef = useRef(false);
 
   useEffect(() => {
     const loadPhoneNumber = async () => {
@@ -135,21 +164,37 @@ const VerifyMPINScreen = () => {
     };
   }, [params?.phoneNumber]);
 
+  const isLocked = !!lockState && (lockState.requiresReset || lockSeconds > 0);
+
+  // Restore a lockout that was still running when the app was closed. Re-read
+  // on focus too, since returning from Forgot MPIN clears it.
+  useFocusEffect(
+    useCallback(() => {
+      if (!phoneNumber) return;
+      loadMPINLockState(phoneNumber).then(state => {
+        setLockState(state);
+        setLockSeconds(getLockSecondsRemaining(state));
+        if (!state) setFailedAttempts(null);
+      });
+    }, [phoneNumber])
+  );
+
+  // Counts down from the server deadline, so time spent in the background is accounted for
   useEffect(() => {
-    if (isLocked && lockTime > 0) {
-      const timer = setInterval(() => {
-        setLockTime(prev => {
-          if (prev <= 1) {
-            setIsLocked(false);
-            clearInterval(timer);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      return () => clearInterval(timer);
-    }
-  }, [isLocked, lockTime]);
+    if (!lockState?.lockedUntil) return;
+
+    const timer = setInterval(() => {
+      const remaining = getLockSecondsRemaining(lockState);
+      setLockSeconds(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        setLockState(null);
+        setError('');
+        clearMPINLockState(phoneNumber);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockState, phoneNumber]);
 
   // Helper function to format phone number for display
   const formatPhoneForDisplay = (phone: string) => {
@@ -165,7 +210,7 @@ const VerifyMPINScreen = () => {
 
   const mutation = useMutation({
     mutationFn: (mpin: string) => api.verifyMPIN(phoneNumber, mpin),
-    onSuccess: (response: any) => {
+    onSuccess: (response: any, verifiedMpin) => {
       console.log('✅ MPIN verification response:', response.data);
       if (response.data.success) {
         const { admin, tokens, message } = response.data.data;
@@ -182,6 +227,11 @@ const VerifyMPINScreen = () => {
           return;
         }
         
+        usedBiometricRef.current = false;
+        setFailedAttempts(null);
+        clearMPINLockState(phoneNumber);
+        rememberMPINLength(phoneNumber, verifiedMpin.length);
+
         // ✅ Store phone number ONLY after successful MPIN verification
         // The login function in AuthContext will handle storage
         login(phoneNumber, tokens, admin);
@@ -206,26 +256,57 @@ const VerifyMPINScreen = () => {
         message: error.message
       });
       
-      const errorType = error.response?.data?.error;
-      const errorMessage = error.response?.data?.message || 'MPIN verification failed';
-      
-      if (errorType === 'MPIN rate limit exceeded') {
-        setIsLocked(true);
-        setLockTime(60);
-        setError('Too many failed attempts. Please try again after 60 seconds.');
+      const errorData = error.response?.data;
+      const errorMessage = errorData?.message || 'MPIN verification failed';
+
+      const usedBiometric = usedBiometricRef.current;
+      usedBiometricRef.current = false;
+
+      // Read before the biometric case below so a lockout is never reported
+      // as a plain biometric failure
+      if (typeof errorData?.failed_login_attempts === 'number') {
+        setFailedAttempts({ count: errorData.failed_login_attempts, max: errorData.max_attempts ?? null });
+      }
+      const lock = lockStateFromError(errorData, error.response?.status);
+
+      // The stored MPIN is stale (changed elsewhere) — stop offering biometrics
+      if (usedBiometric && error.response?.status === 401) {
+        disableBiometricUnlock();
+        setBiometricType(null);
+        showToast('info', 'Biometric unlock disabled. Re-enable it from your profile.');
+        if (!lock) {
+          setError('Your MPIN has changed. Please enter it to continue.');
+          mpinInputRef.current?.clearAll();
+          return;
+        }
+      }
+
+      if (lock) {
+        setLockState(lock);
+        setLockSeconds(getLockSecondsRemaining(lock));
+        saveMPINLockState(phoneNumber, lock);
+        setError('');
+        setMpin('');
+        mpinInputRef.current?.clearAll();
         Alert.alert(
           'MPIN Locked',
-          'Too many failed attempts. Please try again after 60 seconds.',
-          [{ text: 'OK' }]
+          lock.requiresReset
+            ? 'Your MPIN is locked after too many failed attempts. Verify with an OTP and set a new MPIN to continue.'
+            : `Too many failed attempts. Try again in ${formatLockCountdown(getLockSecondsRemaining(lock))}, or reset your MPIN now.`,
+          [
+            { text: 'Not Now', style: 'cancel' },
+            { text: 'Reset MPIN', onPress: handleForgotMPIN },
+          ]
         );
         return;
       }
-      
-      const newAttemptCount = attemptCount + 1;
-      setAttemptCount(newAttemptCount);
-      
-      if (newAttemptCount >= 3) {
-        setError(`Invalid MPIN. You have ${5 - newAttemptCount} attempts left.`);
+
+      const attemptsLeft =
+        typeof errorData?.failed_login_attempts === 'number' && errorData.max_attempts
+          ? errorData.max_attempts - errorData.failed_login_attempts
+          : null;
+      if (attemptsLeft !== null && attemptsLeft > 0) {
+        setError(`Invalid MPIN. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left before your MPIN is locked.`);
       } else {
         setError('Invalid MPIN. Please try again.');
       }
@@ -239,15 +320,66 @@ const VerifyMPINScreen = () => {
     },
   });
 
+  const handleBiometricUnlock = useCallback(async () => {
+    if (!phoneNumber || !biometricType || isLocked || isLoading) return;
+
+    const label = getBiometricLabel(biometricType);
+    const storedMpin = await getBiometricCredential(phoneNumber, `Unlock Prayantra with ${label}`);
+
+    if (!storedMpin) {
+      // Cancelled or unreadable — fall back to the MPIN pad
+      mpinInputRef.current?.focus();
+      return;
+    }
+
+    usedBiometricRef.current = true;
+    setError('');
+    setIsLoading(true);
+    mutation.mutate(storedMpin);
+  }, [phoneNumber, biometricType, isLocked, isLoading, mutation]);
+
+  // Offer biometric unlock once the phone number is known
+  useEffect(() => {
+    if (!phoneNumber) return;
+
+    const checkBiometric = async () => {
+      const enabled = await isBiometricUnlockEnabled(phoneNumber);
+      if (!enabled) {
+        setBiometricType(null);
+        return;
+      }
+
+      const capability = await getBiometricCapability();
+      if (capability.isBiometricSupported && capability.isEnrolled) {
+        setBiometricType(capability.biometricType);
+      } else {
+        setBiometricType(null);
+      }
+    };
+
+    checkBiometric();
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    if (biometricType && !biometricPromptedRef.current) {
+      biometricPromptedRef.current = true;
+      handleBiometricUnlock();
+    }
+  }, [biometricType, handleBiometricUnlock]);
+
   const handleMPINSubmit = (enteredMpin: string) => {
     if (isLocked) {
-      setError(`Please wait ${lockTime} seconds before trying again`);
-      showToast('error', `Please wait ${lockTime} seconds before trying again`);
+      showToast(
+        'error',
+        lockState?.requiresReset
+          ? 'Your MPIN is locked. Reset it to continue.'
+          : `Please wait ${formatLockCountdown(lockSeconds)} before trying again`
+      );
       return;
     }
     
-    if (enteredMpin.length !== 6) {
-      setError('Please enter 6-digit MPIN');
+    if (!isMPINLengthInRange(enteredMpin, mpinLength)) {
+      setError(`Please enter ${describeMPINLength(mpinLength)} MPIN`);
       return;
     }
     
@@ -326,11 +458,13 @@ const VerifyMPINScreen = () => {
         <View style={styles.formContainer}>
           <Text style={styles.title}>Enter MPIN</Text>
           <Text style={styles.subtitle}>
-            {displayPhoneNumber ? `Enter MPIN for ${displayPhoneNumber}` : 'Enter your 6-digit MPIN'}
+            {displayPhoneNumber ? `Enter MPIN for ${displayPhoneNumber}` : `Enter your ${describeMPINLength(mpinLength)} MPIN`}
           </Text>
 
           <MPINInput
             ref={mpinInputRef}
+            length={mpinLength.max}
+            minLength={mpinLength.min}
             onComplete={setMpin}
             onSubmit={handleMPINSubmit}
             error={!!error}
@@ -338,14 +472,47 @@ const VerifyMPINScreen = () => {
             showSubmitButton={true}
           />
 
+          {biometricType ? (
+            <TouchableOpacity
+              style={styles.biometricButton}
+              onPress={handleBiometricUnlock}
+              disabled={isLoading || isLocked}
+            >
+              <Icon
+                name={biometricType === 'facial' ? 'face-recognition' : 'fingerprint'}
+                size={22}
+                color="#8B5CF6"
+              />
+              <Text style={styles.biometricButtonText}>
+                Unlock with {getBiometricLabel(biometricType)}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+
           {isLocked ? (
             <View style={styles.lockContainer}>
+              <View style={styles.lockHeader}>
+                <Icon name="lock-alert" size={18} color="#EF4444" />
+                <Text style={styles.lockTitle}>MPIN locked</Text>
+              </View>
               <Text style={styles.lockText}>
-                MPIN locked. Try again in {lockTime} seconds
+                {lockState?.requiresReset
+                  ? 'Verify with an OTP and set a new MPIN to unlock your account.'
+                  : `Try again in ${formatLockCountdown(lockSeconds)}, or reset your MPIN now.`}
               </Text>
+              <TouchableOpacity style={styles.lockButton} onPress={handleForgotMPIN}>
+                <Text style={styles.lockButtonText}>Reset MPIN</Text>
+              </TouchableOpacity>
             </View>
           ) : null}
 
+          {failedAttempts ? (
+            <Text style={styles.attemptsText}>
+              Failed attempts: {failedAttempts.count}
+              {failedAttempts.max ? ` of ${failedAttempts.max}` : ''}
+            </Text>
+          ) : null}
+
           {error ? (
             <View style={styles.errorContainer}>
               <Text style={styles.errorText}>{error}</Text>
@@ -455,6 +622,22 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     textAlign: 'center',
   },
+  biometricButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#DDD6FE',
+    backgroundColor: '#F5F3FF',
+  },
+  biometricButtonText: {
+    marginLeft: 8,
+    color: '#8B5CF6',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   lockContainer: {
     backgroundColor: '#FEF2F2',
     padding: 12,
@@ -463,12 +646,43 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#FECACA',
   },
+  lockHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  lockTitle: {
+    color: '#EF4444',
+    fontSize: 15,
+    fontWeight: '700',
+  },
   lockText: {
     color: '#EF4444',
     fontSize: 14,
     textAlign: 'center',
     fontWeight: '500',
   },
+  lockButton: {
+    alignSelf: 'center',
+    marginTop: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#EF4444',
+  },
+  lockButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  attemptsText: {
+    marginTop: 12,
+    color: '#6B7280',
+    fontSize: 13,
+    textAlign: 'center',
+  },
   errorContainer: {
     backgroundColor: '#FEF2F2',
     padding: 12,
@@ -17,7 +17,7 @@ import { api } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
 import PrayantraLogo from '@/components/PrayantraLogo';
-import OTPInput, { OTPInputRef } from '@/components/OTPInput';
+import OTPInput, { OTPInputRef, useOTPTimers, formatOTPTime } from '@/components/OTPInput';
 
 const { height } = Dimensions.get('window');
 
@@ -45,21 +45,15 @@ const VerifyOTPScreen = () => {
   const { showToast } = useToast();
 
   const [otp, setOtp] = useState('');
-  const [otpTimer, setOtpTimer] = useState(600);
-  const [resendCooldown, setResendCooldown] = useState(60);
+  const { otpTimer, resendCooldown, isExpired, restart: restartTimers, startCooldown } = useOTPTimers();
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isResendLoading, setIsResendLoading] = useState(false);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
-  const otpTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const resendTimerRef = useRef<NodeJS.Timeout | null>(null);
   const otpInputRef = useRef<OTPInputRef>(null);
   const scrollViewRef = useRef<ScrollView>(null);
 
   useEffect(() => {
-    startOtpTimer();
-    startResendCooldown();
-
     const keyboardDidShowListener = Keyboard.addListener(
       'keyboardDidShow',
       (e) => {
@@ -77,12 +71,6 @@ const VerifyOTPScreen = () => {
     );
 
     return () => {
-      if (otpTimerRef.current) {
-        clearInterval(otpTimerRef.current);
-      }
-      if (resendTimerRef.current) {
-        clearInterval(resendTimerRef.current);
-      }
       keyboardDidShowListener.remove();
       keyboardDidHideListener.remove();
     };
@@ -94,50 +82,11 @@ const VerifyOTPScreen = () => {
     }
   }, [otp]);
 
-  const startOtpTimer = () => {
-    if (otpTimerRef.current) {
-      clearInterval(otpTimerRef.current);
-    }
-
-    otpTimerRef.current = setInterval(() => {
-      setOtpTimer((prev) => {
-        if (prev <= 1) {
-          if (otpTimerRef.current) {
-            clearInterval(otpTimerRef.current);
-          }
-          setError('OTP has expired. Please request a new one.');
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
-
-  const startResendCooldown = (seconds: number = 60) => {
-    setResendCooldown(seconds);
-    
-    if (resendTimerRef.current) {
-      clearInterval(resendTimerRef.current);
+  useEffect(() => {
+    if (isExpired) {
+      setError('OTP has expired. Please request a new one.');
     }
-
-    resendTimerRef.current = setInterval(() => {
-      setResendCooldown((prev) => {
-        if (prev <= 1) {
-          if (resendTimerRef.current) {
-            clearInterval(resendTimerRef.current);
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
+  }, [isExpired]);
 
   const verifyOTPMutation = useMutation({
     mutationFn: (otpCode: string) => api.verifyOTP(phoneNumber, otpCode),
@@ -206,11 +155,10 @@ const VerifyOTPScreen = () => {
     mutationFn: () => api.sendOTP(phoneNumber, 'admin_login'),
     onSuccess: () => {
       showToast('success', 'OTP resent successfully');
-      setOtpTimer(600);
+      restartTimers();
       setError('');
       setOtp('');
       otpInputRef.current?.clearAll();
-      startOtpTimer();
       setIsResendLoading(false);
     },
     onError: (error: any) => {
@@ -220,7 +168,7 @@ const VerifyOTPScreen = () => {
       
       if (error.response?.status === 429) {
         const retryAfter = error.response.data?.retry_after || 60;
-        startResendCooldown(retryAfter);
+        startCooldown(retryAfter);
         showToast('error', `Too many requests. Please wait ${retryAfter} seconds`);
       } else if (error.response?.status === 500 && error.response.data?.error === 'phone number not registered') {
         Alert.alert(
@@ -241,7 +189,7 @@ const VerifyOTPScreen = () => {
       return;
     }
 
-    if (otpTimer <= 0) {
+    if (isExpired) {
       setError('OTP has expired. Please request a new one.');
       return;
     }
@@ -301,7 +249,7 @@ const VerifyOTPScreen = () => {
           </View>
 
           <View style={styles.timerContainer}>
-            <Text style={styles.timerText}>OTP expires in: {formatTime(otpTimer)}</Text>
+            <Text style={styles.timerText}>OTP expires in: {formatOTPTime(otpTimer)}</Text>
           </View>
 
           <OTPInput
@@ -365,7 +313,7 @@ const VerifyOTPScreen = () => {
             <Text style={styles.securityTitle}>Important:</Text>
             <Text style={styles.securityText}>
               • OTP expires in 10 minutes
-              {'\n'}• Enter OTP within {formatTime(otpTimer)}
+              {'\n'}• Enter OTP within {formatOTPTime(otpTimer)}
               {'\n'}• This verifies your device for secure access
               {'\n'}• Rate limit applies for OTP resend
             </Text>
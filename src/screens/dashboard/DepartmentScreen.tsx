@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,241 +9,48 @@ import {
   Dimensions,
   Alert,
   FlatList,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation, RouteProp, useRoute } from '@react-navigation/native';
 import { useQuery } from '@tanstack/react-query';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
+import { api } from '@/services/api';
+import { hasPermission } from '@/services/permissions';
+import { Department, Permission } from '@/types';
 
 const { width } = Dimensions.get('window');
 
 // Define route params type
 type DepartmentScreenRouteProp = RouteProp<any, 'DepartmentScreen'>;
 
-// Define permission categories based on department
-const permissionCategories: Record<string, { title: string; permissions: string[] }[]> = {
-  'HR': [
-    {
-      title: 'Employee Management',
-      permissions: [
-        'Create Employee',
-        'Update Employee',
-        'Delete Employee',
-        'View Employee',
-        'Search Employee',
-        'Terminate Employee',
-        'Transfer Employee',
-      ]
-    },
-    {
-      title: 'Document Management',
-      permissions: [
-        'Upload Document',
-        'View Document',
-        'Delete Document',
-      ]
-    },
-    {
-      title: 'Position Management',
-      permissions: [
-        'Create Position',
-        'Update Position',
-        'Delete Position',
-        'View Position',
-      ]
-    },
-    {
-      title: 'Leave Management',
-      permissions: [
-        'Request Leave',
-        'Approve Leave',
-        'Reject Leave',
-        'View Leave',
-      ]
-    },
-    {
-      title: 'Attendance',
-      permissions: [
-        'View Attendance',
-        'Update Attendance',
-      ]
-    }
-  ],
-  'Finance': [
-    {
-      title: 'Invoice Management',
-      permissions: [
-        'Create Invoice',
-        'Update Invoice',
-        'Delete Invoice',
-        'View Invoice',
-        'Send Invoice',
-        'Approve Invoice',
-      ]
-    },
-    {
-      title: 'Payment Processing',
-      permissions: [
-        'Process Payment',
-        'Refund Payment',
-        'View Payment',
-      ]
-    },
-    {
-      title: 'Financial Statements',
-      permissions: [
-        'View Statement',
-        'Download Statement',
-      ]
-    },
-    {
-      title: 'Tax Management',
-      permissions: [
-        'Create Tax',
-        'Update Tax',
-        'View Tax',
-        'Delete Tax',
-      ]
-    },
-    {
-      title: 'Budget Management',
-      permissions: [
-        'Create Budget',
-        'Update Budget',
-        'Delete Budget',
-        'View Budget',
-      ]
-    }
-  ],
-  'IT': [
-    {
-      title: 'Asset Management',
-      permissions: [
-        'Create Asset',
-        'Update Asset',
-        'Delete Asset',
-        'View Asset',
-      ]
-    },
-    {
-      title: 'Incident Management',
-      permissions: [
-        'Create Incident',
-        'Update Incident',
-        'Resolve Incident',
-        'Close Incident',
-        'View Incident',
-      ]
-    },
-    {
-      title: 'Access Management',
-      permissions: [
-        'Request Access',
-        'Grant Access',
-        'Revoke Access',
-      ]
-    },
-    {
-      title: 'System Configuration',
-      permissions: [
-        'Update Config',
-        'View Config',
-      ]
-    }
-  ],
-  'Sales': [
-    {
-      title: 'Lead Management',
-      permissions: [
-        'Create Lead',
-        'Update Lead',
-        'Delete Lead',
-        'View Lead',
-      ]
-    },
-    {
-      title: 'Deal Management',
-      permissions: [
-        'Create Deal',
-        'Update Deal',
-        'Delete Deal',
-        'View Deal',
-        'Close Deal',
-      ]
-    },
-    {
-      title: 'Quotation',
-      permissions: [
-        'Create Quote',
-        'Update Quote',
-        'Delete Quote',
-        'View Quote',
-      ]
-    },
-    {
-      title: 'Sales Targets',
-      permissions: [
-        'Create Target',
-        'Update Target',
-        'View Target',
-      ]
-    }
-  ],
-  'Inventory': [
-    {
-      title: 'Item Management',
-      permissions: [
-        'Create Item',
-        'Update Item',
-        'Delete Item',
-        'View Item',
-      ]
-    },
-    {
-      title: 'Stock Operations',
-      permissions: [
-        'Stock In',
-        'Stock Out',
-        'Stock Transfer',
-        'Stock Adjust',
-        'Stock Audit',
-        'View Stock',
-      ]
-    },
-    {
-      title: 'Batch Management',
-      permissions: [
-        'Create Batch',
-        'Update Batch',
-        'View Batch',
-        'Delete Batch',
-      ]
-    },
-    {
-      title: 'Warehouse Management',
-      permissions: [
-        'Create Warehouse',
-        'Update Warehouse',
-        'Delete Warehouse',
-        'View Warehouse',
-      ]
-    }
-  ],
-  'default': [
-    {
-      title: 'Department Operations',
-      permissions: [
-        'View Dashboard',
-        'Generate Reports',
-        'Manage Settings',
-        'View Analytics',
-        'Create Entries',
-        'Update Entries',
-        'Delete Entries',
-      ]
-    }
-  ]
+interface PermissionCategory {
+  title: string;
+  permissions: Permission[];
+}
+
+// Category codes arrive as snake_case, e.g. "employee_records"
+const formatCategoryTitle = (category: string) =>
+  category
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const groupByCategory = (permissions: Permission[]): PermissionCategory[] => {
+  const groups: Record<string, Permission[]> = {};
+  permissions.forEach(permission => {
+    const title = formatCategoryTitle(permission.category || 'general');
+    (groups[title] = groups[title] || []).push(permission);
+  });
+
+  return Object.keys(groups)
+    .sort()
+    .map(title => ({
+      title,
+      permissions: groups[title].sort((a, b) => a.bit_index - b.bit_index),
+    }));
 };
 
 const DepartmentScreen = () => {
@@ -251,34 +58,80 @@ const DepartmentScreen = () => {
   const route = useRoute<DepartmentScreenRouteProp>();
   const { department } = route.params || {};
   
-  const { adminInfo } = useAuth();
+  const { adminInfo, adminId } = useAuth();
   const { showToast } = useToast();
 
   const [refreshing, setRefreshing] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
 
-  const departmentPermissions = permissionCategories[department] || permissionCategories['default'];
-  const userPermissions = adminInfo?.permissions || [];
+  // Shares its cache with the management screens
+  const {
+    data: departmentsData,
+    isLoading: isLoadingDepartments,
+    refetch: refetchDepartments,
+  } = useQuery({
+    queryKey: ['adminDepartments', adminId],
+    queryFn: async () => {
+      if (!adminId) throw new Error('Admin ID is required');
+      const response = await api.getAdminDepartments(adminId);
+      return response.data;
+    },
+    enabled: !!adminId,
+  });
+
+  const moduleCode: string | undefined = (departmentsData?.data?.departments as Department[] | undefined)
+    ?.find(dept => dept.name === department)?.module_code;
+
+  const {
+    data: modulePermissions = [],
+    isLoading: isLoadingPermissions,
+    error: permissionsError,
+    refetch: refetchPermissions,
+  } = useQuery({
+    queryKey: ['modulePermissions', moduleCode],
+    queryFn: async (): Promise<Permission[]> => {
+      const response = await api.getPermissionsByModule(moduleCode as string);
+      const rawPermissions = response.data?.data?.permissions;
+      return Array.isArray(rawPermissions) ? rawPermissions : [];
+    },
+    enabled: !!moduleCode,
+  });
+
+  const departmentPermissions = useMemo(
+    () => groupByCategory(modulePermissions),
+    [modulePermissions]
+  );
+  const isLoading = isLoadingDepartments || (!!moduleCode && isLoadingPermissions);
 
   useEffect(() => {
     if (departmentPermissions.length > 0) {
-      setSelectedCategory(departmentPermissions[0].title);
+      setSelectedCategory(prev =>
+        prev && departmentPermissions.some(cat => cat.title === prev)
+          ? prev
+          : departmentPermissions[0].title
+      );
+    } else {
+      setSelectedCategory(null);
     }
-  }, [department]);
+  }, [departmentPermissions]);
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    // Simulate API call
-    setTimeout(() => {
-      setRefreshing(false);
+    try {
+      await refetchDepartments();
+      if (moduleCode) {
+        await refetchPermissions();
+      }
       showToast('success', 'Department data refreshed');
-    }, 1000);
+    } catch (error) {
+      showToast('error', 'Failed to refresh department data');
+    } finally {
+      setRefreshing(false);
+    }
   };
 
-  const hasPermission = (permission: string): boolean => {
-    const permissionKey = permission.toLowerCase().replace(/\s+/g, '.');
-    return userPermissions.some(p => p.includes(permissionKey));
-  };
+  const isGranted = (permission: Permission): boolean =>
+    hasPermission(adminInfo, permission.permission_name);
 
   const getDepartmentIcon = (dept: string) => {
     const icons: Record<string, string> = {
@@ -332,22 +185,43 @@ const DepartmentScreen = () => {
     return colors[dept] || '#C084FC'; // Default purple
   };
 
-  const renderPermissionItem = ({ item }: { item: string }) => (
+  const renderPermissionItem = ({ item }: { item: Permission }) => (
     <View style={styles.permissionItem}>
       <View style={styles.permissionIconContainer}>
-        {hasPermission(item) ? (
+        {isGranted(item) ? (
           <Icon name="check-circle" size={20} color="#10B981" />
         ) : (
           <Icon name="close-circle" size={20} color="#EF4444" />
         )}
       </View>
-      <Text style={[
-        styles.permissionText,
-        !hasPermission(item) && styles.permissionDisabled
-      ]}>
-        {item}
-      </Text>
-      {hasPermission(item) ? (
+      <View style={styles.permissionInfo}>
+        <Text style={[
+          styles.permissionText,
+          !isGranted(item) && styles.permissionDisabled
+        ]}>
+          {item.permission_name}
+        </Text>
+        {item.description ? (
+          <Text style={styles.permissionDescription} numberOfLines={2}>
+            {item.description}
+          </Text>
+        ) : null}
+        <View style={styles.permissionMetaRow}>
+          {item.scope ? (
+            <View style={styles.permissionMetaChip}>
+              <Icon name="target" size={12} color="#64748B" />
+              <Text style={styles.permissionMetaText}>{item.scope}</Text>
+            </View>
+          ) : null}
+          {item.requires_tier ? (
+            <View style={styles.permissionMetaChip}>
+              <Icon name="layers-triple" size={12} color="#64748B" />
+              <Text style={styles.permissionMetaText}>Tier: {item.requires_tier}</Text>
+            </View>
+          ) : null}
+        </View>
+      </View>
+      {isGranted(item) ? (
         <View style={styles.permissionBadge}>
           <Text style={styles.permissionBadgeText}>Granted</Text>
         </View>
@@ -369,7 +243,7 @@ const DepartmentScreen = () => {
         <FlatList
           data={category.permissions}
           renderItem={renderPermissionItem}
-          keyExtractor={(item, index) => index.toString()}
+          keyExtractor={(item) => item.permission_id}
           scrollEnabled={false}
           showsVerticalScrollIndicator={false}
         />
@@ -446,7 +320,7 @@ const DepartmentScreen = () => {
             <View style={styles.statItem}>
               <Text style={[styles.statValue, { color: departmentColor }]}>
                 {departmentPermissions.reduce((total, cat) => 
-                  total + cat.permissions.filter(p => hasPermission(p)).length, 0
+                  total + cat.permissions.filter(isGranted).length, 0
                 )}
               </Text>
               <Text style={styles.statLabel}>Granted</Text>
@@ -486,15 +360,38 @@ const DepartmentScreen = () => {
                 </Text>
                 <View style={styles.permissionCount}>
                   <Text style={styles.permissionCountText}>
-                    {category.permissions.filter(p => hasPermission(p)).length}/{category.permissions.length}
+                    {category.permissions.filter(isGranted).length}/{category.permissions.length}
                   </Text>
                 </View>
               </TouchableOpacity>
             ))}
           </ScrollView>
 
-          {/* Selected Category Permissions */}
-          {renderCategory()}
+          {isLoading ? (
+            <ActivityIndicator size="large" color={departmentColor} style={styles.stateContainer} />
+          ) : permissionsError ? (
+            <View style={styles.stateContainer}>
+              <Icon name="alert-circle-outline" size={40} color="#EF4444" />
+              <Text style={styles.stateText}>
+                {(permissionsError as Error).message || 'Failed to load permissions'}
+              </Text>
+              <TouchableOpacity onPress={() => refetchPermissions()}>
+                <Text style={[styles.stateAction, { color: departmentColor }]}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : departmentPermissions.length === 0 ? (
+            <View style={styles.stateContainer}>
+              <Icon name="shield-off-outline" size={40} color="#CBD5E1" />
+              <Text style={styles.stateText}>
+                {moduleCode
+                  ? 'No permissions are defined for this department'
+                  : 'This department is not assigned to your role'}
+              </Text>
+            </View>
+          ) : (
+            /* Selected Category Permissions */
+            renderCategory()
+          )}
         </View>
 
         {/* Quick Actions */}
@@ -718,11 +615,38 @@ const styles = StyleSheet.create({
     width: 32,
     marginRight: 12,
   },
-  permissionText: {
+  permissionInfo: {
     flex: 1,
+    marginRight: 8,
+  },
+  permissionText: {
     fontSize: 14,
     color: '#1E293B',
   },
+  permissionDescription: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  permissionMetaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  permissionMetaChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#F1F5F9',
+    marginRight: 6,
+  },
+  permissionMetaText: {
+    fontSize: 11,
+    color: '#64748B',
+    marginLeft: 4,
+  },
   permissionDisabled: {
     color: '#94A3B8',
   },
@@ -740,6 +664,21 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#065F46',
   },
+  stateContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  stateText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  stateAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+  },
   actionsContainer: {
     marginTop: 24,
   },
@@ -0,0 +1,390 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import { api } from '@/services/api';
+import { AdminStats, AdminStatsResponse, AdminSearchAnalyticsResponse } from '@/types';
+
+// Components
+import { DonutChart, ComparisonBarChart, TrendChart, CHART_COLORS } from './components/AnalyticsCharts';
+import {
+  AnalyticsSnapshot,
+  appendSnapshot,
+  extractSearchAnalytics,
+  formatDelta,
+  formatSnapshotDate,
+  isSnapshotDue,
+  loadSnapshots,
+} from './adminAnalytics';
+
+// Styles
+import styles from './styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+const CONTENT_MARGIN = isTablet ? 24 : 16;
+// Screen width minus the card margins and padding
+const CHART_WIDTH = Math.min(width, 900) - CONTENT_MARGIN * 2 - 32;
+
+const AdminAnalyticsScreen = () => {
+  const navigation = useNavigation();
+  const { adminId } = useAuth();
+  const { showToast } = useToast();
+
+  const [snapshots, setSnapshots] = useState<AnalyticsSnapshot[]>([]);
+  const [snapshotsLoaded, setSnapshotsLoaded] = useState(false);
+  // takenAt of the snapshot being compared against, or null for no comparison
+  const [baselineAt, setBaselineAt] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const {
+    data: statsData,
+    isLoading: isLoadingStats,
+    error: statsError,
+    refetch: refetchStats,
+    isFetchedAfterMount: statsFetchedAfterMount,
+    dataUpdatedAt: statsUpdatedAt,
+  } = useQuery({
+    queryKey: ['adminStats'],
+    queryFn: async () => {
+      const response = await api.getAdminStats();
+      return response.data as AdminStatsResponse;
+    },
+  });
+
+  const {
+    data: searchData,
+    isLoading: isLoadingSearch,
+    isFetching: isFetchingSearch,
+    error: searchError,
+    refetch: refetchSearch,
+  } = useQuery({
+    queryKey: ['adminSearchAnalytics'],
+    queryFn: async () => {
+      const response = await api.getAdminSearchAnalytics();
+      return response.data as AdminSearchAnalyticsResponse;
+    },
+  });
+
+  const stats = statsData?.data ?? null;
+  const searchAnalytics = searchData?.data ?? null;
+
+  useEffect(() => {
+    if (!adminId) return;
+    loadSnapshots(adminId).then(stored => {
+      setSnapshots(stored);
+      // Compare against the latest snapshot from an earlier visit by default
+      setBaselineAt(stored.length > 0 ? stored[stored.length - 1].takenAt : null);
+      setSnapshotsLoaded(true);
+    });
+  }, [adminId]);
+
+  // Record a snapshot once fresh numbers arrive, at most every SNAPSHOT_INTERVAL_MS.
+  // Stats restored from the persisted cache can be a day old, so only a fetch
+  // made on this visit counts, and the snapshot carries the time of that fetch.
+  useEffect(() => {
+    if (!adminId || !stats || !snapshotsLoaded || isFetchingSearch) return;
+    if (!statsFetchedAfterMount || !isSnapshotDue(snapshots, statsUpdatedAt)) return;
+
+    appendSnapshot(adminId, { takenAt: statsUpdatedAt, stats, search: searchAnalytics })
+      .then(setSnapshots);
+  }, [adminId, stats, searchAnalytics, snapshotsLoaded, isFetchingSearch, statsFetchedAfterMount, statsUpdatedAt, snapshots]);
+
+  const saveSnapshotNow = async () => {
+    if (!adminId || !stats) return;
+    if (snapshots.some(snapshot => snapshot.takenAt === statsUpdatedAt)) {
+      showToast('info', 'These numbers are already saved. Pull to refresh for new ones.');
+      return;
+    }
+    setSnapshots(await appendSnapshot(adminId, { takenAt: statsUpdatedAt, stats, search: searchAnalytics }));
+    showToast('success', 'Snapshot saved on this device');
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([refetchStats(), refetchSearch()]);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const baseline = snapshots.find(snapshot => snapshot.takenAt === baselineAt) ?? null;
+  const previous = baseline?.stats;
+
+  /* ---------- SECTIONS ---------- */
+
+  const renderStatsCharts = (current: AdminStats) => {
+    const otherRoles =
+      current.total_admins -
+      current.admins_employee -
+      current.admins_manager -
+      current.admins_super_admin;
+
+    return (
+      <>
+        <View style={styles.analyticsCard}>
+          <Text style={styles.analyticsCardTitle}>Active vs Inactive</Text>
+          <DonutChart
+            segments={[
+              {
+                label: 'Active',
+                value: current.active_admins,
+                previous: previous?.active_admins,
+                color: CHART_COLORS[2],
+              },
+              {
+                label: 'Inactive',
+                value: current.total_admins - current.active_admins,
+                previous: previous ? previous.total_admins - previous.active_admins : undefined,
+                color: CHART_COLORS[5],
+              },
+            ]}
+          />
+        </View>
+
+        <View style={styles.analyticsCard}>
+          <Text style={styles.analyticsCardTitle}>Role Split</Text>
+          <DonutChart
+            segments={[
+              {
+                label: 'Employee',
+                value: current.admins_employee,
+                previous: previous?.admins_employee,
+                color: CHART_COLORS[1],
+              },
+              {
+                label: 'Manager',
+                value: current.admins_manager,
+                previous: previous?.admins_manager,
+                color: CHART_COLORS[0],
+              },
+              {
+                label: 'Super Admin',
+                value: current.admins_super_admin,
+                previous: previous?.admins_super_admin,
+                color: CHART_COLORS[2],
+              },
+              ...(otherRoles > 0
+                ? [{ label: 'Other', value: otherRoles, color: CHART_COLORS[3] }]
+                : []),
+            ]}
+          />
+        </View>
+
+        <View style={styles.analyticsCard}>
+          <Text style={styles.analyticsCardTitle}>Reporting Lines</Text>
+          <DonutChart
+            segments={[
+              {
+                label: 'Has manager',
+                value: current.admins_with_reports_to,
+                previous: previous?.admins_with_reports_to,
+                color: CHART_COLORS[0],
+              },
+              {
+                label: 'No manager',
+                value: current.admins_without_reports_to,
+                previous: previous?.admins_without_reports_to,
+                color: CHART_COLORS[3],
+              },
+            ]}
+          />
+        </View>
+
+        <View style={styles.analyticsCard}>
+          <Text style={styles.analyticsCardTitle}>Admins Over Time</Text>
+          <TrendChart
+            width={CHART_WIDTH}
+            series={[
+              {
+                label: 'Total',
+                color: CHART_COLORS[0],
+                values: [...snapshots.map(s => s.stats.total_admins), current.total_admins],
+              },
+              {
+                label: 'Active',
+                color: CHART_COLORS[2],
+                values: [...snapshots.map(s => s.stats.active_admins), current.active_admins],
+              },
+            ]}
+          />
+        </View>
+      </>
+    );
+  };
+
+  const renderSearchAnalytics = () => {
+    if (isLoadingSearch) {
+      return <ActivityIndicator size="small" color="#8B5CF6" style={styles.loader} />;
+    }
+    if (searchError) {
+      return (
+        <Text style={styles.chartEmptyText}>
+          {(searchError as any)?.response?.data?.message || 'Search analytics are unavailable'}
+        </Text>
+      );
+    }
+
+    const { metrics, breakdowns } = extractSearchAnalytics(searchAnalytics);
+    const previousSearch = extractSearchAnalytics(baseline?.search);
+    const previousMetric = (key: string) =>
+      previousSearch.metrics.find(metric => metric.key === key)?.value;
+    const previousItem = (breakdownKey: string, label: string) =>
+      previousSearch.breakdowns
+        .find(breakdown => breakdown.key === breakdownKey)
+        ?.items.find(item => item.label === label)?.value;
+
+    if (metrics.length === 0 && breakdowns.length === 0) {
+      return <Text style={styles.chartEmptyText}>No search activity recorded yet</Text>;
+    }
+
+    return (
+      <>
+        {metrics.length > 0 && (
+          <View style={styles.analyticsMetricGrid}>
+            {metrics.map(metric => {
+              const delta = formatDelta(metric.value, previousMetric(metric.key));
+              return (
+                <View key={metric.key} style={styles.analyticsMetricTile}>
+                  <Text style={styles.analyticsMetricValue}>{metric.value}</Text>
+                  <Text style={styles.analyticsMetricLabel}>{metric.label}</Text>
+                  {delta && <Text style={styles.chartDeltaText}>{delta}</Text>}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {breakdowns.map((breakdown, index) => (
+          <View key={breakdown.key} style={styles.analyticsCard}>
+            <Text style={styles.analyticsCardTitle}>{breakdown.title}</Text>
+            <ComparisonBarChart
+              width={CHART_WIDTH}
+              color={CHART_COLORS[index % CHART_COLORS.length]}
+              items={breakdown.items.slice(0, 10).map(item => ({
+                ...item,
+                previous: previousItem(breakdown.key, item.label),
+              }))}
+            />
+          </View>
+        ))}
+      </>
+    );
+  };
+
+  /* ---------- RENDER ---------- */
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isTablet && styles.headerTablet, styles.orgHeader]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.orgHeaderButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color="#1E293B" />
+        </TouchableOpacity>
+        <View style={styles.orgHeaderContent}>
+          <Text style={[styles.title, isTablet && styles.titleTablet]}>Admin Analytics</Text>
+          <Text style={[styles.subtitle, isTablet && styles.subtitleTablet]}>
+            {baseline ? `Compared with ${formatSnapshotDate(baseline.takenAt)}` : 'No comparison selected'}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={saveSnapshotNow}
+          style={styles.orgHeaderButton}
+          disabled={!stats}
+        >
+          <MaterialCommunityIcons name="camera-plus-outline" size={24} color="#8B5CF6" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.analyticsContent, { padding: CONTENT_MARGIN }]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={['#8B5CF6']}
+            tintColor="#8B5CF6"
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Snapshot to compare against, newest first */}
+        {snapshots.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterChipRow}
+          >
+            <TouchableOpacity
+              style={[styles.filterOption, baselineAt === null && styles.filterOptionSelected]}
+              onPress={() => setBaselineAt(null)}
+            >
+              <Text style={[styles.filterOptionText, baselineAt === null && styles.filterOptionTextSelected]}>
+                No comparison
+              </Text>
+            </TouchableOpacity>
+            {[...snapshots].reverse().map(snapshot => (
+              <TouchableOpacity
+                key={snapshot.takenAt}
+                style={[styles.filterOption, baselineAt === snapshot.takenAt && styles.filterOptionSelected]}
+                onPress={() => setBaselineAt(snapshot.takenAt)}
+              >
+                <Text
+                  style={[
+                    styles.filterOptionText,
+                    baselineAt === snapshot.takenAt && styles.filterOptionTextSelected,
+                  ]}
+                >
+                  {formatSnapshotDate(snapshot.takenAt)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <Text style={styles.analyticsSectionTitle}>Admins</Text>
+        {isLoadingStats ? (
+          <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
+        ) : statsError || !stats ? (
+          <View style={styles.errorContainer}>
+            <MaterialCommunityIcons name="alert-circle-outline" size={48} color="#EF4444" />
+            <Text style={styles.errorText}>Failed to load admin stats</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={onRefresh}>
+              <MaterialCommunityIcons name="reload" size={20} color="#FFFFFF" />
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          renderStatsCharts(stats)
+        )}
+
+        <View style={styles.analyticsSectionHeader}>
+          <Text style={styles.analyticsSectionTitle}>Search</Text>
+          {stats && (
+            <View style={stats.search_enabled ? styles.activeBadge : styles.inactiveBadge}>
+              <Text style={stats.search_enabled ? styles.activeBadgeText : styles.inactiveBadgeText}>
+                {stats.search_enabled ? 'Search enabled' : 'Search disabled'}
+              </Text>
+            </View>
+          )}
+        </View>
+        {renderSearchAnalytics()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default AdminAnalyticsScreen;
@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { AuditEvent, AuditEventsResponse } from '@/types';
+import { fetchAllAdmins, fetchAllRoles, getNextPageOffset } from './paging';
+import {
+  AuditFilters,
+  AuditParty,
+  AUDIT_ACTIONS,
+  AUDIT_CATEGORIES,
+  AUDIT_RANGES,
+  DEFAULT_AUDIT_FILTERS,
+  toAuditQuery,
+  describeAuditDetail,
+  formatAuditEvent,
+  formatAuditDay,
+} from './auditLog';
+import AuditPartyPickerModal, { AuditPartyOption } from './components/AuditPartyPickerModal';
+
+// Styles
+import styles from './styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+type PickerKind = 'actor' | 'target';
+
+const AuditLogScreen = () => {
+  const navigation = useNavigation();
+  const [filters, setFilters] = useState<AuditFilters>(DEFAULT_AUDIT_FILTERS);
+  const [picker, setPicker] = useState<PickerKind | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['auditEvents', filters],
+    queryFn: async ({ pageParam }) => {
+      const response = await api.getAuditEvents(toAuditQuery(filters, pageParam));
+      return response.data as AuditEventsResponse;
+    },
+    initialPageParam: 0,
+    getNextPageParam: lastPage => getNextPageOffset(lastPage.data?.meta),
+  });
+
+  // Picker options load only once a picker is opened
+  const { data: admins = [], isLoading: isLoadingAdmins } = useQuery({
+    queryKey: ['allAdmins', 'complete'],
+    queryFn: fetchAllAdmins,
+    enabled: picker !== null,
+  });
+  const { data: roles = [], isLoading: isLoadingRoles } = useQuery({
+    queryKey: ['allRoles', 'complete'],
+    queryFn: fetchAllRoles,
+    enabled: picker === 'target',
+  });
+
+  const events = data?.pages.flatMap(page => page.data?.events || []) ?? [];
+  const total = data?.pages[data.pages.length - 1]?.data?.meta?.total ?? events.length;
+
+  const adminOptions: AuditPartyOption[] = admins.map(admin => ({
+    id: admin.admin_id,
+    name: admin.full_name,
+    subtitle: `@${admin.username} • ${admin.role_name}`,
+    icon: 'account',
+  }));
+  const roleOptions: AuditPartyOption[] = roles.map(role => ({
+    id: role.admin_role_id,
+    name: role.role_name,
+    subtitle: 'Role',
+    icon: 'shield-account',
+  }));
+
+  const setParty = (kind: PickerKind, party: AuditParty | null) => {
+    setFilters(prev => ({ ...prev, [kind]: party }));
+    setPicker(null);
+  };
+
+  const hasCustomFilters =
+    filters.actor !== null ||
+    filters.target !== null ||
+    filters.category !== DEFAULT_AUDIT_FILTERS.category ||
+    filters.range !== DEFAULT_AUDIT_FILTERS.range;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } catch (refreshError) {
+      console.error('Error refreshing audit log:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const showEvent = (event: AuditEvent) => {
+    Alert.alert('Audit Event', formatAuditEvent(event), [
+      { text: 'Close', style: 'cancel' },
+      {
+        text: 'Same actor',
+        onPress: () => setParty('actor', { id: event.actor_id, name: event.actor_name }),
+      },
+      {
+        text: 'Same target',
+        onPress: () => setParty('target', { id: event.target_id, name: event.target_name }),
+      },
+    ]);
+  };
+
+  /* ---------- FILTERS ---------- */
+
+  const renderPartyChip = (kind: PickerKind, label: string) => {
+    const party = filters[kind];
+    return (
+      <TouchableOpacity
+        style={[styles.filterChip, party && styles.filterChipActive]}
+        onPress={() => setPicker(kind)}
+      >
+        <MaterialCommunityIcons
+          name={kind === 'actor' ? 'account-arrow-right' : 'target-account'}
+          size={14}
+          color={party ? '#8B5CF6' : '#64748B'}
+        />
+        <Text style={[styles.filterChipText, party && styles.filterChipTextActive]} numberOfLines={1}>
+          {party ? `${label}: ${party.name}` : label}
+        </Text>
+        {party && (
+          <TouchableOpacity onPress={() => setParty(kind, null)} hitSlop={8}>
+            <MaterialCommunityIcons name="close-circle" size={14} color="#8B5CF6" />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFilters = () => (
+    <View style={styles.auditFilters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChipRow}>
+        {renderPartyChip('actor', 'Actor')}
+        {renderPartyChip('target', 'Target')}
+        {hasCustomFilters && (
+          <TouchableOpacity style={styles.filterChip} onPress={() => setFilters(DEFAULT_AUDIT_FILTERS)}>
+            <MaterialCommunityIcons name="filter-remove-outline" size={14} color="#64748B" />
+            <Text style={styles.filterChipText}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterOptionRow}>
+        {AUDIT_CATEGORIES.map(category => {
+          const isSelected = filters.category === category.value;
+          return (
+            <TouchableOpacity
+              key={category.value}
+              style={[styles.filterOption, isSelected && styles.filterOptionSelected]}
+              onPress={() => setFilters(prev => ({ ...prev, category: category.value }))}
+            >
+              <Text style={[styles.filterOptionText, isSelected && styles.filterOptionTextSelected]}>
+                {category.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterOptionRow}>
+        {AUDIT_RANGES.map(range => {
+          const isSelected = filters.range === range.value;
+          return (
+            <TouchableOpacity
+              key={range.value}
+              style={[styles.filterOption, isSelected && styles.filterOptionSelected]}
+              onPress={() => setFilters(prev => ({ ...prev, range: range.value }))}
+            >
+              <Text style={[styles.filterOptionText, isSelected && styles.filterOptionTextSelected]}>
+                {range.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  /* ---------- EVENTS ---------- */
+
+  const renderEvent = ({ item, index }: { item: AuditEvent; index: number }) => {
+    const info = AUDIT_ACTIONS[item.action];
+    const day = formatAuditDay(item.created_at);
+    const showDay = index === 0 || formatAuditDay(events[index - 1].created_at) !== day;
+    const detail = describeAuditDetail(item);
+
+    return (
+      <>
+        {showDay && <Text style={styles.auditDayHeader}>{day}</Text>}
+        <TouchableOpacity style={styles.auditEventRow} onPress={() => showEvent(item)}>
+          <View style={[styles.auditEventIcon, { backgroundColor: `${info?.color ?? '#64748B'}1A` }]}>
+            <MaterialCommunityIcons
+              name={info?.icon ?? 'history'}
+              size={18}
+              color={info?.color ?? '#64748B'}
+            />
+          </View>
+          <View style={styles.auditEventBody}>
+            <Text style={styles.auditEventText}>
+              <Text style={styles.auditEventName}>{item.actor_name}</Text>
+              {` ${info?.verb ?? item.action} `}
+              <Text style={styles.auditEventName}>{item.target_name}</Text>
+            </Text>
+            {detail && (
+              <Text style={styles.auditEventDetail} numberOfLines={2}>{detail}</Text>
+            )}
+          </View>
+          <Text style={styles.auditEventTime}>
+            {new Date(item.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />;
+    }
+    if (error) {
+      return (
+        <View style={styles.errorContainer}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={48} color="#EF4444" />
+          <Text style={styles.errorText}>
+            {(error as any)?.response?.data?.message || 'Failed to load the audit log'}
+          </Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+            <MaterialCommunityIcons name="reload" size={20} color="#FFFFFF" />
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.emptyContainer}>
+        <MaterialCommunityIcons name="clipboard-text-clock-outline" size={56} color="#CBD5E1" />
+        <Text style={styles.emptyText}>No actions match these filters</Text>
+      </View>
+    );
+  };
+
+  /* ---------- RENDER ---------- */
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isTablet && styles.headerTablet, styles.orgHeader]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.orgHeaderButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color="#1E293B" />
+        </TouchableOpacity>
+        <View style={styles.orgHeaderContent}>
+          <Text style={[styles.title, isTablet && styles.titleTablet]}>Audit Log</Text>
+          <Text style={[styles.subtitle, isTablet && styles.subtitleTablet]}>
+            {isLoading ? 'Loading…' : `${total} administrative actions`}
+          </Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={events}
+        renderItem={renderEvent}
+        keyExtractor={item => item.event_id}
+        ListHeaderComponent={renderFilters()}
+        ListEmptyComponent={renderEmpty()}
+        ListFooterComponent={
+          events.length > 0 ? (
+            <View style={styles.listFooter}>
+              {isFetchingNextPage && <ActivityIndicator size="small" color="#8B5CF6" />}
+              <Text style={styles.listFooterText}>
+                {events.length} of {total} loaded
+              </Text>
+            </View>
+          ) : null
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={[styles.rolesList, isTablet && styles.rolesListTablet]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={['#8B5CF6']}
+            tintColor="#8B5CF6"
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+
+      <AuditPartyPickerModal
+        visible={picker !== null}
+        title={picker === 'actor' ? 'Filter by actor' : 'Filter by target'}
+        options={picker === 'target' ? [...adminOptions, ...roleOptions] : adminOptions}
+        isLoading={isLoadingAdmins || (picker === 'target' && isLoadingRoles)}
+        selectedId={picker ? filters[picker]?.id ?? null : null}
+        onSelect={party => picker && setParty(picker, party)}
+        onClose={() => setPicker(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default AuditLogScreen;
@@ -5,7 +5,6 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  TextInput,
   Alert,
   ActivityIndicator,
   Modal,
@@ -14,11 +13,16 @@ import {
   RefreshControl,
   Platform,
 } from 'react-native';
+import { IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
+import { useOutbox } from '@/contexts/OutboxContext';
+import Can, { usePermissionChecker, useScreenAccess } from '@/components/Can';
+import { PERMISSIONS } from '@/services/permissions';
 import { api } from '@/services/api';
 import {
   Role,
@@ -34,8 +38,12 @@ import {
   CreateAdminRequest,
   UpdateAdminRequest,
   AdminStats,
-  AdminHierarchy,
   AdminPhoneInfo,
+  AdminsResponse,
+  RoleResponse,
+  AdminSearchResponse,
+  AdminSuggestion,
+  AdminSuggestionsResponse,
 } from '@/types';
 
 // Components
@@ -50,27 +58,90 @@ import AdminDetailsModal from './components/AdminDetailsModal';
 import PhoneChangeModal from './components/PhoneChangeModal';
 import MPINChangeModal from './components/MPINChangeModal';
 import ReportsToModal from './components/ReportsToModal';
+import PendingChangesBanner from './components/PendingChangesBanner';
+import AdminSearchPanel from './components/AdminSearchPanel';
+import BulkActionModal from './components/BulkActionModal';
+import AdminImportModal from './components/AdminImportModal';
+import ExportModal from './components/ExportModal';
 
 // Styles
 import styles from './styles';
+import {
+  LIST_PAGE_SIZE,
+  getNextPageOffset,
+  flattenAdminPages,
+  flattenRolePages,
+  getPagedTotal,
+} from './paging';
+import {
+  AdminSearchFilters,
+  AdminSearchRequest,
+  SavedAdminSearch,
+  EMPTY_SEARCH_FILTERS,
+  hasActiveFilters,
+  applyClientFilters,
+  sortByRelevance,
+  runAdminSearch,
+  describeSearch,
+  loadSavedSearches,
+  addSavedSearch,
+  removeSavedSearch,
+} from './adminSearch';
+import { BulkAdminActionType, BulkItemResult, BULK_ACTION_LABELS } from './bulkAdminOps';
+import { ExportTarget } from './dataExport';
+import { RoleDraft, roleDetailsToDraft } from './roleTemplates';
+import { ROLE_UNDO_WINDOW_MS } from './roleChanges';
 
 const { width } = Dimensions.get('window');
 const isTablet = width >= 768;
 const isLargeTablet = width >= 1024;
 
+// Type-ahead waits for a pause in typing and at least this many characters
+const SUGGESTION_DEBOUNCE_MS = 300;
+const MIN_SUGGESTION_LENGTH = 2;
+
+const ROLE_EXPORT_TARGETS: ExportTarget[] = ['roles', 'matrix'];
+const ADMIN_EXPORT_TARGETS: ExportTarget[] = ['admins'];
+
 // Main Company Management Screen Component
 const CompanyManagementScreen = () => {
+  const navigation = useNavigation<any>();
   const { adminId } = useAuth();
   const { showToast } = useToast();
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
+  const can = usePermissionChecker();
+
+  // Actions the signed-in admin is allowed to perform
+  const canCreateRole = can(PERMISSIONS.ROLE_CREATE);
+  const canUpdateRole = can(PERMISSIONS.ROLE_UPDATE);
+  const canDeleteRole = can(PERMISSIONS.ROLE_DELETE);
+  const canCreateAdmin = can(PERMISSIONS.ADMIN_CREATE);
+  const canUpdateAdmin = can(PERMISSIONS.ADMIN_UPDATE);
+  const canDeleteAdmin = can(PERMISSIONS.ADMIN_DELETE);
+  const canToggleAdminStatus = can(PERMISSIONS.ADMIN_ACTIVATE);
+  const canChangeAdminPhone = can(PERMISSIONS.ADMIN_CHANGE_PHONE);
+  const canResetAdminMPIN = can(PERMISSIONS.ADMIN_RESET_MPIN);
+  const canUpdateReportsTo = can(PERMISSIONS.ADMIN_UPDATE_REPORTS_TO);
+  const canViewPhone = can(PERMISSIONS.ADMIN_VIEW_PHONE);
+  const canViewAnalytics = useScreenAccess('AdminAnalytics');
+  const canViewRoleMatrix = useScreenAccess('RoleMatrix');
+  const canBulkEdit = canToggleAdminStatus || canDeleteAdmin || canUpdateAdmin || canUpdateReportsTo;
 
   const [activeTab, setActiveTab] = useState<'roles' | 'admins'>('roles');
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<AdminSearchFilters>(EMPTY_SEARCH_FILTERS);
+  // Search currently shown in the admins tab; null shows the paged list
+  const [activeSearch, setActiveSearch] = useState<AdminSearchRequest | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedAdminSearch[]>([]);
   const [selectedRoleType, setSelectedRoleType] = useState<'all' | 'employee' | 'manager' | 'super_admin'>('all');
   const [selectedAdminType, setSelectedAdminType] = useState<'all' | 'employee' | 'manager' | 'super_admin'>('all');
+  const canCreate = activeTab === 'roles' ? canCreateRole : canCreateAdmin;
   
   // Role Modals
   const [isCreateRoleModalVisible, setCreateRoleModalVisible] = useState(false);
+  const [createRoleDraft, setCreateRoleDraft] = useState<RoleDraft | null>(null);
   const [isUpdateRoleModalVisible, setIsUpdateRoleModalVisible] = useState(false);
   const [isRoleDetailsModalVisible, setIsRoleDetailsModalVisible] = useState(false);
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
@@ -83,6 +154,8 @@ const CompanyManagementScreen = () => {
   const [isPhoneModalVisible, setIsPhoneModalVisible] = useState(false);
   const [isMPINModalVisible, setIsMPINModalVisible] = useState(false);
   const [isReportsToModalVisible, setIsReportsToModalVisible] = useState(false);
+  const [isImportModalVisible, setIsImportModalVisible] = useState(false);
+  const [isExportModalVisible, setIsExportModalVisible] = useState(false);
   const [selectedAdmin, setSelectedAdmin] = useState<Admin | null>(null);
   const [selectedAdminDetails, setSelectedAdminDetails] = useState<AdminDetails | null>(null);
   const [selectedAdminPhone, setSelectedAdminPhone] = useState<AdminPhoneInfo | null>(null);
@@ -93,36 +166,55 @@ const CompanyManagementScreen = () => {
   const [loadingAdminDetails, setLoadingAdminDetails] = useState(false);
   const [availableDepartments, setAvailableDepartments] = useState<Department[]>([]);
   const [adminStats, setAdminStats] = useState<AdminStats | null>(null);
-  const [adminHierarchy, setAdminHierarchy] = useState<AdminHierarchy[]>([]);
 
-  // Fetch all roles
+  // Bulk selection; admins are kept by id so selections survive paging and search
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedAdmins, setSelectedAdmins] = useState<Map<string, Admin>>(new Map());
+  const [bulkAction, setBulkAction] = useState<BulkAdminActionType | null>(null);
+  // Fixed when the action starts, so the report is unaffected by selection changes
+  const [bulkTargets, setBulkTargets] = useState<Admin[]>([]);
+
+  // Fetch roles page by page
   const {
     data: rolesData,
     isLoading: isLoadingRoles,
     error: rolesError,
     refetch: refetchRoles,
-  } = useQuery({
+    fetchNextPage: fetchNextRoles,
+    hasNextPage: hasMoreRoles,
+    isFetchingNextPage: isFetchingMoreRoles,
+  } = useInfiniteQuery({
     queryKey: ['allRoles'],
-    queryFn: async () => {
-      const response = await api.getAllRoles({ limit: 100, offset: 0 });
-      return response.data;
+    queryFn: async ({ pageParam }) => {
+      const response = await api.getAllRoles({ limit: LIST_PAGE_SIZE, offset: pageParam });
+      return response.data as RoleResponse;
     },
+    initialPageParam: 0,
+    getNextPageParam: lastPage => getNextPageOffset(lastPage.data?.meta),
   });
 
-  // Fetch all admins
+  // Fetch admins page by page
   const {
     data: adminsData,
     isLoading: isLoadingAdmins,
     error: adminsError,
     refetch: refetchAdmins,
-  } = useQuery({
+    fetchNextPage: fetchNextAdmins,
+    hasNextPage: hasMoreAdmins,
+    isFetchingNextPage: isFetchingMoreAdmins,
+  } = useInfiniteQuery({
     queryKey: ['allAdmins'],
-    queryFn: async () => {
-      const response = await api.getAllAdmins({ limit: 100, offset: 0 });
-      return response.data;
+    queryFn: async ({ pageParam }) => {
+      const response = await api.getAllAdmins({ limit: LIST_PAGE_SIZE, offset: pageParam });
+      return response.data as AdminsResponse;
     },
+    initialPageParam: 0,
+    getNextPageParam: lastPage => getNextPageOffset(lastPage.data?.meta),
   });
 
+  const loadedRoles = flattenRolePages(rolesData);
+  const loadedAdmins = flattenAdminPages(adminsData);
+
   // Fetch admin stats
   const {
     data: statsData,
@@ -141,15 +233,47 @@ const CompanyManagementScreen = () => {
     isLoading: isLoadingSearch,
     refetch: refetchSearch,
   } = useQuery({
-    queryKey: ['searchAdmins', searchQuery],
+    queryKey: ['searchAdmins', activeSearch],
     queryFn: async () => {
-      if (!searchQuery.trim()) return null;
-      const response = await api.searchAdmins(searchQuery, { limit: 50, offset: 0 });
-      return response.data;
+      const response = await runAdminSearch(activeSearch as AdminSearchRequest);
+      return response.data as AdminSearchResponse;
     },
-    enabled: false,
+    enabled: activeTab === 'admins' && !!activeSearch,
   });
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SUGGESTION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Suggestions are hidden once the typed text has been searched
+  const wantsSuggestions =
+    activeTab === 'admins' &&
+    debouncedQuery.length >= MIN_SUGGESTION_LENGTH &&
+    debouncedQuery === searchQuery.trim() &&
+    debouncedQuery !== activeSearch?.query;
+
+  // Fetch type-ahead suggestions
+  const {
+    data: suggestionsData,
+    isFetching: isLoadingSuggestions,
+  } = useQuery({
+    queryKey: ['adminSuggestions', debouncedQuery],
+    queryFn: async () => {
+      const response = await api.getAdminSuggestions(debouncedQuery, 8);
+      return response.data as AdminSuggestionsResponse;
+    },
+    enabled: wantsSuggestions,
+    staleTime: 60 * 1000,
+  });
+
+  const suggestions = suggestionsData?.data?.suggestions || [];
+
+  useEffect(() => {
+    if (!adminId) return;
+    loadSavedSearches(adminId).then(setSavedSearches);
+  }, [adminId]);
+
   // Fetch available managers for admin management
   const {
     data: availableManagersData,
@@ -189,15 +313,29 @@ const CompanyManagementScreen = () => {
     }
   }, [statsData]);
 
+  // Names used to label changes queued while offline
+  const adminName = (id: string) =>
+    loadedAdmins.find(a => a.admin_id === id)?.full_name || 'admin';
+  const roleName = (id: string) =>
+    loadedRoles.find(r => r.admin_role_id === id)?.role_name || 'role';
+
+  const notifyQueued = () =>
+    showToast('info', 'You are offline. The change will sync when you reconnect');
+
   // Create employee role mutation
   const createEmployeeRoleMutation = useMutation({
+    // Runs offline too: outbox.submit decides whether to send or queue,
+    // and the default 'online' mode would pause it before it got the chance
+    networkMode: 'always',
     mutationFn: (roleData: CreateEmployeeRoleRequest) =>
-      api.createEmployeeRole(roleData),
-    onSuccess: (response) => {
+      outbox.submit('createEmployeeRole', roleData, `Create role "${roleData.role_name}"`),
+    onSuccess: (result) => {
+      setCreateRoleModalVisible(false);
+      setCreateRoleDraft(null);
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allRoles'] });
       queryClient.invalidateQueries({ queryKey: ['employeeRoles'] });
-      setCreateRoleModalVisible(false);
-      showToast('success', response.data?.message || 'Employee role created successfully');
+      showToast('success', result.response.data?.message || 'Employee role created successfully');
     },
     onError: (error: any) => {
       console.error('Create role error:', error);
@@ -215,13 +353,16 @@ const CompanyManagementScreen = () => {
 
   // Create manager role mutation
   const createManagerRoleMutation = useMutation({
+    networkMode: 'always',
     mutationFn: (roleData: CreateManagerRoleRequest) =>
-      api.createManagerRole(roleData),
-    onSuccess: (response) => {
+      outbox.submit('createManagerRole', roleData, `Create role "${roleData.role_name}"`),
+    onSuccess: (result) => {
+      setCreateRoleModalVisible(false);
+      setCreateRoleDraft(null);
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allRoles'] });
       queryClient.invalidateQueries({ queryKey: ['managerRoles'] });
-      setCreateRoleModalVisible(false);
-      showToast('success', response.data?.message || 'Manager role created successfully');
+      showToast('success', result.response.data?.message || 'Manager role created successfully');
     },
     onError: (error: any) => {
       console.error('Create manager role error:', error);
@@ -238,14 +379,24 @@ const CompanyManagementScreen = () => {
   });
 
   // Update role mutation
+  // `undo` is set for edits made in the update modal; the undo itself has none
   const updateRoleMutation = useMutation({
-    mutationFn: ({ roleId, data }: { roleId: string; data: UpdateRoleRequest }) =>
-      api.updateRole(roleId, data),
-    onSuccess: (response, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['allRoles'] });
+    networkMode: 'always',
+    mutationFn: ({ roleId, data }: { roleId: string; data: UpdateRoleRequest; undo?: UpdateRoleRequest }) =>
+      outbox.submit('updateRole', { roleId, data }, `Update role "${roleName(roleId)}"`),
+    onSuccess: (result, { roleId, undo }) => {
       setIsUpdateRoleModalVisible(false);
       setSelectedRole(null);
-      showToast('success', response.data?.message || 'Role updated successfully');
+      if (result.queued) return notifyQueued();
+      queryClient.invalidateQueries({ queryKey: ['allRoles'] });
+      queryClient.invalidateQueries({ queryKey: ['roleDetails', roleId] });
+      queryClient.invalidateQueries({ queryKey: ['roleAdminCount', roleId] });
+      const message = result.response.data?.message || 'Role updated successfully';
+      if (!undo) return showToast('success', message);
+      showToast('success', message, ROLE_UNDO_WINDOW_MS, {
+        label: 'Undo',
+        onPress: () => updateRoleMutation.mutate({ roleId, data: undo }),
+      });
     },
     onError: (error: any) => {
       console.error('Update role error:', error);
@@ -263,10 +414,13 @@ const CompanyManagementScreen = () => {
 
   // Delete role mutation
   const deleteRoleMutation = useMutation({
-    mutationFn: (roleId: string) => api.deleteRole(roleId),
-    onSuccess: (response, roleId) => {
+    networkMode: 'always',
+    mutationFn: (roleId: string) =>
+      outbox.submit('deleteRole', { roleId }, `Delete role "${roleName(roleId)}"`),
+    onSuccess: (result) => {
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allRoles'] });
-      showToast('success', response.data?.message || 'Role deleted successfully');
+      showToast('success', result.response.data?.message || 'Role deleted successfully');
     },
     onError: (error: any) => {
       console.error('Delete role error:', error);
@@ -286,13 +440,15 @@ const CompanyManagementScreen = () => {
 
   // Create admin mutation
   const createAdminMutation = useMutation({
+    networkMode: 'always',
     mutationFn: (adminData: CreateAdminRequest) =>
-      api.createAdmin(adminData),
-    onSuccess: (response) => {
+      outbox.submit('createAdmin', adminData, `Create admin "${adminData.full_name}"`),
+    onSuccess: (result) => {
+      setCreateAdminModalVisible(false);
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
       queryClient.invalidateQueries({ queryKey: ['adminStats'] });
-      setCreateAdminModalVisible(false);
-      showToast('success', response.data?.message || 'Admin created successfully');
+      showToast('success', result.response.data?.message || 'Admin created successfully');
     },
     onError: (error: any) => {
       console.error('Create admin error:', error);
@@ -310,13 +466,15 @@ const CompanyManagementScreen = () => {
 
   // Update admin mutation
   const updateAdminMutation = useMutation({
+    networkMode: 'always',
     mutationFn: ({ adminId, data }: { adminId: string; data: UpdateAdminRequest }) =>
-      api.updateAdmin(adminId, data),
-    onSuccess: (response, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
+      outbox.submit('updateAdmin', { adminId, data }, `Update "${adminName(adminId)}"`),
+    onSuccess: (result) => {
       setIsUpdateAdminModalVisible(false);
       setSelectedAdmin(null);
-      showToast('success', response.data?.message || 'Admin updated successfully');
+      if (result.queued) return notifyQueued();
+      queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
+      showToast('success', result.response.data?.message || 'Admin updated successfully');
     },
     onError: (error: any) => {
       console.error('Update admin error:', error);
@@ -326,11 +484,14 @@ const CompanyManagementScreen = () => {
 
   // Delete admin mutation
   const deleteAdminMutation = useMutation({
-    mutationFn: (adminId: string) => api.deleteAdmin(adminId),
-    onSuccess: (response, adminId) => {
+    networkMode: 'always',
+    mutationFn: (adminId: string) =>
+      outbox.submit('deleteAdmin', { adminId }, `Delete "${adminName(adminId)}"`),
+    onSuccess: (result) => {
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
       queryClient.invalidateQueries({ queryKey: ['adminStats'] });
-      showToast('success', response.data?.message || 'Admin deleted successfully');
+      showToast('success', result.response.data?.message || 'Admin deleted successfully');
     },
     onError: (error: any) => {
       console.error('Delete admin error:', error);
@@ -340,11 +501,14 @@ const CompanyManagementScreen = () => {
 
   // Activate admin mutation
   const activateAdminMutation = useMutation({
-    mutationFn: (adminId: string) => api.activateAdmin(adminId),
-    onSuccess: (response, adminId) => {
+    networkMode: 'always',
+    mutationFn: (adminId: string) =>
+      outbox.submit('activateAdmin', { adminId }, `Activate "${adminName(adminId)}"`),
+    onSuccess: (result) => {
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
       queryClient.invalidateQueries({ queryKey: ['adminStats'] });
-      showToast('success', response.data?.message || 'Admin activated successfully');
+      showToast('success', result.response.data?.message || 'Admin activated successfully');
     },
     onError: (error: any) => {
       console.error('Activate admin error:', error);
@@ -354,11 +518,14 @@ const CompanyManagementScreen = () => {
 
   // Deactivate admin mutation
   const deactivateAdminMutation = useMutation({
-    mutationFn: (adminId: string) => api.deactivateAdmin(adminId),
-    onSuccess: (response, adminId) => {
+    networkMode: 'always',
+    mutationFn: (adminId: string) =>
+      outbox.submit('deactivateAdmin', { adminId }, `Deactivate "${adminName(adminId)}"`),
+    onSuccess: (result) => {
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
       queryClient.invalidateQueries({ queryKey: ['adminStats'] });
-      showToast('success', response.data?.message || 'Admin deactivated successfully');
+      showToast('success', result.response.data?.message || 'Admin deactivated successfully');
     },
     onError: (error: any) => {
       console.error('Deactivate admin error:', error);
@@ -397,13 +564,20 @@ const CompanyManagementScreen = () => {
 
   // Update reports to mutation
   const updateReportsToMutation = useMutation({
+    networkMode: 'always',
     mutationFn: ({ adminId, reportsTo }: { adminId: string; reportsTo: string }) =>
-      api.updateAdminReportsTo(adminId, reportsTo),
-    onSuccess: (response, variables) => {
+      outbox.submit(
+        'updateAdminReportsTo',
+        { adminId, reportsTo },
+        `Change manager of "${adminName(adminId)}"`
+      ),
+    onSuccess: (result) => {
+      setIsReportsToModalVisible(false);
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
       queryClient.invalidateQueries({ queryKey: ['availableManagers'] });
-      setIsReportsToModalVisible(false);
-      showToast('success', response.data?.message || 'Reports to updated successfully');
+      queryClient.invalidateQueries({ queryKey: ['adminHierarchy'] });
+      showToast('success', result.response.data?.message || 'Reports to updated successfully');
     },
     onError: (error: any) => {
       console.error('Update reports to error:', error);
@@ -427,6 +601,21 @@ const CompanyManagementScreen = () => {
     }
   };
 
+  // Clone role: the create modal is pre-filled from the source role's details
+  const handleCloneRole = async (role: Role) => {
+    setLoadingRoleDetails(true);
+    try {
+      const response = await api.getRoleDetails(role.admin_role_id);
+      setCreateRoleDraft(roleDetailsToDraft(response.data.data));
+      setCreateRoleModalVisible(true);
+    } catch (error: any) {
+      console.error('Error loading role to clone:', error);
+      showToast('error', error.response?.data?.message || 'Failed to load role details');
+    } finally {
+      setLoadingRoleDetails(false);
+    }
+  };
+
   // Fetch admin details
   const fetchAdminDetails = async (admin: Admin) => {
     setLoadingAdminDetails(true);
@@ -459,18 +648,12 @@ const CompanyManagementScreen = () => {
   // };
 
   // Fetch admin hierarchy
-  const fetchAdminHierarchy = async (admin: Admin) => {
-    try {
-      const response = await api.getAdminHierarchy(admin.admin_id);
-      const data = response.data;
-      setAdminHierarchy(data.data);
-      setSelectedAdmin(admin);
-      // Show hierarchy modal (you can create this modal if needed)
-      Alert.alert('Hierarchy', 'Hierarchy data loaded. You can create a modal to display this.');
-    } catch (error: any) {
-      console.error('Error fetching admin hierarchy:', error);
-      showToast('error', error.response?.data?.message || 'Failed to load hierarchy');
-    }
+  // The org chart screen loads the hierarchy itself
+  const openAdminHierarchy = (admin: Admin) => {
+    setIsAdminDetailsModalVisible(false);
+    setSelectedAdminDetails(null);
+    setSelectedAdmin(null);
+    navigation.navigate('OrgChart', { adminId: admin.admin_id });
   };
 
   // Role Handlers
@@ -480,6 +663,10 @@ const CompanyManagementScreen = () => {
   };
 
   const handleEditRole = (role: Role) => {
+    if (!canUpdateRole) {
+      showToast('error', 'You do not have permission to edit roles');
+      return;
+    }
     if (role.is_system_role) {
       showToast('error', 'System roles cannot be edited');
       return;
@@ -489,6 +676,10 @@ const CompanyManagementScreen = () => {
   };
 
   const handleDeleteRole = (role: Role) => {
+    if (!canDeleteRole) {
+      showToast('error', 'You do not have permission to delete roles');
+      return;
+    }
     if (role.is_system_role) {
       showToast('error', 'System roles cannot be deleted');
       return;
@@ -508,8 +699,8 @@ const CompanyManagementScreen = () => {
     );
   };
 
-  const handleUpdateRole = (roleId: string, data: UpdateRoleRequest) => {
-    updateRoleMutation.mutate({ roleId, data });
+  const handleUpdateRole = (roleId: string, data: UpdateRoleRequest, undo: UpdateRoleRequest) => {
+    updateRoleMutation.mutate({ roleId, data, undo });
   };
 
   const handleCreateRole = (roleType: 'employee' | 'manager', data: any) => {
@@ -526,11 +717,19 @@ const CompanyManagementScreen = () => {
   };
 
   const handleEditAdmin = (admin: Admin) => {
+    if (!canUpdateAdmin) {
+      showToast('error', 'You do not have permission to edit admins');
+      return;
+    }
     setSelectedAdmin(admin);
     setIsUpdateAdminModalVisible(true);
   };
 
   const handleDeleteAdmin = (admin: Admin) => {
+    if (!canDeleteAdmin) {
+      showToast('error', 'You do not have permission to delete admins');
+      return;
+    }
     Alert.alert(
       'Delete Admin',
       `Are you sure you want to delete "${admin.full_name}"? This action cannot be undone.`,
@@ -546,6 +745,10 @@ const CompanyManagementScreen = () => {
   };
 
   const handleToggleAdminStatus = (admin: Admin) => {
+    if (!canToggleAdminStatus) {
+      showToast('error', 'You do not have permission to change admin status');
+      return;
+    }
     if (admin.is_active) {
       Alert.alert(
         'Deactivate Admin',
@@ -576,6 +779,10 @@ const CompanyManagementScreen = () => {
   };
 
   const handleChangePhone = async (admin: Admin) => {
+    if (!canChangeAdminPhone) {
+      showToast('error', 'You do not have permission to change phone numbers');
+      return;
+    }
     try {
       setSelectedAdmin(admin);
       setSelectedAdminPhone(null); // reset old state
@@ -596,11 +803,19 @@ const CompanyManagementScreen = () => {
   };
   
   const handleChangeMPIN = (admin: Admin) => {
+    if (!canResetAdminMPIN) {
+      showToast('error', 'You do not have permission to reset MPINs');
+      return;
+    }
     setSelectedAdmin(admin);
     setIsMPINModalVisible(true);
   };
 
   const handleUpdateReportsTo = (admin: Admin) => {
+    if (!canUpdateReportsTo) {
+      showToast('error', 'You do not have permission to change reporting lines');
+      return;
+    }
     setSelectedAdmin(admin);
     setIsReportsToModalVisible(true);
   };
@@ -616,12 +831,56 @@ const CompanyManagementScreen = () => {
     updateAdminMutation.mutate({ adminId, data });
   };
 
+  // Server-side search runs whenever there is text or a filter to apply
+  const runSearch = (query: string, filters: AdminSearchFilters, byName?: boolean) => {
+    if (!query && !hasActiveFilters(filters)) {
+      setActiveSearch(null);
+      return;
+    }
+    setActiveSearch(byName ? { query, filters, byName } : { query, filters });
+  };
+
   const handleSearch = () => {
-    if (searchQuery.trim() && activeTab === 'admins') {
-      refetchSearch();
+    if (activeTab === 'admins') {
+      runSearch(searchQuery.trim(), searchFilters);
+    }
+  };
+
+  const handleSearchChange = (text: string) => {
+    setSearchQuery(text);
+    if (!text.trim() && activeTab === 'admins') {
+      runSearch('', searchFilters);
     }
   };
 
+  const handleSelectSuggestion = (suggestion: AdminSuggestion) => {
+    setSearchQuery(suggestion.full_name);
+    runSearch(suggestion.full_name, searchFilters, true);
+  };
+
+  const handleChangeSearchFilters = (filters: AdminSearchFilters) => {
+    setSearchFilters(filters);
+    runSearch(searchQuery.trim(), filters);
+  };
+
+  const handleSaveSearch = async () => {
+    if (!adminId || !activeSearch) return;
+    const label = describeSearch(activeSearch, roleName);
+    setSavedSearches(await addSavedSearch(adminId, label, activeSearch));
+    showToast('success', 'Search saved');
+  };
+
+  const handleApplySavedSearch = (search: SavedAdminSearch) => {
+    setSearchQuery(search.request.query);
+    setSearchFilters(search.request.filters);
+    setActiveSearch(search.request);
+  };
+
+  const handleDeleteSavedSearch = async (search: SavedAdminSearch) => {
+    if (!adminId) return;
+    setSavedSearches(await removeSavedSearch(adminId, search.id));
+  };
+
   // Filter functions
   const filterRolesByType = (roles: Role[]) => {
     if (selectedRoleType === 'all') return roles;
@@ -640,22 +899,37 @@ const CompanyManagementScreen = () => {
   };
 
   // Data for display
-  const rolesToDisplay = filterRolesByType(rolesData?.data?.roles || []);
-  const adminsToDisplay = searchQuery.trim() && searchResults?.data?.results
-    ? filterAdminsByType(searchResults.data.results)
-    : filterAdminsByType(adminsData?.data?.admins || []);
+  const isSearchingAdmins = !!activeSearch && !!searchResults?.data?.results;
+  const rolesToDisplay = filterRolesByType(loadedRoles);
+  const adminsToDisplay = isSearchingAdmins && activeSearch && searchResults
+    ? filterAdminsByType(
+        sortByRelevance(applyClientFilters(searchResults.data.results, activeSearch.filters))
+      )
+    : filterAdminsByType(loadedAdmins);
 
   // Statistics
-  const totalRoles = rolesData?.data?.roles?.length || 0;
-  const employeeRoles =
-  rolesData?.data?.roles?.filter((r: Role) => r.role_type === 1).length || 0;
+  // Totals come from the server. The server has no per-type role totals, so
+  // those count the pages loaded so far and show "+" while more remain.
+  const totalRoles = getPagedTotal(rolesData, loadedRoles.length);
+  const totalAdmins = getPagedTotal(adminsData, loadedAdmins.length);
+  const loadedRoleCount = (roleType: number) => {
+    const count = loadedRoles.filter(r => r.role_type === roleType).length;
+    return hasMoreRoles ? `${count}+` : `${count}`;
+  };
+  const employeeRoles = loadedRoleCount(1);
+  const managerRoles = loadedRoleCount(2);
+  const superAdminRoles = loadedRoleCount(4);
 
-const managerRoles =
-  rolesData?.data?.roles?.filter((r: Role) => r.role_type === 2).length || 0;
   const updateAdminRoleMutation = useMutation({
+    networkMode: 'always',
     mutationFn: ({ adminId, newRoleId }: { adminId: string; newRoleId: string }) =>
-      api.updateAdminRole(adminId, newRoleId),
-    onSuccess: () => {
+      outbox.submit(
+        'updateAdminRole',
+        { adminId, roleId: newRoleId },
+        `Change role of "${adminName(adminId)}" to "${roleName(newRoleId)}"`
+      ),
+    onSuccess: (result) => {
+      if (result.queued) return notifyQueued();
       queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
       showToast('success', 'Admin role updated successfully');
     },
@@ -672,9 +946,6 @@ const managerRoles =
   ) => {
     await updateAdminRoleMutation.mutateAsync({ adminId, newRoleId });
   };
-    
-const superAdminRoles =
-  rolesData?.data?.roles?.filter((r: Role) => r.role_type === 4).length || 0;
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -688,7 +959,7 @@ const superAdminRoles =
           refetchStats(),
           refetchAvailableManagers(),
         ]);
-        if (searchQuery.trim()) {
+        if (activeSearch) {
           await refetchSearch();
         }
       }
@@ -704,8 +975,10 @@ const superAdminRoles =
     <RoleCard
       role={item}
       onView={() => handleRoleClick(item)}
-      onEdit={() => handleEditRole(item)}
-      onDelete={() => handleDeleteRole(item)}
+      onEdit={canUpdateRole ? () => handleEditRole(item) : undefined}
+      onDelete={canDeleteRole ? () => handleDeleteRole(item) : undefined}
+      onClone={canCreateRole ? () => handleCloneRole(item) : undefined}
+      pendingChanges={outbox.getEntriesFor('role', item.admin_role_id)}
       loadingRoleDetails={loadingRoleDetails}
       isTablet={isTablet}
       isLargeTablet={isLargeTablet}
@@ -716,18 +989,195 @@ const superAdminRoles =
     <AdminCard
       admin={item}
       onView={() => handleAdminClick(item)}
-      onEdit={() => handleEditAdmin(item)}
-      onDelete={() => handleDeleteAdmin(item)}
-      onToggleStatus={() => handleToggleAdminStatus(item)}
-      onChangePhone={() => handleChangePhone(item)}
-      onChangeMPIN={() => handleChangeMPIN(item)}
-      onUpdateReportsTo={() => handleUpdateReportsTo(item)}
+      onEdit={canUpdateAdmin ? () => handleEditAdmin(item) : undefined}
+      onDelete={canDeleteAdmin ? () => handleDeleteAdmin(item) : undefined}
+      onToggleStatus={canToggleAdminStatus ? () => handleToggleAdminStatus(item) : undefined}
+      onChangePhone={canChangeAdminPhone ? () => handleChangePhone(item) : undefined}
+      onChangeMPIN={canResetAdminMPIN ? () => handleChangeMPIN(item) : undefined}
+      onUpdateReportsTo={canUpdateReportsTo ? () => handleUpdateReportsTo(item) : undefined}
+      pendingChanges={outbox.getEntriesFor('admin', item.admin_id)}
+      searchQuery={isSearchingAdmins ? activeSearch?.query : undefined}
+      selectionMode={selectionMode && item.admin_id !== adminId}
+      selected={selectedAdmins.has(item.admin_id)}
+      onToggleSelect={() => toggleAdminSelection(item)}
       loadingAdminDetails={loadingAdminDetails}
       isTablet={isTablet}
       isLargeTablet={isLargeTablet}
     />
   );
 
+  // Bulk selection
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedAdmins(new Map());
+  };
+
+  const toggleAdminSelection = (admin: Admin) => {
+    setSelectedAdmins(prev => {
+      const next = new Map(prev);
+      if (next.has(admin.admin_id)) {
+        next.delete(admin.admin_id);
+      } else {
+        next.set(admin.admin_id, admin);
+      }
+      return next;
+    });
+  };
+
+  // The signed-in admin is never part of a bulk change
+  const selectableAdmins = adminsToDisplay.filter(admin => admin.admin_id !== adminId);
+  const allVisibleSelected =
+    selectableAdmins.length > 0 && selectableAdmins.every(admin => selectedAdmins.has(admin.admin_id));
+
+  const toggleSelectAllVisible = () => {
+    setSelectedAdmins(prev => {
+      const next = new Map(prev);
+      selectableAdmins.forEach(admin =>
+        allVisibleSelected ? next.delete(admin.admin_id) : next.set(admin.admin_id, admin)
+      );
+      return next;
+    });
+  };
+
+  const handleBulkFinished = (results: BulkItemResult[]) => {
+    const succeededIds = results
+      .filter(result => result.status === 'succeeded')
+      .map(result => result.adminId);
+    if (succeededIds.length === 0) return;
+
+    // Failed admins stay selected so they can be retried from the list as well
+    setSelectedAdmins(prev => {
+      const next = new Map(prev);
+      succeededIds.forEach(id => next.delete(id));
+      return next;
+    });
+    queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
+    queryClient.invalidateQueries({ queryKey: ['adminStats'] });
+    queryClient.invalidateQueries({ queryKey: ['availableManagers'] });
+    queryClient.invalidateQueries({ queryKey: ['adminHierarchy'] });
+    if (activeSearch) {
+      queryClient.invalidateQueries({ queryKey: ['searchAdmins'] });
+    }
+  };
+
+  const renderSelectionToolbar = () => {
+    if (!canBulkEdit) return null;
+
+    return (
+      <View style={styles.bulkToolbar}>
+        <TouchableOpacity
+          style={[styles.bulkToolbarButton, selectionMode && styles.bulkToolbarButtonActive]}
+          onPress={selectionMode ? exitSelectionMode : () => setSelectionMode(true)}
+        >
+          <MaterialCommunityIcons
+            name={selectionMode ? "close" : "checkbox-multiple-marked-outline"}
+            size={16}
+            color={selectionMode ? '#6D28D9' : '#475569'}
+          />
+          <Text style={[styles.bulkToolbarText, selectionMode && styles.bulkToolbarTextActive]}>
+            {selectionMode ? `${selectedAdmins.size} selected` : 'Select'}
+          </Text>
+        </TouchableOpacity>
+        {selectionMode && (
+          <TouchableOpacity style={styles.bulkToolbarButton} onPress={toggleSelectAllVisible}>
+            <MaterialCommunityIcons
+              name={allVisibleSelected ? "checkbox-blank-off-outline" : "checkbox-multiple-outline"}
+              size={16}
+              color="#475569"
+            />
+            <Text style={styles.bulkToolbarText}>
+              {allVisibleSelected ? 'Clear visible' : `Select visible (${selectableAdmins.length})`}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderBulkActionBar = () => {
+    const actions: { type: BulkAdminActionType; icon: string; allowed: boolean }[] = [
+      { type: 'activate', icon: 'account-check', allowed: canToggleAdminStatus },
+      { type: 'deactivate', icon: 'account-off', allowed: canToggleAdminStatus },
+      { type: 'changeRole', icon: 'shield-edit', allowed: canUpdateAdmin },
+      { type: 'setReportsTo', icon: 'account-arrow-right', allowed: canUpdateReportsTo },
+      { type: 'delete', icon: 'delete', allowed: canDeleteAdmin },
+    ];
+    const isEmpty = selectedAdmins.size === 0;
+
+    return (
+      <SafeAreaView edges={['bottom']} style={styles.bulkActionBar}>
+        {actions.filter(action => action.allowed).map(action => (
+          <TouchableOpacity
+            key={action.type}
+            style={[styles.bulkActionButton, isEmpty && styles.bulkActionButtonDisabled]}
+            onPress={() => {
+              setBulkTargets(Array.from(selectedAdmins.values()));
+              setBulkAction(action.type);
+            }}
+            disabled={isEmpty}
+          >
+            <MaterialCommunityIcons
+              name={action.icon as any}
+              size={16}
+              color={action.type === 'delete' ? '#EF4444' : '#6D28D9'}
+            />
+            <Text style={[styles.bulkActionText, action.type === 'delete' && styles.bulkActionTextDanger]}>
+              {BULK_ACTION_LABELS[action.type]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </SafeAreaView>
+    );
+  };
+
+  // Queued changes for the active tab, including creates that have no card yet
+  const renderPendingChanges = () => (
+    <PendingChangesBanner
+      entries={outbox.entries.filter(entry =>
+        entry.entity === (activeTab === 'roles' ? 'role' : 'admin')
+      )}
+      isReplaying={outbox.isReplaying}
+      onRetry={outbox.retry}
+      onDiscard={outbox.discard}
+    />
+  );
+
+  // Next page is requested as the list nears its end; the type filters
+  // apply to everything loaded so far
+  const loadMoreRoles = () => {
+    if (hasMoreRoles && !isFetchingMoreRoles) {
+      fetchNextRoles();
+    }
+  };
+
+  const loadMoreAdmins = () => {
+    // Search results are not paged
+    if (!isSearchingAdmins && hasMoreAdmins && !isFetchingMoreAdmins) {
+      fetchNextAdmins();
+    }
+  };
+
+  const renderListFooter = () => {
+    const isRoles = activeTab === 'roles';
+    const loaded = isRoles ? loadedRoles.length : loadedAdmins.length;
+    if (loaded === 0 || (!isRoles && isSearchingAdmins)) return null;
+
+    const total = isRoles ? totalRoles : totalAdmins;
+    const shown = isRoles ? rolesToDisplay.length : adminsToDisplay.length;
+    const isFiltered = (isRoles ? selectedRoleType : selectedAdminType) !== 'all';
+    const isFetchingMore = isRoles ? isFetchingMoreRoles : isFetchingMoreAdmins;
+
+    return (
+      <View style={styles.listFooter}>
+        {isFetchingMore && <ActivityIndicator size="small" color="#8B5CF6" />}
+        <Text style={styles.listFooterText}>
+          {isFiltered ? `${shown} matching • ` : ''}
+          {loaded} of {total} {isRoles ? 'roles' : 'admins'}
+        </Text>
+      </View>
+    );
+  };
+
   const renderEmptyComponent = () => {
     const isLoading = activeTab === 'roles' ? isLoadingRoles : isLoadingAdmins;
     const error = activeTab === 'roles' ? rolesError : adminsError;
@@ -772,9 +1222,13 @@ const superAdminRoles =
           No {emptyText} found
         </Text>
         <Text style={[styles.emptySubtext, isTablet && styles.emptySubtextTablet]}>
-          {searchQuery ? 'Try a different search term' : `Create your first ${activeTab === 'roles' ? 'role' : 'admin'}`}
+          {searchQuery
+            ? 'Try a different search term'
+            : canCreate
+              ? `Create your first ${activeTab === 'roles' ? 'role' : 'admin'}`
+              : `No ${activeTab === 'roles' ? 'roles' : 'admins'} yet`}
         </Text>
-        {!searchQuery && (
+        {!searchQuery && canCreate && (
           <TouchableOpacity
             style={[styles.emptyActionButton, isTablet && styles.emptyActionButtonTablet]}
             onPress={createFunction}
@@ -928,25 +1382,60 @@ const superAdminRoles =
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
-      <View style={[styles.header, isTablet && styles.headerTablet]}>
-        <View style={isTablet && styles.headerContentTablet}>
+      <View style={[styles.header, isTablet && styles.headerTablet, styles.orgHeader]}>
+        <View style={[styles.orgHeaderContent, isTablet && styles.headerContentTablet]}>
           <Text style={[styles.title, isTablet && styles.titleTablet]}>
             {activeTab === 'roles' ? 'Company Role Management' : 'Admin Management'}
           </Text>
           <Text style={[styles.subtitle, isTablet && styles.subtitleTablet]}>
             {activeTab === 'roles' 
               ? `Manage all roles and permissions • ${totalRoles} total roles`
-              : `Manage all admin users • ${adminStats?.total_admins || 0} total admins`
+              : `Manage all admin users • ${adminStats?.total_admins || totalAdmins} total admins`
             }
           </Text>
         </View>
+        <TouchableOpacity
+          onPress={() => setIsExportModalVisible(true)}
+          style={styles.orgHeaderButton}
+        >
+          <MaterialCommunityIcons name="export-variant" size={24} color="#8B5CF6" />
+        </TouchableOpacity>
+        {activeTab === 'admins' && (
+          <Can perform={PERMISSIONS.ADMIN_CREATE}>
+            <TouchableOpacity
+              onPress={() => setIsImportModalVisible(true)}
+              style={styles.orgHeaderButton}
+            >
+              <MaterialCommunityIcons name="file-upload-outline" size={24} color="#8B5CF6" />
+            </TouchableOpacity>
+          </Can>
+        )}
+        {activeTab === 'roles' && canViewRoleMatrix && (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('RoleMatrix')}
+            style={styles.orgHeaderButton}
+          >
+            <MaterialCommunityIcons name="table-large" size={24} color="#8B5CF6" />
+          </TouchableOpacity>
+        )}
+        {activeTab === 'admins' && canViewAnalytics && (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('AdminAnalytics')}
+            style={styles.orgHeaderButton}
+          >
+            <MaterialCommunityIcons name="chart-donut" size={24} color="#8B5CF6" />
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Tab Switcher */}
       <View style={styles.tabSwitcher}>
         <TouchableOpacity
           style={[styles.tabButton, activeTab === 'roles' && styles.activeTabButton]}
-          onPress={() => setActiveTab('roles')}
+          onPress={() => {
+            setActiveTab('roles');
+            exitSelectionMode();
+          }}
         >
           <MaterialCommunityIcons 
             name="shield-account" 
@@ -975,7 +1464,7 @@ const superAdminRoles =
       {/* Search Bar */}
       <View style={[styles.searchContainer, isTablet && styles.searchContainerTablet]}>
         <MaterialCommunityIcons name="magnify" size={20} color="#64748B" />
-        <TextInput
+        <IdleAwareTextInput
           style={[styles.searchInput, isTablet && styles.searchInputTablet]}
           placeholder={
             activeTab === 'roles' 
@@ -984,26 +1473,48 @@ const superAdminRoles =
           }
           placeholderTextColor="#94A3B8"
           value={searchQuery}
-          onChangeText={setSearchQuery}
+          onChangeText={handleSearchChange}
           onSubmitEditing={handleSearch}
           returnKeyType="search"
         />
         {searchQuery.length > 0 && (
-          <TouchableOpacity onPress={() => setSearchQuery('')}>
+          <TouchableOpacity onPress={() => handleSearchChange('')}>
             <MaterialCommunityIcons name="close-circle" size={20} color="#94A3B8" />
           </TouchableOpacity>
         )}
       </View>
 
+      {/* Suggestions, filters and saved searches */}
+      {activeTab === 'admins' && (
+        <AdminSearchPanel
+          suggestions={suggestions}
+          showSuggestions={wantsSuggestions && (isLoadingSuggestions || suggestions.length > 0)}
+          isLoadingSuggestions={isLoadingSuggestions}
+          onSelectSuggestion={handleSelectSuggestion}
+          filters={searchFilters}
+          onChangeFilters={handleChangeSearchFilters}
+          roles={loadedRoles}
+          savedSearches={savedSearches}
+          onApplySavedSearch={handleApplySavedSearch}
+          onDeleteSavedSearch={handleDeleteSavedSearch}
+          onSaveSearch={activeSearch ? handleSaveSearch : undefined}
+          isTablet={isTablet}
+        />
+      )}
+
       {/* Stats Bar */}
       {renderStats()}
 
+      {activeTab === 'admins' && renderSelectionToolbar()}
+
       {/* List Content */}
       {activeTab === 'roles' ? (
   <FlatList<Role>
     data={rolesToDisplay}
     renderItem={renderRoleItem}
     keyExtractor={(item) => item.admin_role_id}
+    onEndReached={loadMoreRoles}
+    onEndReachedThreshold={0.5}
     contentContainerStyle={[
       styles.rolesList,
       isTablet && styles.rolesListTablet,
@@ -1019,7 +1530,9 @@ const superAdminRoles =
         tintColor="#8B5CF6"
       />
     }
+    ListHeaderComponent={renderPendingChanges()}
     ListEmptyComponent={renderEmptyComponent()}
+    ListFooterComponent={renderListFooter()}
     showsVerticalScrollIndicator={false}
   />
 ) : (
@@ -1027,6 +1540,8 @@ const superAdminRoles =
     data={adminsToDisplay}
     renderItem={renderAdminItem}
     keyExtractor={(item) => item.admin_id}
+    onEndReached={loadMoreAdmins}
+    onEndReachedThreshold={0.5}
     contentContainerStyle={[
       styles.adminsList,
       isTablet && styles.adminsListTablet,
@@ -1042,32 +1557,42 @@ const superAdminRoles =
         tintColor="#8B5CF6"
       />
     }
+    ListHeaderComponent={renderPendingChanges()}
     ListEmptyComponent={renderEmptyComponent()}
+    ListFooterComponent={renderListFooter()}
     showsVerticalScrollIndicator={false}
   />
 )}
 
+      {activeTab === 'admins' && selectionMode && renderBulkActionBar()}
+
       {/* Floating Action Button */}
-      <TouchableOpacity
-        style={[styles.fab, isTablet && styles.fabTablet]}
-        onPress={() => {
-          if (activeTab === 'roles') {
-            setCreateRoleModalVisible(true);
-          } else {
-            setCreateAdminModalVisible(true);
-          }
-        }}
-      >
-        <MaterialCommunityIcons name="plus" size={isTablet ? 28 : 24} color="#FFFFFF" />
-      </TouchableOpacity>
+      {canCreate && !selectionMode && (
+        <TouchableOpacity
+          style={[styles.fab, isTablet && styles.fabTablet]}
+          onPress={() => {
+            if (activeTab === 'roles') {
+              setCreateRoleModalVisible(true);
+            } else {
+              setCreateAdminModalVisible(true);
+            }
+          }}
+        >
+          <MaterialCommunityIcons name="plus" size={isTablet ? 28 : 24} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
 
       {/* Role Modals */}
       <CreateRoleModal
         visible={isCreateRoleModalVisible}
-        onClose={() => setCreateRoleModalVisible(false)}
+        onClose={() => {
+          setCreateRoleModalVisible(false);
+          setCreateRoleDraft(null);
+        }}
         onSave={handleCreateRole}
         isCreating={createEmployeeRoleMutation.isPending || createManagerRoleMutation.isPending}
         availableDepartments={availableDepartments}
+        initialDraft={createRoleDraft}
       />
 
       <UpdateRoleModal
@@ -1130,12 +1655,12 @@ const superAdminRoles =
         }}
         adminDetails={selectedAdminDetails}
         isLoading={loadingAdminDetails}
-        onEdit={() => selectedAdmin && handleEditAdmin(selectedAdmin)}
-        onChangePhone={() => selectedAdmin && handleChangePhone(selectedAdmin)}
-        onChangeMPIN={() => selectedAdmin && handleChangeMPIN(selectedAdmin)}
-        onUpdateReportsTo={() => selectedAdmin && handleUpdateReportsTo(selectedAdmin)}
-        onToggleStatus={() => selectedAdmin && handleToggleAdminStatus(selectedAdmin)}
-        onViewHierarchy={() => selectedAdmin && fetchAdminHierarchy(selectedAdmin)}
+        onEdit={canUpdateAdmin ? () => selectedAdmin && handleEditAdmin(selectedAdmin) : undefined}
+        onChangePhone={canChangeAdminPhone ? () => selectedAdmin && handleChangePhone(selectedAdmin) : undefined}
+        onChangeMPIN={canResetAdminMPIN ? () => selectedAdmin && handleChangeMPIN(selectedAdmin) : undefined}
+        onUpdateReportsTo={canUpdateReportsTo ? () => selectedAdmin && handleUpdateReportsTo(selectedAdmin) : undefined}
+        onToggleStatus={canToggleAdminStatus ? () => selectedAdmin && handleToggleAdminStatus(selectedAdmin) : undefined}
+        onViewHierarchy={() => selectedAdmin && openAdminHierarchy(selectedAdmin)}
       />
 
       <PhoneChangeModal
@@ -1162,6 +1687,35 @@ const superAdminRoles =
         isChanging={changeAdminMPINMutation.isPending}
       />
 
+      <ExportModal
+        visible={isExportModalVisible}
+        onClose={() => setIsExportModalVisible(false)}
+        targets={activeTab === 'roles' ? ROLE_EXPORT_TARGETS : ADMIN_EXPORT_TARGETS}
+        canViewPhone={canViewPhone}
+      />
+
+      <AdminImportModal
+        visible={isImportModalVisible}
+        onClose={() => setIsImportModalVisible(false)}
+        onImported={(results) => {
+          if (!results.some(result => result.status === 'created')) return;
+          queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
+          queryClient.invalidateQueries({ queryKey: ['adminStats'] });
+          queryClient.invalidateQueries({ queryKey: ['availableManagers'] });
+        }}
+      />
+
+      <BulkActionModal
+        visible={bulkAction !== null}
+        action={bulkAction}
+        admins={bulkTargets}
+        orgAdmins={loadedAdmins}
+        roles={loadedRoles}
+        availableManagers={availableManagersData?.data || []}
+        onClose={() => setBulkAction(null)}
+        onFinished={handleBulkFinished}
+      />
+
       <ReportsToModal
         visible={isReportsToModalVisible}
         onClose={() => {
@@ -5,19 +5,21 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  TextInput,
   Alert,
   ActivityIndicator,
-  Modal,
   FlatList,
   Dimensions,
   RefreshControl,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
 import { useToast } from '@/components/Toast';
+import Can, { usePermission } from '@/components/Can';
+import { PERMISSIONS } from '@/services/permissions';
 import { api } from '@/services/api';
 import { 
   Role, 
@@ -26,6 +28,16 @@ import {
   AdminRoleDetailsResponse,
   RoleDetails
 } from '@/types';
+import {
+  RoleDraft,
+  RoleTemplate,
+  loadRoleTemplates,
+  saveRoleTemplate,
+  resolveRoleDraft,
+  roleDetailsToDraft,
+  templateToDraft,
+} from './roleTemplates';
+import RoleTemplatesModal from './components/RoleTemplatesModal';
 
 const { width, height } = Dimensions.get('window');
 const isTablet = width >= 768;
@@ -122,7 +134,7 @@ const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({
   if (!roleDetails) return null;
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="slide"
       transparent={true}
@@ -284,7 +296,7 @@ const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({
           </View>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
@@ -343,7 +355,7 @@ const PermissionSelectionModal: React.FC<PermissionSelectionModalProps> = ({
   };
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="slide"
       transparent={true}
@@ -486,14 +498,16 @@ const PermissionSelectionModal: React.FC<PermissionSelectionModalProps> = ({
           </View>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
 const EmployeeManagementScreen = () => {
   const { adminId } = useAuth();
   const { showToast } = useToast();
+  const canCreateRole = usePermission(PERMISSIONS.ROLE_CREATE);
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
   
   // States
   const [isCreateModalVisible, setCreateModalVisible] = useState(false);
@@ -509,6 +523,8 @@ const EmployeeManagementScreen = () => {
   const [loadingPermissionsFor, setLoadingPermissionsFor] = useState<string[]>([]);
   const [selectedRoleDetails, setSelectedRoleDetails] = useState<RoleDetails | null>(null);
   const [loadingRoleDetails, setLoadingRoleDetails] = useState(false);
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [isTemplatesModalVisible, setTemplatesModalVisible] = useState(false);
 
   // Fetch employee roles using GET /admin/roles/employee
   const {
@@ -524,6 +540,12 @@ const EmployeeManagementScreen = () => {
     },
   });
 
+  useEffect(() => {
+    if (isCreateModalVisible && adminId) {
+      loadRoleTemplates(adminId).then(setTemplates);
+    }
+  }, [isCreateModalVisible, adminId]);
+
   // Fetch admin departments for dropdown using GET /admin/admins/{adminId}/departments
   const {
     data: departmentsData,
@@ -541,13 +563,20 @@ const EmployeeManagementScreen = () => {
 
   // Create employee role mutation using POST /admin/roles/employee
   const createRoleMutation = useMutation({
-    mutationFn: (roleData: CreateEmployeeRoleRequest) => 
-      api.createEmployeeRole(roleData),
-    onSuccess: (response) => {
-      queryClient.invalidateQueries({ queryKey: ['employeeRoles'] });
+    // Runs offline too: outbox.submit sends with an idempotency key or
+    // queues the create, so a retry after a lost response is not a duplicate
+    networkMode: 'always',
+    mutationFn: (roleData: CreateEmployeeRoleRequest) =>
+      outbox.submit('createEmployeeRole', roleData, `Create role "${roleData.role_name}"`),
+    onSuccess: (result) => {
       setCreateModalVisible(false);
       resetForm();
-      showToast('success', response.data?.message || 'Employee role created successfully');
+      if (result.queued) {
+        showToast('info', 'You are offline. The change will sync when you reconnect');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['employeeRoles'] });
+      showToast('success', result.response.data?.message || 'Employee role created successfully');
     },
     onError: (error: any) => {
       console.error('Create role error:', error);
@@ -580,10 +609,12 @@ const EmployeeManagementScreen = () => {
   };
 
   // Fetch permissions for a specific module using module_code
+  // Returns how many of the preselected permissions the module no longer offers
   const fetchPermissionsForModule = async (
     moduleCode: string,
-    departmentName: string
-  ) => {
+    departmentName: string,
+    preselected: string[] = []
+  ): Promise<number> => {
     try {
       setLoadingPermissionsFor(prev => [...prev, departmentName]);
   
@@ -601,10 +632,12 @@ const EmployeeManagementScreen = () => {
         [departmentName]: permissions,
       }));
   
+      const kept = preselected.filter(name => permissions.includes(name));
       setSelectedPermissions(prev => ({
         ...prev,
-        [departmentName]: [],
+        [departmentName]: kept,
       }));
+      return preselected.length - kept.length;
     } catch (error: any) {
       console.error(
         `Error fetching permissions for module ${moduleCode}:`,
@@ -625,6 +658,7 @@ const EmployeeManagementScreen = () => {
         ...prev,
         [departmentName]: [],
       }));
+      return preselected.length;
     } finally {
       setLoadingPermissionsFor(prev =>
         prev.filter(name => name !== departmentName)
@@ -633,6 +667,91 @@ const EmployeeManagementScreen = () => {
   };
   
 
+  // Fill the create form from a cloned role or a saved template
+  const applyDraft = async (draft: RoleDraft) => {
+    const resolved = resolveRoleDraft(draft, departmentsData?.data?.departments || []);
+    if (draft.role_name) setRoleName(draft.role_name);
+    setDescription(draft.description);
+    setSelectedDepartments(resolved.departments);
+    setSelectedPermissions(resolved.permissions);
+    setAvailablePermissions({});
+
+    const counts = await Promise.all(
+      resolved.departments.map(dept =>
+        fetchPermissionsForModule(dept.module_code, dept.name, resolved.permissions[dept.name])
+      )
+    );
+    const dropped = counts.reduce((total, count) => total + count, 0);
+
+    const notes: string[] = [];
+    if (resolved.missingDepartments.length > 0) {
+      notes.push(`${resolved.missingDepartments.join(', ')} not available to you`);
+    }
+    if (dropped > 0) {
+      notes.push(`${dropped} permissions no longer exist`);
+    }
+    if (notes.length > 0) {
+      showToast('info', `Some items were left out: ${notes.join('; ')}`, 5000);
+    }
+  };
+
+  const handleCloneRole = async (role: Role) => {
+    setLoadingRoleDetails(true);
+    try {
+      const response = await api.getRoleDetails(role.admin_role_id);
+      resetForm();
+      setCreateModalVisible(true);
+      await applyDraft(roleDetailsToDraft(response.data.data));
+    } catch (error: any) {
+      console.error('Error loading role to clone:', error);
+      showToast('error', error.response?.data?.message || 'Failed to load role details');
+    } finally {
+      setLoadingRoleDetails(false);
+    }
+  };
+
+  const handleApplyTemplate = (template: RoleTemplate) => {
+    setTemplatesModalVisible(false);
+    applyDraft(templateToDraft(template));
+  };
+
+  const handleSaveAsTemplate = async () => {
+    if (!adminId) return;
+    const name = roleName.trim();
+    if (!name) {
+      showToast('error', 'Enter a role name first; the template is saved under it');
+      return;
+    }
+    const hasEmptyPermissions = selectedDepartments.some(
+      dept => !selectedPermissions[dept.name] || selectedPermissions[dept.name].length === 0
+    );
+    if (hasEmptyPermissions) {
+      showToast('error', 'Select at least one permission for each department');
+      return;
+    }
+
+    const save = async () => {
+      setTemplates(await saveRoleTemplate(adminId, {
+        name,
+        description: description.trim(),
+        department_permissions: selectedDepartments.map(dept => ({
+          department_name: dept.name,
+          permissions: selectedPermissions[dept.name],
+        })),
+      }));
+      showToast('success', `Saved template "${name}"`);
+    };
+
+    if (templates.some(template => template.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Replace Template', `A template named "${name}" already exists. Replace it?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', onPress: save },
+      ]);
+    } else {
+      await save();
+    }
+  };
+
   // Function to handle opening permission selection modal
   const handleOpenPermissionModal = async () => {
     if (selectedDepartments.length === 0) {
@@ -842,9 +961,21 @@ const EmployeeManagementScreen = () => {
               {item.is_system_role ? 'System Role' : 'Employee Role'}
             </Text>
           </View>
-          <Text style={styles.roleDate}>
-            {new Date(item.created_at).toLocaleDateString()}
-          </Text>
+          <View style={styles.roleFooterRight}>
+            <Can perform={PERMISSIONS.ROLE_CREATE}>
+              <TouchableOpacity
+                style={styles.cloneButton}
+                onPress={() => handleCloneRole(item)}
+                disabled={loadingRoleDetails}
+              >
+                <MaterialCommunityIcons name="content-copy" size={14} color="#C084FC" />
+                <Text style={styles.cloneButtonText}>Clone</Text>
+              </TouchableOpacity>
+            </Can>
+            <Text style={styles.roleDate}>
+              {new Date(item.created_at).toLocaleDateString()}
+            </Text>
+          </View>
         </View>
       </View>
     </TouchableOpacity>
@@ -934,9 +1065,11 @@ const EmployeeManagementScreen = () => {
                 No employee roles found
               </Text>
               <Text style={[styles.emptySubtext, isTablet && styles.emptySubtextTablet]}>
-                {searchQuery ? 'Try a different search term' : 'Create your first employee role'}
+                {searchQuery
+                  ? 'Try a different search term'
+                  : canCreateRole ? 'Create your first employee role' : 'No employee roles yet'}
               </Text>
-              {!searchQuery && (
+              {!searchQuery && canCreateRole && (
                 <TouchableOpacity
                   style={[styles.emptyActionButton, isTablet && styles.emptyActionButtonTablet]}
                   onPress={() => setCreateModalVisible(true)}
@@ -967,19 +1100,21 @@ const EmployeeManagementScreen = () => {
           <Text style={styles.footerButtonText}>Get Roles</Text>
         </TouchableOpacity>
 
-        <TouchableOpacity 
-          style={styles.footerButton}
-          onPress={() => setCreateModalVisible(true)}
-        >
-          <View style={[styles.footerIconContainer, styles.createIconContainer]}>
-            <MaterialCommunityIcons name="plus" size={isTablet ? 28 : 24} color="#FFFFFF" />
-          </View>
-          <Text style={styles.footerButtonText}>Create</Text>
-        </TouchableOpacity>
+        <Can perform={PERMISSIONS.ROLE_CREATE}>
+          <TouchableOpacity 
+            style={styles.footerButton}
+            onPress={() => setCreateModalVisible(true)}
+          >
+            <View style={[styles.footerIconContainer, styles.createIconContainer]}>
+              <MaterialCommunityIcons name="plus" size={isTablet ? 28 : 24} color="#FFFFFF" />
+            </View>
+            <Text style={styles.footerButtonText}>Create</Text>
+          </TouchableOpacity>
+        </Can>
       </View>
 
       {/* Create Role Modal */}
-      <Modal
+      <IdleAwareModal
         visible={isCreateModalVisible}
         animationType="slide"
         transparent={true}
@@ -1019,6 +1154,39 @@ const EmployeeManagementScreen = () => {
               showsVerticalScrollIndicator={false}
               keyboardShouldPersistTaps="handled"
             >
+              {/* Templates */}
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>
+                  Start from Template
+                </Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.templateRow}
+                >
+                  {templates.map(template => (
+                    <TouchableOpacity
+                      key={template.id}
+                      style={styles.templateChip}
+                      onPress={() => handleApplyTemplate(template)}
+                      disabled={createRoleMutation.isPending}
+                    >
+                      <Text style={styles.templateChipText}>{template.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity
+                    style={styles.templateChip}
+                    onPress={() => setTemplatesModalVisible(true)}
+                    disabled={createRoleMutation.isPending}
+                  >
+                    <MaterialCommunityIcons name="cog-outline" size={14} color="#475569" />
+                    <Text style={styles.templateChipText}>
+                      {templates.length > 0 ? 'Manage' : 'Manage / Import'}
+                    </Text>
+                  </TouchableOpacity>
+                </ScrollView>
+              </View>
+
               {/* Role Name */}
               <View style={styles.inputGroup}>
                 <View style={styles.inputLabelRow}>
@@ -1027,7 +1195,7 @@ const EmployeeManagementScreen = () => {
                   </Text>
                   <Text style={styles.requiredStar}>*</Text>
                 </View>
-                <TextInput
+                <IdleAwareTextInput
                   style={[styles.textInput, isTablet && styles.textInputTablet]}
                   value={roleName}
                   onChangeText={setRoleName}
@@ -1042,7 +1210,7 @@ const EmployeeManagementScreen = () => {
                 <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>
                   Description
                 </Text>
-                <TextInput
+                <IdleAwareTextInput
                   style={[styles.textInput, styles.textArea, isTablet && styles.textAreaTablet]}
                   value={description}
                   onChangeText={setDescription}
@@ -1134,6 +1302,14 @@ const EmployeeManagementScreen = () => {
                       );
                     })}
                   </View>
+                  <TouchableOpacity
+                    style={styles.templateSaveButton}
+                    onPress={handleSaveAsTemplate}
+                    disabled={createRoleMutation.isPending}
+                  >
+                    <MaterialCommunityIcons name="content-save-outline" size={16} color="#9333EA" />
+                    <Text style={styles.templateSaveButtonText}>Save as Template</Text>
+                  </TouchableOpacity>
                 </View>
               )}
 
@@ -1205,7 +1381,16 @@ const EmployeeManagementScreen = () => {
 
           </View>
         </View>
-      </Modal>
+
+        <RoleTemplatesModal
+          visible={isTemplatesModalVisible}
+          onClose={() => setTemplatesModalVisible(false)}
+          adminId={adminId}
+          templates={templates}
+          onTemplatesChange={setTemplates}
+          onApply={handleApplyTemplate}
+        />
+      </IdleAwareModal>
 
       {/* Permission Selection Modal */}
       <PermissionSelectionModal
@@ -1424,6 +1609,58 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: '#94A3B8',
   },
+  roleFooterRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cloneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#FAF5FF',
+  },
+  cloneButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#9333EA',
+  },
+  templateRow: {
+    gap: 6,
+    paddingRight: 8,
+  },
+  templateChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#F1F5F9',
+  },
+  templateChipText: {
+    fontSize: 12,
+    color: '#475569',
+  },
+  templateSaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#FAF5FF',
+  },
+  templateSaveButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#9333EA',
+  },
   loader: {
     marginTop: 60,
   },
@@ -5,18 +5,20 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  TextInput,
   ActivityIndicator,
-  Modal,
   FlatList,
   Dimensions,
   RefreshControl,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
 import { useToast } from '@/components/Toast';
+import Can, { usePermission } from '@/components/Can';
+import { PERMISSIONS } from '@/services/permissions';
 import { api } from '@/services/api';
 import { 
   Role, 
@@ -87,7 +89,7 @@ const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({
   if (!roleDetails) return null;
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="slide"
       transparent={true}
@@ -210,14 +212,16 @@ const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({
           </View>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
 const ManagerManagementScreen = () => {
   const { adminId } = useAuth();
   const { showToast } = useToast();
+  const canCreateRole = usePermission(PERMISSIONS.ROLE_CREATE);
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
   
   const [isCreateModalVisible, setCreateModalVisible] = useState(false);
   const [isRoleDetailsModalVisible, setRoleDetailsModalVisible] = useState(false);
@@ -257,13 +261,20 @@ const ManagerManagementScreen = () => {
   });
 
   const createRoleMutation = useMutation({
-    mutationFn: (roleData: CreateManagerRoleRequest) => 
-      api.createManagerRole(roleData),
-    onSuccess: (response) => {
-      queryClient.invalidateQueries({ queryKey: ['managerRoles'] });
+    // Runs offline too: outbox.submit sends with an idempotency key or
+    // queues the create, so a retry after a lost response is not a duplicate
+    networkMode: 'always',
+    mutationFn: (roleData: CreateManagerRoleRequest) =>
+      outbox.submit('createManagerRole', roleData, `Create role "${roleData.role_name}"`),
+    onSuccess: (result) => {
       setCreateModalVisible(false);
       resetForm();
-      showToast('success', response.data?.message || 'Manager role created successfully');
+      if (result.queued) {
+        showToast('info', 'You are offline. The change will sync when you reconnect');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['managerRoles'] });
+      showToast('success', result.response.data?.message || 'Manager role created successfully');
     },
     onError: (error: any) => {
       console.error('Create role error:', error);
@@ -528,9 +539,11 @@ const ManagerManagementScreen = () => {
                 No manager roles found
               </Text>
               <Text style={[styles.emptySubtext, isTablet && styles.emptySubtextTablet]}>
-                {searchQuery ? 'Try a different search term' : 'Create your first manager role'}
+                {searchQuery
+                  ? 'Try a different search term'
+                  : canCreateRole ? 'Create your first manager role' : 'No manager roles yet'}
               </Text>
-              {!searchQuery && (
+              {!searchQuery && canCreateRole && (
                 <TouchableOpacity
                   style={[styles.emptyActionButton, isTablet && styles.emptyActionButtonTablet]}
                   onPress={() => setCreateModalVisible(true)}
@@ -560,18 +573,20 @@ const ManagerManagementScreen = () => {
           <Text style={styles.footerButtonText}>Refresh</Text>
         </TouchableOpacity>
 
-        <TouchableOpacity 
-          style={styles.footerButton}
-          onPress={() => setCreateModalVisible(true)}
-        >
-          <View style={[styles.footerIconContainer, styles.createIconContainer]}>
-            <MaterialCommunityIcons name="plus" size={isTablet ? 28 : 24} color="#FFFFFF" />
-          </View>
-          <Text style={styles.footerButtonText}>Create</Text>
-        </TouchableOpacity>
+        <Can perform={PERMISSIONS.ROLE_CREATE}>
+          <TouchableOpacity 
+            style={styles.footerButton}
+            onPress={() => setCreateModalVisible(true)}
+          >
+            <View style={[styles.footerIconContainer, styles.createIconContainer]}>
+              <MaterialCommunityIcons name="plus" size={isTablet ? 28 : 24} color="#FFFFFF" />
+            </View>
+            <Text style={styles.footerButtonText}>Create</Text>
+          </TouchableOpacity>
+        </Can>
       </View>
 
-      <Modal
+      <IdleAwareModal
         visible={isCreateModalVisible}
         animationType="slide"
         transparent={true}
@@ -629,7 +644,7 @@ const ManagerManagementScreen = () => {
                   </Text>
                   <Text style={styles.requiredStar}>*</Text>
                 </View>
-                <TextInput
+                <IdleAwareTextInput
                   style={[styles.textInput, isTablet && styles.textInputTablet]}
                   value={roleName}
                   onChangeText={setRoleName}
@@ -643,7 +658,7 @@ const ManagerManagementScreen = () => {
                 <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>
                   Description
                 </Text>
-                <TextInput
+                <IdleAwareTextInput
                   style={[styles.textInput, styles.textArea, isTablet && styles.textAreaTablet]}
                   value={description}
                   onChangeText={setDescription}
@@ -759,7 +774,7 @@ const ManagerManagementScreen = () => {
 
           </View>
         </View>
-      </Modal>
+      </IdleAwareModal>
 
       <RoleDetailsModal
         visible={isRoleDetailsModalVisible}
@@ -0,0 +1,590 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+} from 'react-native-reanimated';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import { usePermission } from '@/components/Can';
+import { PERMISSIONS } from '@/services/permissions';
+import { api } from '@/services/api';
+import { AdminDetails, AdminHierarchy } from '@/types';
+
+// Components
+import AdminDetailsModal from './components/AdminDetailsModal';
+import OrgChartBranch, { OrgChartDragHandlers } from './components/OrgChartBranch';
+import ReportingLinePreviewModal from './components/ReportingLinePreviewModal';
+import {
+  OrgChartNode,
+  ReportingLineMove,
+  applyMoves,
+  applyReportingLineMoves,
+  buildOrgChart,
+  wouldCreateCycle,
+} from './orgChart';
+
+// Styles
+import styles from './styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 2.5;
+
+interface NodeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type OrgChartRouteProp = RouteProp<{ OrgChart: { adminId?: string } | undefined }, 'OrgChart'>;
+
+const OrgChartScreen = () => {
+  const navigation = useNavigation();
+  const route = useRoute<OrgChartRouteProp>();
+  const { adminId: currentAdminId } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const canReassign = usePermission(PERMISSIONS.ADMIN_UPDATE_REPORTS_TO);
+
+  // Chart is rooted at the admin it was opened for, or the signed-in admin
+  const [rootAdminId, setRootAdminId] = useState<string | null>(
+    route.params?.adminId ?? currentAdminId
+  );
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  const [selectedAdminId, setSelectedAdminId] = useState<string | null>(null);
+  const [selectedAdminDetails, setSelectedAdminDetails] = useState<AdminDetails | null>(null);
+  const [loadingAdminDetails, setLoadingAdminDetails] = useState(false);
+  const [isAdminDetailsModalVisible, setIsAdminDetailsModalVisible] = useState(false);
+
+  // Reporting line changes staged by drag and drop, applied together
+  const [pendingMoves, setPendingMoves] = useState<ReportingLineMove[]>([]);
+  const [isPreviewVisible, setIsPreviewVisible] = useState(false);
+  const [isApplyingMoves, setIsApplyingMoves] = useState(false);
+  const [draggingNode, setDraggingNode] = useState<OrgChartNode | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const draggedNodeRef = useRef<OrgChartNode | null>(null);
+  const nodeViewsRef = useRef(new Map<string, View>());
+  const nodeRectsRef = useRef(new Map<string, NodeRect>());
+  const containerRef = useRef<View>(null);
+  const containerOffsetRef = useRef({ x: 0, y: 0 });
+
+  const changeRoot = useCallback((adminId: string) => {
+    const apply = () => {
+      setPendingMoves([]);
+      setRootAdminId(adminId);
+      setCollapsedIds(new Set());
+    };
+
+    if (pendingMoves.length === 0) {
+      apply();
+      return;
+    }
+    Alert.alert(
+      'Discard Changes',
+      'You have reporting line changes that have not been applied. Discard them?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: apply },
+      ]
+    );
+  }, [pendingMoves.length]);
+
+  useEffect(() => {
+    if (route.params?.adminId) {
+      changeRoot(route.params.adminId);
+    }
+  }, [route.params?.adminId]);
+
+  const {
+    data: hierarchy = [],
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['adminHierarchy', rootAdminId],
+    queryFn: async (): Promise<AdminHierarchy[]> => {
+      if (!rootAdminId) throw new Error('Admin ID is required');
+      const response = await api.getAdminHierarchy(rootAdminId);
+      return response.data?.data || [];
+    },
+    enabled: !!rootAdminId,
+  });
+
+  // The chart shows the hierarchy with staged moves already applied
+  const workingHierarchy = useMemo(
+    () => applyMoves(hierarchy, pendingMoves),
+    [hierarchy, pendingMoves]
+  );
+  const roots = useMemo(() => buildOrgChart(workingHierarchy), [workingHierarchy]);
+  const pendingIds = useMemo(
+    () => new Set(pendingMoves.map(move => move.adminId)),
+    [pendingMoves]
+  );
+  const inactiveCount = hierarchy.filter(admin => !admin.is_active).length;
+
+  /* ---------- PAN / ZOOM ---------- */
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const panGesture = Gesture.Pan()
+    .minDistance(8)
+    .onUpdate((e) => {
+      translateX.value = savedTranslateX.value + e.translationX;
+      translateY.value = savedTranslateY.value + e.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const pinchGesture = Gesture.Pinch()
+    .onUpdate((e) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(MIN_SCALE, savedScale.value * e.scale));
+    })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+    });
+
+  const canvasGesture = Gesture.Simultaneous(panGesture, pinchGesture);
+
+  const canvasStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  const zoomBy = (factor: number) => {
+    const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, savedScale.value * factor));
+    savedScale.value = next;
+    scale.value = withTiming(next);
+  };
+
+  const resetView = () => {
+    savedScale.value = 1;
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    scale.value = withTiming(1);
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+  };
+
+  /* ---------- TREE ACTIONS ---------- */
+
+  const handleToggleCollapse = useCallback((adminId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(adminId)) {
+        next.delete(adminId);
+      } else {
+        next.add(adminId);
+      }
+      return next;
+    });
+  }, []);
+
+  const collapseAll = () => {
+    setCollapsedIds(new Set(
+      hierarchy
+        .filter(admin => hierarchy.some(other => other.reports_to === admin.admin_id))
+        .map(admin => admin.admin_id)
+    ));
+  };
+
+  const expandAll = () => setCollapsedIds(new Set());
+
+  const handlePressNode = useCallback(async (node: OrgChartNode) => {
+    setSelectedAdminId(node.admin.admin_id);
+    setLoadingAdminDetails(true);
+    try {
+      const response = await api.getAdminWithDetails(node.admin.admin_id);
+      setSelectedAdminDetails(response.data.data);
+      setIsAdminDetailsModalVisible(true);
+    } catch (error: any) {
+      console.error('Error fetching admin details:', error);
+      showToast('error', error.response?.data?.message || 'Failed to load admin details');
+    } finally {
+      setLoadingAdminDetails(false);
+    }
+  }, [showToast]);
+
+  /* ---------- DRAG AND DROP ---------- */
+
+  const ghostX = useSharedValue(0);
+  const ghostY = useSharedValue(0);
+  const ghostStyle = useAnimatedStyle(() => ({
+    left: ghostX.value,
+    top: ghostY.value,
+  }));
+
+  const findDropTarget = (x: number, y: number, draggedId: string): string | null => {
+    for (const [adminId, rect] of nodeRectsRef.current) {
+      if (
+        adminId !== draggedId &&
+        x >= rect.x && x <= rect.x + rect.width &&
+        y >= rect.y && y <= rect.y + rect.height
+      ) {
+        return adminId;
+      }
+    }
+    return null;
+  };
+
+  const stageMove = (adminId: string, newManagerId: string) => {
+    const admin = workingHierarchy.find(a => a.admin_id === adminId);
+    const manager = workingHierarchy.find(a => a.admin_id === newManagerId);
+    if (!admin || !manager) return;
+
+    // The API cannot clear a manager, so a failed batch could not put this admin back
+    if (!admin.reports_to) {
+      showToast('info', `${admin.full_name} has no manager, so their reporting line can't be changed here`);
+      return;
+    }
+    if (admin.reports_to === newManagerId) {
+      showToast('info', `${admin.full_name} already reports to ${manager.full_name}`);
+      return;
+    }
+    if (wouldCreateCycle(workingHierarchy, adminId, newManagerId)) {
+      showToast('error', `${manager.full_name} reports to ${admin.full_name}, so this would create a loop`);
+      return;
+    }
+
+    setPendingMoves(prev => [
+      ...prev,
+      { adminId, fromManagerId: admin.reports_to, toManagerId: newManagerId },
+    ]);
+    setIsPreviewVisible(true);
+  };
+
+  // Re-validates the remaining moves in order after one is undone
+  const handleRemoveMove = (index: number) => {
+    const remaining = pendingMoves.filter((_, i) => i !== index);
+    const valid: ReportingLineMove[] = [];
+    remaining.forEach(move => {
+      const state = applyMoves(hierarchy, valid);
+      const current = state.find(a => a.admin_id === move.adminId);
+      if (!current?.reports_to || current.reports_to === move.toManagerId) return;
+      if (wouldCreateCycle(state, move.adminId, move.toManagerId)) return;
+      valid.push({ ...move, fromManagerId: current.reports_to });
+    });
+
+    if (valid.length < remaining.length) {
+      showToast('info', 'Some later changes depended on that one and were removed');
+    }
+    setPendingMoves(valid);
+    if (valid.length === 0) {
+      setIsPreviewVisible(false);
+    }
+  };
+
+  const handleApplyMoves = async () => {
+    setIsApplyingMoves(true);
+    try {
+      const result = await applyReportingLineMoves(pendingMoves);
+
+      queryClient.invalidateQueries({ queryKey: ['adminHierarchy'] });
+      queryClient.invalidateQueries({ queryKey: ['allAdmins'] });
+      queryClient.invalidateQueries({ queryKey: ['availableManagers'] });
+
+      if (result.success) {
+        setPendingMoves([]);
+        setIsPreviewVisible(false);
+        showToast('success', `Updated ${result.applied} reporting ${result.applied === 1 ? 'line' : 'lines'}`);
+        return;
+      }
+
+      if (result.rollbackFailures.length > 0) {
+        const names = result.rollbackFailures
+          .map(move => hierarchy.find(a => a.admin_id === move.adminId)?.full_name || move.adminId)
+          .join(', ');
+        setPendingMoves([]);
+        setIsPreviewVisible(false);
+        Alert.alert(
+          'Changes Partially Applied',
+          `${result.error}\n\nThe following changes could not be reverted and are still in effect: ${names}`
+        );
+      } else {
+        showToast('error', `${result.error}. No changes were made.`);
+      }
+    } finally {
+      setIsApplyingMoves(false);
+    }
+  };
+
+  // Handlers read the latest staging state through a ref so the object below
+  // only changes when the highlighted nodes do
+  const stageMoveRef = useRef(stageMove);
+  stageMoveRef.current = stageMove;
+
+  const dragEnabled = canReassign && !isApplyingMoves;
+  const draggingId = draggingNode?.admin.admin_id ?? null;
+
+  const moveGhost = (x: number, y: number) => {
+    ghostX.value = x - containerOffsetRef.current.x - 70;
+    ghostY.value = y - containerOffsetRef.current.y - 20;
+  };
+
+  const dragHandlers = useMemo<OrgChartDragHandlers | undefined>(() => {
+    if (!dragEnabled) return undefined;
+    return {
+      draggingId,
+      dropTargetId,
+      registerNode: (adminId, view) => {
+        if (view) {
+          nodeViewsRef.current.set(adminId, view);
+        } else {
+          nodeViewsRef.current.delete(adminId);
+        }
+      },
+      onDragStart: (node, x, y) => {
+        // Positions change with pan and zoom, so measure when a drag begins
+        nodeRectsRef.current.clear();
+        nodeViewsRef.current.forEach((view, adminId) => {
+          view.measureInWindow((nx, ny, w, h) => {
+            nodeRectsRef.current.set(adminId, { x: nx, y: ny, width: w, height: h });
+          });
+        });
+        containerRef.current?.measureInWindow((cx, cy) => {
+          containerOffsetRef.current = { x: cx, y: cy };
+          moveGhost(x, y);
+        });
+        draggedNodeRef.current = node;
+        moveGhost(x, y);
+        setDraggingNode(node);
+      },
+      // Every frame: the ghost follows through shared values and state only
+      // changes when the finger enters a different node
+      onDragMove: (x, y) => {
+        const dragged = draggedNodeRef.current;
+        if (!dragged) return;
+        moveGhost(x, y);
+        setDropTargetId(findDropTarget(x, y, dragged.admin.admin_id));
+      },
+      onDragEnd: (x, y) => {
+        const dragged = draggedNodeRef.current?.admin.admin_id;
+        const targetId = dragged ? findDropTarget(x, y, dragged) : null;
+        draggedNodeRef.current = null;
+        setDraggingNode(null);
+        setDropTargetId(null);
+        if (dragged && targetId) {
+          stageMoveRef.current(dragged, targetId);
+        }
+      },
+      onDragCancel: () => {
+        draggedNodeRef.current = null;
+        setDraggingNode(null);
+        setDropTargetId(null);
+      },
+    };
+  }, [dragEnabled, draggingId, dropTargetId]);
+
+  const closeAdminDetails = () => {
+    setIsAdminDetailsModalVisible(false);
+    setSelectedAdminDetails(null);
+  };
+
+  /* ---------- RENDER ---------- */
+
+  const renderChart = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />;
+    }
+
+    if (error) {
+      return (
+        <View style={styles.errorContainer}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={isTablet ? 80 : 64} color="#EF4444" />
+          <Text style={[styles.errorText, isTablet && styles.errorTextTablet]}>
+            Failed to load hierarchy
+          </Text>
+          <Text style={[styles.errorSubtext, isTablet && styles.errorSubtextTablet]}>
+            {(error as any).response?.data?.message || (error as Error).message || 'Please try again'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.retryButton, isTablet && styles.retryButtonTablet]}
+            onPress={() => refetch()}
+          >
+            <MaterialCommunityIcons name="reload" size={20} color="#FFFFFF" />
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (roots.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons name="sitemap-outline" size={isTablet ? 100 : 80} color="#CBD5E1" />
+          <Text style={[styles.emptyText, isTablet && styles.emptyTextTablet]}>
+            No reporting lines found
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <GestureDetector gesture={canvasGesture}>
+        <View style={styles.orgCanvas}>
+          <Animated.View style={[styles.orgCanvasContent, canvasStyle]}>
+            {roots.map(root => (
+              <OrgChartBranch
+                key={root.admin.admin_id}
+                node={root}
+                collapsedIds={collapsedIds}
+                highlightedId={rootAdminId}
+                pendingIds={pendingIds}
+                drag={dragHandlers}
+                onToggleCollapse={handleToggleCollapse}
+                onPressNode={handlePressNode}
+              />
+            ))}
+          </Animated.View>
+        </View>
+      </GestureDetector>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isTablet && styles.headerTablet, styles.orgHeader]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.orgHeaderButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color="#1E293B" />
+        </TouchableOpacity>
+        <View style={styles.orgHeaderContent}>
+          <Text style={[styles.title, isTablet && styles.titleTablet]}>Organization Chart</Text>
+          <Text style={[styles.subtitle, isTablet && styles.subtitleTablet]}>
+            {hierarchy.length} admins{inactiveCount > 0 ? ` • ${inactiveCount} inactive` : ''}
+          </Text>
+        </View>
+        {rootAdminId !== currentAdminId && currentAdminId && (
+          <TouchableOpacity
+            onPress={() => changeRoot(currentAdminId)}
+            style={styles.orgHeaderButton}
+          >
+            <MaterialCommunityIcons name="account-circle" size={24} color="#8B5CF6" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Toolbar */}
+      <View style={styles.orgToolbar}>
+        <TouchableOpacity style={styles.orgToolbarButton} onPress={expandAll}>
+          <MaterialCommunityIcons name="arrow-expand-vertical" size={18} color="#64748B" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.orgToolbarButton} onPress={collapseAll}>
+          <MaterialCommunityIcons name="arrow-collapse-vertical" size={18} color="#64748B" />
+        </TouchableOpacity>
+        <View style={styles.orgToolbarDivider} />
+        <TouchableOpacity style={styles.orgToolbarButton} onPress={() => zoomBy(1.25)}>
+          <MaterialCommunityIcons name="magnify-plus-outline" size={18} color="#64748B" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.orgToolbarButton} onPress={() => zoomBy(0.8)}>
+          <MaterialCommunityIcons name="magnify-minus-outline" size={18} color="#64748B" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.orgToolbarButton} onPress={resetView}>
+          <MaterialCommunityIcons name="fit-to-screen-outline" size={18} color="#64748B" />
+        </TouchableOpacity>
+        <View style={styles.orgToolbarDivider} />
+        <TouchableOpacity style={styles.orgToolbarButton} onPress={() => refetch()}>
+          <MaterialCommunityIcons name="reload" size={18} color="#64748B" />
+        </TouchableOpacity>
+      </View>
+
+      {canReassign && hierarchy.length > 1 && pendingMoves.length === 0 && (
+        <Text style={styles.orgHintText}>
+          Long-press an admin and drop them on their new manager
+        </Text>
+      )}
+
+      <View ref={containerRef} style={styles.orgCanvas} collapsable={false}>
+        {renderChart()}
+
+        {draggingNode && (
+          <Animated.View pointerEvents="none" style={[styles.orgDragGhost, ghostStyle]}>
+            <MaterialCommunityIcons name="account-arrow-right" size={16} color="#FFFFFF" />
+            <Text style={styles.orgDragGhostText} numberOfLines={1}>
+              {draggingNode.admin.full_name}
+            </Text>
+          </Animated.View>
+        )}
+      </View>
+
+      {pendingMoves.length > 0 && (
+        <View style={styles.orgPendingBar}>
+          <Text style={styles.orgPendingText}>
+            {pendingMoves.length} pending {pendingMoves.length === 1 ? 'change' : 'changes'}
+          </Text>
+          <TouchableOpacity onPress={() => setPendingMoves([])} disabled={isApplyingMoves}>
+            <Text style={styles.orgPendingDiscard}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.orgPendingReview}
+            onPress={() => setIsPreviewVisible(true)}
+            disabled={isApplyingMoves}
+          >
+            <Text style={styles.orgPendingReviewText}>Review</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {loadingAdminDetails && !isAdminDetailsModalVisible && (
+        <View style={styles.orgLoadingOverlay}>
+          <ActivityIndicator size="small" color="#8B5CF6" />
+        </View>
+      )}
+
+      <AdminDetailsModal
+        visible={isAdminDetailsModalVisible}
+        onClose={closeAdminDetails}
+        adminDetails={selectedAdminDetails}
+        isLoading={loadingAdminDetails}
+        onViewHierarchy={
+          selectedAdminId && selectedAdminId !== rootAdminId
+            ? () => {
+                closeAdminDetails();
+                changeRoot(selectedAdminId);
+                resetView();
+              }
+            : undefined
+        }
+      />
+
+      <ReportingLinePreviewModal
+        visible={isPreviewVisible}
+        onClose={() => setIsPreviewVisible(false)}
+        hierarchy={hierarchy}
+        moves={pendingMoves}
+        onRemoveMove={handleRemoveMove}
+        onApply={handleApplyMoves}
+        isApplying={isApplyingMoves}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default OrgChartScreen;
@@ -0,0 +1,390 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { useQuery, useQueries } from '@tanstack/react-query';
+import { useToast } from '@/components/Toast';
+import { api } from '@/services/api';
+import { Role, RoleDetails, RoleDetailsResponse } from '@/types';
+import { fetchAllRoles } from './paging';
+import {
+  MatrixFilters,
+  MAX_COMPARED_ROLES,
+  buildMatrixGroups,
+  buildDepartmentRows,
+  getMatrixDepartments,
+  summarizeColumns,
+} from './roleMatrix';
+
+// Styles
+import styles from './styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+const ROLE_TYPE_LABELS: Record<number, string> = {
+  1: 'Employee',
+  2: 'Manager',
+  3: 'Admin',
+  4: 'Super Admin',
+};
+
+const RoleMatrixScreen = () => {
+  const navigation = useNavigation();
+  const { showToast } = useToast();
+
+  // Column order follows the order roles were picked
+  const [selectedRoleIds, setSelectedRoleIds] = useState<string[]>([]);
+  const [filters, setFilters] = useState<MatrixFilters>({ moduleCode: null, onlyDifferences: false });
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [refreshing, setRefreshing] = useState(false);
+
+  const {
+    data: roles = [],
+    isLoading: isLoadingRoles,
+    error: rolesError,
+    refetch: refetchRoles,
+  } = useQuery({
+    queryKey: ['allRoles', 'complete'],
+    queryFn: fetchAllRoles,
+  });
+
+  const detailQueries = useQueries({
+    queries: selectedRoleIds.map(roleId => ({
+      queryKey: ['roleDetails', roleId],
+      queryFn: async () => {
+        const response = await api.getRoleDetails(roleId);
+        return (response.data as RoleDetailsResponse).data;
+      },
+    })),
+  });
+
+  const details = detailQueries
+    .map(query => query.data)
+    .filter((detail): detail is RoleDetails => !!detail);
+  const isLoadingDetails = detailQueries.some(query => query.isLoading);
+  const failedDetails = detailQueries.filter(query => query.isError).length;
+  const isComplete = details.length === selectedRoleIds.length;
+
+  const departments = getMatrixDepartments(details);
+  const groups = isComplete ? buildMatrixGroups(details, filters) : [];
+  const departmentRows = isComplete ? buildDepartmentRows(details, filters) : [];
+  const summaries = isComplete ? summarizeColumns(details) : [];
+  const differenceCount =
+    groups.reduce((sum, group) => sum + group.differingCount, 0) +
+    departmentRows.filter(row => row.differs).length;
+
+  const sortedRoles = [...roles].sort(
+    (a, b) => a.role_type - b.role_type || a.role_name.localeCompare(b.role_name)
+  );
+
+  const toggleRole = (role: Role) => {
+    setSelectedRoleIds(prev => {
+      if (prev.includes(role.admin_role_id)) {
+        return prev.filter(id => id !== role.admin_role_id);
+      }
+      if (prev.length >= MAX_COMPARED_ROLES) {
+        showToast('info', `Compare up to ${MAX_COMPARED_ROLES} roles at a time`);
+        return prev;
+      }
+      return [...prev, role.admin_role_id];
+    });
+  };
+
+  // Employee roles are the usual place for privilege creep
+  const selectEmployeeRoles = () => {
+    setSelectedRoleIds(
+      sortedRoles
+        .filter(role => role.role_type === 1)
+        .slice(0, MAX_COMPARED_ROLES)
+        .map(role => role.admin_role_id)
+    );
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([refetchRoles(), ...detailQueries.map(query => query.refetch())]);
+    } catch (error) {
+      console.error('Error refreshing role matrix:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  /* ---------- MATRIX ---------- */
+
+  const renderCells = (grants: boolean[], differs: boolean) =>
+    grants.map((granted, index) => (
+      <View key={selectedRoleIds[index]} style={styles.matrixCell}>
+        <MaterialCommunityIcons
+          name={granted ? "check-circle" : "minus"}
+          size={18}
+          color={granted ? (differs ? '#D97706' : '#10B981') : '#CBD5E1'}
+        />
+      </View>
+    ));
+
+  const renderMatrix = () => {
+    if (selectedRoleIds.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons name="table-large" size={56} color="#CBD5E1" />
+          <Text style={styles.emptyText}>Pick two or more roles to compare their permissions</Text>
+        </View>
+      );
+    }
+
+    if (isLoadingDetails || !isComplete) {
+      return failedDetails > 0 ? (
+        <View style={styles.errorContainer}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={48} color="#EF4444" />
+          <Text style={styles.errorText}>
+            Failed to load {failedDetails} role{failedDetails === 1 ? '' : 's'}
+          </Text>
+          <TouchableOpacity style={styles.retryButton} onPress={onRefresh}>
+            <MaterialCommunityIcons name="reload" size={20} color="#FFFFFF" />
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />
+      );
+    }
+
+    if (groups.length === 0 && departmentRows.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons name="check-all" size={56} color="#CBD5E1" />
+          <Text style={styles.emptyText}>
+            {filters.onlyDifferences ? 'These roles grant the same access' : 'No permissions to show'}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          {/* Column headers */}
+          <View style={[styles.matrixRow, styles.matrixHeaderRow]}>
+            <View style={styles.matrixLabelCell} />
+            {details.map((detail, index) => (
+              <View key={detail.role.admin_role_id} style={styles.matrixCell}>
+                <Text style={styles.matrixColumnTitle} numberOfLines={2}>
+                  {detail.role.role_name}
+                </Text>
+                <Text style={styles.matrixColumnMeta}>
+                  {summaries[index].total} perms
+                  {summaries[index].unique > 0 ? ` • ${summaries[index].unique} only here` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {departmentRows.length > 0 && (
+            <>
+              <View style={styles.matrixGroupHeader}>
+                <Text style={styles.matrixGroupTitle}>Departments</Text>
+              </View>
+              {departmentRows.map(row => (
+                <View
+                  key={row.department.module_code}
+                  style={[styles.matrixRow, row.differs && styles.matrixRowDiffers]}
+                >
+                  <View style={styles.matrixLabelCell}>
+                    <Text style={styles.matrixLabel} numberOfLines={2}>{row.department.name}</Text>
+                  </View>
+                  {renderCells(row.grants, row.differs)}
+                </View>
+              ))}
+            </>
+          )}
+
+          {groups.map(group => {
+            const isCollapsed = collapsedGroups.has(group.key);
+            return (
+              <View key={group.key}>
+                <TouchableOpacity style={styles.matrixGroupHeader} onPress={() => toggleGroup(group.key)}>
+                  <MaterialCommunityIcons
+                    name={isCollapsed ? "chevron-right" : "chevron-down"}
+                    size={18}
+                    color="#64748B"
+                  />
+                  <Text style={styles.matrixGroupTitle}>
+                    {group.module} • {group.category}
+                  </Text>
+                  {group.differingCount > 0 && (
+                    <View style={styles.matrixDiffBadge}>
+                      <Text style={styles.matrixDiffBadgeText}>{group.differingCount} differ</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+                {!isCollapsed && group.rows.map(row => (
+                  <View
+                    key={row.permission.permission_name}
+                    style={[styles.matrixRow, row.differs && styles.matrixRowDiffers]}
+                  >
+                    <View style={styles.matrixLabelCell}>
+                      <Text style={styles.matrixLabel} numberOfLines={2}>
+                        {row.permission.permission_name}
+                      </Text>
+                      {!!row.permission.scope && (
+                        <Text style={styles.matrixLabelMeta}>{row.permission.scope}</Text>
+                      )}
+                    </View>
+                    {renderCells(row.grants, row.differs)}
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    );
+  };
+
+  /* ---------- RENDER ---------- */
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isTablet && styles.headerTablet, styles.orgHeader]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.orgHeaderButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color="#1E293B" />
+        </TouchableOpacity>
+        <View style={styles.orgHeaderContent}>
+          <Text style={[styles.title, isTablet && styles.titleTablet]}>Role Matrix</Text>
+          <Text style={[styles.subtitle, isTablet && styles.subtitleTablet]}>
+            {selectedRoleIds.length < 2
+              ? 'Compare permissions across roles'
+              : `${selectedRoleIds.length} roles • ${isComplete ? differenceCount : '…'} differences`}
+          </Text>
+        </View>
+        {selectedRoleIds.length > 0 && (
+          <TouchableOpacity onPress={() => setSelectedRoleIds([])} style={styles.orgHeaderButton}>
+            <MaterialCommunityIcons name="close-circle-outline" size={24} color="#64748B" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.matrixContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={['#8B5CF6']}
+            tintColor="#8B5CF6"
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Roles to compare */}
+        <Text style={styles.analyticsSectionTitle}>Roles</Text>
+        {isLoadingRoles ? (
+          <ActivityIndicator size="small" color="#8B5CF6" />
+        ) : rolesError ? (
+          <Text style={styles.chartEmptyText}>
+            {(rolesError as any)?.response?.data?.message || 'Failed to load roles'}
+          </Text>
+        ) : (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterOptionRow}
+          >
+            <TouchableOpacity style={styles.savedSearchChip} onPress={selectEmployeeRoles}>
+              <MaterialCommunityIcons name="account-multiple-check" size={14} color="#8B5CF6" />
+              <Text style={styles.savedSearchText}>Employee roles</Text>
+            </TouchableOpacity>
+            {sortedRoles.map(role => {
+              const isSelected = selectedRoleIds.includes(role.admin_role_id);
+              return (
+                <TouchableOpacity
+                  key={role.admin_role_id}
+                  style={[styles.filterOption, isSelected && styles.filterOptionSelected]}
+                  onPress={() => toggleRole(role)}
+                >
+                  <Text style={[styles.filterOptionText, isSelected && styles.filterOptionTextSelected]}>
+                    {role.role_name} · {ROLE_TYPE_LABELS[role.role_type] || role.role_type}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {/* Filters */}
+        {selectedRoleIds.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterChipRow}
+          >
+            <TouchableOpacity
+              style={[styles.filterChip, filters.onlyDifferences && styles.filterChipActive]}
+              onPress={() => setFilters(prev => ({ ...prev, onlyDifferences: !prev.onlyDifferences }))}
+            >
+              <MaterialCommunityIcons
+                name="vector-difference"
+                size={14}
+                color={filters.onlyDifferences ? '#8B5CF6' : '#64748B'}
+              />
+              <Text style={[styles.filterChipText, filters.onlyDifferences && styles.filterChipTextActive]}>
+                Only differences
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterChip, filters.moduleCode === null && styles.filterChipActive]}
+              onPress={() => setFilters(prev => ({ ...prev, moduleCode: null }))}
+            >
+              <Text style={[styles.filterChipText, filters.moduleCode === null && styles.filterChipTextActive]}>
+                All departments
+              </Text>
+            </TouchableOpacity>
+            {departments.map(department => {
+              const isActive = filters.moduleCode === department.module_code;
+              return (
+                <TouchableOpacity
+                  key={department.module_code}
+                  style={[styles.filterChip, isActive && styles.filterChipActive]}
+                  onPress={() => setFilters(prev => ({ ...prev, moduleCode: department.module_code }))}
+                >
+                  <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>
+                    {department.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {renderMatrix()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default RoleMatrixScreen;
@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AdminStats, AdminSearchAnalytics } from '@/types';
+import { STORAGE_KEYS } from '@/services/storage';
+
+/* ============================================================
+   SNAPSHOTS
+   ============================================================ */
+
+export interface AnalyticsSnapshot {
+  takenAt: number;
+  stats: AdminStats;
+  search: AdminSearchAnalytics | null;
+}
+
+// Oldest snapshots are dropped beyond this
+const MAX_SNAPSHOTS = 30;
+
+// A new snapshot is recorded automatically at most this often
+export const SNAPSHOT_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+const snapshotsKey = (adminId: string) => `${STORAGE_KEYS.ANALYTICS_SNAPSHOTS_PREFIX}${adminId}`;
+
+// Oldest first
+export const loadSnapshots = async (adminId: string): Promise<AnalyticsSnapshot[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(snapshotsKey(adminId));
+    return raw ? (JSON.parse(raw) as AnalyticsSnapshot[]) : [];
+  } catch (error) {
+    console.error('❌ [ANALYTICS] Error loading snapshots:', error);
+    return [];
+  }
+};
+
+export const appendSnapshot = async (
+  adminId: string,
+  snapshot: AnalyticsSnapshot
+): Promise<AnalyticsSnapshot[]> => {
+  const next = [...(await loadSnapshots(adminId)), snapshot].slice(-MAX_SNAPSHOTS);
+  try {
+    await AsyncStorage.setItem(snapshotsKey(adminId), JSON.stringify(next));
+  } catch (error) {
+    console.error('❌ [ANALYTICS] Error saving snapshot:', error);
+  }
+  return next;
+};
+
+export const isSnapshotDue = (snapshots: AnalyticsSnapshot[], now = Date.now()): boolean => {
+  const latest = snapshots[snapshots.length - 1];
+  return !latest || now - latest.takenAt >= SNAPSHOT_INTERVAL_MS;
+};
+
+/* ============================================================
+   SEARCH ANALYTICS
+   ============================================================ */
+
+export interface AnalyticsMetric {
+  key: string;
+  label: string;
+  value: number;
+}
+
+export interface AnalyticsBreakdown {
+  key: string;
+  title: string;
+  items: { label: string; value: number }[];
+}
+
+export const formatAnalyticsKey = (key: string): string => {
+  const words = key.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// [{ query: 'x', count: 3 }] -> label/value pairs, using the first text and number fields
+const fromRecordList = (list: unknown[]): AnalyticsBreakdown['items'] | null => {
+  const items: AnalyticsBreakdown['items'] = [];
+  for (const entry of list) {
+    if (!entry || typeof entry !== 'object') return null;
+    const values = Object.values(entry as Record<string, unknown>);
+    const label = values.find(value => typeof value === 'string') as string | undefined;
+    const value = values.find(isNumber);
+    if (label === undefined || value === undefined) return null;
+    items.push({ label, value });
+  }
+  return items;
+};
+
+// The search analytics payload is not fixed, so numbers become metrics and
+// number maps or record lists become breakdown charts. Nested objects are
+// walked one level deep with their key as a prefix.
+export const extractSearchAnalytics = (
+  payload: AdminSearchAnalytics | null | undefined
+): { metrics: AnalyticsMetric[]; breakdowns: AnalyticsBreakdown[] } => {
+  const metrics: AnalyticsMetric[] = [];
+  const breakdowns: AnalyticsBreakdown[] = [];
+
+  const walk = (source: Record<string, unknown>, prefix: string, depth: number) => {
+    Object.entries(source).forEach(([key, value]) => {
+      const fullKey = prefix ? `${prefix}.${key}` : key;
+      const title = formatAnalyticsKey(prefix ? `${prefix} ${key}` : key);
+
+      if (isNumber(value)) {
+        metrics.push({ key: fullKey, label: title, value });
+      } else if (Array.isArray(value)) {
+        const items = fromRecordList(value);
+        if (items && items.length > 0) breakdowns.push({ key: fullKey, title, items });
+      } else if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>);
+        if (entries.length > 0 && entries.every(([, inner]) => isNumber(inner))) {
+          breakdowns.push({
+            key: fullKey,
+            title,
+            items: entries.map(([label, inner]) => ({
+              label: formatAnalyticsKey(label),
+              value: inner as number,
+            })),
+          });
+        } else if (depth === 0) {
+          walk(value as Record<string, unknown>, key, depth + 1);
+        }
+      }
+    });
+  };
+
+  if (payload && typeof payload === 'object') {
+    walk(payload, '', 0);
+  }
+  return { metrics, breakdowns };
+};
+
+/* ============================================================
+   COMPARISON
+   ============================================================ */
+
+export const formatDelta = (current: number, previous: number | undefined): string | null => {
+  if (previous === undefined) return null;
+  const delta = Math.round((current - previous) * 100) / 100;
+  if (delta === 0) return '±0';
+  return delta > 0 ? `+${delta}` : `−${Math.abs(delta)}`;
+};
+
+export const formatSnapshotDate = (takenAt: number): string => {
+  const date = new Date(takenAt);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
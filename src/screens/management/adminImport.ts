@@ -0,0 +1,221 @@
+import { Admin, CreateAdminRequest, Role } from '@/types';
+import { api } from '@/services/api';
+import { fetchAllAdmins, fetchAllRoles } from './paging';
+import { getApiErrorMessage, runWithConcurrency, BULK_CONCURRENCY } from './bulkAdminOps';
+import { parseCsv, toCsv } from './csv';
+import { E164_PHONE_REGEX } from './validation';
+
+/* ============================================================
+   COLUMNS
+   ============================================================ */
+
+export type ImportColumn = 'full_name' | 'username' | 'phone_number' | 'role' | 'manager';
+
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  full_name: ['full_name', 'fullname', 'name'],
+  username: ['username', 'user_name'],
+  phone_number: ['phone_number', 'phone', 'mobile'],
+  role: ['role', 'role_name', 'admin_role'],
+  manager: ['manager', 'manager_username', 'reports_to'],
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['full_name', 'username', 'phone_number', 'role'];
+
+export const IMPORT_TEMPLATE = toCsv([
+  ['full_name', 'username', 'phone_number', 'role', 'manager'],
+  ['Asha Verma', 'asha.verma', '+919315453437', 'Support Agent', 'ravi.k'],
+]);
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s-]+/g, '_');
+
+const mapColumns = (headers: string[]): Partial<Record<ImportColumn, number>> => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ImportColumn, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as ImportColumn[]).forEach(column => {
+    const index = normalized.findIndex(header => COLUMN_ALIASES[column].includes(header));
+    if (index !== -1) columns[column] = index;
+  });
+  return columns;
+};
+
+/* ============================================================
+   VALIDATION
+   ============================================================ */
+
+export interface ImportContext {
+  roles: Role[];
+  managers: Admin[];
+  existingUsernames: string[];
+}
+
+export interface ImportRow {
+  line: number;
+  values: Record<ImportColumn, string>;
+  // Null when the row has errors
+  request: CreateAdminRequest | null;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  // Set when the file cannot be read as an admin list at all
+  fileError?: string;
+}
+
+const lower = (value: string) => value.trim().toLowerCase();
+
+export const validateImport = (text: string, context: ImportContext): ImportPreview => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { rows: [], fileError: 'The file is empty' };
+  }
+
+  const columns = mapColumns(header.fields);
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] === undefined);
+  if (missing.length > 0) {
+    return { rows: [], fileError: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+  }
+  if (records.length === 0) {
+    return { rows: [], fileError: 'The file has a header but no admins' };
+  }
+
+  const existing = new Set(context.existingUsernames.map(lower));
+  const usernameCounts = new Map<string, number>();
+  const phoneCounts = new Map<string, number>();
+  records.forEach(record => {
+    const username = lower(record.fields[columns.username!] || '');
+    const phone = (record.fields[columns.phone_number!] || '').trim();
+    if (username) usernameCounts.set(username, (usernameCounts.get(username) || 0) + 1);
+    if (phone) phoneCounts.set(phone, (phoneCounts.get(phone) || 0) + 1);
+  });
+
+  const rows = records.map(record => {
+    const read = (column: ImportColumn) => {
+      const index = columns[column];
+      return index === undefined ? '' : (record.fields[index] || '').trim();
+    };
+    const values: Record<ImportColumn, string> = {
+      full_name: read('full_name'),
+      username: read('username'),
+      phone_number: read('phone_number'),
+      role: read('role'),
+      manager: read('manager'),
+    };
+    const errors: string[] = [];
+
+    if (!values.full_name) errors.push('Full name is required');
+
+    if (!values.username) {
+      errors.push('Username is required');
+    } else if (existing.has(lower(values.username))) {
+      errors.push('Username already exists');
+    } else if ((usernameCounts.get(lower(values.username)) || 0) > 1) {
+      errors.push('Username appears more than once in the file');
+    }
+
+    if (!values.phone_number) {
+      errors.push('Phone number is required');
+    } else if (!E164_PHONE_REGEX.test(values.phone_number)) {
+      errors.push('Phone must be in international format, e.g. +919315453437');
+    } else if ((phoneCounts.get(values.phone_number) || 0) > 1) {
+      errors.push('Phone number appears more than once in the file');
+    }
+
+    const matchingRoles = context.roles.filter(role => lower(role.role_name) === lower(values.role));
+    if (!values.role) {
+      errors.push('Role is required');
+    } else if (matchingRoles.length === 0) {
+      errors.push(`Unknown role "${values.role}"`);
+    } else if (matchingRoles.length > 1) {
+      errors.push(`More than one role is named "${values.role}"`);
+    }
+
+    const manager = values.manager
+      ? context.managers.find(candidate => lower(candidate.username) === lower(values.manager.replace(/^@/, '')))
+      : undefined;
+    if (values.manager && !manager) {
+      errors.push(`"${values.manager}" is not an available manager`);
+    }
+
+    const request: CreateAdminRequest | null = errors.length === 0
+      ? {
+          phone_number: values.phone_number,
+          username: values.username,
+          full_name: values.full_name,
+          admin_role_id: matchingRoles[0].admin_role_id,
+          ...(manager ? { reports_to: manager.admin_id } : {}),
+        }
+      : null;
+
+    return { line: record.line, values, request, errors };
+  });
+
+  return { rows };
+};
+
+/* ============================================================
+   CONTEXT
+   ============================================================ */
+
+// Role names and usernames are checked against the full lists, not just loaded pages
+export const loadImportContext = async (): Promise<ImportContext> => {
+  const [roles, admins, managersResponse] = await Promise.all([
+    fetchAllRoles(),
+    fetchAllAdmins(),
+    api.getAvailableManagers(),
+  ]);
+  return {
+    roles,
+    managers: managersResponse.data?.data || [],
+    existingUsernames: admins.map(admin => admin.username),
+  };
+};
+
+/* ============================================================
+   IMPORT
+   ============================================================ */
+
+export interface ImportResult {
+  line: number;
+  username: string;
+  fullName: string;
+  status: 'created' | 'failed';
+  error?: string;
+}
+
+export const runAdminImport = (
+  rows: ImportRow[],
+  onRowDone?: (result: ImportResult) => void
+): Promise<ImportResult[]> =>
+  runWithConcurrency(
+    rows.filter(row => row.request !== null),
+    BULK_CONCURRENCY,
+    async row => {
+      const base = { line: row.line, username: row.values.username, fullName: row.values.full_name };
+      let result: ImportResult;
+      try {
+        await api.createAdmin(row.request);
+        result = { ...base, status: 'created' };
+      } catch (error) {
+        console.error(`❌ [IMPORT] Line ${row.line} failed:`, error);
+        result = { ...base, status: 'failed', error: getApiErrorMessage(error) };
+      }
+      onRowDone?.(result);
+      return result;
+    }
+  );
+
+// Rows skipped for validation errors are included so the report covers the whole file
+export const buildImportReport = (rows: ImportRow[], results: ImportResult[]): string => {
+  const byLine = new Map(results.map(result => [result.line, result]));
+  return toCsv([
+    ['line', 'username', 'full_name', 'status', 'error'],
+    ...rows.map(row => {
+      const result = byLine.get(row.line);
+      if (!result) {
+        return [String(row.line), row.values.username, row.values.full_name, 'skipped', row.errors.join('; ')];
+      }
+      return [String(row.line), result.username, result.fullName, result.status, result.error || ''];
+    }),
+  ]);
+};
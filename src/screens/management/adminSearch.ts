@@ -0,0 +1,246 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Admin } from '@/types';
+import { api } from '@/services/api';
+import { STORAGE_KEYS } from '@/services/storage';
+
+/* ============================================================
+   FILTERS
+   ============================================================ */
+
+export type CreatedWithin = 'any' | '7d' | '30d' | '90d' | '1y';
+export type StatusFilter = 'any' | 'active' | 'inactive';
+export type ManagerFilter = 'any' | 'has' | 'none';
+
+export interface AdminSearchFilters {
+  roleId: string | null;
+  createdWithin: CreatedWithin;
+  status: StatusFilter;
+  manager: ManagerFilter;
+}
+
+export const EMPTY_SEARCH_FILTERS: AdminSearchFilters = {
+  roleId: null,
+  createdWithin: 'any',
+  status: 'any',
+  manager: 'any',
+};
+
+export const CREATED_WITHIN_OPTIONS: { value: CreatedWithin; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '1y', label: 'Last year' },
+];
+
+export const STATUS_OPTIONS: { value: StatusFilter; label: string }[] = [
+  { value: 'any', label: 'Any status' },
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+];
+
+export const MANAGER_OPTIONS: { value: ManagerFilter; label: string }[] = [
+  { value: 'any', label: 'Any manager' },
+  { value: 'has', label: 'Has manager' },
+  { value: 'none', label: 'No manager' },
+];
+
+const CREATED_WITHIN_DAYS: Record<Exclude<CreatedWithin, 'any'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+export const getCreatedAfter = (createdWithin: CreatedWithin): string | undefined => {
+  if (createdWithin === 'any') return undefined;
+  const date = new Date();
+  date.setDate(date.getDate() - CREATED_WITHIN_DAYS[createdWithin]);
+  date.setHours(0, 0, 0, 0);
+  return date.toISOString();
+};
+
+export const hasActiveFilters = (filters: AdminSearchFilters): boolean =>
+  filters.roleId !== null ||
+  filters.createdWithin !== 'any' ||
+  filters.status !== 'any' ||
+  filters.manager !== 'any';
+
+// Status and manager are not supported by the search endpoints, so they are
+// applied to the returned page
+export const applyClientFilters = (admins: Admin[], filters: AdminSearchFilters): Admin[] =>
+  admins.filter(admin => {
+    if (filters.status === 'active' && !admin.is_active) return false;
+    if (filters.status === 'inactive' && admin.is_active) return false;
+    if (filters.manager === 'has' && !admin.reports_to) return false;
+    if (filters.manager === 'none' && admin.reports_to) return false;
+    return true;
+  });
+
+/* ============================================================
+   SEARCH
+   ============================================================ */
+
+export interface AdminSearchRequest {
+  query: string;
+  filters: AdminSearchFilters;
+  // Set when the query came from a picked suggestion
+  byName?: boolean;
+}
+
+const SEARCH_LIMIT = 50;
+
+// Picks the endpoint that can answer the request: name search for picked
+// suggestions, advanced search when server-side filters are set, plain
+// search otherwise.
+export const runAdminSearch = async ({ query, filters, byName }: AdminSearchRequest) => {
+  const params = { limit: SEARCH_LIMIT, offset: 0 };
+  const createdAfter = getCreatedAfter(filters.createdWithin);
+
+  if (byName && query) {
+    return api.searchAdminsByName(query, params);
+  }
+  if (filters.roleId || createdAfter || !query) {
+    return api.searchAdminsAdvanced({
+      q: query || undefined,
+      role_id: filters.roleId ?? undefined,
+      created_after: createdAfter,
+      ...params,
+    });
+  }
+  return api.searchAdmins(query, params);
+};
+
+export const sortByRelevance = (admins: Admin[]): Admin[] =>
+  [...admins].sort((a, b) => (b.relevance_score ?? 0) - (a.relevance_score ?? 0));
+
+/* ============================================================
+   MATCH HIGHLIGHTING
+   ============================================================ */
+
+// relevance_score arrives either as 0–1 or 0–100
+export const getRelevancePercent = (score: number | undefined): number | null => {
+  if (score === undefined || score === null) return null;
+  const percent = score <= 1 ? score * 100 : score;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+};
+
+// Results at or above this relevance get the highlighted card
+export const STRONG_MATCH_PERCENT = 75;
+
+export const formatMatchType = (matchType: string | undefined): string | null => {
+  if (!matchType) return null;
+  const words = matchType.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text around case-insensitive occurrences of the query
+export const splitHighlight = (text: string, query: string): HighlightSegment[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle || !text) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1) {
+    if (index > cursor) segments.push({ text: text.slice(cursor, index), match: false });
+    segments.push({ text: text.slice(index, index + needle.length), match: true });
+    cursor = index + needle.length;
+    index = haystack.indexOf(needle, cursor);
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+
+  return segments;
+};
+
+/* ============================================================
+   SAVED SEARCH LABELS
+   ============================================================ */
+
+export const describeSearch = (
+  request: AdminSearchRequest,
+  roleNameById: (roleId: string) => string
+): string => {
+  const { query, filters } = request;
+  const parts: string[] = [];
+  if (query) parts.push(`"${query}"`);
+  if (filters.roleId) parts.push(roleNameById(filters.roleId));
+  if (filters.createdWithin !== 'any') {
+    parts.push(CREATED_WITHIN_OPTIONS.find(o => o.value === filters.createdWithin)?.label || '');
+  }
+  if (filters.status !== 'any') {
+    parts.push(STATUS_OPTIONS.find(o => o.value === filters.status)?.label || '');
+  }
+  if (filters.manager !== 'any') {
+    parts.push(MANAGER_OPTIONS.find(o => o.value === filters.manager)?.label || '');
+  }
+  return parts.filter(Boolean).join(' • ') || 'All admins';
+};
+
+/* ============================================================
+   SAVED SEARCHES
+   ============================================================ */
+
+export interface SavedAdminSearch {
+  id: string;
+  label: string;
+  request: AdminSearchRequest;
+  createdAt: number;
+}
+
+// Oldest searches are dropped beyond this
+const MAX_SAVED_SEARCHES = 10;
+
+const savedSearchesKey = (adminId: string) => `${STORAGE_KEYS.SAVED_SEARCHES_PREFIX}${adminId}`;
+
+export const loadSavedSearches = async (adminId: string): Promise<SavedAdminSearch[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(savedSearchesKey(adminId));
+    return raw ? (JSON.parse(raw) as SavedAdminSearch[]) : [];
+  } catch (error) {
+    console.error('❌ [ADMIN_SEARCH] Error loading saved searches:', error);
+    return [];
+  }
+};
+
+const writeSavedSearches = async (adminId: string, searches: SavedAdminSearch[]) => {
+  try {
+    await AsyncStorage.setItem(savedSearchesKey(adminId), JSON.stringify(searches));
+  } catch (error) {
+    console.error('❌ [ADMIN_SEARCH] Error saving searches:', error);
+  }
+};
+
+// Saving the same query and filters again moves it to the front instead of duplicating it
+export const addSavedSearch = async (
+  adminId: string,
+  label: string,
+  request: AdminSearchRequest
+): Promise<SavedAdminSearch[]> => {
+  const requestKey = JSON.stringify(request);
+  const existing = await loadSavedSearches(adminId);
+  const next = [
+    { id: Crypto.randomUUID(), label, request, createdAt: Date.now() },
+    ...existing.filter(search => JSON.stringify(search.request) !== requestKey),
+  ].slice(0, MAX_SAVED_SEARCHES);
+
+  await writeSavedSearches(adminId, next);
+  return next;
+};
+
+export const removeSavedSearch = async (
+  adminId: string,
+  searchId: string
+): Promise<SavedAdminSearch[]> => {
+  const next = (await loadSavedSearches(adminId)).filter(search => search.id !== searchId);
+  await writeSavedSearches(adminId, next);
+  return next;
+};
@@ -0,0 +1,139 @@
+import { ComponentProps } from 'react';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { AuditAction, AuditEvent, AuditEventQuery } from '@/types';
+
+/* ============================================================
+   ACTIONS
+   ============================================================ */
+
+type IconName = ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+interface AuditActionInfo {
+  // Reads as "<actor> <verb> <target>"
+  verb: string;
+  icon: IconName;
+  color: string;
+}
+
+export const AUDIT_ACTIONS: Record<AuditAction, AuditActionInfo> = {
+  admin_created: { verb: 'created admin', icon: 'account-plus', color: '#10B981' },
+  admin_updated: { verb: 'updated admin', icon: 'account-edit', color: '#3B82F6' },
+  admin_deleted: { verb: 'deleted admin', icon: 'account-remove', color: '#EF4444' },
+  admin_activated: { verb: 'activated', icon: 'account-check', color: '#10B981' },
+  admin_deactivated: { verb: 'deactivated', icon: 'account-cancel', color: '#F59E0B' },
+  admin_role_changed: { verb: 'changed the role of', icon: 'account-convert', color: '#8B5CF6' },
+  admin_reports_to_changed: { verb: 'changed the manager of', icon: 'sitemap', color: '#3B82F6' },
+  role_created: { verb: 'created role', icon: 'shield-plus', color: '#10B981' },
+  role_updated: { verb: 'updated role', icon: 'shield-edit', color: '#8B5CF6' },
+  role_deleted: { verb: 'deleted role', icon: 'shield-remove', color: '#EF4444' },
+  mpin_reset: { verb: 'reset the MPIN of', icon: 'lock-reset', color: '#F59E0B' },
+  phone_changed: { verb: 'changed the phone of', icon: 'phone-sync', color: '#3B82F6' },
+  phone_viewed: { verb: 'revealed the phone of', icon: 'phone-lock', color: '#64748B' },
+};
+
+export type AuditCategory = 'all' | 'admins' | 'roles' | 'mpin' | 'phone' | 'status';
+
+export const AUDIT_CATEGORIES: { value: AuditCategory; label: string; actions: AuditAction[] }[] = [
+  { value: 'all', label: 'All actions', actions: [] },
+  {
+    value: 'admins',
+    label: 'Admins',
+    actions: ['admin_created', 'admin_updated', 'admin_deleted', 'admin_role_changed', 'admin_reports_to_changed'],
+  },
+  { value: 'roles', label: 'Roles', actions: ['role_created', 'role_updated', 'role_deleted'] },
+  { value: 'mpin', label: 'MPIN resets', actions: ['mpin_reset'] },
+  { value: 'phone', label: 'Phone access', actions: ['phone_changed', 'phone_viewed'] },
+  { value: 'status', label: 'Status changes', actions: ['admin_activated', 'admin_deactivated'] },
+];
+
+/* ============================================================
+   FILTERS
+   ============================================================ */
+
+export type AuditRange = '24h' | '7d' | '30d' | '90d' | 'all';
+
+export const AUDIT_RANGES: { value: AuditRange; label: string; days: number | null }[] = [
+  { value: '24h', label: 'Last 24 hours', days: 1 },
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: 'all', label: 'All time', days: null },
+];
+
+// Actor and target keep their display name so the filter chip can show it
+export interface AuditParty {
+  id: string;
+  name: string;
+}
+
+export interface AuditFilters {
+  actor: AuditParty | null;
+  target: AuditParty | null;
+  category: AuditCategory;
+  range: AuditRange;
+}
+
+export const DEFAULT_AUDIT_FILTERS: AuditFilters = {
+  actor: null,
+  target: null,
+  category: 'all',
+  range: '30d',
+};
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export const toAuditQuery = (filters: AuditFilters, offset: number): AuditEventQuery => {
+  const days = AUDIT_RANGES.find(range => range.value === filters.range)?.days ?? null;
+  const actions = AUDIT_CATEGORIES.find(category => category.value === filters.category)?.actions ?? [];
+  return {
+    actor_id: filters.actor?.id,
+    target_id: filters.target?.id,
+    actions: actions.length > 0 ? actions : undefined,
+    from: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+    limit: AUDIT_PAGE_SIZE,
+    offset,
+  };
+};
+
+/* ============================================================
+   FORMATTING
+   ============================================================ */
+
+const titleCase = (key: string) => {
+  const words = key.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Second line under the event, e.g. "Support Agent → Finance Approver"
+export const describeAuditDetail = (event: AuditEvent): string | null => {
+  const metadata = event.metadata ?? {};
+  if (event.action === 'admin_role_changed' && metadata.from_role && metadata.to_role) {
+    return `${metadata.from_role} → ${metadata.to_role}`;
+  }
+  if (event.reason) return `Reason: ${event.reason}`;
+  return null;
+};
+
+// Everything known about the event, for the detail alert
+export const formatAuditEvent = (event: AuditEvent): string => {
+  const lines = [
+    `${event.actor_name} ${AUDIT_ACTIONS[event.action]?.verb ?? event.action} ${event.target_name}`,
+    new Date(event.created_at).toLocaleString(),
+  ];
+  if (event.reason) lines.push(`Reason: ${event.reason}`);
+  Object.entries(event.metadata ?? {}).forEach(([key, value]) => {
+    lines.push(`${titleCase(key)}: ${value ?? '—'}`);
+  });
+  if (event.ip_address) lines.push(`IP address: ${event.ip_address}`);
+  if (event.device_id) lines.push(`Device: ${event.device_id}`);
+  return lines.join('\n');
+};
+
+export const formatAuditDay = (iso: string): string => {
+  const date = new Date(iso);
+  const today = new Date();
+  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+};
@@ -0,0 +1,158 @@
+import { AxiosError } from 'axios';
+import { Admin, ApiError } from '@/types';
+import { api } from '@/services/api';
+import { wouldCreateCycle } from './orgChart';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+export type BulkAdminAction =
+  | { type: 'activate' }
+  | { type: 'deactivate' }
+  | { type: 'delete' }
+  | { type: 'changeRole'; roleId: string }
+  // '' clears the manager, as in ReportsToModal
+  | { type: 'setReportsTo'; reportsTo: string };
+
+export type BulkAdminActionType = BulkAdminAction['type'];
+
+export interface BulkItemResult {
+  adminId: string;
+  name: string;
+  status: 'succeeded' | 'failed';
+  error?: string;
+}
+
+// Requests in flight at once; keeps large batches from tripping the rate limiter
+export const BULK_CONCURRENCY = 3;
+
+/* ============================================================
+   EXECUTION
+   ============================================================ */
+
+export const getApiErrorMessage = (error: unknown): string => {
+  const axiosError = error as AxiosError<ApiError>;
+  return (
+    axiosError?.response?.data?.message ||
+    axiosError?.message ||
+    'Request failed'
+  );
+};
+
+const executeAction = (action: BulkAdminAction, adminId: string) => {
+  switch (action.type) {
+    case 'activate':
+      return api.activateAdmin(adminId);
+    case 'deactivate':
+      return api.deactivateAdmin(adminId);
+    case 'delete':
+      return api.deleteAdmin(adminId);
+    case 'changeRole':
+      return api.updateAdminRole(adminId, action.roleId);
+    case 'setReportsTo':
+      return api.updateAdminReportsTo(adminId, action.reportsTo);
+  }
+};
+
+// Runs tasks with at most `limit` in flight; results keep the input order
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Applies the action to every admin; one failure never stops the rest
+export const runBulkAdminAction = (
+  action: BulkAdminAction,
+  admins: Admin[],
+  onItemDone?: (result: BulkItemResult) => void
+): Promise<BulkItemResult[]> =>
+  runWithConcurrency(admins, BULK_CONCURRENCY, async admin => {
+    let result: BulkItemResult;
+    try {
+      await executeAction(action, admin.admin_id);
+      result = { adminId: admin.admin_id, name: admin.full_name, status: 'succeeded' };
+    } catch (error) {
+      console.error(`❌ [BULK] ${action.type} failed for ${admin.admin_id}:`, error);
+      result = {
+        adminId: admin.admin_id,
+        name: admin.full_name,
+        status: 'failed',
+        error: getApiErrorMessage(error),
+      };
+    }
+    onItemDone?.(result);
+    return result;
+  });
+
+/* ============================================================
+   LABELS
+   ============================================================ */
+
+export const BULK_ACTION_LABELS: Record<BulkAdminActionType, string> = {
+  activate: 'Activate',
+  deactivate: 'Deactivate',
+  delete: 'Delete',
+  changeRole: 'Change Role',
+  setReportsTo: 'Set Reports To',
+};
+
+// Admins the new manager already reports to, directly or further down;
+// moving them under that manager would close a loop. `orgAdmins` is every
+// admin known to the caller, so chains through unselected admins are seen.
+export const getReportsToCycleAdmins = (
+  admins: Admin[],
+  target: string | undefined,
+  orgAdmins: Admin[]
+): Admin[] => {
+  if (!target) return [];
+  const selectedIds = new Set(admins.map(admin => admin.admin_id));
+  const levels = [...orgAdmins.filter(admin => !selectedIds.has(admin.admin_id)), ...admins];
+  return admins.filter(admin =>
+    admin.admin_id !== target && wouldCreateCycle(levels, admin.admin_id, target)
+  );
+};
+
+// Admins the action would not change (or could not apply to) are skipped up front
+export const getApplicableAdmins = (
+  action: BulkAdminActionType,
+  admins: Admin[],
+  target?: string,
+  orgAdmins: Admin[] = admins
+): Admin[] => {
+  switch (action) {
+    case 'activate':
+      return admins.filter(admin => !admin.is_active);
+    case 'deactivate':
+      return admins.filter(admin => admin.is_active);
+    case 'changeRole':
+      return admins.filter(admin => admin.admin_role_id !== target);
+    case 'setReportsTo': {
+      // Nobody can report to themselves or to someone below them
+      const cycleIds = new Set(
+        getReportsToCycleAdmins(admins, target, orgAdmins).map(admin => admin.admin_id)
+      );
+      return admins.filter(admin =>
+        admin.admin_id !== target &&
+        (admin.reports_to || '') !== target &&
+        !cycleIds.has(admin.admin_id)
+      );
+    }
+    default:
+      return admins;
+  }
+};
@@ -3,17 +3,34 @@
  import { View, Text, TouchableOpacity } from 'react-native';
  import { MaterialCommunityIcons } from '@expo/vector-icons';
  import { Admin } from '@/types';
+ import { OutboxEntry } from '@/services/outbox';
+ import SyncStatusBadge from './SyncStatusBadge';
+ import {
+   splitHighlight,
+   getRelevancePercent,
+   formatMatchType,
+   STRONG_MATCH_PERCENT,
+ } from '../adminSearch';
  import styles from '../styles';
  
  interface AdminCardProps {
    admin: Admin;
    onView: () => void;
-   onEdit: () => void;
-   onDelete: () => void;
-   onToggleStatus: () => void;
-   onChangePhone: () => void;
-   onChangeMPIN: () => void;
-   onUpdateReportsTo: () => void;
+   // Action callbacks are omitted when the signed-in admin lacks the permission
+   onEdit?: () => void;
+   onDelete?: () => void;
+   onToggleStatus?: () => void;
+   onChangePhone?: () => void;
+   onChangeMPIN?: () => void;
+   onUpdateReportsTo?: () => void;
+   // Offline changes to this admin that have not reached the server yet
+   pendingChanges?: OutboxEntry[];
+   // Set when the card is a search result; matches are highlighted
+   searchQuery?: string;
+   // Bulk selection: tapping the card toggles it and the action row is hidden
+   selectionMode?: boolean;
+   selected?: boolean;
+   onToggleSelect?: () => void;
    loadingAdminDetails: boolean;
    isTablet: boolean;
    isLargeTablet: boolean;
@@ -28,13 +45,49 @@
    onChangePhone,
    onChangeMPIN,
    onUpdateReportsTo,
+   pendingChanges = [],
+   searchQuery,
+   selectionMode = false,
+   selected = false,
+   onToggleSelect,
    loadingAdminDetails,
    isTablet,
    isLargeTablet,
  }) => {
+   const relevance = searchQuery !== undefined ? getRelevancePercent(admin.relevance_score) : null;
+   const matchType = searchQuery !== undefined ? formatMatchType(admin.match_type) : null;
+   const isStrongMatch = relevance !== null && relevance >= STRONG_MATCH_PERCENT;
+
+   const renderHighlighted = (text: string) =>
+     searchQuery
+       ? splitHighlight(text, searchQuery).map((segment, index) => (
+           <Text key={index} style={segment.match ? styles.searchHighlight : undefined}>
+             {segment.text}
+           </Text>
+         ))
+       : text;
+
    return (
-     <View style={[styles.adminCard, isTablet && styles.adminCardTablet]}>
+     <TouchableOpacity
+       style={[
+         styles.adminCard,
+         isTablet && styles.adminCardTablet,
+         isStrongMatch && styles.adminCardStrongMatch,
+         selected && styles.adminCardSelected,
+       ]}
+       onPress={onToggleSelect}
+       disabled={!selectionMode}
+       activeOpacity={0.7}
+     >
        <View style={styles.adminHeader}>
+         {selectionMode && (
+           <MaterialCommunityIcons
+             name={selected ? "checkbox-marked" : "checkbox-blank-outline"}
+             size={isTablet ? 26 : 22}
+             color={selected ? '#8B5CF6' : '#CBD5E1'}
+             style={styles.bulkCheckbox}
+           />
+         )}
          <View style={[
            styles.adminIconContainer,
            admin.role_type === 1 && styles.employeeIconContainer,
@@ -58,7 +111,7 @@
          <View style={styles.adminInfo}>
            <View style={styles.adminTitleRow}>
              <Text style={[styles.adminName, isTablet && styles.adminNameTablet]}>
-               {admin.full_name}
+               {renderHighlighted(admin.full_name)}
              </Text>
              <View style={styles.adminStatusContainer}>
                {admin.is_active ? (
@@ -72,11 +125,29 @@
                    <Text style={styles.inactiveBadgeText}>Inactive</Text>
                  </View>
                )}
+               <SyncStatusBadge entries={pendingChanges} style={styles.syncBadgeStacked} />
              </View>
            </View>
            <Text style={styles.adminUsername} numberOfLines={1}>
-             @{admin.username}
+             @{renderHighlighted(admin.username)}
            </Text>
+           {(matchType || relevance !== null) && (
+             <View style={styles.matchInfoRow}>
+               {matchType && (
+                 <View style={styles.matchTypeBadge}>
+                   <Text style={styles.matchTypeText}>{matchType}</Text>
+                 </View>
+               )}
+               {relevance !== null && (
+                 <>
+                   <View style={styles.relevanceTrack}>
+                     <View style={[styles.relevanceFill, { width: `${relevance}%` }]} />
+                   </View>
+                   <Text style={styles.relevanceText}>{relevance}% match</Text>
+                 </>
+               )}
+             </View>
+           )}
            <View style={styles.adminMeta}>
              <View style={styles.metaItem}>
                <MaterialCommunityIcons name="shield" size={12} color="#64748B" />
@@ -107,6 +178,7 @@
            )}
          </View>
        </View>
+       {!selectionMode && (
        <View style={styles.adminActions}>
          <TouchableOpacity
            style={[styles.actionButton, styles.viewButton]}
@@ -116,22 +188,27 @@
            <MaterialCommunityIcons name="eye" size={16} color="#64748B" />
            <Text style={styles.actionButtonText}>View</Text>
          </TouchableOpacity>
-         <TouchableOpacity
-           style={[styles.actionButton, styles.editButton]}
-           onPress={onEdit}
-         >
-           <MaterialCommunityIcons name="pencil" size={16} color="#64748B" />
-           <Text style={styles.actionButtonText}>Edit</Text>
-         </TouchableOpacity>
-         <TouchableOpacity
-           style={[styles.actionButton, styles.settingsButton]}
-           onPress={onChangePhone}
-         >
-           <MaterialCommunityIcons name="phone" size={16} color="#64748B" />
-           <Text style={styles.actionButtonText}>Phone</Text>
-         </TouchableOpacity>
+         {onEdit && (
+           <TouchableOpacity
+             style={[styles.actionButton, styles.editButton]}
+             onPress={onEdit}
+           >
+             <MaterialCommunityIcons name="pencil" size={16} color="#64748B" />
+             <Text style={styles.actionButtonText}>Edit</Text>
+           </TouchableOpacity>
+         )}
+         {onChangePhone && (
+           <TouchableOpacity
+             style={[styles.actionButton, styles.settingsButton]}
+             onPress={onChangePhone}
+           >
+             <MaterialCommunityIcons name="phone" size={16} color="#64748B" />
+             <Text style={styles.actionButtonText}>Phone</Text>
+           </TouchableOpacity>
+         )}
        </View>
-     </View>
+       )}
+     </TouchableOpacity>
    );
  };
  
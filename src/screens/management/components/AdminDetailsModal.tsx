@@ -2,16 +2,22 @@ import React, { useState } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
   Dimensions,
   ScrollView,
   ActivityIndicator,
   Alert,
 } from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { AdminDetails } from '@/types';
+import { api } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import { isSuperAdmin } from '@/services/permissions';
+import TrustedDevicesList from '@/components/TrustedDevicesList';
 import styles from '../styles';
 type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
 
@@ -23,12 +29,13 @@ interface AdminDetailsModalProps {
   onClose: () => void;
   adminDetails: AdminDetails | null;
   isLoading: boolean;
-  onEdit: () => void;
-  onChangePhone: () => void;
-  onChangeMPIN: () => void;
-  onUpdateReportsTo: () => void;
-  onToggleStatus: () => void;
-  onViewHierarchy: () => void;
+  // Each action button is hidden when its callback is omitted
+  onEdit?: () => void;
+  onChangePhone?: () => void;
+  onChangeMPIN?: () => void;
+  onUpdateReportsTo?: () => void;
+  onToggleStatus?: () => void;
+  onViewHierarchy?: () => void;
 }
 
 const AdminDetailsModal: React.FC<AdminDetailsModalProps> = ({
@@ -45,10 +52,43 @@ const AdminDetailsModal: React.FC<AdminDetailsModalProps> = ({
 }) => {
   const [showPermissions, setShowPermissions] = useState(false);
   const [showDepartments, setShowDepartments] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const { adminInfo } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+
+  const forceLogoutMutation = useMutation({
+    mutationFn: (adminId: string) => api.forceLogoutAdmin(adminId),
+    onSuccess: (response, adminId) => {
+      queryClient.invalidateQueries({ queryKey: ['trustedDevices', adminId] });
+      showToast('success', response.data?.message || 'Admin signed out of all sessions');
+    },
+    onError: (error: any) => {
+      console.error('❌ [SESSIONS] Force logout failed:', error);
+      showToast('error', error.response?.data?.message || 'Failed to sign out admin');
+    },
+  });
 
   if (!adminDetails) return null;
 
   const { admin, department_names, permission_names } = adminDetails;
+  // Own devices are managed from the profile screen
+  const canManageDevices = isSuperAdmin(adminInfo) && adminInfo?.admin_id !== admin.admin_id;
+
+  const confirmForceLogout = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      `End every session of ${admin.full_name}? They will have to log in again on all devices. Use this when a device is lost or stolen.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => forceLogoutMutation.mutate(admin.admin_id),
+        },
+      ],
+    );
+  };
 
   const renderStatusBadge = () => (
     <View style={[
@@ -99,7 +139,7 @@ const AdminDetailsModal: React.FC<AdminDetailsModalProps> = ({
   };
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -176,77 +216,83 @@ const AdminDetailsModal: React.FC<AdminDetailsModalProps> = ({
 
                 {/* Action Buttons */}
                 <View style={[styles.adminDetailsActions, { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 20 }]}>
-                  <TouchableOpacity
-                    style={[
-                      styles.adminDetailsActionButton,
-                      styles.editActionButton,
-                      { 
-                        flex: 1,
-                        minWidth: 100,
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        paddingVertical: 10,
-                        borderRadius: 10,
-                        gap: 6,
-                        borderWidth: 1,
-                      }
-                    ]}
-                    onPress={onEdit}
-                  >
-                    <MaterialCommunityIcons name="pencil" size={16} color="#8B5CF6" />
-                    <Text style={[styles.adminDetailsActionText, { color: '#8B5CF6' }]}>
-                      Edit
-                    </Text>
-                  </TouchableOpacity>
+                  {onEdit && (
+                    <TouchableOpacity
+                      style={[
+                        styles.adminDetailsActionButton,
+                        styles.editActionButton,
+                        { 
+                          flex: 1,
+                          minWidth: 100,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          paddingVertical: 10,
+                          borderRadius: 10,
+                          gap: 6,
+                          borderWidth: 1,
+                        }
+                      ]}
+                      onPress={onEdit}
+                    >
+                      <MaterialCommunityIcons name="pencil" size={16} color="#8B5CF6" />
+                      <Text style={[styles.adminDetailsActionText, { color: '#8B5CF6' }]}>
+                        Edit
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   
-                  <TouchableOpacity
-                    style={[
-                      styles.adminDetailsActionButton,
-                      styles.phoneActionButton,
-                      { 
-                        flex: 1,
-                        minWidth: 100,
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        paddingVertical: 10,
-                        borderRadius: 10,
-                        gap: 6,
-                        borderWidth: 1,
-                      }
-                    ]}
-                    onPress={onChangePhone}
-                  >
-                    <MaterialCommunityIcons name="phone" size={16} color="#64748B" />
-                    <Text style={[styles.adminDetailsActionText, { color: '#64748B' }]}>
-                      Change Phone
-                    </Text>
-                  </TouchableOpacity>
+                  {onChangePhone && (
+                    <TouchableOpacity
+                      style={[
+                        styles.adminDetailsActionButton,
+                        styles.phoneActionButton,
+                        { 
+                          flex: 1,
+                          minWidth: 100,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          paddingVertical: 10,
+                          borderRadius: 10,
+                          gap: 6,
+                          borderWidth: 1,
+                        }
+                      ]}
+                      onPress={onChangePhone}
+                    >
+                      <MaterialCommunityIcons name="phone" size={16} color="#64748B" />
+                      <Text style={[styles.adminDetailsActionText, { color: '#64748B' }]}>
+                        Change Phone
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   
-                  <TouchableOpacity
-                    style={[
-                      styles.adminDetailsActionButton,
-                      styles.mpinActionButton,
-                      { 
-                        flex: 1,
-                        minWidth: 100,
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        paddingVertical: 10,
-                        borderRadius: 10,
-                        gap: 6,
-                        borderWidth: 1,
-                      }
-                    ]}
-                    onPress={onChangeMPIN}
-                  >
-                    <MaterialCommunityIcons name="shield-key" size={16} color="#F59E0B" />
-                    <Text style={[styles.adminDetailsActionText, { color: '#F59E0B' }]}>
-                      Reset MPIN
-                    </Text>
-                  </TouchableOpacity>
+                  {onChangeMPIN && (
+                    <TouchableOpacity
+                      style={[
+                        styles.adminDetailsActionButton,
+                        styles.mpinActionButton,
+                        { 
+                          flex: 1,
+                          minWidth: 100,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          paddingVertical: 10,
+                          borderRadius: 10,
+                          gap: 6,
+                          borderWidth: 1,
+                        }
+                      ]}
+                      onPress={onChangeMPIN}
+                    >
+                      <MaterialCommunityIcons name="shield-key" size={16} color="#F59E0B" />
+                      <Text style={[styles.adminDetailsActionText, { color: '#F59E0B' }]}>
+                        Reset MPIN
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 {/* Admin Information */}
@@ -374,86 +420,146 @@ const AdminDetailsModal: React.FC<AdminDetailsModalProps> = ({
                   )}
                 </View>
 
+                {/* Trusted Devices Section */}
+                {canManageDevices && (
+                  <View style={styles.section}>
+                    <TouchableOpacity
+                      style={styles.sectionHeader}
+                      onPress={() => setShowDevices(!showDevices)}
+                    >
+                      <Text style={[styles.sectionTitle, isTablet && styles.sectionTitleTablet]}>
+                        Devices & Sessions
+                      </Text>
+                      <MaterialCommunityIcons
+                        name={showDevices ? "chevron-up" : "chevron-down"}
+                        size={20}
+                        color="#64748B"
+                      />
+                    </TouchableOpacity>
+
+                    {showDevices && (
+                      <>
+                        <TrustedDevicesList adminId={admin.admin_id} />
+                        <TouchableOpacity
+                          style={[
+                            styles.additionalActionButton,
+                            styles.deactivateActionButton,
+                            {
+                              flexDirection: 'row',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              paddingVertical: 10,
+                              borderRadius: 10,
+                              gap: 6,
+                              borderWidth: 1,
+                              marginTop: 12,
+                            }
+                          ]}
+                          onPress={confirmForceLogout}
+                          disabled={forceLogoutMutation.isPending}
+                        >
+                          {forceLogoutMutation.isPending ? (
+                            <ActivityIndicator size="small" color="#EF4444" />
+                          ) : (
+                            <>
+                              <MaterialCommunityIcons name="logout-variant" size={16} color="#EF4444" />
+                              <Text style={[styles.additionalActionText, { color: '#EF4444' }]}>
+                                Sign Out Everywhere
+                              </Text>
+                            </>
+                          )}
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </View>
+                )}
+
                 {/* Additional Actions */}
                 <View style={[styles.additionalActions, { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 20 }]}>
-                  <TouchableOpacity
-                    style={[
-                      styles.additionalActionButton,
-                      styles.hierarchyActionButton,
-                      { 
-                        flex: 1,
-                        minWidth: 100,
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        paddingVertical: 10,
-                        borderRadius: 10,
-                        gap: 6,
-                        borderWidth: 1,
-                      }
-                    ]}
-                    onPress={onViewHierarchy}
-                  >
-                    <MaterialCommunityIcons name="sitemap" size={16} color="#8B5CF6" />
-                    <Text style={[styles.additionalActionText, { color: '#8B5CF6' }]}>
-                      View Hierarchy
-                    </Text>
-                  </TouchableOpacity>
+                  {onViewHierarchy && (
+                    <TouchableOpacity
+                      style={[
+                        styles.additionalActionButton,
+                        styles.hierarchyActionButton,
+                        { 
+                          flex: 1,
+                          minWidth: 100,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          paddingVertical: 10,
+                          borderRadius: 10,
+                          gap: 6,
+                          borderWidth: 1,
+                        }
+                      ]}
+                      onPress={onViewHierarchy}
+                    >
+                      <MaterialCommunityIcons name="sitemap" size={16} color="#8B5CF6" />
+                      <Text style={[styles.additionalActionText, { color: '#8B5CF6' }]}>
+                        View Hierarchy
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   
-                  <TouchableOpacity
-                    style={[
-                      styles.additionalActionButton,
-                      styles.reportsToActionButton,
-                      { 
-                        flex: 1,
-                        minWidth: 100,
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        paddingVertical: 10,
-                        borderRadius: 10,
-                        gap: 6,
-                        borderWidth: 1,
-                      }
-                    ]}
-                    onPress={onUpdateReportsTo}
-                  >
-                    <MaterialCommunityIcons name="account-arrow-right" size={16} color="#64748B" />
-                    <Text style={[styles.additionalActionText, { color: '#64748B' }]}>
-                      Change Reports To
-                    </Text>
-                  </TouchableOpacity>
+                  {onUpdateReportsTo && (
+                    <TouchableOpacity
+                      style={[
+                        styles.additionalActionButton,
+                        styles.reportsToActionButton,
+                        { 
+                          flex: 1,
+                          minWidth: 100,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          paddingVertical: 10,
+                          borderRadius: 10,
+                          gap: 6,
+                          borderWidth: 1,
+                        }
+                      ]}
+                      onPress={onUpdateReportsTo}
+                    >
+                      <MaterialCommunityIcons name="account-arrow-right" size={16} color="#64748B" />
+                      <Text style={[styles.additionalActionText, { color: '#64748B' }]}>
+                        Change Reports To
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   
-                  <TouchableOpacity
-                    style={[
-                      styles.additionalActionButton,
-                      admin.is_active ? styles.deactivateActionButton : styles.activateActionButton,
-                      { 
-                        flex: 1,
-                        minWidth: 100,
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        paddingVertical: 10,
-                        borderRadius: 10,
-                        gap: 6,
-                        borderWidth: 1,
-                      }
-                    ]}
-                    onPress={onToggleStatus}
-                  >
-                    <MaterialCommunityIcons
-                      name={admin.is_active ? "account-off" : "account-check"}
-                      size={16}
-                      color={admin.is_active ? "#EF4444" : "#10B981"}
-                    />
-                    <Text style={[
-                      styles.additionalActionText,
-                      { color: admin.is_active ? "#EF4444" : "#10B981" },
-                    ]}>
-                      {admin.is_active ? 'Deactivate' : 'Activate'}
-                    </Text>
-                  </TouchableOpacity>
+                  {onToggleStatus && (
+                    <TouchableOpacity
+                      style={[
+                        styles.additionalActionButton,
+                        admin.is_active ? styles.deactivateActionButton : styles.activateActionButton,
+                        { 
+                          flex: 1,
+                          minWidth: 100,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          paddingVertical: 10,
+                          borderRadius: 10,
+                          gap: 6,
+                          borderWidth: 1,
+                        }
+                      ]}
+                      onPress={onToggleStatus}
+                    >
+                      <MaterialCommunityIcons
+                        name={admin.is_active ? "account-off" : "account-check"}
+                        size={16}
+                        color={admin.is_active ? "#EF4444" : "#10B981"}
+                      />
+                      <Text style={[
+                        styles.additionalActionText,
+                        { color: admin.is_active ? "#EF4444" : "#10B981" },
+                      ]}>
+                        {admin.is_active ? 'Deactivate' : 'Activate'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
               </>
             )}
@@ -474,7 +580,7 @@ const AdminDetailsModal: React.FC<AdminDetailsModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
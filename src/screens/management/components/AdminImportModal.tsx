@@ -0,0 +1,364 @@
+// components/AdminImportModal.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import {
+  ImportContext,
+  ImportPreview,
+  ImportResult,
+  IMPORT_TEMPLATE,
+  validateImport,
+  loadImportContext,
+  runAdminImport,
+  buildImportReport,
+} from '../adminImport';
+import { getApiErrorMessage } from '../bulkAdminOps';
+import { shareExportFile } from '../dataExport';
+import styles from '../styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+type Phase = 'source' | 'validating' | 'preview' | 'importing' | 'results';
+
+const PREVIEW_COLUMNS: { key: 'full_name' | 'username' | 'phone_number' | 'role' | 'manager'; title: string }[] = [
+  { key: 'full_name', title: 'Full Name' },
+  { key: 'username', title: 'Username' },
+  { key: 'phone_number', title: 'Phone' },
+  { key: 'role', title: 'Role' },
+  { key: 'manager', title: 'Manager' },
+];
+
+interface AdminImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called once the import has run, so lists can be refreshed
+  onImported: (results: ImportResult[]) => void;
+}
+
+const AdminImportModal: React.FC<AdminImportModalProps> = ({ visible, onClose, onImported }) => {
+  const [phase, setPhase] = useState<Phase>('source');
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  // Fetched once per session of the modal; roles and usernames rarely change mid-import
+  const [context, setContext] = useState<ImportContext | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [completed, setCompleted] = useState(0);
+  const [results, setResults] = useState<ImportResult[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setPhase('source');
+      setCsvText('');
+      setFileName(null);
+      setSourceError(null);
+      setContext(null);
+      setPreview(null);
+      setCompleted(0);
+      setResults([]);
+    }
+  }, [visible]);
+
+  const validRows = preview?.rows.filter(row => row.request !== null) ?? [];
+  const invalidCount = (preview?.rows.length ?? 0) - validRows.length;
+  const failed = results.filter(result => result.status === 'failed');
+
+  const handlePickFile = async () => {
+    setSourceError(null);
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const asset = picked.assets[0];
+      const response = await fetch(asset.uri);
+      setCsvText(await response.text());
+      setFileName(asset.name);
+    } catch (error) {
+      console.error('❌ [IMPORT] Error reading file:', error);
+      setSourceError('Could not read the selected file');
+    }
+  };
+
+  const handleValidate = async () => {
+    setSourceError(null);
+    setPhase('validating');
+    try {
+      const importContext = context ?? await loadImportContext();
+      setContext(importContext);
+      setPreview(validateImport(csvText, importContext));
+      setPhase('preview');
+    } catch (error) {
+      console.error('❌ [IMPORT] Error loading roles and admins:', error);
+      setSourceError(getApiErrorMessage(error));
+      setPhase('source');
+    }
+  };
+
+  const handleImport = async () => {
+    setPhase('importing');
+    setCompleted(0);
+    const importResults = await runAdminImport(validRows, () => setCompleted(prev => prev + 1));
+    setResults(importResults);
+    setPhase('results');
+    onImported(importResults);
+  };
+
+  const handleShareReport = async () => {
+    if (!preview) return;
+    try {
+      await shareExportFile({
+        fileName: `admin-import-report-${Date.now()}.csv`,
+        mimeType: 'text/csv',
+        content: buildImportReport(preview.rows, results),
+      });
+    } catch (error) {
+      console.error('❌ [IMPORT] Error sharing report:', error);
+    }
+  };
+
+  const handleClose = () => {
+    if (phase !== 'validating' && phase !== 'importing') onClose();
+  };
+
+  const renderSource = () => (
+    <>
+      <TouchableOpacity style={styles.importPickButton} onPress={handlePickFile}>
+        <MaterialCommunityIcons name="file-delimited-outline" size={22} color="#8B5CF6" />
+        <Text style={styles.importPickText}>{fileName ?? 'Choose CSV file'}</Text>
+      </TouchableOpacity>
+
+      <View style={styles.inputGroup}>
+        <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>Or paste CSV</Text>
+        <Text style={[styles.inputSubtext, isTablet && styles.inputSubtextTablet]}>
+          Columns: full_name, username, phone_number, role, manager (optional, a username)
+        </Text>
+        <IdleAwareTextInput
+          style={[styles.textInput, styles.textArea, styles.importTextArea]}
+          value={csvText}
+          onChangeText={text => {
+            setCsvText(text);
+            setFileName(null);
+          }}
+          placeholder={IMPORT_TEMPLATE}
+          placeholderTextColor="#94A3B8"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      {sourceError && (
+        <View style={styles.bulkWarning}>
+          <MaterialCommunityIcons name="alert" size={18} color="#EF4444" />
+          <Text style={styles.bulkWarningText}>{sourceError}</Text>
+        </View>
+      )}
+    </>
+  );
+
+  const renderPreview = () => {
+    if (!preview) return null;
+
+    if (preview.fileError) {
+      return (
+        <View style={styles.bulkWarning}>
+          <MaterialCommunityIcons name="file-alert-outline" size={18} color="#EF4444" />
+          <Text style={styles.bulkWarningText}>{preview.fileError}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.bulkResultSummary}>
+          <View style={styles.bulkResultCount}>
+            <MaterialCommunityIcons name="check-circle" size={18} color="#10B981" />
+            <Text style={styles.bulkResultCountText}>{validRows.length} ready</Text>
+          </View>
+          <View style={styles.bulkResultCount}>
+            <MaterialCommunityIcons name="alert-circle" size={18} color="#EF4444" />
+            <Text style={styles.bulkResultCountText}>{invalidCount} with errors</Text>
+          </View>
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View>
+            <View style={[styles.importRow, styles.importHeaderRow]}>
+              <Text style={[styles.importCell, styles.importLineCell, styles.importHeaderText]}>#</Text>
+              {PREVIEW_COLUMNS.map(column => (
+                <Text key={column.key} style={[styles.importCell, styles.importHeaderText]}>
+                  {column.title}
+                </Text>
+              ))}
+            </View>
+            {preview.rows.map(row => (
+              <View key={row.line} style={row.errors.length > 0 && styles.importRowInvalid}>
+                <View style={styles.importRow}>
+                  <Text style={[styles.importCell, styles.importLineCell]}>{row.line}</Text>
+                  {PREVIEW_COLUMNS.map(column => (
+                    <Text key={column.key} style={styles.importCell} numberOfLines={1}>
+                      {row.values[column.key] || '—'}
+                    </Text>
+                  ))}
+                </View>
+                {row.errors.map(error => (
+                  <Text key={error} style={styles.importRowError}>• {error}</Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </>
+    );
+  };
+
+  const renderProgress = (label: string, done?: number, total?: number) => (
+    <View style={styles.bulkProgress}>
+      <ActivityIndicator size="large" color="#8B5CF6" />
+      <Text style={styles.bulkProgressText}>{label}</Text>
+      {total !== undefined && done !== undefined && (
+        <View style={styles.bulkProgressTrack}>
+          <View style={[styles.bulkProgressFill, { width: `${total > 0 ? (done / total) * 100 : 0}%` }]} />
+        </View>
+      )}
+    </View>
+  );
+
+  const renderResults = () => (
+    <>
+      <View style={styles.bulkResultSummary}>
+        <View style={styles.bulkResultCount}>
+          <MaterialCommunityIcons name="check-circle" size={18} color="#10B981" />
+          <Text style={styles.bulkResultCountText}>{results.length - failed.length} created</Text>
+        </View>
+        <View style={styles.bulkResultCount}>
+          <MaterialCommunityIcons name="close-circle" size={18} color="#EF4444" />
+          <Text style={styles.bulkResultCountText}>{failed.length} failed</Text>
+        </View>
+        {invalidCount > 0 && (
+          <View style={styles.bulkResultCount}>
+            <MaterialCommunityIcons name="skip-next-circle" size={18} color="#94A3B8" />
+            <Text style={styles.bulkResultCountText}>{invalidCount} skipped</Text>
+          </View>
+        )}
+      </View>
+      {failed.map(result => (
+        <View key={result.line} style={styles.bulkResultItem}>
+          <MaterialCommunityIcons name="alert-circle" size={18} color="#EF4444" />
+          <View style={styles.bulkResultContent}>
+            <Text style={styles.bulkResultName} numberOfLines={1}>
+              Line {result.line} • @{result.username}
+            </Text>
+            <Text style={styles.bulkResultError}>{result.error}</Text>
+          </View>
+        </View>
+      ))}
+    </>
+  );
+
+  const renderFooter = () => {
+    if (phase === 'validating' || phase === 'importing') return null;
+
+    const secondary =
+      phase === 'preview'
+        ? { label: 'Back', onPress: () => setPhase('source') }
+        : phase === 'results'
+          ? { label: 'Share Report', onPress: handleShareReport }
+          : { label: 'Cancel', onPress: handleClose };
+
+    const primary =
+      phase === 'source'
+        ? { label: 'Check Rows', onPress: handleValidate, disabled: !csvText.trim() }
+        : phase === 'preview'
+          ? { label: `Import ${validRows.length}`, onPress: handleImport, disabled: validRows.length === 0 }
+          : { label: 'Done', onPress: onClose, disabled: false };
+
+    return (
+      <View style={styles.reportsToModalFooter}>
+        <TouchableOpacity
+          style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+          onPress={secondary.onPress}
+        >
+          <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+            {secondary.label}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            isTablet && styles.submitButtonTablet,
+            primary.disabled && styles.submitButtonDisabled,
+          ]}
+          onPress={primary.onPress}
+          disabled={primary.disabled}
+        >
+          <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+            {primary.label}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <IdleAwareModal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={handleClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.reportsToModalOverlay}>
+        <View style={[styles.reportsToModalContent, isTablet && styles.reportsToModalContentTablet]}>
+          <View style={styles.reportsToModalHeader}>
+            <View>
+              <Text style={[styles.reportsToModalTitle, isTablet && styles.reportsToModalTitleTablet]}>
+                Import Admins
+              </Text>
+              <Text style={[styles.reportsToModalSubtitle, isTablet && styles.reportsToModalSubtitleTablet]}>
+                Rows are checked before anything is created
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={handleClose}
+              disabled={phase === 'validating' || phase === 'importing'}
+            >
+              <MaterialCommunityIcons name="close" size={isTablet ? 28 : 24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView
+            style={styles.reportsToModalBody}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {phase === 'source' && renderSource()}
+            {phase === 'validating' && renderProgress('Checking roles, managers and usernames…')}
+            {phase === 'preview' && renderPreview()}
+            {phase === 'importing' &&
+              renderProgress(`${completed} of ${validRows.length} created`, completed, validRows.length)}
+            {phase === 'results' && renderResults()}
+          </ScrollView>
+          <SafeAreaView edges={['bottom']} style={styles.reportsToModalSafeFooter}>
+            {renderFooter()}
+          </SafeAreaView>
+        </View>
+      </View>
+    </IdleAwareModal>
+  );
+};
+
+export default AdminImportModal;
@@ -5,7 +5,6 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  TextInput,
   Alert,
   ActivityIndicator,
   Modal,
@@ -14,9 +13,10 @@ import {
   RefreshControl,
   Platform,
 } from 'react-native';
+import { IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
 import { api } from '@/services/api';
@@ -28,6 +28,7 @@ import {
   AdminStats,
   AdminHierarchy,
   AdminPhoneInfo,
+  AdminsResponse,
 } from '@/types';
 
 // Components
@@ -38,6 +39,12 @@ import AdminCard from './AdminCard';
 import PhoneChangeModal from './PhoneChangeModal';
 import MPINChangeModal from './MPINChangeModal';
 import ReportsToModal from './ReportsToModal';
+import {
+  LIST_PAGE_SIZE,
+  getNextPageOffset,
+  flattenAdminPages,
+  getPagedTotal,
+} from '../paging';
 const [loadingPhone, setLoadingPhone] = useState(false);
 
 const { width } = Dimensions.get('window');
@@ -65,20 +72,28 @@ const AdminManagementScreen = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [loadingAdminDetails, setLoadingAdminDetails] = useState(false);
 
-  // Fetch all admins
+  // Fetch admins page by page
   const {
     data: adminsData,
     isLoading: isLoadingAdmins,
     error: adminsError,
     refetch: refetchAdmins,
-  } = useQuery({
+    fetchNextPage: fetchNextAdmins,
+    hasNextPage: hasMoreAdmins,
+    isFetchingNextPage: isFetchingMoreAdmins,
+  } = useInfiniteQuery({
     queryKey: ['allAdmins'],
-    queryFn: async () => {
-      const response = await api.getAllAdmins({ limit: 100, offset: 0 });
-      return response.data;
+    queryFn: async ({ pageParam }) => {
+      const response = await api.getAllAdmins({ limit: LIST_PAGE_SIZE, offset: pageParam });
+      return response.data as AdminsResponse;
     },
+    initialPageParam: 0,
+    getNextPageParam: lastPage => getNextPageOffset(lastPage.data?.meta),
   });
 
+  const loadedAdmins = flattenAdminPages(adminsData);
+  const totalAdmins = getPagedTotal(adminsData, loadedAdmins.length);
+
   // Fetch admin stats
   const {
     data: statsData,
@@ -424,10 +439,17 @@ const AdminManagementScreen = () => {
     return admins;
   };
 
-  const adminsToDisplay =
-  searchQuery.trim() && searchResults?.data?.results
+  const isSearching = !!searchQuery.trim() && !!searchResults?.data?.results;
+  const adminsToDisplay = isSearching
     ? filterAdminsByType(searchResults.data.results)
-    : filterAdminsByType(adminsData?.data?.admins || []);
+    : filterAdminsByType(loadedAdmins);
+
+  // Search results are not paged; the type filter applies to the pages loaded so far
+  const loadMoreAdmins = () => {
+    if (!isSearching && hasMoreAdmins && !isFetchingMoreAdmins) {
+      fetchNextAdmins();
+    }
+  };
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -464,6 +486,20 @@ const AdminManagementScreen = () => {
     />
   );
 
+  const renderListFooter = () => {
+    if (isSearching || loadedAdmins.length === 0) return null;
+
+    return (
+      <View style={styles.listFooter}>
+        {isFetchingMoreAdmins && <ActivityIndicator size="small" color="#8B5CF6" />}
+        <Text style={styles.listFooterText}>
+          {selectedAdminType !== 'all' ? `${adminsToDisplay.length} matching • ` : ''}
+          {loadedAdmins.length} of {totalAdmins} admins
+        </Text>
+      </View>
+    );
+  };
+
   const renderEmptyComponent = () => {
     if (isLoadingAdmins) {
       return <ActivityIndicator size="large" color="#8B5CF6" style={styles.loader} />;
@@ -519,7 +555,7 @@ const AdminManagementScreen = () => {
         <View style={isTablet && styles.headerContentTablet}>
           <Text style={[styles.title, isTablet && styles.titleTablet]}>Admin Management</Text>
           <Text style={[styles.subtitle, isTablet && styles.subtitleTablet]}>
-            Manage all admin users • {adminStats?.total_admins || 0} total admins
+            Manage all admin users • {adminStats?.total_admins || totalAdmins} total admins
           </Text>
         </View>
       </View>
@@ -527,7 +563,7 @@ const AdminManagementScreen = () => {
       {/* Search Bar */}
       <View style={[styles.searchContainer, isTablet && styles.searchContainerTablet]}>
         <MaterialCommunityIcons name="magnify" size={20} color="#64748B" />
-        <TextInput
+        <IdleAwareTextInput
           style={[styles.searchInput, isTablet && styles.searchInputTablet]}
           placeholder="Search admins by name, username, or phone..."
           placeholderTextColor="#94A3B8"
@@ -625,6 +661,8 @@ const AdminManagementScreen = () => {
         data={adminsToDisplay}
         renderItem={renderAdminItem}
         keyExtractor={(item: Admin) => item.admin_id}
+        onEndReached={loadMoreAdmins}
+        onEndReachedThreshold={0.5}
         contentContainerStyle={[
           styles.adminsList,
           isTablet && styles.adminsListTablet,
@@ -641,6 +679,7 @@ const AdminManagementScreen = () => {
           />
         }
         ListEmptyComponent={renderEmptyComponent()}
+        ListFooterComponent={renderListFooter()}
         showsVerticalScrollIndicator={false}
       />
 
@@ -1025,6 +1064,15 @@ const styles = StyleSheet.create({
     bottom: 24,
     right: 24,
   },
+  listFooter: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 8,
+  },
+  listFooterText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
 });
 
 export default AdminManagementScreen;
\ No newline at end of file
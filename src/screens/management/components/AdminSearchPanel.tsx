@@ -0,0 +1,249 @@
+// components/AdminSearchPanel.tsx
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { AdminSuggestion, Role } from '@/types';
+import {
+  AdminSearchFilters,
+  EMPTY_SEARCH_FILTERS,
+  CREATED_WITHIN_OPTIONS,
+  STATUS_OPTIONS,
+  MANAGER_OPTIONS,
+  SavedAdminSearch,
+  hasActiveFilters,
+} from '../adminSearch';
+import styles from '../styles';
+
+type FilterKey = 'role' | 'created' | 'status' | 'manager';
+
+interface FilterOption {
+  key: string;
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+interface AdminSearchPanelProps {
+  suggestions: AdminSuggestion[];
+  showSuggestions: boolean;
+  isLoadingSuggestions: boolean;
+  onSelectSuggestion: (suggestion: AdminSuggestion) => void;
+  filters: AdminSearchFilters;
+  onChangeFilters: (filters: AdminSearchFilters) => void;
+  roles: Role[];
+  savedSearches: SavedAdminSearch[];
+  onApplySavedSearch: (search: SavedAdminSearch) => void;
+  onDeleteSavedSearch: (search: SavedAdminSearch) => void;
+  // Omitted when there is nothing to save
+  onSaveSearch?: () => void;
+  isTablet: boolean;
+}
+
+const AdminSearchPanel: React.FC<AdminSearchPanelProps> = ({
+  suggestions,
+  showSuggestions,
+  isLoadingSuggestions,
+  onSelectSuggestion,
+  filters,
+  onChangeFilters,
+  roles,
+  savedSearches,
+  onApplySavedSearch,
+  onDeleteSavedSearch,
+  onSaveSearch,
+  isTablet,
+}) => {
+  const [openFilter, setOpenFilter] = useState<FilterKey | null>(null);
+
+  const update = (changes: Partial<AdminSearchFilters>) => {
+    onChangeFilters({ ...filters, ...changes });
+    setOpenFilter(null);
+  };
+
+  const roleLabel = filters.roleId
+    ? roles.find(role => role.admin_role_id === filters.roleId)?.role_name || 'Role'
+    : 'Any role';
+  const labelOf = <T extends string>(options: { value: T; label: string }[], value: T) =>
+    options.find(option => option.value === value)?.label || '';
+
+  const chips: { key: FilterKey; icon: string; label: string; active: boolean }[] = [
+    { key: 'role', icon: 'shield-account', label: roleLabel, active: filters.roleId !== null },
+    {
+      key: 'created',
+      icon: 'calendar-range',
+      label: labelOf(CREATED_WITHIN_OPTIONS, filters.createdWithin),
+      active: filters.createdWithin !== 'any',
+    },
+    {
+      key: 'status',
+      icon: 'account-check',
+      label: labelOf(STATUS_OPTIONS, filters.status),
+      active: filters.status !== 'any',
+    },
+    {
+      key: 'manager',
+      icon: 'account-arrow-right',
+      label: labelOf(MANAGER_OPTIONS, filters.manager),
+      active: filters.manager !== 'any',
+    },
+  ];
+
+  const getOptions = (key: FilterKey): FilterOption[] => {
+    switch (key) {
+      case 'role':
+        return [
+          {
+            key: 'any',
+            label: 'Any role',
+            selected: filters.roleId === null,
+            onPress: () => update({ roleId: null }),
+          },
+          ...roles.map(role => ({
+            key: role.admin_role_id,
+            label: role.role_name,
+            selected: filters.roleId === role.admin_role_id,
+            onPress: () => update({ roleId: role.admin_role_id }),
+          })),
+        ];
+      case 'created':
+        return CREATED_WITHIN_OPTIONS.map(option => ({
+          key: option.value,
+          label: option.label,
+          selected: filters.createdWithin === option.value,
+          onPress: () => update({ createdWithin: option.value }),
+        }));
+      case 'status':
+        return STATUS_OPTIONS.map(option => ({
+          key: option.value,
+          label: option.label,
+          selected: filters.status === option.value,
+          onPress: () => update({ status: option.value }),
+        }));
+      case 'manager':
+        return MANAGER_OPTIONS.map(option => ({
+          key: option.value,
+          label: option.label,
+          selected: filters.manager === option.value,
+          onPress: () => update({ manager: option.value }),
+        }));
+    }
+  };
+
+  const confirmDelete = (search: SavedAdminSearch) => {
+    Alert.alert('Remove Saved Search', `Remove "${search.label}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => onDeleteSavedSearch(search) },
+    ]);
+  };
+
+  return (
+    <View style={[styles.searchPanel, isTablet && styles.searchPanelTablet]}>
+      {/* Type-ahead suggestions */}
+      {showSuggestions && (
+        <View style={styles.suggestionList}>
+          {isLoadingSuggestions && suggestions.length === 0 ? (
+            <ActivityIndicator size="small" color="#8B5CF6" style={styles.suggestionLoader} />
+          ) : (
+            suggestions.map(suggestion => (
+              <TouchableOpacity
+                key={suggestion.admin_id}
+                style={styles.suggestionItem}
+                onPress={() => onSelectSuggestion(suggestion)}
+              >
+                <MaterialCommunityIcons name="account-search" size={18} color="#8B5CF6" />
+                <View style={styles.suggestionText}>
+                  <Text style={styles.suggestionName}>{suggestion.full_name}</Text>
+                  <Text style={styles.suggestionUsername}>@{suggestion.username}</Text>
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      )}
+
+      {/* Filter chips */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filterChipRow}
+      >
+        {chips.map(chip => (
+          <TouchableOpacity
+            key={chip.key}
+            style={[styles.filterChip, (chip.active || openFilter === chip.key) && styles.filterChipActive]}
+            onPress={() => setOpenFilter(prev => (prev === chip.key ? null : chip.key))}
+          >
+            <MaterialCommunityIcons
+              name={chip.icon as any}
+              size={14}
+              color={chip.active ? '#8B5CF6' : '#64748B'}
+            />
+            <Text style={[styles.filterChipText, chip.active && styles.filterChipTextActive]}>
+              {chip.label}
+            </Text>
+            <MaterialCommunityIcons
+              name={openFilter === chip.key ? 'chevron-up' : 'chevron-down'}
+              size={14}
+              color="#94A3B8"
+            />
+          </TouchableOpacity>
+        ))}
+        {hasActiveFilters(filters) && (
+          <TouchableOpacity style={styles.filterChip} onPress={() => update(EMPTY_SEARCH_FILTERS)}>
+            <MaterialCommunityIcons name="filter-remove" size={14} color="#EF4444" />
+            <Text style={styles.filterChipText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {openFilter && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterOptionRow}
+        >
+          {getOptions(openFilter).map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.filterOption, option.selected && styles.filterOptionSelected]}
+              onPress={option.onPress}
+            >
+              <Text style={[styles.filterOptionText, option.selected && styles.filterOptionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {/* Saved searches */}
+      {(savedSearches.length > 0 || onSaveSearch) && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterChipRow}
+        >
+          {onSaveSearch && (
+            <TouchableOpacity style={styles.savedSearchChip} onPress={onSaveSearch}>
+              <MaterialCommunityIcons name="bookmark-plus-outline" size={14} color="#8B5CF6" />
+              <Text style={styles.savedSearchText}>Save search</Text>
+            </TouchableOpacity>
+          )}
+          {savedSearches.map(search => (
+            <TouchableOpacity
+              key={search.id}
+              style={styles.savedSearchChip}
+              onPress={() => onApplySavedSearch(search)}
+              onLongPress={() => confirmDelete(search)}
+            >
+              <MaterialCommunityIcons name="bookmark" size={14} color="#8B5CF6" />
+              <Text style={styles.savedSearchText} numberOfLines={1}>{search.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+export default AdminSearchPanel;
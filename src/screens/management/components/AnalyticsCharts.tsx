@@ -0,0 +1,249 @@
+// components/AnalyticsCharts.tsx
+import React from 'react';
+import { View, Text } from 'react-native';
+import Svg, { Circle, G, Rect, Line, Path, Text as SvgText } from 'react-native-svg';
+import { formatDelta } from '../adminAnalytics';
+import styles from '../styles';
+
+export const CHART_COLORS = ['#8B5CF6', '#C084FC', '#10B981', '#F59E0B', '#3B82F6', '#EF4444'];
+
+/* ============================================================
+   DONUT
+   ============================================================ */
+
+interface DonutSegment {
+  label: string;
+  value: number;
+  previous?: number;
+  color: string;
+}
+
+interface DonutChartProps {
+  segments: DonutSegment[];
+  size?: number;
+  centerLabel?: string;
+}
+
+export const DonutChart: React.FC<DonutChartProps> = ({ segments, size = 120, centerLabel }) => {
+  const strokeWidth = size * 0.16;
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+
+  let offset = 0;
+  const arcs = segments.map(segment => {
+    const length = total > 0 ? (segment.value / total) * circumference : 0;
+    const arc = { ...segment, length, offset };
+    offset += length;
+    return arc;
+  });
+
+  return (
+    <View style={styles.chartDonutRow}>
+      <Svg width={size} height={size}>
+        {/* Start at 12 o'clock */}
+        <G rotation={-90} origin={`${size / 2}, ${size / 2}`}>
+          <Circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            stroke="#F1F5F9"
+            strokeWidth={strokeWidth}
+            fill="none"
+          />
+          {arcs.map(arc => arc.length > 0 && (
+            <Circle
+              key={arc.label}
+              cx={size / 2}
+              cy={size / 2}
+              r={radius}
+              stroke={arc.color}
+              strokeWidth={strokeWidth}
+              strokeDasharray={`${arc.length} ${circumference - arc.length}`}
+              strokeDashoffset={-arc.offset}
+              fill="none"
+            />
+          ))}
+        </G>
+        <SvgText
+          x={size / 2}
+          y={size / 2 + 6}
+          fontSize={size * 0.16}
+          fontWeight="700"
+          fill="#1E293B"
+          textAnchor="middle"
+        >
+          {centerLabel ?? String(total)}
+        </SvgText>
+      </Svg>
+
+      <View style={styles.chartLegend}>
+        {segments.map(segment => {
+          const delta = formatDelta(segment.value, segment.previous);
+          return (
+            <View key={segment.label} style={styles.chartLegendItem}>
+              <View style={[styles.chartLegendSwatch, { backgroundColor: segment.color }]} />
+              <Text style={styles.chartLegendLabel}>{segment.label}</Text>
+              <Text style={styles.chartLegendValue}>{segment.value}</Text>
+              {delta && <Text style={styles.chartDeltaText}>{delta}</Text>}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+/* ============================================================
+   BARS
+   ============================================================ */
+
+interface BarItem {
+  label: string;
+  value: number;
+  previous?: number;
+}
+
+interface ComparisonBarChartProps {
+  items: BarItem[];
+  width: number;
+  color?: string;
+}
+
+const BAR_HEIGHT = 14;
+const BAR_GAP = 26;
+const LABEL_WIDTH = 110;
+const VALUE_WIDTH = 64;
+
+// Horizontal bars; a dark tick marks the value in the compared snapshot
+export const ComparisonBarChart: React.FC<ComparisonBarChartProps> = ({
+  items,
+  width,
+  color = CHART_COLORS[0],
+}) => {
+  const trackWidth = Math.max(40, width - LABEL_WIDTH - VALUE_WIDTH);
+  const max = Math.max(1, ...items.map(item => Math.max(item.value, item.previous ?? 0)));
+  const height = items.length * (BAR_HEIGHT + BAR_GAP) - BAR_GAP + 4;
+
+  return (
+    <Svg width={width} height={Math.max(height, BAR_HEIGHT)}>
+      {items.map((item, index) => {
+        const y = index * (BAR_HEIGHT + BAR_GAP) + 2;
+        const barWidth = (item.value / max) * trackWidth;
+        const previousX = item.previous !== undefined
+          ? LABEL_WIDTH + (item.previous / max) * trackWidth
+          : null;
+        const delta = formatDelta(item.value, item.previous);
+
+        return (
+          <G key={`${item.label}-${index}`}>
+            <SvgText x={0} y={y + BAR_HEIGHT - 2} fontSize={12} fill="#475569">
+              {item.label.length > 16 ? `${item.label.slice(0, 15)}…` : item.label}
+            </SvgText>
+            <Rect
+              x={LABEL_WIDTH}
+              y={y}
+              width={trackWidth}
+              height={BAR_HEIGHT}
+              rx={4}
+              fill="#F1F5F9"
+            />
+            <Rect x={LABEL_WIDTH} y={y} width={barWidth} height={BAR_HEIGHT} rx={4} fill={color} />
+            {previousX !== null && (
+              <Line
+                x1={previousX}
+                x2={previousX}
+                y1={y - 3}
+                y2={y + BAR_HEIGHT + 3}
+                stroke="#1E293B"
+                strokeWidth={2}
+              />
+            )}
+            <SvgText
+              x={width - 2}
+              y={y + BAR_HEIGHT - 2}
+              fontSize={12}
+              fontWeight="600"
+              fill="#1E293B"
+              textAnchor="end"
+            >
+              {delta ? `${item.value} (${delta})` : String(item.value)}
+            </SvgText>
+          </G>
+        );
+      })}
+    </Svg>
+  );
+};
+
+/* ============================================================
+   TREND
+   ============================================================ */
+
+interface TrendSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface TrendChartProps {
+  series: TrendSeries[];
+  width: number;
+  height?: number;
+}
+
+const TREND_PADDING = 12;
+
+// One point per snapshot, oldest on the left
+export const TrendChart: React.FC<TrendChartProps> = ({ series, width, height = 140 }) => {
+  const points = Math.max(0, ...series.map(line => line.values.length));
+  if (points < 2) {
+    return <Text style={styles.chartEmptyText}>Trends appear once two snapshots exist</Text>;
+  }
+
+  const all = series.flatMap(line => line.values);
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const range = max - min || 1;
+  const xAt = (index: number) =>
+    TREND_PADDING + (index / (points - 1)) * (width - TREND_PADDING * 2);
+  const yAt = (value: number) =>
+    height - TREND_PADDING - ((value - min) / range) * (height - TREND_PADDING * 2);
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        <Line
+          x1={TREND_PADDING}
+          x2={width - TREND_PADDING}
+          y1={height - TREND_PADDING}
+          y2={height - TREND_PADDING}
+          stroke="#E2E8F0"
+        />
+        {series.map(line => (
+          <G key={line.label}>
+            <Path
+              d={line.values
+                .map((value, index) => `${index === 0 ? 'M' : 'L'}${xAt(index)},${yAt(value)}`)
+                .join(' ')}
+              stroke={line.color}
+              strokeWidth={2}
+              fill="none"
+            />
+            {line.values.map((value, index) => (
+              <Circle key={index} cx={xAt(index)} cy={yAt(value)} r={3} fill={line.color} />
+            ))}
+          </G>
+        ))}
+      </Svg>
+      <View style={styles.chartLegendInline}>
+        {series.map(line => (
+          <View key={line.label} style={styles.chartLegendItem}>
+            <View style={[styles.chartLegendSwatch, { backgroundColor: line.color }]} />
+            <Text style={styles.chartLegendLabel}>{line.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
@@ -0,0 +1,149 @@
+// components/AuditPartyPickerModal.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Dimensions,
+  ActivityIndicator,
+  FlatList,
+} from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { AuditParty } from '../auditLog';
+import styles from '../styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+export interface AuditPartyOption extends AuditParty {
+  subtitle: string;
+  icon: 'account' | 'shield-account';
+}
+
+interface AuditPartyPickerModalProps {
+  visible: boolean;
+  title: string;
+  options: AuditPartyOption[];
+  isLoading: boolean;
+  selectedId: string | null;
+  onSelect: (party: AuditParty | null) => void;
+  onClose: () => void;
+}
+
+const AuditPartyPickerModal: React.FC<AuditPartyPickerModalProps> = ({
+  visible,
+  title,
+  options,
+  isLoading,
+  selectedId,
+  onSelect,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (visible) setQuery('');
+  }, [visible]);
+
+  const needle = query.trim().toLowerCase();
+  const filtered = needle
+    ? options.filter(option =>
+        option.name.toLowerCase().includes(needle) || option.subtitle.toLowerCase().includes(needle)
+      )
+    : options;
+
+  const renderOption = ({ item }: { item: AuditPartyOption }) => {
+    const isSelected = item.id === selectedId;
+    return (
+      <TouchableOpacity
+        style={[styles.managerItem, isSelected && styles.managerItemSelected]}
+        onPress={() => onSelect({ id: item.id, name: item.name })}
+      >
+        <MaterialCommunityIcons
+          name={item.icon}
+          size={20}
+          color={isSelected ? '#8B5CF6' : '#64748B'}
+          style={styles.auditPickerIcon}
+        />
+        <View style={styles.managerTextContainer}>
+          <Text style={[styles.managerName, isSelected && styles.managerNameSelected]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={styles.inputSubtext} numberOfLines={1}>{item.subtitle}</Text>
+        </View>
+        {isSelected && <MaterialCommunityIcons name="check-circle" size={18} color="#8B5CF6" />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <IdleAwareModal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.reportsToModalOverlay}>
+        <View style={[styles.reportsToModalContent, isTablet && styles.reportsToModalContentTablet]}>
+          <View style={styles.reportsToModalHeader}>
+            <Text style={[styles.reportsToModalTitle, isTablet && styles.reportsToModalTitleTablet]}>
+              {title}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialCommunityIcons name="close" size={isTablet ? 28 : 24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.reportsToModalBody}>
+            <IdleAwareTextInput
+              style={[styles.textInput, isTablet && styles.textInputTablet]}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search by name"
+              placeholderTextColor="#94A3B8"
+              autoCorrect={false}
+            />
+            {isLoading ? (
+              <ActivityIndicator size="small" color="#8B5CF6" style={styles.auditPickerLoader} />
+            ) : (
+              <FlatList
+                data={filtered}
+                renderItem={renderOption}
+                keyExtractor={item => item.id}
+                keyboardShouldPersistTaps="handled"
+                style={styles.auditPickerList}
+                ListEmptyComponent={
+                  <Text style={styles.noDepartmentsText}>No matches</Text>
+                }
+              />
+            )}
+          </View>
+          <SafeAreaView edges={['bottom']} style={styles.reportsToModalSafeFooter}>
+            <View style={styles.reportsToModalFooter}>
+              <TouchableOpacity
+                style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+                onPress={() => onSelect(null)}
+              >
+                <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+                  Clear
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.submitButton, isTablet && styles.submitButtonTablet]}
+                onPress={onClose}
+              >
+                <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+                  Done
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </SafeAreaView>
+        </View>
+      </View>
+    </IdleAwareModal>
+  );
+};
+
+export default AuditPartyPickerModal;
@@ -0,0 +1,377 @@
+// components/BulkActionModal.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Admin, Role } from '@/types';
+import {
+  BulkAdminAction,
+  BulkAdminActionType,
+  BulkItemResult,
+  BULK_ACTION_LABELS,
+  getApplicableAdmins,
+  getReportsToCycleAdmins,
+  runBulkAdminAction,
+} from '../bulkAdminOps';
+import styles from '../styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+type Phase = 'configure' | 'running' | 'results';
+
+interface BulkActionModalProps {
+  visible: boolean;
+  action: BulkAdminActionType | null;
+  admins: Admin[];
+  // Every loaded admin, for spotting reporting loops through unselected admins
+  orgAdmins: Admin[];
+  roles: Role[];
+  availableManagers: Admin[];
+  onClose: () => void;
+  // Called after every run, including retries
+  onFinished: (results: BulkItemResult[]) => void;
+}
+
+const BulkActionModal: React.FC<BulkActionModalProps> = ({
+  visible,
+  action,
+  admins,
+  orgAdmins,
+  roles,
+  availableManagers,
+  onClose,
+  onFinished,
+}) => {
+  const [phase, setPhase] = useState<Phase>('configure');
+  // Role id or manager id, depending on the action
+  const [target, setTarget] = useState<string | null>(null);
+  const [completed, setCompleted] = useState(0);
+  const [runTotal, setRunTotal] = useState(0);
+  const [results, setResults] = useState<BulkItemResult[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setPhase('configure');
+      setTarget(action === 'setReportsTo' ? '' : null);
+      setCompleted(0);
+      setResults([]);
+    }
+  }, [visible, action]);
+
+  if (!action) return null;
+
+  const needsTarget = action === 'changeRole' || action === 'setReportsTo';
+  const applicable = getApplicableAdmins(action, admins, target ?? undefined, orgAdmins);
+  const cycleAdmins = action === 'setReportsTo'
+    ? getReportsToCycleAdmins(admins, target ?? undefined, orgAdmins)
+    : [];
+  const skipped = admins.length - applicable.length - cycleAdmins.length;
+  const failed = results.filter(result => result.status === 'failed');
+  const succeeded = results.length - failed.length;
+  const isDestructive = action === 'delete' || action === 'deactivate';
+
+  const buildAction = (): BulkAdminAction | null => {
+    switch (action) {
+      case 'changeRole':
+        return target ? { type: 'changeRole', roleId: target } : null;
+      case 'setReportsTo':
+        return target !== null ? { type: 'setReportsTo', reportsTo: target } : null;
+      default:
+        return { type: action };
+    }
+  };
+
+  const run = async (targets: Admin[]) => {
+    const bulkAction = buildAction();
+    if (!bulkAction || targets.length === 0) return;
+
+    setPhase('running');
+    setCompleted(0);
+    setRunTotal(targets.length);
+
+    const runResults = await runBulkAdminAction(bulkAction, targets, () =>
+      setCompleted(prev => prev + 1)
+    );
+
+    // A retry replaces the earlier outcome of the same admins
+    setResults(prev => {
+      const byId = new Map(prev.map(result => [result.adminId, result]));
+      runResults.forEach(result => byId.set(result.adminId, result));
+      return Array.from(byId.values());
+    });
+    setPhase('results');
+    onFinished(runResults);
+  };
+
+  const handleRetryFailed = () => {
+    const failedIds = new Set(failed.map(result => result.adminId));
+    run(admins.filter(admin => failedIds.has(admin.admin_id)));
+  };
+
+  const handleClose = () => {
+    if (phase !== 'running') onClose();
+  };
+
+  const renderTargetPicker = () => {
+    if (action === 'changeRole') {
+      return (
+        <View style={styles.inputGroup}>
+          <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>New Role</Text>
+          {roles.map(role => {
+            const isSelected = target === role.admin_role_id;
+            return (
+              <TouchableOpacity
+                key={role.admin_role_id}
+                style={[styles.managerItem, isSelected && styles.managerItemSelected]}
+                onPress={() => setTarget(role.admin_role_id)}
+              >
+                <View style={styles.managerTextContainer}>
+                  <Text
+                    style={[styles.managerName, isSelected && styles.managerNameSelected]}
+                    numberOfLines={1}
+                  >
+                    {role.role_name}
+                  </Text>
+                </View>
+                <MaterialCommunityIcons
+                  name={isSelected ? "check-circle" : "circle-outline"}
+                  size={18}
+                  color={isSelected ? '#8B5CF6' : '#CBD5E1'}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.inputGroup}>
+        <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>New Manager</Text>
+        <TouchableOpacity
+          style={[styles.noManagerOption, target === '' && styles.noManagerOptionSelected]}
+          onPress={() => setTarget('')}
+        >
+          <MaterialCommunityIcons
+            name="account-off"
+            size={20}
+            color={target === '' ? '#8B5CF6' : '#64748B'}
+          />
+          <Text style={[styles.noManagerOptionText, target === '' && styles.noManagerOptionTextSelected]}>
+            No Manager (Independent)
+          </Text>
+        </TouchableOpacity>
+        {availableManagers.map(manager => {
+          const isSelected = target === manager.admin_id;
+          return (
+            <TouchableOpacity
+              key={manager.admin_id}
+              style={[styles.managerItem, isSelected && styles.managerItemSelected]}
+              onPress={() => setTarget(manager.admin_id)}
+            >
+              <View style={styles.managerTextContainer}>
+                <Text
+                  style={[styles.managerName, isSelected && styles.managerNameSelected]}
+                  numberOfLines={1}
+                >
+                  {manager.full_name}
+                </Text>
+                <Text style={styles.managerRole} numberOfLines={1}>
+                  @{manager.username} • {manager.role_name}
+                </Text>
+              </View>
+              <MaterialCommunityIcons
+                name={isSelected ? "check-circle" : "circle-outline"}
+                size={18}
+                color={isSelected ? '#8B5CF6' : '#CBD5E1'}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderConfigure = () => (
+    <>
+      {needsTarget && renderTargetPicker()}
+      <View style={styles.summaryCard}>
+        <MaterialCommunityIcons name="clipboard-list-outline" size={24} color="#8B5CF6" />
+        <View style={styles.summaryContent}>
+          <Text style={styles.summaryTitle}>Bulk Summary</Text>
+          <View style={styles.summaryDetails}>
+            <Text style={styles.summaryText}>• Selected: {admins.length}</Text>
+            <Text style={styles.summaryText}>• Will change: {applicable.length}</Text>
+            {skipped > 0 && (
+              <Text style={styles.summaryText}>• Skipped (already up to date): {skipped}</Text>
+            )}
+            {cycleAdmins.length > 0 && (
+              <Text style={styles.summaryText}>
+                • Skipped (the new manager reports to them): {cycleAdmins.length} —{' '}
+                {cycleAdmins.map(admin => admin.full_name).join(', ')}
+              </Text>
+            )}
+          </View>
+        </View>
+      </View>
+      {action === 'delete' && (
+        <View style={styles.bulkWarning}>
+          <MaterialCommunityIcons name="alert" size={18} color="#EF4444" />
+          <Text style={styles.bulkWarningText}>
+            Deleted admins cannot be restored.
+          </Text>
+        </View>
+      )}
+    </>
+  );
+
+  const renderProgress = () => (
+    <View style={styles.bulkProgress}>
+      <ActivityIndicator size="large" color="#8B5CF6" />
+      <Text style={styles.bulkProgressText}>
+        {completed} of {runTotal} processed
+      </Text>
+      <View style={styles.bulkProgressTrack}>
+        <View
+          style={[
+            styles.bulkProgressFill,
+            { width: `${runTotal > 0 ? (completed / runTotal) * 100 : 0}%` },
+          ]}
+        />
+      </View>
+    </View>
+  );
+
+  const renderResults = () => (
+    <>
+      <View style={styles.bulkResultSummary}>
+        <View style={styles.bulkResultCount}>
+          <MaterialCommunityIcons name="check-circle" size={18} color="#10B981" />
+          <Text style={styles.bulkResultCountText}>{succeeded} succeeded</Text>
+        </View>
+        <View style={styles.bulkResultCount}>
+          <MaterialCommunityIcons name="close-circle" size={18} color="#EF4444" />
+          <Text style={styles.bulkResultCountText}>{failed.length} failed</Text>
+        </View>
+      </View>
+      {/* Failures first so they are not lost below the fold */}
+      {[...failed, ...results.filter(result => result.status === 'succeeded')].map(result => (
+        <View key={result.adminId} style={styles.bulkResultItem}>
+          <MaterialCommunityIcons
+            name={result.status === 'succeeded' ? "check-circle" : "alert-circle"}
+            size={18}
+            color={result.status === 'succeeded' ? '#10B981' : '#EF4444'}
+          />
+          <View style={styles.bulkResultContent}>
+            <Text style={styles.bulkResultName} numberOfLines={1}>{result.name}</Text>
+            {result.error && <Text style={styles.bulkResultError}>{result.error}</Text>}
+          </View>
+        </View>
+      ))}
+    </>
+  );
+
+  const renderFooter = () => {
+    if (phase === 'running') return null;
+
+    if (phase === 'results') {
+      return (
+        <View style={styles.reportsToModalFooter}>
+          {failed.length > 0 && (
+            <TouchableOpacity
+              style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+              onPress={handleRetryFailed}
+            >
+              <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+                Retry Failed ({failed.length})
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.submitButton, isTablet && styles.submitButtonTablet]}
+            onPress={onClose}
+          >
+            <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+              Done
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const canRun = applicable.length > 0 && buildAction() !== null;
+    return (
+      <View style={styles.reportsToModalFooter}>
+        <TouchableOpacity
+          style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+          onPress={handleClose}
+        >
+          <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+            Cancel
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            isTablet && styles.submitButtonTablet,
+            isDestructive && styles.bulkDestructiveButton,
+            !canRun && styles.submitButtonDisabled,
+          ]}
+          onPress={() => run(applicable)}
+          disabled={!canRun}
+        >
+          <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+            {BULK_ACTION_LABELS[action]} ({applicable.length})
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <IdleAwareModal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={handleClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.reportsToModalOverlay}>
+        <View style={[styles.reportsToModalContent, isTablet && styles.reportsToModalContentTablet]}>
+          <View style={styles.reportsToModalHeader}>
+            <View>
+              <Text style={[styles.reportsToModalTitle, isTablet && styles.reportsToModalTitleTablet]}>
+                {BULK_ACTION_LABELS[action]}
+              </Text>
+              <Text style={[styles.reportsToModalSubtitle, isTablet && styles.reportsToModalSubtitleTablet]}>
+                {admins.length} admin{admins.length === 1 ? '' : 's'} selected
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} disabled={phase === 'running'}>
+              <MaterialCommunityIcons name="close" size={isTablet ? 28 : 24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.reportsToModalBody} showsVerticalScrollIndicator={false}>
+            {phase === 'configure' && renderConfigure()}
+            {phase === 'running' && renderProgress()}
+            {phase === 'results' && renderResults()}
+          </ScrollView>
+          <SafeAreaView edges={['bottom']} style={styles.reportsToModalSafeFooter}>
+            {renderFooter()}
+          </SafeAreaView>
+        </View>
+      </View>
+    </IdleAwareModal>
+  );
+};
+
+export default BulkActionModal;
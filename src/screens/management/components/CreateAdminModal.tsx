@@ -3,14 +3,13 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Admin, Role } from '@/types';
@@ -133,7 +132,7 @@ const CreateAdminModal: React.FC<CreateAdminModalProps> = ({
   };
   
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -168,7 +167,7 @@ const CreateAdminModal: React.FC<CreateAdminModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={phoneNumber}
                 onChangeText={handlePhoneChange}
@@ -190,7 +189,7 @@ const CreateAdminModal: React.FC<CreateAdminModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={username}
                 onChangeText={setUsername}
@@ -212,7 +211,7 @@ const CreateAdminModal: React.FC<CreateAdminModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={fullName}
                 onChangeText={setFullName}
@@ -237,7 +236,7 @@ const CreateAdminModal: React.FC<CreateAdminModalProps> = ({
               {/* Search Roles */}
               <View style={[styles.searchContainer, styles.roleSearch]}>
                 <MaterialCommunityIcons name="magnify" size={16} color="#64748B" />
-                <TextInput
+                <IdleAwareTextInput
                   style={[styles.searchInput, styles.roleSearchInput]}
                   placeholder="Search roles..."
                   placeholderTextColor="#94A3B8"
@@ -447,7 +446,7 @@ const CreateAdminModal: React.FC<CreateAdminModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
@@ -1,22 +1,31 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
   FlatList,
   ScrollView,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Department, CreateEmployeeRoleRequest, CreateManagerRoleRequest, DepartmentPermissions } from '@/types';
 import { useToast } from '@/components/Toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { api } from '@/services/api';
+import {
+  RoleDraft,
+  RoleTemplate,
+  loadRoleTemplates,
+  saveRoleTemplate,
+  resolveRoleDraft,
+  templateToDraft,
+} from '../roleTemplates';
 import PermissionSelectionModal from './PermissionSelectionModal';
+import RoleTemplatesModal from './RoleTemplatesModal';
 import styles from '../styles';
 
 const { width } = Dimensions.get('window');
@@ -29,6 +38,8 @@ interface CreateRoleModalProps {
   onSave: (roleType: 'employee' | 'manager', data: any) => void;
   isCreating: boolean;
   availableDepartments: Department[];
+  // Pre-fills the form when opened, e.g. from a cloned role
+  initialDraft?: RoleDraft | null;
 }
 
 interface DepartmentListItem {
@@ -41,8 +52,10 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
   onSave,
   isCreating,
   availableDepartments,
+  initialDraft,
 }) => {
   const { showToast } = useToast();
+  const { adminId } = useAuth();
   const [roleType, setRoleType] = useState<'employee' | 'manager'>('employee');
   const [roleName, setRoleName] = useState('');
   const [description, setDescription] = useState('');
@@ -51,6 +64,21 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
   const [isPermissionModalVisible, setPermissionModalVisible] = useState(false);
   const [availablePermissions, setAvailablePermissions] = useState<Record<string, string[]>>({});
   const [loadingPermissionsFor, setLoadingPermissionsFor] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [isTemplatesModalVisible, setTemplatesModalVisible] = useState(false);
+
+  useEffect(() => {
+    if (visible && adminId) {
+      loadRoleTemplates(adminId).then(setTemplates);
+    }
+  }, [visible, adminId]);
+
+  useEffect(() => {
+    if (visible && initialDraft) {
+      applyDraft(initialDraft);
+    }
+    // Only re-applied when a new draft is handed in
+  }, [visible, initialDraft]);
 
   const resetForm = () => {
     setRoleName('');
@@ -69,7 +97,12 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
     }
   };
 
-  const fetchPermissionsForModule = async (moduleCode: string, departmentName: string) => {
+  // Returns how many of the preselected permissions the module no longer offers
+  const fetchPermissionsForModule = async (
+    moduleCode: string,
+    departmentName: string,
+    preselected: string[] = []
+  ): Promise<number> => {
     try {
       setLoadingPermissionsFor(prev => [...prev, departmentName]);
       const response = await api.getPermissionsByModule(moduleCode);
@@ -82,10 +115,12 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
         ...prev,
         [departmentName]: permissions,
       }));
+      const kept = preselected.filter(name => permissions.includes(name));
       setSelectedPermissions(prev => ({
         ...prev,
-        [departmentName]: [],
+        [departmentName]: kept,
       }));
+      return preselected.length - kept.length;
     } catch (error) {
       console.error(`Error fetching permissions for module ${moduleCode}:`, error);
       setAvailablePermissions(prev => ({
@@ -96,11 +131,85 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
         ...prev,
         [departmentName]: [],
       }));
+      return preselected.length;
     } finally {
       setLoadingPermissionsFor(prev => prev.filter(name => name !== departmentName));
     }
   };
 
+  const applyDraft = async (draft: RoleDraft) => {
+    const resolved = resolveRoleDraft(draft, availableDepartments);
+    setRoleType(draft.roleType);
+    if (draft.role_name) setRoleName(draft.role_name);
+    setDescription(draft.description);
+    setSelectedDepartments(resolved.departments);
+    setSelectedPermissions(resolved.permissions);
+    setAvailablePermissions({});
+
+    let dropped = 0;
+    if (draft.roleType === 'employee') {
+      const counts = await Promise.all(
+        resolved.departments.map(dept =>
+          fetchPermissionsForModule(dept.module_code, dept.name, resolved.permissions[dept.name])
+        )
+      );
+      dropped = counts.reduce((total, count) => total + count, 0);
+    }
+
+    const notes: string[] = [];
+    if (resolved.missingDepartments.length > 0) {
+      notes.push(`${resolved.missingDepartments.join(', ')} not available to you`);
+    }
+    if (dropped > 0) {
+      notes.push(`${dropped} permissions no longer exist`);
+    }
+    if (notes.length > 0) {
+      showToast('info', `Some items were left out: ${notes.join('; ')}`, 5000);
+    }
+  };
+
+  const handleApplyTemplate = (template: RoleTemplate) => {
+    setTemplatesModalVisible(false);
+    applyDraft(templateToDraft(template));
+  };
+
+  const handleSaveAsTemplate = async () => {
+    if (!adminId) return;
+    const name = roleName.trim();
+    if (!name) {
+      Alert.alert('Error', 'Enter a role name first; the template is saved under it');
+      return;
+    }
+    const hasEmptyPermissions = selectedDepartments.some(
+      dept => !selectedPermissions[dept.name] || selectedPermissions[dept.name].length === 0
+    );
+    if (hasEmptyPermissions) {
+      Alert.alert('Error', 'Select at least one permission for each department');
+      return;
+    }
+
+    const save = async () => {
+      setTemplates(await saveRoleTemplate(adminId, {
+        name,
+        description: description.trim(),
+        department_permissions: selectedDepartments.map(dept => ({
+          department_name: dept.name,
+          permissions: selectedPermissions[dept.name],
+        })),
+      }));
+      showToast('success', `Saved template "${name}"`);
+    };
+
+    if (templates.some(template => template.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Replace Template', `A template named "${name}" already exists. Replace it?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', onPress: save },
+      ]);
+    } else {
+      await save();
+    }
+  };
+
   const toggleDepartmentSelection = async (department: Department) => {
     const departmentName = department.name;
     if (selectedDepartments.some(dept => dept.name === departmentName)) {
@@ -224,7 +333,7 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
   };
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -295,6 +404,41 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
               </TouchableOpacity>
             </View>
 
+            {/* Templates (Employee Role Only) */}
+            {roleType === 'employee' && (
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>
+                  Start from Template
+                </Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.filterOptionRow}
+                >
+                  {templates.map(template => (
+                    <TouchableOpacity
+                      key={template.id}
+                      style={styles.filterOption}
+                      onPress={() => handleApplyTemplate(template)}
+                      disabled={isCreating}
+                    >
+                      <Text style={styles.filterOptionText}>{template.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity
+                    style={[styles.filterOption, styles.templateChip]}
+                    onPress={() => setTemplatesModalVisible(true)}
+                    disabled={isCreating}
+                  >
+                    <MaterialCommunityIcons name="cog-outline" size={14} color="#475569" />
+                    <Text style={styles.filterOptionText}>
+                      {templates.length > 0 ? 'Manage' : 'Manage / Import'}
+                    </Text>
+                  </TouchableOpacity>
+                </ScrollView>
+              </View>
+            )}
+
             {/* Role Info */}
             <View style={styles.inputGroup}>
               <View style={styles.inputLabelRow}>
@@ -303,7 +447,7 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={roleName}
                 onChangeText={setRoleName}
@@ -317,7 +461,7 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
               <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>
                 Description
               </Text>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, styles.textArea, isTablet && styles.textAreaTablet]}
                 value={description}
                 onChangeText={setDescription}
@@ -403,6 +547,14 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
                     );
                   })}
                 </View>
+                <TouchableOpacity
+                  style={styles.templateSaveButton}
+                  onPress={handleSaveAsTemplate}
+                  disabled={isCreating}
+                >
+                  <MaterialCommunityIcons name="content-save-outline" size={16} color="#6D28D9" />
+                  <Text style={styles.templateSaveButtonText}>Save as Template</Text>
+                </TouchableOpacity>
               </View>
             )}
 
@@ -502,7 +654,16 @@ const CreateRoleModal: React.FC<CreateRoleModalProps> = ({
         isLoadingPermissions={loadingPermissionsFor.length > 0}
         isManagerRole={roleType === 'manager'}
       />
-    </Modal>
+
+      <RoleTemplatesModal
+        visible={isTemplatesModalVisible}
+        onClose={() => setTemplatesModalVisible(false)}
+        adminId={adminId}
+        templates={templates}
+        onTemplatesChange={setTemplates}
+        onApply={handleApplyTemplate}
+      />
+    </IdleAwareModal>
   );
 };
 
@@ -0,0 +1,240 @@
+// components/ExportModal.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import {
+  ExportFormat,
+  ExportTarget,
+  EXPORT_TARGET_LABELS,
+  loadAdminsForExport,
+  loadRoleDetailsForExport,
+  buildAdminsExport,
+  buildRolesExport,
+  buildMatrixExport,
+  shareExportFile,
+} from '../dataExport';
+import { getApiErrorMessage } from '../bulkAdminOps';
+import styles from '../styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+const FORMATS: ExportFormat[] = ['csv', 'json'];
+
+interface ExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  targets: ExportTarget[];
+  // ADMIN_VIEW_PHONE; without it phone numbers are never requested
+  canViewPhone: boolean;
+}
+
+const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose, targets, canViewPhone }) => {
+  const [target, setTarget] = useState<ExportTarget>(targets[0]);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [revealPhones, setRevealPhones] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setTarget(targets[0]);
+      setFormat('csv');
+      setRevealPhones(false);
+      setProgress(null);
+      setError(null);
+    }
+  }, [visible, targets]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      if (target === 'admins') {
+        const includePhones = canViewPhone && revealPhones;
+        setProgress(includePhones ? 'Loading admins and phone numbers…' : 'Loading admins…');
+        const { admins, phones } = await loadAdminsForExport(includePhones);
+        await shareExportFile(buildAdminsExport(admins, phones, format, includePhones));
+      } else {
+        const details = await loadRoleDetailsForExport((done, total) =>
+          setProgress(`Loading role details ${done} of ${total}…`)
+        );
+        await shareExportFile(
+          target === 'roles' ? buildRolesExport(details, format) : buildMatrixExport(details, format)
+        );
+      }
+      onClose();
+    } catch (exportError) {
+      console.error('❌ [EXPORT] Export failed:', exportError);
+      setError(getApiErrorMessage(exportError));
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isExporting) onClose();
+  };
+
+  return (
+    <IdleAwareModal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={handleClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.reportsToModalOverlay}>
+        <View style={[styles.reportsToModalContent, isTablet && styles.reportsToModalContentTablet]}>
+          <View style={styles.reportsToModalHeader}>
+            <View>
+              <Text style={[styles.reportsToModalTitle, isTablet && styles.reportsToModalTitleTablet]}>
+                Export
+              </Text>
+              <Text style={[styles.reportsToModalSubtitle, isTablet && styles.reportsToModalSubtitleTablet]}>
+                Shared as a file through the share sheet
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} disabled={isExporting}>
+              <MaterialCommunityIcons name="close" size={isTablet ? 28 : 24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.reportsToModalBody} showsVerticalScrollIndicator={false}>
+            {isExporting ? (
+              <View style={styles.bulkProgress}>
+                <ActivityIndicator size="large" color="#8B5CF6" />
+                <Text style={styles.bulkProgressText}>{progress ?? 'Preparing export…'}</Text>
+              </View>
+            ) : (
+              <>
+                {targets.length > 1 && (
+                  <View style={styles.inputGroup}>
+                    <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>Data</Text>
+                    {targets.map(option => {
+                      const isSelected = target === option;
+                      return (
+                        <TouchableOpacity
+                          key={option}
+                          style={[styles.managerItem, isSelected && styles.managerItemSelected]}
+                          onPress={() => setTarget(option)}
+                        >
+                          <View style={styles.managerTextContainer}>
+                            <Text style={[styles.managerName, isSelected && styles.managerNameSelected]}>
+                              {EXPORT_TARGET_LABELS[option]}
+                            </Text>
+                          </View>
+                          <MaterialCommunityIcons
+                            name={isSelected ? "check-circle" : "circle-outline"}
+                            size={18}
+                            color={isSelected ? '#8B5CF6' : '#CBD5E1'}
+                          />
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+
+                <View style={styles.inputGroup}>
+                  <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>Format</Text>
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.filterOptionRow}
+                  >
+                    {FORMATS.map(option => (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.filterOption, format === option && styles.filterOptionSelected]}
+                        onPress={() => setFormat(option)}
+                      >
+                        <Text style={[styles.filterOptionText, format === option && styles.filterOptionTextSelected]}>
+                          {option.toUpperCase()}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </View>
+
+                {target === 'admins' && (
+                  canViewPhone ? (
+                    <View style={styles.exportToggleRow}>
+                      <View style={styles.managerTextContainer}>
+                        <Text style={styles.inputLabel}>Show full phone numbers</Text>
+                        <Text style={styles.inputSubtext}>
+                          Off exports masked numbers. Each full number exported is logged as a phone access.
+                        </Text>
+                      </View>
+                      <Switch
+                        value={revealPhones}
+                        onValueChange={setRevealPhones}
+                        trackColor={{ false: '#E2E8F0', true: '#C4B5FD' }}
+                        thumbColor={revealPhones ? '#8B5CF6' : '#FFFFFF'}
+                      />
+                    </View>
+                  ) : (
+                    <View style={styles.infoCard}>
+                      <MaterialCommunityIcons name="phone-lock" size={20} color="#8B5CF6" />
+                      <View style={styles.infoContent}>
+                        <Text style={styles.infoText}>
+                          Phone numbers are exported masked because you do not have permission to view them.
+                        </Text>
+                      </View>
+                    </View>
+                  )
+                )}
+
+                {error && (
+                  <View style={styles.bulkWarning}>
+                    <MaterialCommunityIcons name="alert" size={18} color="#EF4444" />
+                    <Text style={styles.bulkWarningText}>{error}</Text>
+                  </View>
+                )}
+              </>
+            )}
+          </ScrollView>
+          <SafeAreaView edges={['bottom']} style={styles.reportsToModalSafeFooter}>
+            <View style={styles.reportsToModalFooter}>
+              <TouchableOpacity
+                style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+                onPress={handleClose}
+                disabled={isExporting}
+              >
+                <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.submitButton,
+                  isTablet && styles.submitButtonTablet,
+                  isExporting && styles.submitButtonDisabled,
+                ]}
+                onPress={handleExport}
+                disabled={isExporting}
+              >
+                <MaterialCommunityIcons name="export-variant" size={isTablet ? 20 : 16} color="#FFFFFF" />
+                <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+                  Export
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </SafeAreaView>
+        </View>
+      </View>
+    </IdleAwareModal>
+  );
+};
+
+export default ExportModal;
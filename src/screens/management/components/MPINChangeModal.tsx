@@ -3,17 +3,18 @@ import React, { useState } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Admin } from '@/types';
+import { useMPINPolicy } from '@/components/MPINInput';
+import { getMPINStrength, validateMPIN } from '@/services/mpinPolicy';
 import styles from '../styles';
 
 const { width } = Dimensions.get('window');
@@ -37,6 +38,9 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
   const [newMPIN, setNewMPIN] = useState('');
   const [confirmMPIN, setConfirmMPIN] = useState('');
   const [reason, setReason] = useState('');
+  // The admin's phone and MPIN history aren't known here; the server checks those
+  const policy = useMPINPolicy();
+  const strength = newMPIN.length === policy.length ? getMPINStrength(newMPIN, policy) : null;
 
   const resetForm = () => {
     setNewMPIN('');
@@ -59,13 +63,9 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
       return;
     }
 
-    if (newMPIN.length !== 6) {
-      Alert.alert('Error', 'MPIN must be exactly 6 digits');
-      return;
-    }
-
-    if (!/^\d+$/.test(newMPIN)) {
-      Alert.alert('Error', 'MPIN must contain only numbers');
+    const problem = validateMPIN(newMPIN, policy);
+    if (problem) {
+      Alert.alert('Weak MPIN', problem);
       return;
     }
 
@@ -98,7 +98,7 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
   if (!admin) return null;
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -149,7 +149,7 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={newMPIN}
                 onChangeText={setNewMPIN}
@@ -160,9 +160,22 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
                 secureTextEntry
                 editable={!isChanging}
               />
-              <Text style={[styles.inputSubtext, isTablet && styles.inputSubtextTablet]}>
-                Enter a new 6-digit MPIN for the admin
-              </Text>
+              {strength ? (
+                <Text
+                  style={[
+                    styles.inputSubtext,
+                    isTablet && styles.inputSubtextTablet,
+                    { color: strength.level === 'weak' ? '#EF4444' : '#10B981' },
+                  ]}
+                >
+                  {strength.label}
+                  {strength.issues.length > 0 ? ` • ${strength.issues[0].message}` : ''}
+                </Text>
+              ) : (
+                <Text style={[styles.inputSubtext, isTablet && styles.inputSubtextTablet]}>
+                  Enter a new {policy.length}-digit MPIN for the admin
+                </Text>
+              )}
             </View>
 
             {/* Confirm MPIN */}
@@ -173,7 +186,7 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={confirmMPIN}
                 onChangeText={setConfirmMPIN}
@@ -197,7 +210,7 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, styles.textArea, isTablet && styles.textAreaTablet]}
                 value={reason}
                 onChangeText={setReason}
@@ -220,10 +233,10 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
                   Security Requirements
                 </Text>
                 <Text style={[styles.infoText, { color: '#10B981' }]}>
-                  • MPIN must be 6 digits{'\n'}
+                  • MPIN must be {policy.length} digits{'\n'}
                   • Cannot be sequential numbers (123456){'\n'}
                   • Cannot be repeated numbers (111111){'\n'}
-                  • Should not contain personal information
+                  • Cannot be a date, the admin's phone digits or a recent MPIN
                 </Text>
               </View>
             </View>
@@ -298,7 +311,7 @@ const MPINChangeModal: React.FC<MPINChangeModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
@@ -0,0 +1,180 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { OrgChartNode, countDescendants, getRoleTypeLabel } from '../orgChart';
+import styles from '../styles';
+
+// Long-press-and-drag support for reassigning reporting lines.
+// Coordinates are absolute (window) positions of the finger.
+export interface OrgChartDragHandlers {
+  draggingId: string | null;
+  dropTargetId: string | null;
+  registerNode: (adminId: string, view: View | null) => void;
+  onDragStart: (node: OrgChartNode, x: number, y: number) => void;
+  onDragMove: (x: number, y: number) => void;
+  onDragEnd: (x: number, y: number) => void;
+  onDragCancel: () => void;
+}
+
+interface OrgChartBranchProps {
+  node: OrgChartNode;
+  collapsedIds: Set<string>;
+  highlightedId?: string | null;
+  pendingIds?: Set<string>;
+  drag?: OrgChartDragHandlers;
+  onToggleCollapse: (adminId: string) => void;
+  onPressNode: (node: OrgChartNode) => void;
+}
+
+const ROLE_COLORS: Record<number, string> = {
+  1: '#C084FC',
+  2: '#8B5CF6',
+  3: '#7C3AED',
+  4: '#5B21B6',
+};
+
+const ROLE_ICONS: Record<number, React.ComponentProps<typeof MaterialCommunityIcons>['name']> = {
+  1: 'account',
+  2: 'account-tie',
+  3: 'shield-account',
+  4: 'shield-crown',
+};
+
+// Renders a node and, unless collapsed, its reports beneath it
+const OrgChartBranch: React.FC<OrgChartBranchProps> = ({
+  node,
+  collapsedIds,
+  highlightedId,
+  pendingIds,
+  drag,
+  onToggleCollapse,
+  onPressNode,
+}) => {
+  const { admin, children } = node;
+  const isCollapsed = collapsedIds.has(admin.admin_id);
+  const roleColor = ROLE_COLORS[admin.role_type] || '#8B5CF6';
+
+  // Admins without a manager stay put: a move from "no manager" could not be rolled back
+  const canDrag = !!drag && !!admin.reports_to;
+
+  // Runs on the JS thread so the handlers can update screen state directly
+  const dragGesture = Gesture.Pan()
+    .enabled(canDrag)
+    .activateAfterLongPress(350)
+    .runOnJS(true)
+    .onStart((e) => drag?.onDragStart(node, e.absoluteX, e.absoluteY))
+    .onUpdate((e) => drag?.onDragMove(e.absoluteX, e.absoluteY))
+    .onEnd((e, success) => {
+      if (success) {
+        drag?.onDragEnd(e.absoluteX, e.absoluteY);
+      } else {
+        drag?.onDragCancel();
+      }
+    });
+
+  const card = (
+    <View
+      ref={(view) => drag?.registerNode(admin.admin_id, view)}
+      collapsable={false}
+    >
+      <TouchableOpacity
+        style={[
+          styles.orgNodeCard,
+          !admin.is_active && styles.orgNodeCardInactive,
+          highlightedId === admin.admin_id && styles.orgNodeCardHighlighted,
+          pendingIds?.has(admin.admin_id) && styles.orgNodeCardPending,
+          drag?.draggingId === admin.admin_id && styles.orgNodeCardDragging,
+          drag?.dropTargetId === admin.admin_id && styles.orgNodeCardDropTarget,
+        ]}
+        onPress={() => onPressNode(node)}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.orgNodeIcon, { backgroundColor: `${roleColor}20` }]}>
+          <MaterialCommunityIcons
+            name={ROLE_ICONS[admin.role_type] || 'account'}
+            size={18}
+            color={admin.is_active ? roleColor : '#94A3B8'}
+          />
+        </View>
+        <Text
+          style={[styles.orgNodeName, !admin.is_active && styles.orgNodeTextInactive]}
+          numberOfLines={1}
+        >
+          {admin.full_name}
+        </Text>
+        <Text style={styles.orgNodeUsername} numberOfLines={1}>
+          @{admin.username}
+        </Text>
+        <View style={styles.orgNodeBadges}>
+          <View style={[styles.orgRoleBadge, { backgroundColor: `${roleColor}15` }]}>
+            <Text style={[styles.orgRoleBadgeText, { color: roleColor }]}>
+              {getRoleTypeLabel(admin.role_type)}
+            </Text>
+          </View>
+          {!admin.is_active && (
+            <View style={styles.orgInactiveBadge}>
+              <Text style={styles.orgInactiveBadgeText}>Inactive</Text>
+            </View>
+          )}
+        </View>
+
+        {children.length > 0 && (
+          <TouchableOpacity
+            style={styles.orgCollapseToggle}
+            onPress={() => onToggleCollapse(admin.admin_id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <MaterialCommunityIcons
+              name={isCollapsed ? 'chevron-down' : 'chevron-up'}
+              size={14}
+              color="#FFFFFF"
+            />
+            <Text style={styles.orgCollapseToggleText}>
+              {isCollapsed ? countDescendants(node) : children.length}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.orgBranch}>
+      {drag ? <GestureDetector gesture={dragGesture}>{card}</GestureDetector> : card}
+
+      {!isCollapsed && children.length > 0 && (
+        <>
+          <View style={styles.orgVerticalConnector} />
+          <View style={styles.orgChildrenRow}>
+            {children.map((child, index) => (
+              <View key={child.admin.admin_id} style={styles.orgChildColumn}>
+                <View style={styles.orgHorizontalConnectorRow}>
+                  <View style={[styles.orgHalfConnector, index > 0 && styles.orgConnectorVisible]} />
+                  <View
+                    style={[
+                      styles.orgHalfConnector,
+                      index < children.length - 1 && styles.orgConnectorVisible,
+                    ]}
+                  />
+                </View>
+                <View style={styles.orgVerticalConnector} />
+                <OrgChartBranch
+                  node={child}
+                  collapsedIds={collapsedIds}
+                  highlightedId={highlightedId}
+                  pendingIds={pendingIds}
+                  drag={drag}
+                  onToggleCollapse={onToggleCollapse}
+                  onPressNode={onPressNode}
+                />
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+export default React.memo(OrgChartBranch);
@@ -0,0 +1,90 @@
+// components/PendingChangesBanner.tsx
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { OutboxEntry } from '@/services/outbox';
+import styles from '../styles';
+
+interface PendingChangesBannerProps {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+  onRetry: (entryId: string) => void;
+  onDiscard: (entryId: string) => void;
+}
+
+const STATUS_TEXT: Record<OutboxEntry['status'], string> = {
+  pending: 'Waiting to sync',
+  conflict: 'Conflict',
+  failed: 'Failed',
+};
+
+const PendingChangesBanner: React.FC<PendingChangesBannerProps> = ({
+  entries,
+  isReplaying,
+  onRetry,
+  onDiscard,
+}) => {
+  const problems = entries.filter(entry => entry.status !== 'pending');
+  // Conflicts need a decision, so the list starts open when there are any
+  const hasProblems = problems.length > 0;
+  const [expanded, setExpanded] = useState(hasProblems);
+
+  useEffect(() => {
+    if (hasProblems) setExpanded(true);
+  }, [hasProblems]);
+
+  if (entries.length === 0) return null;
+
+  const pendingCount = entries.length - problems.length;
+  const summary = [
+    pendingCount > 0 && `${pendingCount} waiting to sync`,
+    problems.length > 0 && `${problems.length} need attention`,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <View style={styles.outboxBanner}>
+      <TouchableOpacity
+        style={styles.outboxBannerHeader}
+        onPress={() => setExpanded(prev => !prev)}
+      >
+        {isReplaying ? (
+          <ActivityIndicator size="small" color="#D97706" />
+        ) : (
+          <MaterialCommunityIcons
+            name={problems.length > 0 ? 'alert-circle-outline' : 'cloud-sync-outline'}
+            size={20}
+            color={problems.length > 0 ? '#EF4444' : '#D97706'}
+          />
+        )}
+        <Text style={styles.outboxBannerTitle}>
+          {isReplaying ? 'Syncing offline changes…' : `Offline changes: ${summary}`}
+        </Text>
+        <Text style={styles.outboxBannerToggle}>{expanded ? 'Hide' : 'Show'}</Text>
+      </TouchableOpacity>
+
+      {expanded && entries.map(entry => (
+        <View key={entry.id} style={styles.outboxEntry}>
+          <View style={styles.outboxEntryContent}>
+            <Text style={styles.outboxEntryLabel}>{entry.label}</Text>
+            <Text style={styles.outboxEntryMeta}>
+              {STATUS_TEXT[entry.status]} • queued {new Date(entry.createdAt).toLocaleString()}
+            </Text>
+            {entry.error && (
+              <Text style={styles.outboxEntryError}>{entry.error}</Text>
+            )}
+          </View>
+          {entry.status !== 'pending' && (
+            <TouchableOpacity onPress={() => onRetry(entry.id)} disabled={isReplaying}>
+              <Text style={styles.outboxEntryAction}>Retry</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => onDiscard(entry.id)} disabled={isReplaying}>
+            <Text style={styles.outboxEntryDiscard}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default PendingChangesBanner;
@@ -2,12 +2,12 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
   Dimensions,
   ScrollView,
   ActivityIndicator,
 } from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Department } from '@/types';
@@ -89,7 +89,7 @@ const PermissionSelectionModal: React.FC<PermissionSelectionModalProps> = ({
   };
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -245,7 +245,7 @@ const PermissionSelectionModal: React.FC<PermissionSelectionModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
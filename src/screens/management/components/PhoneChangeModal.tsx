@@ -2,17 +2,17 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Admin } from '@/types';
+import { E164_PHONE_REGEX } from '../validation';
 import styles from '../styles';
 
 const { width } = Dimensions.get('window');
@@ -71,9 +71,7 @@ const PhoneChangeModal: React.FC<PhoneChangeModalProps> = ({
      * +919315453437
      * +14155552671
      */
-    const phoneRegex = /^\+[1-9]\d{9,14}$/;
-
-    if (!phoneRegex.test(newPhone.trim())) {
+    if (!E164_PHONE_REGEX.test(newPhone.trim())) {
       Alert.alert(
         'Invalid Phone Number',
         'Enter phone number in international format.\nExample: +919315453437'
@@ -102,7 +100,7 @@ const PhoneChangeModal: React.FC<PhoneChangeModalProps> = ({
   };
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent
@@ -150,7 +148,7 @@ const PhoneChangeModal: React.FC<PhoneChangeModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={newPhone}
                 onChangeText={setNewPhone}
@@ -173,7 +171,7 @@ const PhoneChangeModal: React.FC<PhoneChangeModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, isTablet && styles.textInputTablet]}
                 value={confirmPhone}
                 onChangeText={setConfirmPhone}
@@ -193,7 +191,7 @@ const PhoneChangeModal: React.FC<PhoneChangeModalProps> = ({
                 </Text>
                 <Text style={styles.requiredStar}>*</Text>
               </View>
-              <TextInput
+              <IdleAwareTextInput
                 style={[styles.textInput, styles.textArea]}
                 value={reason}
                 onChangeText={setReason}
@@ -245,7 +243,7 @@ const PhoneChangeModal: React.FC<PhoneChangeModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
@@ -0,0 +1,167 @@
+// components/ReportingLinePreviewModal.tsx
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { AdminHierarchy } from '@/types';
+import { ReportingLineMove, applyMoves, getDescendants } from '../orgChart';
+import styles from '../styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+interface ReportingLinePreviewModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Hierarchy as loaded from the server, before any staged move
+  hierarchy: AdminHierarchy[];
+  moves: ReportingLineMove[];
+  onRemoveMove: (index: number) => void;
+  onApply: () => void;
+  isApplying: boolean;
+}
+
+const ReportingLinePreviewModal: React.FC<ReportingLinePreviewModalProps> = ({
+  visible,
+  onClose,
+  hierarchy,
+  moves,
+  onRemoveMove,
+  onApply,
+  isApplying,
+}) => {
+  const nameOf = (adminId: string) =>
+    adminId
+      ? hierarchy.find(admin => admin.admin_id === adminId)?.full_name || 'Unknown admin'
+      : 'No manager';
+
+  // Each move is previewed against the state left by the moves before it
+  const previews = moves.map((move, index) => {
+    const stateBefore = applyMoves(hierarchy, moves.slice(0, index));
+    return {
+      move,
+      movedTeam: getDescendants(stateBefore, move.adminId),
+    };
+  });
+
+  const affectedIds = new Set<string>();
+  previews.forEach(({ move, movedTeam }) => {
+    affectedIds.add(move.adminId);
+    movedTeam.forEach(admin => affectedIds.add(admin.admin_id));
+  });
+
+  return (
+    <IdleAwareModal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={() => !isApplying && onClose()}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.reportsToModalOverlay}>
+        <View style={[styles.reportsToModalContent, isTablet && styles.reportsToModalContentTablet]}>
+          <View style={styles.reportsToModalHeader}>
+            <View>
+              <Text style={[styles.reportsToModalTitle, isTablet && styles.reportsToModalTitleTablet]}>
+                Review Reporting Changes
+              </Text>
+              <Text style={[styles.reportsToModalSubtitle, isTablet && styles.reportsToModalSubtitleTablet]}>
+                {moves.length} {moves.length === 1 ? 'move' : 'moves'} • {affectedIds.size} admins affected
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={isApplying}>
+              <MaterialCommunityIcons name="close" size={isTablet ? 28 : 24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.reportsToModalBody} showsVerticalScrollIndicator={false}>
+            {previews.map(({ move, movedTeam }, index) => (
+              <View key={`${move.adminId}-${index}`} style={styles.summaryCard}>
+                <MaterialCommunityIcons name="account-arrow-right" size={24} color="#8B5CF6" />
+                <View style={styles.summaryContent}>
+                  <Text style={styles.summaryTitle}>{nameOf(move.adminId)}</Text>
+                  <View style={styles.summaryDetails}>
+                    <Text style={styles.summaryText}>• From: {nameOf(move.fromManagerId)}</Text>
+                    <Text style={styles.summaryText}>• To: {nameOf(move.toManagerId)}</Text>
+                    <Text style={styles.summaryText}>
+                      • Team moving with them: {movedTeam.length === 0
+                        ? 'None'
+                        : movedTeam.map(admin => admin.full_name).join(', ')}
+                    </Text>
+                  </View>
+                </View>
+                <TouchableOpacity
+                  onPress={() => onRemoveMove(index)}
+                  disabled={isApplying}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <MaterialCommunityIcons name="undo-variant" size={20} color="#64748B" />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={styles.infoCard}>
+              <MaterialCommunityIcons name="sitemap" size={20} color="#8B5CF6" />
+              <View style={styles.infoContent}>
+                <Text style={styles.infoTitle}>Applied as one batch</Text>
+                <Text style={styles.infoText}>
+                  • Changes are applied in the order shown{'\n'}
+                  • If any change fails, the ones already applied are reverted{'\n'}
+                  • Everyone below a moved admin keeps reporting to them
+                </Text>
+              </View>
+            </View>
+          </ScrollView>
+
+          <SafeAreaView edges={['bottom']} style={styles.reportsToModalSafeFooter}>
+            <View style={styles.reportsToModalFooter}>
+              <TouchableOpacity
+                style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+                onPress={onClose}
+                disabled={isApplying}
+              >
+                <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+                  Keep Editing
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.submitButton,
+                  isTablet && styles.submitButtonTablet,
+                  (isApplying || moves.length === 0) && styles.submitButtonDisabled,
+                ]}
+                onPress={onApply}
+                disabled={isApplying || moves.length === 0}
+              >
+                {isApplying ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <>
+                    <MaterialCommunityIcons
+                      name="check-all"
+                      size={isTablet ? 20 : 16}
+                      color="#FFFFFF"
+                    />
+                    <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+                      Apply Changes
+                    </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </SafeAreaView>
+        </View>
+      </View>
+    </IdleAwareModal>
+  );
+};
+
+export default ReportingLinePreviewModal;
@@ -3,15 +3,14 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
   ScrollView,
   FlatList,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Admin } from '@/types';
@@ -175,7 +174,7 @@ const ReportsToModal: React.FC<ReportsToModalProps> = ({
   if (!admin) return null;
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -243,7 +242,7 @@ const ReportsToModal: React.FC<ReportsToModalProps> = ({
               {/* Search */}
               <View style={[styles.searchContainer, styles.managerSearch]}>
                 <MaterialCommunityIcons name="magnify" size={16} color="#64748B" />
-                <TextInput
+                <IdleAwareTextInput
                   style={[styles.searchInput, styles.managerSearchInput]}
                   placeholder="Search managers..."
                   placeholderTextColor="#94A3B8"
@@ -382,7 +381,7 @@ const ReportsToModal: React.FC<ReportsToModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
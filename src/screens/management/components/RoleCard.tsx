@@ -2,13 +2,20 @@ import React from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Role } from '@/types';
+import { OutboxEntry } from '@/services/outbox';
+import SyncStatusBadge from './SyncStatusBadge';
 import styles from '../styles';
 
 interface RoleCardProps {
   role: Role;
   onView: () => void;
-  onEdit: () => void;
-  onDelete: () => void;
+  // Omitted when the signed-in admin lacks the permission; the button is hidden
+  onEdit?: () => void;
+  onDelete?: () => void;
+  // Opens the create flow pre-filled with this role's departments and permissions
+  onClone?: () => void;
+  // Offline changes to this role that have not reached the server yet
+  pendingChanges?: OutboxEntry[];
   loadingRoleDetails: boolean;
   isTablet: boolean;
   isLargeTablet: boolean;
@@ -19,6 +26,8 @@ const RoleCard: React.FC<RoleCardProps> = ({
   onView,
   onEdit,
   onDelete,
+  onClone,
+  pendingChanges = [],
   loadingRoleDetails,
   isTablet,
   isLargeTablet,
@@ -55,6 +64,7 @@ const RoleCard: React.FC<RoleCardProps> = ({
                 <Text style={styles.systemBadgeText}>System</Text>
               </View>
             )}
+            <SyncStatusBadge entries={pendingChanges} />
           </View>
           <Text style={styles.roleDescription} numberOfLines={2}>
             {role.description || 'No description'}
@@ -90,22 +100,36 @@ const RoleCard: React.FC<RoleCardProps> = ({
           <MaterialCommunityIcons name="eye" size={16} color="#64748B" />
           <Text style={styles.actionButtonText}>View</Text>
         </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.actionButton, styles.editButton]}
-          onPress={onEdit}
-          disabled={role.is_system_role}
-        >
-          <MaterialCommunityIcons name="pencil" size={16} color="#64748B" />
-          <Text style={styles.actionButtonText}>Edit</Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.actionButton, styles.deleteButton]}
-          onPress={onDelete}
-          disabled={role.is_system_role}
-        >
-          <MaterialCommunityIcons name="delete" size={16} color="#EF4444" />
-          <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Delete</Text>
-        </TouchableOpacity>
+        {onEdit && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.editButton]}
+            onPress={onEdit}
+            disabled={role.is_system_role}
+          >
+            <MaterialCommunityIcons name="pencil" size={16} color="#64748B" />
+            <Text style={styles.actionButtonText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+        {onClone && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.editButton]}
+            onPress={onClone}
+            disabled={loadingRoleDetails}
+          >
+            <MaterialCommunityIcons name="content-copy" size={16} color="#64748B" />
+            <Text style={styles.actionButtonText}>Clone</Text>
+          </TouchableOpacity>
+        )}
+        {onDelete && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.deleteButton]}
+            onPress={onDelete}
+            disabled={role.is_system_role}
+          >
+            <MaterialCommunityIcons name="delete" size={16} color="#EF4444" />
+            <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Delete</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
@@ -2,15 +2,17 @@ import React from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
   Dimensions,
   ScrollView,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { RoleDetails, Permission } from '@/types';
+import { ExportFormat, buildRolesExport, shareExportFile } from '../dataExport';
 import styles from '../styles';
 
 const { width } = Dimensions.get('window');
@@ -26,8 +28,25 @@ interface RoleDetailsModalProps {
 const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({ visible, onClose, roleDetails, isLoading }) => {
   if (!roleDetails) return null;
 
+  const exportRole = async (format: ExportFormat) => {
+    try {
+      await shareExportFile(buildRolesExport([roleDetails], format));
+    } catch (error) {
+      console.error('❌ [EXPORT] Error exporting role:', error);
+      Alert.alert('Export Failed', 'Could not export this role. Please try again.');
+    }
+  };
+
+  const handleExport = () => {
+    Alert.alert('Export Role', `Export "${roleDetails.role.role_name}" with its departments and permissions as:`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'CSV', onPress: () => exportRole('csv') },
+      { text: 'JSON', onPress: () => exportRole('json') },
+    ]);
+  };
+
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -170,7 +189,17 @@ const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({ visible, onClose, r
             )}
           </ScrollView>
           <SafeAreaView edges={['bottom']} style={styles.roleDetailsModalSafeFooter}>
-            <View style={styles.roleDetailsModalFooter}>
+            <View style={[styles.roleDetailsModalFooter, styles.roleDetailsFooterGap]}>
+              <TouchableOpacity
+                style={[styles.closeDetailsButton, isTablet && styles.closeDetailsButtonTablet]}
+                onPress={handleExport}
+                disabled={isLoading}
+              >
+                <MaterialCommunityIcons name="export-variant" size={isTablet ? 20 : 16} color="#8B5CF6" />
+                <Text style={[styles.closeDetailsButtonText, isTablet && styles.closeDetailsButtonTextTablet]}>
+                  Export
+                </Text>
+              </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.closeDetailsButton, isTablet && styles.closeDetailsButtonTablet]}
                 onPress={onClose}
@@ -184,7 +213,7 @@ const RoleDetailsModal: React.FC<RoleDetailsModalProps> = ({ visible, onClose, r
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
@@ -0,0 +1,302 @@
+// components/RoleTemplatesModal.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useToast } from '@/components/Toast';
+import {
+  RoleTemplate,
+  saveRoleTemplate,
+  removeRoleTemplate,
+  parseTemplatesJson,
+  importRoleTemplates,
+  buildTemplatesExport,
+} from '../roleTemplates';
+import { shareExportFile } from '../dataExport';
+import styles from '../styles';
+
+const { width } = Dimensions.get('window');
+const isTablet = width >= 768;
+
+interface RoleTemplatesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  adminId: string | null;
+  templates: RoleTemplate[];
+  onTemplatesChange: (templates: RoleTemplate[]) => void;
+  // Fills the create form with the template and closes this modal
+  onApply: (template: RoleTemplate) => void;
+}
+
+const countPermissions = (template: RoleTemplate) =>
+  template.department_permissions.reduce((total, group) => total + group.permissions.length, 0);
+
+const RoleTemplatesModal: React.FC<RoleTemplatesModalProps> = ({
+  visible,
+  onClose,
+  adminId,
+  templates,
+  onTemplatesChange,
+  onApply,
+}) => {
+  const { showToast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setEditingId(null);
+      setError(null);
+    }
+  }, [visible]);
+
+  const startEditing = (template: RoleTemplate) => {
+    setEditingId(template.id);
+    setEditName(template.name);
+    setEditDescription(template.description);
+  };
+
+  const handleSaveEdit = async (template: RoleTemplate) => {
+    if (!adminId) return;
+    const name = editName.trim();
+    if (!name) {
+      setError('Template name is required');
+      return;
+    }
+    if (templates.some(item => item.id !== template.id && item.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A template named "${name}" already exists`);
+      return;
+    }
+    setError(null);
+    onTemplatesChange(
+      await saveRoleTemplate(adminId, { ...template, name, description: editDescription })
+    );
+    setEditingId(null);
+  };
+
+  const handleDelete = (template: RoleTemplate) => {
+    if (!adminId) return;
+    Alert.alert(
+      'Delete Template',
+      `Delete the "${template.name}" template? Roles created from it are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => onTemplatesChange(await removeRoleTemplate(adminId, template.id)),
+        },
+      ]
+    );
+  };
+
+  const handleImport = async () => {
+    if (!adminId) return;
+    setError(null);
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      setIsWorking(true);
+      const response = await fetch(picked.assets[0].uri);
+      const incoming = parseTemplatesJson(await response.text());
+      const result = await importRoleTemplates(adminId, incoming);
+      onTemplatesChange(result.templates);
+      showToast(
+        'success',
+        result.replaced > 0
+          ? `Imported ${result.added} new and replaced ${result.replaced} existing templates`
+          : `Imported ${result.added} templates`
+      );
+    } catch (importError: any) {
+      console.error('❌ [ROLE_TEMPLATES] Import failed:', importError);
+      setError(importError?.message || 'Could not read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await shareExportFile(buildTemplatesExport(templates));
+    } catch (exportError: any) {
+      console.error('❌ [ROLE_TEMPLATES] Export failed:', exportError);
+      setError(exportError?.message || 'Could not export templates');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderTemplate = (template: RoleTemplate) => {
+    if (editingId === template.id) {
+      return (
+        <View key={template.id} style={[styles.managerItem, styles.templateEditItem]}>
+          <IdleAwareTextInput
+            style={[styles.textInput, isTablet && styles.textInputTablet]}
+            value={editName}
+            onChangeText={setEditName}
+            placeholder="Template name"
+            placeholderTextColor="#94A3B8"
+          />
+          <IdleAwareTextInput
+            style={[styles.textInput, styles.textArea, isTablet && styles.textAreaTablet]}
+            value={editDescription}
+            onChangeText={setEditDescription}
+            placeholder="Description"
+            placeholderTextColor="#94A3B8"
+            multiline
+          />
+          <View style={styles.templateEditActions}>
+            <TouchableOpacity style={styles.filterOption} onPress={() => setEditingId(null)}>
+              <Text style={styles.filterOptionText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterOption, styles.filterOptionSelected]}
+              onPress={() => handleSaveEdit(template)}
+            >
+              <Text style={[styles.filterOptionText, styles.filterOptionTextSelected]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        key={template.id}
+        style={styles.managerItem}
+        onPress={() => onApply(template)}
+      >
+        <View style={styles.managerTextContainer}>
+          <Text style={styles.managerName} numberOfLines={1}>{template.name}</Text>
+          <Text style={styles.inputSubtext} numberOfLines={1}>
+            {template.department_permissions.length} departments • {countPermissions(template)} permissions
+          </Text>
+          {!!template.description && (
+            <Text style={styles.inputSubtext} numberOfLines={2}>{template.description}</Text>
+          )}
+        </View>
+        <TouchableOpacity style={styles.templateIconButton} onPress={() => startEditing(template)}>
+          <MaterialCommunityIcons name="pencil" size={18} color="#64748B" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.templateIconButton} onPress={() => handleDelete(template)}>
+          <MaterialCommunityIcons name="delete" size={18} color="#EF4444" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <IdleAwareModal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.reportsToModalOverlay}>
+        <View style={[styles.reportsToModalContent, isTablet && styles.reportsToModalContentTablet]}>
+          <View style={styles.reportsToModalHeader}>
+            <View>
+              <Text style={[styles.reportsToModalTitle, isTablet && styles.reportsToModalTitleTablet]}>
+                Role Templates
+              </Text>
+              <Text style={[styles.reportsToModalSubtitle, isTablet && styles.reportsToModalSubtitleTablet]}>
+                Saved on this device • tap one to use it
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialCommunityIcons name="close" size={isTablet ? 28 : 24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView
+            style={styles.reportsToModalBody}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {templates.length === 0 ? (
+              <View style={styles.noDepartments}>
+                <MaterialCommunityIcons name="file-document-multiple-outline" size={40} color="#CBD5E1" />
+                <Text style={styles.noDepartmentsText}>
+                  No templates yet. Save one from the create role form or import a JSON file.
+                </Text>
+              </View>
+            ) : (
+              templates.map(renderTemplate)
+            )}
+
+            <View style={styles.infoCard}>
+              <MaterialCommunityIcons name="information" size={20} color="#8B5CF6" />
+              <View style={styles.infoContent}>
+                <Text style={styles.infoText}>
+                  To change a template's permissions, use it, adjust the permissions, then save it
+                  again under the same name.
+                </Text>
+              </View>
+            </View>
+
+            {error && (
+              <View style={styles.bulkWarning}>
+                <MaterialCommunityIcons name="alert" size={18} color="#EF4444" />
+                <Text style={styles.bulkWarningText}>{error}</Text>
+              </View>
+            )}
+          </ScrollView>
+          <SafeAreaView edges={['bottom']} style={styles.reportsToModalSafeFooter}>
+            <View style={styles.reportsToModalFooter}>
+              <TouchableOpacity
+                style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
+                onPress={handleImport}
+                disabled={isWorking}
+              >
+                <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
+                  Import JSON
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.submitButton,
+                  isTablet && styles.submitButtonTablet,
+                  (isWorking || templates.length === 0) && styles.submitButtonDisabled,
+                ]}
+                onPress={handleExport}
+                disabled={isWorking || templates.length === 0}
+              >
+                {isWorking ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <>
+                    <MaterialCommunityIcons name="export-variant" size={isTablet ? 20 : 16} color="#FFFFFF" />
+                    <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
+                      Export JSON
+                    </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </SafeAreaView>
+        </View>
+      </View>
+    </IdleAwareModal>
+  );
+};
+
+export default RoleTemplatesModal;
@@ -0,0 +1,36 @@
+// components/SyncStatusBadge.tsx
+import React from 'react';
+import { View, Text, StyleProp, ViewStyle } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { OutboxEntry } from '@/services/outbox';
+import styles from '../styles';
+
+interface SyncStatusBadgeProps {
+  // Queued changes for the admin/role the card shows
+  entries: OutboxEntry[];
+  style?: StyleProp<ViewStyle>;
+}
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ entries, style }) => {
+  if (entries.length === 0) return null;
+
+  const hasProblem = entries.some(entry => entry.status !== 'pending');
+  const label = hasProblem
+    ? entries.some(entry => entry.status === 'conflict') ? 'Conflict' : 'Sync failed'
+    : 'Pending sync';
+
+  return (
+    <View style={[styles.syncBadge, hasProblem && styles.syncBadgeProblem, style]}>
+      <MaterialCommunityIcons
+        name={hasProblem ? 'alert-circle' : 'cloud-upload-outline'}
+        size={12}
+        color={hasProblem ? '#EF4444' : '#D97706'}
+      />
+      <Text style={[styles.syncBadgeText, hasProblem && styles.syncBadgeTextProblem]}>
+        {label}
+      </Text>
+    </View>
+  );
+};
+
+export default SyncStatusBadge;
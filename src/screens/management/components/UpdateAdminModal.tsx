@@ -2,15 +2,14 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
   ScrollView,
   RefreshControl,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Admin, Role } from '@/types';
@@ -178,7 +177,7 @@ const UpdateAdminModal: React.FC<UpdateAdminModalProps> = ({
   const isSubmitting = isUpdating || isUpdatingRole;
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -229,7 +228,7 @@ const UpdateAdminModal: React.FC<UpdateAdminModalProps> = ({
                     </Text>
                     <Text style={styles.requiredStar}>*</Text>
                   </View>
-                  <TextInput
+                  <IdleAwareTextInput
                     style={[styles.textInput, isTablet && styles.textInputTablet]}
                     value={username}
                     onChangeText={setUsername}
@@ -247,7 +246,7 @@ const UpdateAdminModal: React.FC<UpdateAdminModalProps> = ({
                     </Text>
                     <Text style={styles.requiredStar}>*</Text>
                   </View>
-                  <TextInput
+                  <IdleAwareTextInput
                     style={[styles.textInput, isTablet && styles.textInputTablet]}
                     value={fullName}
                     onChangeText={setFullName}
@@ -269,7 +268,7 @@ const UpdateAdminModal: React.FC<UpdateAdminModalProps> = ({
                   {/* Search Roles */}
                   <View style={[styles.searchContainer, styles.roleSearch]}>
                     <MaterialCommunityIcons name="magnify" size={16} color="#64748B" />
-                    <TextInput
+                    <IdleAwareTextInput
                       style={[styles.searchInput, styles.roleSearchInput]}
                       placeholder="Search roles..."
                       placeholderTextColor="#94A3B8"
@@ -489,7 +488,7 @@ const UpdateAdminModal: React.FC<UpdateAdminModalProps> = ({
           </SafeAreaView>
         </View>
       </View>
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
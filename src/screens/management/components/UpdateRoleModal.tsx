@@ -2,9 +2,7 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
-  Modal,
   TouchableOpacity,
-  TextInput,
   Alert,
   Dimensions,
   ActivityIndicator,
@@ -12,11 +10,22 @@ import {
   ScrollView,
   RefreshControl,
 } from 'react-native';
+import { IdleAwareModal, IdleAwareTextInput } from '@/components/IdleAware';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
 import { Department, Role, UpdateRoleRequest, Permission } from '@/types';
 import { useToast } from '@/components/Toast';
 import { api } from '@/services/api';
+import {
+  RoleSnapshot,
+  diffRoleSnapshots,
+  hasRoleChanges,
+  removesAccess,
+  buildRoleUpdateRequest,
+  buildRoleUndoRequest,
+  countAdminsWithRole,
+} from '../roleChanges';
 import PermissionSelectionModal from './PermissionSelectionModal';
 import styles from '../styles';
 
@@ -28,7 +37,8 @@ interface UpdateRoleModalProps {
   visible: boolean;
   onClose: () => void;
   role: Role | null;
-  onUpdate: (roleId: string, data: UpdateRoleRequest) => void;
+  // `undo` restores the role as it was loaded, for the undo action after saving
+  onUpdate: (roleId: string, data: UpdateRoleRequest, undo: UpdateRoleRequest) => void;
   isUpdating: boolean;
   availableDepartments: Department[];
 }
@@ -56,6 +66,13 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
   const [availablePermissions, setAvailablePermissions] = useState<Record<string, string[]>>({});
   const [loadingPermissionsFor, setLoadingPermissionsFor] = useState<string[]>([]);
   const [loadingRoleDetails, setLoadingRoleDetails] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const { data: adminCount, isLoading: isLoadingAdminCount } = useQuery({
+    queryKey: ['roleAdminCount', role?.admin_role_id],
+    queryFn: () => countAdminsWithRole(role!.admin_role_id),
+    enabled: visible && isReviewing && !!role,
+  });
 
   // Reset form when modal closes
   useEffect(() => {
@@ -81,6 +98,7 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
     setAvailablePermissions({});
     setLoadingPermissionsFor([]);
     setPermissionModalVisible(false);
+    setIsReviewing(false);
   };
 
   const loadRoleDetails = async () => {
@@ -238,7 +256,23 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
     setPermissionModalVisible(false);
   };
 
-  const handleSubmit = () => {
+  const getSnapshots = (): { original: RoleSnapshot; next: RoleSnapshot } => ({
+    original: {
+      roleName: role?.role_name ?? '',
+      description: role?.description || '',
+      departments: originalDepartments.map(d => d.name),
+      permissions: Object.values(originalPermissions).flat(),
+    },
+    next: {
+      roleName: roleName.trim(),
+      description: description.trim(),
+      departments: selectedDepartments.map(d => d.name),
+      permissions: Object.values(selectedPermissions).flat(),
+    },
+  });
+
+  // Validates the form and moves to the review step
+  const handleReview = () => {
     if (!role || !roleName.trim()) {
       Alert.alert('Error', 'Role name is required');
       return;
@@ -248,37 +282,24 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
       Alert.alert('Error', 'At least one department must be selected');
       return;
     }
-  
-    const updateData: UpdateRoleRequest = {
-      role_name: roleName.trim(),
-      description: description.trim(),
-    };
-  
-    const originalDeptNames = originalDepartments.map(d => d.name);
-    const selectedDeptNames = selectedDepartments.map(d => d.name);
-  
-    const addDepartments = selectedDeptNames.filter(
-      name => !originalDeptNames.includes(name)
-    );
-  
-    const removeDepartments = originalDeptNames.filter(
-      name => !selectedDeptNames.includes(name)
-    );
-  
-    if (addDepartments.length > 0) {
-      updateData.add_departments = addDepartments;
-    }
-  
-    if (removeDepartments.length > 0) {
-      updateData.remove_departments = removeDepartments;
-    }
-  
-    if (role.role_type === 1) {
-      updateData.replace_permissions =
-        Object.values(selectedPermissions).flat();
+
+    const { original, next } = getSnapshots();
+    if (!hasRoleChanges(diffRoleSnapshots(original, next))) {
+      showToast('info', 'Nothing has changed');
+      return;
     }
-  
-    onUpdate(role.admin_role_id, updateData);
+
+    setIsReviewing(true);
+  };
+
+  const handleSubmit = () => {
+    if (!role) return;
+    const { original, next } = getSnapshots();
+    onUpdate(
+      role.admin_role_id,
+      buildRoleUpdateRequest(role, original, next),
+      buildRoleUndoRequest(role, original, next)
+    );
   };
   
   const renderDepartmentItem = ({ item }: DepartmentListItem) => {
@@ -336,13 +357,91 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
     );
   };
 
+  const renderChangeList = (title: string, names: string[], kind: 'added' | 'removed') => {
+    if (names.length === 0) return null;
+    const isAdded = kind === 'added';
+    return (
+      <View style={styles.reviewSection}>
+        <Text style={styles.reviewSectionTitle}>
+          {title} ({names.length})
+        </Text>
+        {names.map(name => (
+          <View key={name} style={styles.reviewRow}>
+            <MaterialCommunityIcons
+              name={isAdded ? 'plus-circle' : 'minus-circle'}
+              size={16}
+              color={isAdded ? '#10B981' : '#EF4444'}
+            />
+            <Text style={[styles.reviewRowText, isAdded ? styles.reviewAddedText : styles.reviewRemovedText]}>
+              {name}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderReview = () => {
+    if (!role) return null;
+    const { original, next } = getSnapshots();
+    const changes = diffRoleSnapshots(original, next);
+    return (
+      <>
+        <View style={styles.infoCard}>
+          <MaterialCommunityIcons name="account-group" size={20} color="#8B5CF6" />
+          <View style={styles.infoContent}>
+            {isLoadingAdminCount ? (
+              <ActivityIndicator size="small" color="#8B5CF6" />
+            ) : (
+              <Text style={styles.infoText}>
+                {adminCount === undefined
+                  ? 'Could not load how many admins hold this role'
+                  : `${adminCount} ${adminCount === 1 ? 'admin holds' : 'admins hold'} this role and will get these changes`}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {role.is_system_role && removesAccess(changes) && (
+          <View style={styles.warningCard}>
+            <MaterialCommunityIcons name="alert-circle-outline" size={20} color="#F59E0B" />
+            <View style={styles.warningContent}>
+              <Text style={styles.warningTitle}>Removing access from a system role</Text>
+              <Text style={styles.warningText}>
+                Built-in features may depend on what this role can do. Check the removals below before applying.
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {changes.nameChanged && (
+          <View style={styles.reviewSection}>
+            <Text style={styles.reviewSectionTitle}>Role name</Text>
+            <Text style={[styles.reviewRowText, styles.reviewRemovedText]}>{original.roleName}</Text>
+            <Text style={[styles.reviewRowText, styles.reviewAddedText]}>{next.roleName}</Text>
+          </View>
+        )}
+        {changes.descriptionChanged && (
+          <View style={styles.reviewSection}>
+            <Text style={styles.reviewSectionTitle}>Description</Text>
+            <Text style={styles.reviewRowText} numberOfLines={3}>{next.description || 'Removed'}</Text>
+          </View>
+        )}
+        {renderChangeList('Departments added', changes.addedDepartments, 'added')}
+        {renderChangeList('Departments removed', changes.removedDepartments, 'removed')}
+        {renderChangeList('Permissions added', changes.addedPermissions, 'added')}
+        {renderChangeList('Permissions removed', changes.removedPermissions, 'removed')}
+      </>
+    );
+  };
+
   if (!role) return null;
 
   const isEmployeeRole = role.role_type === 1;
   const isSystemRole = role.is_system_role;
 
   return (
-    <Modal
+    <IdleAwareModal
       visible={visible}
       animationType="fade"
       transparent={true}
@@ -357,7 +456,9 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
                 Update Role: {role.role_name}
               </Text>
               <Text style={[styles.updateModalSubtitle, isTablet && styles.updateModalSubtitleTablet]}>
-                {isEmployeeRole ? 'Employee Role' : 'Manager Role'} • {isSystemRole ? 'System Role' : 'Custom Role'}
+                {isReviewing
+                  ? 'Review changes before applying'
+                  : `${isEmployeeRole ? 'Employee Role' : 'Manager Role'} • ${isSystemRole ? 'System Role' : 'Custom Role'}`}
               </Text>
             </View>
             <TouchableOpacity onPress={onClose} disabled={isUpdating || loadingRoleDetails}>
@@ -383,6 +484,8 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
                 <ActivityIndicator size="large" color="#8B5CF6" />
                 <Text style={styles.loadingRoleText}>Loading role details...</Text>
               </View>
+            ) : isReviewing ? (
+              renderReview()
             ) : (
               <>
                 {/* Basic Role Info */}
@@ -393,7 +496,7 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
                     </Text>
                     <Text style={styles.requiredStar}>*</Text>
                   </View>
-                  <TextInput
+                  <IdleAwareTextInput
                     style={[styles.textInput, isTablet && styles.textInputTablet]}
                     value={roleName}
                     onChangeText={setRoleName}
@@ -407,7 +510,7 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
                   <Text style={[styles.inputLabel, isTablet && styles.inputLabelTablet]}>
                     Description
                   </Text>
-                  <TextInput
+                  <IdleAwareTextInput
                     style={[styles.textInput, styles.textArea, isTablet && styles.textAreaTablet]}
                     value={description}
                     onChangeText={setDescription}
@@ -564,11 +667,11 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
             <View style={styles.updateModalFooter}>
               <TouchableOpacity
                 style={[styles.cancelButton, isTablet && styles.cancelButtonTablet]}
-                onPress={onClose}
+                onPress={isReviewing ? () => setIsReviewing(false) : onClose}
                 disabled={isUpdating}
               >
                 <Text style={[styles.cancelButtonText, isTablet && styles.cancelButtonTextTablet]}>
-                  Cancel
+                  {isReviewing ? 'Back' : 'Cancel'}
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
@@ -579,7 +682,7 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
                   (!roleName.trim() || selectedDepartments.length === 0) && styles.submitButtonDisabled,
                   isSystemRole && roleName === role.role_name && styles.submitButtonDisabled,
                 ]}
-                onPress={handleSubmit}
+                onPress={isReviewing ? handleSubmit : handleReview}
                 disabled={
                   isUpdating || 
                   !roleName.trim() || 
@@ -591,9 +694,13 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
                   <ActivityIndicator size="small" color="#FFFFFF" />
                 ) : (
                   <>
-                    <MaterialCommunityIcons name="check" size={isTablet ? 20 : 16} color="#FFFFFF" />
+                    <MaterialCommunityIcons
+                      name={isReviewing ? 'check' : 'file-compare'}
+                      size={isTablet ? 20 : 16}
+                      color="#FFFFFF"
+                    />
                     <Text style={[styles.submitButtonText, isTablet && styles.submitButtonTextTablet]}>
-                      Update Role
+                      {isReviewing ? 'Apply Changes' : 'Review Changes'}
                     </Text>
                   </>
                 )}
@@ -616,7 +723,7 @@ const UpdateRoleModal: React.FC<UpdateRoleModalProps> = ({
           isManagerRole={false}
         />
       )}
-    </Modal>
+    </IdleAwareModal>
   );
 };
 
@@ -0,0 +1,67 @@
+// Spreadsheets run a cell starting with one of these as a formula, so
+// exported values get a leading ' (OWASP CSV injection guidance)
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Undoes the ' that escapeCsvField added, so exported files import cleanly
+const unescapeFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_TRIGGER.test(value.slice(1)) ? value.slice(1) : value;
+
+// RFC 4180 style: quoted fields may hold commas, newlines and "" escapes.
+// Blank lines are dropped; each row keeps its 1-based source line.
+export const parseCsv = (text: string): { line: number; fields: string[] }[] => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, fields: fields.map(value => unescapeFormula(value.trim())) });
+    }
+    fields = [];
+    field = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+export const escapeCsvField = (value: string): string => {
+  const safe = FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
@@ -0,0 +1,238 @@
+import { Platform, Share } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Admin, AdminPhoneInfo, Permission, Role, RoleDetails } from '@/types';
+import { api } from '@/services/api';
+import { fetchAllAdmins, fetchAllRoles } from './paging';
+import { runWithConcurrency, BULK_CONCURRENCY } from './bulkAdminOps';
+import { toCsv } from './csv';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportTarget = 'admins' | 'roles' | 'matrix';
+
+export const EXPORT_TARGET_LABELS: Record<ExportTarget, string> = {
+  admins: 'Admins',
+  roles: 'Roles with departments and permissions',
+  matrix: 'Role permission matrix',
+};
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const ROLE_TYPE_NAMES: Record<number, string> = {
+  1: 'Employee',
+  2: 'Manager',
+  3: 'Admin',
+  4: 'Super Admin',
+};
+
+const roleTypeName = (roleType: number) => ROLE_TYPE_NAMES[roleType] || String(roleType);
+
+/* ============================================================
+   DATA
+   ============================================================ */
+
+// Phone numbers are only requested for an export that reveals them (which
+// needs ADMIN_VIEW_PHONE): every lookup is recorded server side as a phone
+// access. Other exports use the masked number from the list data.
+export const loadAdminsForExport = async (
+  includePhones: boolean
+): Promise<{ admins: Admin[]; phones: Map<string, AdminPhoneInfo> }> => {
+  const admins = await fetchAllAdmins();
+  const phones = new Map<string, AdminPhoneInfo>();
+
+  if (includePhones) {
+    await runWithConcurrency(admins, BULK_CONCURRENCY, async admin => {
+      try {
+        const response = await api.getAdminPhone(admin.admin_id);
+        if (response.data?.data) phones.set(admin.admin_id, response.data.data);
+      } catch (error) {
+        console.error(`❌ [EXPORT] Phone lookup failed for ${admin.admin_id}:`, error);
+      }
+    });
+  }
+
+  return { admins, phones };
+};
+
+export const loadRoleDetailsForExport = async (
+  onProgress?: (done: number, total: number) => void
+): Promise<RoleDetails[]> => {
+  const roles = await fetchAllRoles();
+  let done = 0;
+  onProgress?.(done, roles.length);
+
+  const details = await runWithConcurrency(roles, BULK_CONCURRENCY, async role => {
+    let result: RoleDetails;
+    try {
+      const response = await api.getRoleDetails(role.admin_role_id);
+      result = response.data?.data ?? { role, departments: [], permissions: [] };
+    } catch (error) {
+      console.error(`❌ [EXPORT] Role details failed for ${role.admin_role_id}:`, error);
+      result = { role, departments: [], permissions: [] };
+    }
+    onProgress?.(++done, roles.length);
+    return result;
+  });
+
+  return details;
+};
+
+/* ============================================================
+   BUILDERS
+   ============================================================ */
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+export const makeFile = (name: string, format: ExportFormat, content: string): ExportFile => ({
+  fileName: `${name}-${timestamp()}.${format}`,
+  mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+  content,
+});
+
+export const buildAdminsExport = (
+  admins: Admin[],
+  phones: Map<string, AdminPhoneInfo>,
+  format: ExportFormat,
+  revealPhones: boolean
+): ExportFile => {
+  const phoneOf = (admin: Admin) => {
+    const info = phones.get(admin.admin_id);
+    if (revealPhones && info) return info.phone_number;
+    return admin.masked_phone || info?.masked_phone || '';
+  };
+
+  const records = admins.map(admin => ({
+    admin_id: admin.admin_id,
+    username: admin.username,
+    full_name: admin.full_name,
+    phone: phoneOf(admin),
+    role_name: admin.role_name,
+    role_type: roleTypeName(admin.role_type),
+    is_active: admin.is_active,
+    reports_to: admin.reports_to_name || '',
+    last_login: admin.last_login || '',
+    created_at: admin.admin_created_at,
+  }));
+
+  if (format === 'json') {
+    return makeFile('admins', format, JSON.stringify(records, null, 2));
+  }
+  const columns = Object.keys(records[0] ?? { admin_id: '' }) as (keyof typeof records[number])[];
+  return makeFile(
+    'admins',
+    format,
+    toCsv([columns, ...records.map(record => columns.map(column => String(record[column])))])
+  );
+};
+
+export const buildRolesExport = (details: RoleDetails[], format: ExportFormat): ExportFile => {
+  const name = details.length === 1
+    ? `role-${details[0].role.role_name.toLowerCase().replace(/\W+/g, '-')}`
+    : 'roles';
+
+  if (format === 'json') {
+    const records = details.map(({ role, departments, permissions }) => ({
+      ...role,
+      role_type_name: roleTypeName(role.role_type),
+      departments: departments.map(department => department.name),
+      permissions: permissions.map(permission => ({
+        permission_name: permission.permission_name,
+        module: permission.module,
+        category: permission.category,
+        scope: permission.scope,
+      })),
+    }));
+    return makeFile(name, format, JSON.stringify(records, null, 2));
+  }
+
+  return makeFile(name, format, toCsv([
+    ['role_id', 'role_name', 'role_type', 'is_system_role', 'description', 'departments', 'permissions'],
+    ...details.map(({ role, departments, permissions }) => [
+      role.admin_role_id,
+      role.role_name,
+      roleTypeName(role.role_type),
+      String(role.is_system_role),
+      role.description || '',
+      departments.map(department => department.name).join('; '),
+      permissions.map(permission => permission.permission_name).join('; '),
+    ]),
+  ]));
+};
+
+// One row per permission held by any role, one column per role
+export const buildPermissionMatrix = (details: RoleDetails[]) => {
+  const permissions = new Map<string, Permission>();
+  details.forEach(detail =>
+    detail.permissions.forEach(permission => permissions.set(permission.permission_name, permission))
+  );
+  const rows = Array.from(permissions.values()).sort((a, b) =>
+    a.module.localeCompare(b.module) ||
+    a.category.localeCompare(b.category) ||
+    a.permission_name.localeCompare(b.permission_name)
+  );
+  const roles: Role[] = details.map(detail => detail.role);
+  const granted = details.map(detail => new Set(detail.permissions.map(p => p.permission_name)));
+
+  return {
+    roles,
+    rows: rows.map(permission => ({
+      permission,
+      grants: granted.map(set => set.has(permission.permission_name)),
+    })),
+  };
+};
+
+export const buildMatrixExport = (details: RoleDetails[], format: ExportFormat): ExportFile => {
+  const matrix = buildPermissionMatrix(details);
+
+  if (format === 'json') {
+    const records = matrix.rows.map(({ permission, grants }) => ({
+      permission_name: permission.permission_name,
+      module: permission.module,
+      category: permission.category,
+      roles: Object.fromEntries(matrix.roles.map((role, index) => [role.role_name, grants[index]])),
+    }));
+    return makeFile('permission-matrix', format, JSON.stringify(records, null, 2));
+  }
+
+  return makeFile('permission-matrix', format, toCsv([
+    ['module', 'category', 'permission', ...matrix.roles.map(role => role.role_name)],
+    ...matrix.rows.map(({ permission, grants }) => [
+      permission.module,
+      permission.category,
+      permission.permission_name,
+      ...grants.map(isGranted => (isGranted ? 'Y' : '')),
+    ]),
+  ]));
+};
+
+/* ============================================================
+   SHARING
+   ============================================================ */
+
+// Writes to the cache directory and opens the share sheet. Where file
+// sharing is unavailable (web) the content is shared as text instead.
+export const shareExportFile = async (file: ExportFile): Promise<void> => {
+  if (Platform.OS !== 'web' && (await Sharing.isAvailableAsync())) {
+    const target = new File(Paths.cache, file.fileName);
+    target.create({ overwrite: true });
+    target.write(file.content);
+    await Sharing.shareAsync(target.uri, {
+      mimeType: file.mimeType,
+      dialogTitle: file.fileName,
+      UTI: file.mimeType === 'text/csv' ? 'public.comma-separated-values-text' : 'public.json',
+    });
+    return;
+  }
+
+  await Share.share({ title: file.fileName, message: file.content });
+};
@@ -1,3 +1,7 @@
 export { default as EmployeeManagementScreen } from './EmployeeManagementScreen';
 export { default as ManagerManagementScreen } from './ManagerManagementScreen';
-export { default as CompanyManagementScreen } from './CompanyManagementScreen';
\ No newline at end of file
+export { default as CompanyManagementScreen } from './CompanyManagementScreen';
+export { default as OrgChartScreen } from './OrgChartScreen';
+export { default as AdminAnalyticsScreen } from './AdminAnalyticsScreen';
+export { default as RoleMatrixScreen } from './RoleMatrixScreen';
+export { default as AuditLogScreen } from './AuditLogScreen';
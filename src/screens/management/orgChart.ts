@@ -0,0 +1,168 @@
+import { AdminHierarchy } from '@/types';
+import { api } from '@/services/api';
+
+export interface OrgChartNode {
+  admin: AdminHierarchy;
+  children: OrgChartNode[];
+}
+
+export const ROLE_TYPE_LABELS: Record<number, string> = {
+  1: 'Employee',
+  2: 'Manager',
+  3: 'Admin',
+  4: 'Super Admin',
+};
+
+export const getRoleTypeLabel = (roleType: number) =>
+  ROLE_TYPE_LABELS[roleType] || `Type ${roleType}`;
+
+// Turns the flat hierarchy levels into a forest. Anyone whose manager is not
+// part of the response becomes a root, so partial hierarchies still render.
+export const buildOrgChart = (levels: AdminHierarchy[]): OrgChartNode[] => {
+  const nodes = new Map<string, OrgChartNode>();
+  levels.forEach(admin => {
+    nodes.set(admin.admin_id, { admin, children: [] });
+  });
+
+  const roots: OrgChartNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.admin.reports_to ? nodes.get(node.admin.reports_to) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const byLevelThenName = (a: OrgChartNode, b: OrgChartNode) =>
+    a.admin.level - b.admin.level || a.admin.full_name.localeCompare(b.admin.full_name);
+
+  const sortTree = (list: OrgChartNode[]) => {
+    list.sort(byLevelThenName);
+    list.forEach(node => sortTree(node.children));
+  };
+  sortTree(roots);
+
+  return roots;
+};
+
+export const countDescendants = (node: OrgChartNode): number =>
+  node.children.reduce((total, child) => total + 1 + countDescendants(child), 0);
+
+/* ============================================================
+   REPORTING LINE CHANGES
+   ============================================================ */
+
+export interface ReportingLineMove {
+  adminId: string;
+  fromManagerId: string;
+  toManagerId: string;
+}
+
+// Applies staged moves to the hierarchy so the chart can show the proposal
+export const applyMoves = (
+  levels: AdminHierarchy[],
+  moves: ReportingLineMove[]
+): AdminHierarchy[] => {
+  if (moves.length === 0) return levels;
+
+  const managerById = new Map<string, string>();
+  moves.forEach(move => managerById.set(move.adminId, move.toManagerId));
+
+  return levels.map(admin =>
+    managerById.has(admin.admin_id)
+      ? { ...admin, reports_to: managerById.get(admin.admin_id) as string }
+      : admin
+  );
+};
+
+// The fields the reporting-line helpers need; admins from the list endpoints
+// work as well as hierarchy levels
+type ReportingLink = { admin_id: string; reports_to?: string };
+
+// Everyone below adminId, following reports_to links
+export const getDescendants = <T extends ReportingLink>(
+  levels: T[],
+  adminId: string
+): T[] => {
+  const reportsByManager = new Map<string, T[]>();
+  levels.forEach(admin => {
+    if (!admin.reports_to) return;
+    const reports = reportsByManager.get(admin.reports_to) || [];
+    reports.push(admin);
+    reportsByManager.set(admin.reports_to, reports);
+  });
+
+  const descendants: T[] = [];
+  const visited = new Set<string>([adminId]);
+  const queue = [adminId];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    (reportsByManager.get(current) || []).forEach(report => {
+      if (visited.has(report.admin_id)) return;
+      visited.add(report.admin_id);
+      descendants.push(report);
+      queue.push(report.admin_id);
+    });
+  }
+  return descendants;
+};
+
+// A move creates a cycle when the new manager is the admin or sits below them
+export const wouldCreateCycle = (
+  levels: ReportingLink[],
+  adminId: string,
+  newManagerId: string
+): boolean =>
+  adminId === newManagerId ||
+  getDescendants(levels, adminId).some(admin => admin.admin_id === newManagerId);
+
+/* ============================================================
+   BATCH APPLY
+   ============================================================ */
+
+export interface ReportingLineBatchResult {
+  success: boolean;
+  applied: number;
+  // Error from the move that stopped the batch
+  error?: string;
+  // Moves that were applied but could not be reverted
+  rollbackFailures: ReportingLineMove[];
+}
+
+// Applies moves in the order they were staged (each was validated against the
+// state left by the previous one). On the first failure every move already
+// applied is reverted, newest first.
+export const applyReportingLineMoves = async (
+  moves: ReportingLineMove[]
+): Promise<ReportingLineBatchResult> => {
+  const applied: ReportingLineMove[] = [];
+
+  for (const move of moves) {
+    try {
+      await api.updateAdminReportsTo(move.adminId, move.toManagerId);
+      applied.push(move);
+    } catch (error: any) {
+      console.error('❌ [ORG_CHART] Reports-to update failed, rolling back:', error);
+
+      const rollbackFailures: ReportingLineMove[] = [];
+      for (const done of [...applied].reverse()) {
+        try {
+          await api.updateAdminReportsTo(done.adminId, done.fromManagerId);
+        } catch (rollbackError) {
+          console.error('❌ [ORG_CHART] Rollback failed:', rollbackError);
+          rollbackFailures.push(done);
+        }
+      }
+
+      return {
+        success: false,
+        applied: applied.length,
+        error: error.response?.data?.message || error.message || 'Failed to update reports to',
+        rollbackFailures,
+      };
+    }
+  }
+
+  return { success: true, applied: applied.length, rollbackFailures: [] };
+};
@@ -0,0 +1,65 @@
+import { InfiniteData } from '@tanstack/react-query';
+import { Admin, AdminsResponse, Role, RoleResponse } from '@/types';
+import { api } from '@/services/api';
+
+// Page size for the admin and role lists
+export const LIST_PAGE_SIZE = 50;
+
+export interface PageMeta {
+  count: number;
+  limit?: number;
+  offset?: number;
+  total?: number;
+}
+
+// Offset of the page after `meta`, or undefined when everything is loaded.
+// Role responses may omit total, so a short page also ends the list.
+export const getNextPageOffset = (meta: PageMeta | undefined): number | undefined => {
+  if (!meta || meta.count === 0) return undefined;
+
+  const nextOffset = (meta.offset ?? 0) + meta.count;
+  if (meta.total !== undefined) {
+    return nextOffset < meta.total ? nextOffset : undefined;
+  }
+  return meta.count < (meta.limit ?? LIST_PAGE_SIZE) ? undefined : nextOffset;
+};
+
+export const flattenAdminPages = (data: InfiniteData<AdminsResponse> | undefined): Admin[] =>
+  data?.pages.flatMap(page => page.data?.admins || []) ?? [];
+
+export const flattenRolePages = (data: InfiniteData<RoleResponse> | undefined): Role[] =>
+  data?.pages.flatMap(page => page.data?.roles || []) ?? [];
+
+// Server total from the most recent page, falling back to what is loaded
+export const getPagedTotal = (
+  data: InfiniteData<AdminsResponse | RoleResponse> | undefined,
+  loaded: number
+): number => {
+  const lastPage = data?.pages[data.pages.length - 1];
+  return lastPage?.data?.meta?.total ?? loaded;
+};
+
+// Walks every page; for imports and exports that need the complete list
+export const fetchAllRoles = async (): Promise<Role[]> => {
+  const roles: Role[] = [];
+  let offset: number | undefined = 0;
+  while (offset !== undefined) {
+    const response = await api.getAllRoles({ limit: LIST_PAGE_SIZE, offset });
+    const page = response.data as RoleResponse;
+    roles.push(...(page.data?.roles || []));
+    offset = getNextPageOffset(page.data?.meta);
+  }
+  return roles;
+};
+
+export const fetchAllAdmins = async (): Promise<Admin[]> => {
+  const admins: Admin[] = [];
+  let offset: number | undefined = 0;
+  while (offset !== undefined) {
+    const response = await api.getAllAdmins({ limit: LIST_PAGE_SIZE, offset });
+    const page = response.data as AdminsResponse;
+    admins.push(...(page.data?.admins || []));
+    offset = getNextPageOffset(page.data?.meta);
+  }
+  return admins;
+};
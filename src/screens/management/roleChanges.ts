@@ -0,0 +1,105 @@
+import { AdminsResponse, Role, UpdateRoleRequest } from '@/types';
+import { api } from '@/services/api';
+import { LIST_PAGE_SIZE, getNextPageOffset } from './paging';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+// Role state as the update form sees it: department names and, for
+// employee roles, the flat list of permission names
+export interface RoleSnapshot {
+  roleName: string;
+  description: string;
+  departments: string[];
+  permissions: string[];
+}
+
+export interface RoleChangeSet {
+  nameChanged: boolean;
+  descriptionChanged: boolean;
+  addedDepartments: string[];
+  removedDepartments: string[];
+  addedPermissions: string[];
+  removedPermissions: string[];
+}
+
+// How long the undo action stays on screen after an update is applied
+export const ROLE_UNDO_WINDOW_MS = 8000;
+
+/* ============================================================
+   DIFF
+   ============================================================ */
+
+const missingFrom = (source: string[], target: string[]) => {
+  const targetSet = new Set(target);
+  return Array.from(new Set(source)).filter(name => !targetSet.has(name)).sort();
+};
+
+export const diffRoleSnapshots = (original: RoleSnapshot, next: RoleSnapshot): RoleChangeSet => ({
+  nameChanged: original.roleName !== next.roleName,
+  descriptionChanged: original.description !== next.description,
+  addedDepartments: missingFrom(next.departments, original.departments),
+  removedDepartments: missingFrom(original.departments, next.departments),
+  addedPermissions: missingFrom(next.permissions, original.permissions),
+  removedPermissions: missingFrom(original.permissions, next.permissions),
+});
+
+export const hasRoleChanges = (changes: RoleChangeSet): boolean =>
+  changes.nameChanged ||
+  changes.descriptionChanged ||
+  changes.addedDepartments.length > 0 ||
+  changes.removedDepartments.length > 0 ||
+  changes.addedPermissions.length > 0 ||
+  changes.removedPermissions.length > 0;
+
+// Losing a department or permission on a built-in role affects every admin
+// that relies on it, so the review step calls it out
+export const removesAccess = (changes: RoleChangeSet): boolean =>
+  changes.removedDepartments.length > 0 || changes.removedPermissions.length > 0;
+
+/* ============================================================
+   REQUESTS
+   ============================================================ */
+
+export const buildRoleUpdateRequest = (
+  role: Role,
+  original: RoleSnapshot,
+  next: RoleSnapshot
+): UpdateRoleRequest => {
+  const changes = diffRoleSnapshots(original, next);
+  const request: UpdateRoleRequest = {
+    role_name: next.roleName,
+    description: next.description,
+  };
+  if (changes.addedDepartments.length > 0) request.add_departments = changes.addedDepartments;
+  if (changes.removedDepartments.length > 0) request.remove_departments = changes.removedDepartments;
+  if (role.role_type === 1) request.replace_permissions = next.permissions;
+  return request;
+};
+
+// The update that puts the role back the way it was before `next` was applied
+export const buildRoleUndoRequest = (
+  role: Role,
+  original: RoleSnapshot,
+  next: RoleSnapshot
+): UpdateRoleRequest => buildRoleUpdateRequest(role, next, original);
+
+/* ============================================================
+   DATA
+   ============================================================ */
+
+// Uses the server total when the advanced search reports one and pages
+// through the results otherwise
+export const countAdminsWithRole = async (roleId: string): Promise<number> => {
+  let count = 0;
+  let offset: number | undefined = 0;
+  while (offset !== undefined) {
+    const response = await api.searchAdminsAdvanced({ role_id: roleId, limit: LIST_PAGE_SIZE, offset });
+    const page = response.data as AdminsResponse;
+    if (page.data?.meta?.total !== undefined) return page.data.meta.total;
+    count += page.data?.admins?.length ?? 0;
+    offset = getNextPageOffset(page.data?.meta);
+  }
+  return count;
+};
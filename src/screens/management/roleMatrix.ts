@@ -0,0 +1,111 @@
+import { Department, Permission, RoleDetails } from '@/types';
+import { buildPermissionMatrix } from './dataExport';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+export interface MatrixRow {
+  permission: Permission;
+  // One entry per compared role, in column order
+  grants: boolean[];
+  // Some compared roles hold the permission and some do not
+  differs: boolean;
+}
+
+export interface MatrixGroup {
+  key: string;
+  module: string;
+  category: string;
+  rows: MatrixRow[];
+  differingCount: number;
+}
+
+export interface DepartmentRow {
+  department: Department;
+  grants: boolean[];
+  differs: boolean;
+}
+
+export interface MatrixFilters {
+  // Department.module_code, matched against Permission.module
+  moduleCode: string | null;
+  onlyDifferences: boolean;
+}
+
+export interface RoleColumnSummary {
+  total: number;
+  // Held by this role and none of the others being compared
+  unique: number;
+}
+
+// Columns beyond this make the table unreadable on a phone
+export const MAX_COMPARED_ROLES = 8;
+
+/* ============================================================
+   BUILDERS
+   ============================================================ */
+
+const isMixed = (grants: boolean[]) => grants.some(Boolean) && !grants.every(Boolean);
+
+export const buildMatrixGroups = (details: RoleDetails[], filters: MatrixFilters): MatrixGroup[] => {
+  const groups = new Map<string, MatrixGroup>();
+
+  buildPermissionMatrix(details).rows.forEach(({ permission, grants }) => {
+    if (filters.moduleCode && permission.module !== filters.moduleCode) return;
+    const differs = details.length > 1 && isMixed(grants);
+    if (filters.onlyDifferences && !differs) return;
+
+    const key = `${permission.module}/${permission.category}`;
+    const group = groups.get(key) ?? {
+      key,
+      module: permission.module,
+      category: permission.category,
+      rows: [],
+      differingCount: 0,
+    };
+    group.rows.push({ permission, grants, differs });
+    if (differs) group.differingCount++;
+    groups.set(key, group);
+  });
+
+  // buildPermissionMatrix already sorts by module and category
+  return Array.from(groups.values());
+};
+
+export const buildDepartmentRows = (details: RoleDetails[], filters: MatrixFilters): DepartmentRow[] => {
+  const departments = new Map<string, Department>();
+  details.forEach(detail =>
+    detail.departments.forEach(department => departments.set(department.module_code, department))
+  );
+
+  return Array.from(departments.values())
+    .filter(department => !filters.moduleCode || department.module_code === filters.moduleCode)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(department => {
+      const grants = details.map(detail =>
+        detail.departments.some(held => held.module_code === department.module_code)
+      );
+      return { department, grants, differs: details.length > 1 && isMixed(grants) };
+    })
+    .filter(row => !filters.onlyDifferences || row.differs);
+};
+
+// Departments held by any compared role, for the department filter
+export const getMatrixDepartments = (details: RoleDetails[]): Department[] => {
+  const departments = new Map<string, Department>();
+  details.forEach(detail =>
+    detail.departments.forEach(department => departments.set(department.module_code, department))
+  );
+  return Array.from(departments.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const summarizeColumns = (details: RoleDetails[]): RoleColumnSummary[] => {
+  const { rows } = buildPermissionMatrix(details);
+  return details.map((detail, index) => ({
+    total: detail.permissions.length,
+    unique: details.length > 1
+      ? rows.filter(row => row.grants[index] && row.grants.filter(Boolean).length === 1).length
+      : 0,
+  }));
+};
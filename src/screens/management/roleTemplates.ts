@@ -0,0 +1,253 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Department, DepartmentPermissions, Permission, RoleDetails } from '@/types';
+import { STORAGE_KEYS } from '@/services/storage';
+import { ExportFile, makeFile } from './dataExport';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+export type RoleDraftType = 'employee' | 'manager';
+
+// Starting values for the create role flow, from a cloned role or a template
+export interface RoleDraft {
+  roleType: RoleDraftType;
+  role_name: string;
+  description: string;
+  department_permissions: DepartmentPermissions[];
+}
+
+// A reusable employee role shape; department_permissions matches
+// CreateEmployeeRoleRequest so a template can be submitted as is
+export interface RoleTemplate {
+  id: string;
+  name: string;
+  description: string;
+  department_permissions: DepartmentPermissions[];
+  updatedAt: number;
+}
+
+export type RoleTemplateInput = Omit<RoleTemplate, 'id' | 'updatedAt'>;
+
+export interface ResolvedRoleDraft {
+  departments: Department[];
+  // Keyed by department name, as CreateRoleModal stores them
+  permissions: Record<string, string[]>;
+  // Department names in the draft that this admin cannot assign
+  missingDepartments: string[];
+}
+
+interface RoleTemplatesFile {
+  version: number;
+  templates: RoleTemplateInput[];
+}
+
+const TEMPLATES_FILE_VERSION = 1;
+
+/* ============================================================
+   DRAFTS
+   ============================================================ */
+
+// Permissions come back flat; Permission.module matches Department.module_code
+export const groupPermissionsByDepartment = (
+  departments: Department[],
+  permissions: Permission[]
+): DepartmentPermissions[] => {
+  const moduleToDeptName = new Map(departments.map(dept => [dept.module_code, dept.name]));
+  const grouped = new Map<string, string[]>(departments.map(dept => [dept.name, []]));
+
+  permissions.forEach(permission => {
+    const deptName = moduleToDeptName.get(permission.module);
+    if (deptName) grouped.get(deptName)!.push(permission.permission_name);
+  });
+
+  return Array.from(grouped, ([department_name, names]) => ({ department_name, permissions: names }));
+};
+
+export const roleDetailsToDraft = ({ role, departments, permissions }: RoleDetails): RoleDraft => {
+  const isManager = role.role_type === 2;
+  return {
+    roleType: isManager ? 'manager' : 'employee',
+    role_name: `Copy of ${role.role_name}`,
+    description: role.description || '',
+    department_permissions: isManager
+      ? departments.map(dept => ({ department_name: dept.name, permissions: [] }))
+      : groupPermissionsByDepartment(departments, permissions),
+  };
+};
+
+// The template name is left for the role name so two roles are never
+// created with the same name by accident
+export const templateToDraft = (template: RoleTemplate): RoleDraft => ({
+  roleType: 'employee',
+  role_name: '',
+  description: template.description,
+  department_permissions: template.department_permissions,
+});
+
+// Departments are matched by name against what the signed-in admin can assign
+export const resolveRoleDraft = (draft: RoleDraft, availableDepartments: Department[]): ResolvedRoleDraft => {
+  const departmentsByName = new Map(availableDepartments.map(dept => [dept.name, dept]));
+  const departments: Department[] = [];
+  const permissions: Record<string, string[]> = {};
+  const missingDepartments: string[] = [];
+
+  draft.department_permissions.forEach(({ department_name, permissions: names }) => {
+    const department = departmentsByName.get(department_name);
+    if (!department) {
+      missingDepartments.push(department_name);
+      return;
+    }
+    departments.push(department);
+    permissions[department_name] = names;
+  });
+
+  return { departments, permissions, missingDepartments };
+};
+
+/* ============================================================
+   STORAGE
+   ============================================================ */
+
+const templatesKey = (adminId: string) => `${STORAGE_KEYS.ROLE_TEMPLATES_PREFIX}${adminId}`;
+
+const sortByName = (a: RoleTemplate, b: RoleTemplate) => a.name.localeCompare(b.name);
+
+export const loadRoleTemplates = async (adminId: string): Promise<RoleTemplate[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(templatesKey(adminId));
+    return raw ? (JSON.parse(raw) as RoleTemplate[]) : [];
+  } catch (error) {
+    console.error('❌ [ROLE_TEMPLATES] Error loading templates:', error);
+    return [];
+  }
+};
+
+const writeRoleTemplates = async (adminId: string, templates: RoleTemplate[]) => {
+  try {
+    await AsyncStorage.setItem(templatesKey(adminId), JSON.stringify(templates));
+  } catch (error) {
+    console.error('❌ [ROLE_TEMPLATES] Error saving templates:', error);
+  }
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Saving under an existing name overwrites that template
+export const saveRoleTemplate = async (
+  adminId: string,
+  template: RoleTemplateInput & { id?: string }
+): Promise<RoleTemplate[]> => {
+  const existing = await loadRoleTemplates(adminId);
+  const previous = existing.find(item =>
+    template.id ? item.id === template.id : sameName(item.name, template.name)
+  );
+  const saved: RoleTemplate = {
+    ...template,
+    name: template.name.trim(),
+    description: template.description.trim(),
+    id: previous?.id ?? Crypto.randomUUID(),
+    updatedAt: Date.now(),
+  };
+  const next = [...existing.filter(item => item.id !== saved.id), saved].sort(sortByName);
+
+  await writeRoleTemplates(adminId, next);
+  return next;
+};
+
+export const removeRoleTemplate = async (adminId: string, templateId: string): Promise<RoleTemplate[]> => {
+  const next = (await loadRoleTemplates(adminId)).filter(template => template.id !== templateId);
+  await writeRoleTemplates(adminId, next);
+  return next;
+};
+
+/* ============================================================
+   IMPORT / EXPORT
+   ============================================================ */
+
+export const buildTemplatesExport = (templates: RoleTemplate[]): ExportFile => {
+  const file: RoleTemplatesFile = {
+    version: TEMPLATES_FILE_VERSION,
+    templates: templates.map(({ name, description, department_permissions }) => ({
+      name,
+      description,
+      department_permissions,
+    })),
+  };
+  return makeFile('role-templates', 'json', JSON.stringify(file, null, 2));
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Accepts the exported file or a bare array of templates. Throws with a
+// message naming the first problem so it can be shown as is.
+export const parseTemplatesJson = (text: string): RoleTemplateInput[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as Partial<RoleTemplatesFile> | null)?.templates;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('No templates found in the file');
+  }
+
+  return list.map((entry, index) => {
+    const label = `Template ${index + 1}`;
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+      throw new Error(`${label} has no name`);
+    }
+    if (!Array.isArray(entry.department_permissions) || entry.department_permissions.length === 0) {
+      throw new Error(`"${entry.name}" has no department_permissions`);
+    }
+    entry.department_permissions.forEach((group: any) => {
+      if (!group || typeof group.department_name !== 'string' || !isStringArray(group.permissions)) {
+        throw new Error(`"${entry.name}" has an invalid department_permissions entry`);
+      }
+    });
+
+    return {
+      name: entry.name.trim(),
+      description: typeof entry.description === 'string' ? entry.description : '',
+      department_permissions: entry.department_permissions.map((group: DepartmentPermissions) => ({
+        department_name: group.department_name,
+        permissions: Array.from(new Set(group.permissions)),
+      })),
+    };
+  });
+};
+
+// Imported templates replace stored ones with the same name
+export const importRoleTemplates = async (
+  adminId: string,
+  incoming: RoleTemplateInput[]
+): Promise<{ templates: RoleTemplate[]; added: number; replaced: number }> => {
+  const existing = await loadRoleTemplates(adminId);
+  const merged = [...existing];
+  let added = 0;
+  let replaced = 0;
+
+  incoming.forEach(template => {
+    const index = merged.findIndex(item => sameName(item.name, template.name));
+    const saved: RoleTemplate = {
+      ...template,
+      id: index >= 0 ? merged[index].id : Crypto.randomUUID(),
+      updatedAt: Date.now(),
+    };
+    if (index >= 0) {
+      merged[index] = saved;
+      replaced++;
+    } else {
+      merged.push(saved);
+      added++;
+    }
+  });
+
+  const templates = merged.sort(sortByName);
+  await writeRoleTemplates(adminId, templates);
+  return { templates, added, replaced };
+};
@@ -2346,5 +2346,1005 @@ modalFooterFixed: {
   right: 0,
 },
 
+
+  // Org Chart Styles
+  orgBranch: {
+    alignItems: 'center',
+  },
+  orgNodeCard: {
+    width: 160,
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+    marginHorizontal: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  orgNodeCardInactive: {
+    backgroundColor: '#F8FAFC',
+    borderStyle: 'dashed',
+    borderColor: '#CBD5E1',
+  },
+  orgNodeCardHighlighted: {
+    borderColor: '#8B5CF6',
+    borderWidth: 2,
+  },
+  orgNodeIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 6,
+  },
+  orgNodeName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  orgNodeTextInactive: {
+    color: '#94A3B8',
+  },
+  orgNodeUsername: {
+    fontSize: 11,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  orgNodeBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 6,
+    gap: 4,
+  },
+  orgRoleBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  orgRoleBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  orgInactiveBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#FEE2E2',
+  },
+  orgInactiveBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  orgCollapseToggle: {
+    position: 'absolute',
+    bottom: -10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#8B5CF6',
+  },
+  orgCollapseToggleText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 2,
+  },
+  orgVerticalConnector: {
+    width: 2,
+    height: 16,
+    backgroundColor: '#CBD5E1',
+  },
+  orgChildrenRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  orgChildColumn: {
+    alignItems: 'center',
+  },
+  orgHorizontalConnectorRow: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+  },
+  orgHalfConnector: {
+    flex: 1,
+    height: 2,
+  },
+  orgConnectorVisible: {
+    backgroundColor: '#CBD5E1',
+  },
+  orgHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  orgHeaderContent: {
+    flex: 1,
+  },
+  orgHeaderButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  orgToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 10,
+    marginVertical: 12,
+    paddingHorizontal: 6,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  orgToolbarButton: {
+    padding: 8,
+  },
+  orgToolbarDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: '#E2E8F0',
+    marginHorizontal: 4,
+  },
+  orgCanvas: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  orgCanvasContent: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    alignSelf: 'center',
+    paddingVertical: 24,
+  },
+  orgLoadingOverlay: {
+    position: 'absolute',
+    top: '50%',
+    alignSelf: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    elevation: 4,
+  },
+  orgNodeCardPending: {
+    borderColor: '#F59E0B',
+    borderWidth: 2,
+  },
+  orgNodeCardDragging: {
+    opacity: 0.4,
+  },
+  orgNodeCardDropTarget: {
+    borderColor: '#10B981',
+    borderWidth: 2,
+    backgroundColor: '#ECFDF5',
+  },
+  orgHintText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  orgDragGhost: {
+    position: 'absolute',
+    width: 140,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#8B5CF6',
+    opacity: 0.9,
+    gap: 6,
+  },
+  orgDragGhostText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  orgPendingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFBEB',
+    borderTopWidth: 1,
+    borderTopColor: '#FDE68A',
+  },
+  orgPendingText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#92400E',
+  },
+  orgPendingDiscard: {
+    fontSize: 14,
+    color: '#64748B',
+    marginRight: 16,
+  },
+  orgPendingReview: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#8B5CF6',
+  },
+  orgPendingReviewText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+
+  syncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    gap: 4,
+    marginLeft: 6,
+    backgroundColor: '#FEF3C7',
+  },
+  syncBadgeStacked: {
+    marginLeft: 0,
+    marginTop: 4,
+  },
+  syncBadgeProblem: {
+    backgroundColor: '#FEE2E2',
+  },
+  syncBadgeText: {
+    color: '#92400E',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  syncBadgeTextProblem: {
+    color: '#991B1B',
+  },
+  outboxBanner: {
+    backgroundColor: '#FFFBEB',
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  outboxBannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  outboxBannerTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400E',
+  },
+  outboxBannerToggle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B5CF6',
+  },
+  outboxEntry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#FDE68A',
+    marginTop: 8,
+    gap: 8,
+  },
+  outboxEntryContent: {
+    flex: 1,
+  },
+  outboxEntryLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1E293B',
+  },
+  outboxEntryMeta: {
+    fontSize: 11,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  outboxEntryError: {
+    fontSize: 11,
+    color: '#B91C1C',
+    marginTop: 2,
+  },
+  outboxEntryAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B5CF6',
+  },
+  outboxEntryDiscard: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  listFooter: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 8,
+  },
+  listFooterText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  searchPanel: {
+    marginHorizontal: 16,
+    marginTop: -8,
+    marginBottom: 8,
+    gap: 8,
+  },
+  searchPanelTablet: {
+    marginHorizontal: 24,
+  },
+  suggestionList: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    overflow: 'hidden',
+  },
+  suggestionLoader: {
+    paddingVertical: 12,
+  },
+  suggestionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  suggestionText: {
+    flex: 1,
+  },
+  suggestionName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1E293B',
+  },
+  suggestionUsername: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  filterChipRow: {
+    gap: 8,
+    paddingRight: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipActive: {
+    borderColor: '#C4B5FD',
+    backgroundColor: '#F5F3FF',
+  },
+  filterChipText: {
+    fontSize: 12,
+    color: '#475569',
+  },
+  filterChipTextActive: {
+    color: '#6D28D9',
+    fontWeight: '600',
+  },
+  filterOptionRow: {
+    gap: 6,
+    paddingRight: 8,
+  },
+  filterOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: '#F1F5F9',
+  },
+  filterOptionSelected: {
+    backgroundColor: '#8B5CF6',
+  },
+  filterOptionText: {
+    fontSize: 12,
+    color: '#475569',
+  },
+  filterOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  savedSearchChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 220,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#EDE9FE',
+  },
+  savedSearchText: {
+    fontSize: 12,
+    color: '#6D28D9',
+    fontWeight: '500',
+  },
+  adminCardStrongMatch: {
+    borderColor: '#C4B5FD',
+    borderWidth: 2,
+  },
+  searchHighlight: {
+    backgroundColor: '#FEF08A',
+    color: '#1E293B',
+  },
+  matchInfoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  matchTypeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#EDE9FE',
+  },
+  matchTypeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#6D28D9',
+  },
+  relevanceTrack: {
+    width: 48,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E2E8F0',
+    overflow: 'hidden',
+  },
+  relevanceFill: {
+    height: 4,
+    backgroundColor: '#8B5CF6',
+  },
+  relevanceText: {
+    fontSize: 10,
+    color: '#64748B',
+  },
+  analyticsContent: {
+    paddingBottom: 40,
+    gap: 12,
+  },
+  analyticsSectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  analyticsSectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginTop: 8,
+  },
+  analyticsCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  analyticsCardTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 12,
+  },
+  analyticsMetricGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  analyticsMetricTile: {
+    flexGrow: 1,
+    minWidth: 140,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 10,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  analyticsMetricValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  analyticsMetricLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  chartDonutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  chartLegend: {
+    flex: 1,
+    gap: 8,
+  },
+  chartLegendInline: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  chartLegendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chartLegendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  chartLegendLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: '#475569',
+  },
+  chartLegendValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  chartDeltaText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#8B5CF6',
+  },
+  chartEmptyText: {
+    fontSize: 13,
+    color: '#64748B',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+
+  // Bulk Selection Styles
+  adminCardSelected: {
+    borderColor: '#8B5CF6',
+    borderWidth: 2,
+    backgroundColor: '#FAF5FF',
+  },
+  bulkCheckbox: {
+    marginRight: 8,
+    alignSelf: 'center',
+  },
+  bulkToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    gap: 8,
+  },
+  bulkToolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+  },
+  bulkToolbarButtonActive: {
+    backgroundColor: '#EDE9FE',
+  },
+  bulkToolbarText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  bulkToolbarTextActive: {
+    color: '#6D28D9',
+  },
+  bulkActionBar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+  },
+  bulkActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#F5F3FF',
+  },
+  bulkActionButtonDisabled: {
+    opacity: 0.4,
+  },
+  bulkActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6D28D9',
+  },
+  bulkActionTextDanger: {
+    color: '#EF4444',
+  },
+  bulkWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 12,
+    borderRadius: 10,
+    backgroundColor: '#FEF2F2',
+  },
+  bulkWarningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#B91C1C',
+  },
+  bulkDestructiveButton: {
+    backgroundColor: '#EF4444',
+  },
+  bulkProgress: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 12,
+  },
+  bulkProgressText: {
+    fontSize: 14,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  bulkProgressTrack: {
+    width: '100%',
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F1F5F9',
+    overflow: 'hidden',
+  },
+  bulkProgressFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#8B5CF6',
+  },
+  bulkResultSummary: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 12,
+  },
+  bulkResultCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  bulkResultCountText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  bulkResultItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  bulkResultContent: {
+    flex: 1,
+  },
+  bulkResultName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1E293B',
+  },
+  bulkResultError: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  // Admin Import Styles
+  importPickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#C4B5FD',
+    borderRadius: 12,
+    backgroundColor: '#FAF5FF',
+  },
+  importPickText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6D28D9',
+  },
+  importTextArea: {
+    minHeight: 140,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+  },
+  importRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  importHeaderRow: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  importHeaderText: {
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  importCell: {
+    width: 120,
+    paddingHorizontal: 6,
+    fontSize: 12,
+    color: '#475569',
+  },
+  importLineCell: {
+    width: 36,
+    color: '#94A3B8',
+  },
+  importRowInvalid: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: 6,
+    paddingBottom: 6,
+    marginVertical: 2,
+  },
+  importRowError: {
+    fontSize: 12,
+    color: '#B91C1C',
+    paddingLeft: 42,
+  },
+  // Export Styles
+  exportToggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#F8FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  roleDetailsFooterGap: {
+    gap: 12,
+  },
+  // Role Matrix Styles
+  matrixContent: {
+    padding: isTablet ? 24 : 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  matrixRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+    backgroundColor: '#FFFFFF',
+  },
+  matrixHeaderRow: {
+    alignItems: 'flex-end',
+    paddingVertical: 8,
+    borderBottomColor: '#E2E8F0',
+  },
+  matrixRowDiffers: {
+    backgroundColor: '#FFFBEB',
+  },
+  matrixLabelCell: {
+    width: isTablet ? 240 : 170,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  matrixLabel: {
+    fontSize: 13,
+    color: '#1E293B',
+  },
+  matrixLabelMeta: {
+    fontSize: 11,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  matrixCell: {
+    width: isTablet ? 120 : 92,
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  matrixColumnTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#1E293B',
+    textAlign: 'center',
+  },
+  matrixColumnMeta: {
+    fontSize: 10,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  matrixGroupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 10,
+    backgroundColor: '#F8FAFC',
+  },
+  matrixGroupTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#475569',
+  },
+  matrixDiffBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#FEF3C7',
+  },
+  matrixDiffBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+
+  // Role Template Styles
+  templateChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  templateSaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F5F3FF',
+  },
+  templateSaveButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6D28D9',
+  },
+  templateEditItem: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+    gap: 8,
+  },
+  templateEditActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  templateIconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+
+  // Role Update Review Styles
+  reviewSection: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#F8FAFC',
+    gap: 6,
+  },
+  reviewSectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#334155',
+    marginBottom: 2,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  reviewRowText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#475569',
+  },
+  reviewAddedText: {
+    color: '#047857',
+  },
+  reviewRemovedText: {
+    color: '#B91C1C',
+    textDecorationLine: 'line-through',
+  },
+
+  // Audit Log Styles
+  auditFilters: {
+    gap: 10,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  auditDayHeader: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  auditEventRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  auditEventIcon: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  auditEventBody: {
+    flex: 1,
+    gap: 4,
+  },
+  auditEventText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  auditEventName: {
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  auditEventDetail: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  auditEventTime: {
+    fontSize: 11,
+    color: '#94A3B8',
+  },
+  auditPickerIcon: {
+    marginRight: 10,
+  },
+  auditPickerList: {
+    marginTop: 12,
+    maxHeight: 360,
+  },
+  auditPickerLoader: {
+    paddingVertical: 20,
+  },
 });
 export default styles;
\ No newline at end of file
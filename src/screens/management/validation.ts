@@ -0,0 +1,4 @@
+// Form rules shared by the management screens and the CSV import
+
+// International format, e.g. +919315453437
+export const E164_PHONE_REGEX = /^\+[1-9]\d{9,14}$/;
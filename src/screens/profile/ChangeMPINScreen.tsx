@@ -14,8 +14,10 @@ import { useMutation } from '@tanstack/react-query';
 import { api } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
-import MPINInput from '@/components/MPINInput';
+import MPINInput, { useExistingMPINLength, useMPINPolicy } from '@/components/MPINInput';
 import { getItem } from '@/services/storage';
+import { disableBiometricUnlock } from '@/services/biometric';
+import { checkNewMPIN, describeMPINLength, rememberMPIN } from '@/services/mpinPolicy';
 
 // Define navigation types
 type RootStackParamList = {
@@ -25,8 +27,10 @@ type RootStackParamList = {
 
 const ChangeMPINScreen = () => {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
-  const { adminInfo, logout } = useAuth();
+  const { adminInfo, logout, phoneNumber } = useAuth();
   const { showToast } = useToast();
+  const policy = useMPINPolicy();
+  const currentMpinLength = useExistingMPINLength(phoneNumber);
 
   const [currentMpin, setCurrentMpin] = useState('');
   const [newMpin, setNewMpin] = useState('');
@@ -38,7 +42,12 @@ const ChangeMPINScreen = () => {
   const changeMPINMutation = useMutation({
     mutationFn: (data: { currentMpin: string; newMpin: string }) => 
       api.changeMPIN(adminInfo?.admin_id || '', data.currentMpin, data.newMpin),
-    onSuccess: () => {
+    onSuccess: async (_response, { currentMpin: oldMpin, newMpin: acceptedMpin }) => {
+      // The old MPIN goes into the history too, in case it was set before history was kept
+      await rememberMPIN(phoneNumber, oldMpin, policy);
+      await rememberMPIN(phoneNumber, acceptedMpin, policy);
+      // The biometric credential holds the old MPIN
+      await disableBiometricUnlock();
       showToast('success', 'MPIN changed successfully');
       
       // Logout user for security
@@ -83,7 +92,7 @@ const ChangeMPINScreen = () => {
     },
   });
 
-  const handleMPINComplete = (enteredMpin: string) => {
+  const handleMPINComplete = async (enteredMpin: string) => {
     if (step === 1) {
       // Verify current MPIN
       setCurrentMpin(enteredMpin);
@@ -91,13 +100,14 @@ const ChangeMPINScreen = () => {
       setStep(2);
     } else if (step === 2) {
       // Validate new MPIN
-      if (isWeakMpin(enteredMpin)) {
-        setError('MPIN is too weak. Please choose a stronger MPIN.');
+      if (enteredMpin === currentMpin) {
+        setError('New MPIN cannot be same as current MPIN');
         return;
       }
 
-      if (enteredMpin === currentMpin) {
-        setError('New MPIN cannot be same as current MPIN');
+      const problem = await checkNewMPIN(enteredMpin, policy, { phoneNumber });
+      if (problem) {
+        setError(problem);
         return;
       }
 
@@ -121,16 +131,6 @@ const ChangeMPINScreen = () => {
     }
   };
 
-  const isWeakMpin = (mpin: string) => {
-    const weakPatterns = [
-      '111111', '222222', '333333', '444444', '555555',
-      '666666', '777777', '888888', '999999', '000000',
-      '123456', '654321', '121212', '123123', '112233'
-    ];
-    return weakPatterns.includes(mpin) || 
-           mpin.split('').every((digit, i, arr) => digit === arr[0]);
-  };
-
   const handleBack = () => {
     if (step === 1) {
       navigation.goBack();
@@ -157,8 +157,8 @@ const ChangeMPINScreen = () => {
 
   const getStepInstruction = () => {
     switch (step) {
-      case 1: return 'Enter your current 6-digit MPIN';
-      case 2: return 'Create a new 6-digit MPIN';
+      case 1: return `Enter your current ${describeMPINLength(currentMpinLength)} MPIN`;
+      case 2: return `Create a new ${policy.length}-digit MPIN`;
       case 3: return 'Re-enter the new MPIN to confirm';
       default: return '';
     }
@@ -197,11 +197,18 @@ const ChangeMPINScreen = () => {
           <Text style={styles.subtitle}>{getStepInstruction()}</Text>
 
           <View style={styles.mpinContainer}>
+            {/* The current MPIN keeps its own length; only the new one follows the policy */}
             <MPINInput
+              length={step === 1 ? currentMpinLength.max : policy.length}
+              minLength={step === 1 ? currentMpinLength.min : undefined}
               onComplete={handleMPINComplete}
+              onSubmit={step === 1 ? handleMPINComplete : undefined}
               error={!!error}
               disabled={isLoading}
               autoFocus={true}
+              showStrength={step === 2}
+              policy={policy}
+              policyContext={{ phoneNumber, recentMPINs: [currentMpin] }}
             />
           </View>
 
@@ -222,10 +229,10 @@ const ChangeMPINScreen = () => {
                 </>
               ) : step === 2 ? (
                 <>
-                  <Text style={styles.guideline}>• Must be 6 digits</Text>
+                  <Text style={styles.guideline}>• Must be {policy.length} digits</Text>
                   <Text style={styles.guideline}>• Avoid simple patterns</Text>
-                  <Text style={styles.guideline}>• Don't use repeated digits</Text>
-                  <Text style={styles.guideline}>• Different from current MPIN</Text>
+                  <Text style={styles.guideline}>• No birthdays or digits from your phone number</Text>
+                  <Text style={styles.guideline}>• Different from your recent MPINs</Text>
                 </>
               ) : (
                 <>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -6,18 +6,56 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Switch,
+  ActivityIndicator,
 } from 'react-native';
+import { IdleAwareModal } from '@/components/IdleAware';
 import { useNavigation } from '@react-navigation/native';
 import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast';
+import MPINInput, { MPINInputRef, useExistingMPINLength } from '@/components/MPINInput';
+import { isMPINLengthInRange, rememberMPINLength } from '@/services/mpinPolicy';
+import TrustedDevicesList from '@/components/TrustedDevicesList';
+import { api } from '@/services/api';
+import {
+  BiometricCapability,
+  getBiometricCapability,
+  getBiometricLabel,
+  isBiometricUnlockEnabled,
+  enableBiometricUnlock,
+  disableBiometricUnlock,
+} from '@/services/biometric';
 
 type IconName = React.ComponentProps<typeof Icon>['name'];
 
 const ProfileScreen = () => {
   const navigation = useNavigation();
-  const { adminInfo, logout } = useAuth();
+  const { adminInfo, logout, login, phoneNumber } = useAuth();
   const { showToast } = useToast();
+  const mpinLength = useExistingMPINLength(phoneNumber);
+
+  const [biometricCapability, setBiometricCapability] = useState<BiometricCapability | null>(null);
+  const [biometricEnabled, setBiometricEnabled] = useState(false);
+  const [showBiometricModal, setShowBiometricModal] = useState(false);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [enrollError, setEnrollError] = useState('');
+  const enrollInputRef = useRef<MPINInputRef>(null);
+
+  useEffect(() => {
+    const loadBiometricState = async () => {
+      const capability = await getBiometricCapability();
+      setBiometricCapability(capability);
+      if (phoneNumber) {
+        setBiometricEnabled(await isBiometricUnlockEnabled(phoneNumber));
+      }
+    };
+
+    loadBiometricState();
+  }, [phoneNumber]);
+
+  const biometricLabel = getBiometricLabel(biometricCapability?.biometricType || 'none');
+  const canUseBiometrics = !!biometricCapability?.isBiometricSupported && !!biometricCapability?.isEnrolled;
 
   const getRoleColor = (role: string) => {
     switch (role) {
@@ -84,6 +122,67 @@ const ProfileScreen = () => {
     return departmentColors[index % departmentColors.length];
   };
 
+  const handleToggleBiometric = (value: boolean) => {
+    if (!canUseBiometrics) {
+      showToast('info', 'Set up fingerprint or Face ID in your device settings first');
+      return;
+    }
+
+    if (value) {
+      setEnrollError('');
+      setShowBiometricModal(true);
+      return;
+    }
+
+    Alert.alert(
+      `Disable ${biometricLabel} Unlock`,
+      'You will need to enter your MPIN every time you log in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disable',
+          style: 'destructive',
+          onPress: async () => {
+            await disableBiometricUnlock();
+            setBiometricEnabled(false);
+            showToast('success', `${biometricLabel} unlock disabled`);
+          },
+        },
+      ],
+    );
+  };
+
+  // Enrollment re-verifies the MPIN with the server so only a known-good MPIN is stored
+  const handleEnrollBiometric = async (mpin: string) => {
+    if (!phoneNumber || !isMPINLengthInRange(mpin, mpinLength)) return;
+
+    setIsEnrolling(true);
+    setEnrollError('');
+    try {
+      const response = await api.verifyMPIN(phoneNumber, mpin);
+      if (!response.data?.success) {
+        throw new Error(response.data?.message || 'MPIN verification failed');
+      }
+
+      const { admin, tokens } = response.data.data;
+      await login(phoneNumber, tokens, admin);
+      rememberMPINLength(phoneNumber, mpin.length);
+
+      const enabled = await enableBiometricUnlock(phoneNumber, mpin);
+      if (enabled) {
+        setBiometricEnabled(true);
+        setShowBiometricModal(false);
+        showToast('success', `${biometricLabel} unlock enabled`);
+      }
+    } catch (error: any) {
+      console.error('❌ [PROFILE] Biometric enrollment failed:', error);
+      setEnrollError(error.response?.data?.message || error.message || 'Could not enable biometric unlock');
+      enrollInputRef.current?.clearAll();
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert(
       'Logout',
@@ -194,6 +293,45 @@ const ProfileScreen = () => {
           <Icon name="chevron-right" size={20} color="#CBD5E1" />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => navigation.navigate('Sessions' as never)}
+        >
+          <View style={[styles.actionIcon, { backgroundColor: '#F5F3FF' }]}>
+            <Icon name="devices" size={24} color="#C084FC" />
+          </View>
+          <View style={styles.actionContent}>
+            <Text style={styles.actionTitle}>Active Sessions</Text>
+            <Text style={styles.actionSubtitle}>See where you are signed in and sign out remotely</Text>
+          </View>
+          <Icon name="chevron-right" size={20} color="#CBD5E1" />
+        </TouchableOpacity>
+
+        <View style={styles.actionButton}>
+          <View style={[styles.actionIcon, { backgroundColor: '#F5F3FF' }]}>
+            <Icon
+              name={biometricCapability?.biometricType === 'facial' ? 'face-recognition' : 'fingerprint'}
+              size={24}
+              color="#C084FC"
+            />
+          </View>
+          <View style={styles.actionContent}>
+            <Text style={styles.actionTitle}>{biometricLabel} Unlock</Text>
+            <Text style={styles.actionSubtitle}>
+              {canUseBiometrics
+                ? `Log in with ${biometricLabel} instead of typing your MPIN`
+                : 'Not available on this device'}
+            </Text>
+          </View>
+          <Switch
+            value={biometricEnabled}
+            onValueChange={handleToggleBiometric}
+            disabled={!canUseBiometrics}
+            trackColor={{ false: '#E2E8F0', true: '#DDD6FE' }}
+            thumbColor={biometricEnabled ? '#C084FC' : '#F8FAFC'}
+          />
+        </View>
+
         <TouchableOpacity
           style={styles.actionButton}
           onPress={handleLogout}
@@ -209,6 +347,15 @@ const ProfileScreen = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Devices Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>My Devices</Text>
+        <Text style={styles.sectionSubtitle}>
+          Devices that can sign in with your MPIN. Removed devices must verify with OTP again.
+        </Text>
+        <TrustedDevicesList />
+      </View>
+
       {/* Permissions Section (Collapsible) */}
       {adminInfo?.permissions && adminInfo.permissions.length > 0 && (
         <View style={styles.section}>
@@ -230,6 +377,50 @@ const ProfileScreen = () => {
         </View>
       )}
 
+      {/* Biometric Enrollment Modal */}
+      <IdleAwareModal
+        visible={showBiometricModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => !isEnrolling && setShowBiometricModal(false)}
+        statusBarTranslucent={true}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Enable {biometricLabel} Unlock</Text>
+              <TouchableOpacity
+                onPress={() => setShowBiometricModal(false)}
+                disabled={isEnrolling}
+              >
+                <Icon name="close" size={24} color="#64748B" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalSubtitle}>
+              Confirm your current MPIN. It will be stored on this device and unlocked only with {biometricLabel}.
+            </Text>
+
+            <MPINInput
+              ref={enrollInputRef}
+              length={mpinLength.max}
+              minLength={mpinLength.min}
+              onSubmit={handleEnrollBiometric}
+              error={!!enrollError}
+              disabled={isEnrolling}
+              showSubmitButton={true}
+            />
+
+            {isEnrolling ? (
+              <ActivityIndicator size="small" color="#C084FC" />
+            ) : null}
+
+            {enrollError ? (
+              <Text style={styles.modalError}>{enrollError}</Text>
+            ) : null}
+          </View>
+        </View>
+      </IdleAwareModal>
+
       {/* Footer */}
       <View style={styles.footer}>
         <Text style={styles.footerText}>Prayantra Admin Dashboard</Text>
@@ -341,6 +532,12 @@ const styles = StyleSheet.create({
     color: '#1E293B',
     marginBottom: 16,
   },
+  sectionSubtitle: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: -12,
+    marginBottom: 8,
+  },
   departmentsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -416,6 +613,39 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     width: '100%',
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    lineHeight: 18,
+  },
+  modalError: {
+    fontSize: 13,
+    color: '#EF4444',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   footer: {
     alignItems: 'center',
     marginTop: 40,
@@ -0,0 +1,439 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { MaterialCommunityIcons as Icon } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/Toast';
+import { formatLastSeen } from '@/components/TrustedDevicesList';
+import { api } from '@/services/api';
+import { getAccessTokenSessionId, getRefreshToken } from '@/services/tokenVault';
+import { parseDeviceFingerprint } from '@/services/deviceInfo';
+import { AdminSession, AdminSessionsResponse } from '@/types';
+
+const describeSessionDevice = (session: AdminSession) => {
+  if (session.device_fingerprint) {
+    const { model, platform } = parseDeviceFingerprint(session.device_fingerprint);
+    return { title: model, platform };
+  }
+  return { title: session.user_agent || 'Unknown device', platform: null };
+};
+
+const SessionsScreen = () => {
+  const navigation = useNavigation();
+  const queryClient = useQueryClient();
+  const { logout } = useAuth();
+  const { showToast } = useToast();
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    getAccessTokenSessionId().then(setCurrentSessionId);
+  }, []);
+
+  const { data: sessions = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await api.getSessions();
+      const sessionsData = response.data as AdminSessionsResponse;
+      return [...(sessionsData.data?.sessions || [])].sort((a, b) =>
+        b.last_used_at.localeCompare(a.last_used_at)
+      );
+    },
+  });
+
+  // Older servers don't flag the current session, so fall back to the session
+  // id in the access token. Not the device id: older sessions from this device
+  // share it and would all show as current.
+  const isCurrentSession = (session: AdminSession) =>
+    session.is_current ?? (currentSessionId !== null && session.session_id === currentSessionId);
+  const otherSessions = sessions.filter(session => !isCurrentSession(session));
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (sessionId: string) => api.revokeSession(sessionId),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      showToast('success', response.data?.message || 'Session signed out');
+    },
+    onError: (revokeError: any) => {
+      console.error('❌ [SESSIONS] Revoke failed:', revokeError);
+      showToast('error', revokeError.response?.data?.message || 'Failed to sign out session');
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const refreshToken = await getRefreshToken();
+      if (!refreshToken) {
+        throw new Error('Your session has expired. Please login again.');
+      }
+      return api.revokeOtherSessions(refreshToken);
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      showToast('success', response.data?.message || 'Signed out of all other sessions');
+    },
+    onError: (revokeError: any) => {
+      console.error('❌ [SESSIONS] Revoke others failed:', revokeError);
+      showToast(
+        'error',
+        revokeError.response?.data?.message || revokeError.message || 'Failed to sign out other sessions'
+      );
+    },
+  });
+
+  const isBusy = revokeSessionMutation.isPending || revokeOthersMutation.isPending;
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleSignOut = (session: AdminSession) => {
+    // The current session goes through the normal logout so local data is cleared too
+    if (isCurrentSession(session)) {
+      Alert.alert(
+        'Sign Out',
+        'Sign out of this device? You will need to log in again.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Sign Out',
+            style: 'destructive',
+            onPress: async () => {
+              await logout();
+              showToast('success', 'Logged out successfully');
+              // @ts-ignore
+              navigation.navigate('LoginInitiate');
+            },
+          },
+        ],
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Sign Out Session',
+      `Sign out ${describeSessionDevice(session).title}? It will need to log in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => revokeSessionMutation.mutate(session.session_id),
+        },
+      ],
+    );
+  };
+
+  const handleSignOutOthers = () => {
+    Alert.alert(
+      'Sign Out Everywhere Else',
+      `End ${otherSessions.length} other ${otherSessions.length === 1 ? 'session' : 'sessions'}? This device stays signed in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: () => revokeOthersMutation.mutate(),
+        },
+      ],
+    );
+  };
+
+  const renderSession = (session: AdminSession) => {
+    const { title, platform } = describeSessionDevice(session);
+    const isCurrent = isCurrentSession(session);
+    const isRevoking =
+      revokeSessionMutation.isPending && revokeSessionMutation.variables === session.session_id;
+
+    return (
+      <View key={session.session_id} style={styles.sessionRow}>
+        <View style={styles.sessionIcon}>
+          <Icon
+            name={platform === 'iOS' ? 'apple' : platform === 'Android' ? 'android' : 'devices'}
+            size={22}
+            color="#C084FC"
+          />
+        </View>
+        <View style={styles.sessionContent}>
+          <View style={styles.sessionTitleRow}>
+            <Text style={styles.sessionTitle} numberOfLines={1}>{title}</Text>
+            {isCurrent && (
+              <View style={styles.currentBadge}>
+                <Text style={styles.currentBadgeText}>This session</Text>
+              </View>
+            )}
+          </View>
+          {(platform || session.ip_address) && (
+            <Text style={styles.sessionMeta} numberOfLines={1}>
+              {[platform, session.ip_address].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+          <Text style={styles.sessionMeta}>
+            Signed in {new Date(session.created_at).toLocaleString()}
+          </Text>
+          <Text style={styles.sessionMeta}>
+            Last used: {isCurrent ? 'Active now' : formatLastSeen(session.last_used_at)}
+          </Text>
+        </View>
+        {isRevoking ? (
+          <ActivityIndicator size="small" color="#EF4444" />
+        ) : (
+          <TouchableOpacity
+            style={styles.signOutButton}
+            onPress={() => handleSignOut(session)}
+            disabled={isBusy}
+          >
+            <Text style={styles.signOutButtonText}>Sign out</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color="#C084FC" style={styles.loader} />;
+    }
+    if (error) {
+      return (
+        <View style={styles.messageContainer}>
+          <Icon name="alert-circle-outline" size={40} color="#EF4444" />
+          <Text style={styles.errorText}>
+            {(error as any)?.response?.data?.message || 'Could not load your sessions'}
+          </Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    if (sessions.length === 0) {
+      return (
+        <View style={styles.messageContainer}>
+          <Text style={styles.emptyText}>No active sessions</Text>
+        </View>
+      );
+    }
+    return sessions.map(renderSession);
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      showsVerticalScrollIndicator={false}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#C084FC']} tintColor="#C084FC" />
+      }
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Icon name="arrow-left" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Active Sessions</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>
+          {isLoading ? 'Sessions' : `Sessions (${sessions.length})`}
+        </Text>
+        <Text style={styles.sectionSubtitle}>
+          Every place you are currently signed in. Sign out any session you don't recognise.
+        </Text>
+        {renderBody()}
+      </View>
+
+      {otherSessions.length > 0 && (
+        <TouchableOpacity
+          style={[styles.signOutOthersButton, isBusy && styles.buttonDisabled]}
+          onPress={handleSignOutOthers}
+          disabled={isBusy}
+        >
+          {revokeOthersMutation.isPending ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Icon name="logout-variant" size={20} color="#FFFFFF" />
+              <Text style={styles.signOutOthersText}>Sign out everywhere else</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+    color: '#64748B',
+    marginBottom: 8,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  messageContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+  retryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#C084FC',
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  sessionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: '#F5F3FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  sessionContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
+  sessionTitle: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  currentBadge: {
+    backgroundColor: '#D1FAE5',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  currentBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  signOutButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    backgroundColor: '#FEF2F2',
+  },
+  signOutButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  signOutOthersButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 20,
+    marginBottom: 40,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#EF4444',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  signOutOthersText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default SessionsScreen;
@@ -5,9 +5,14 @@ import axios, {
   AxiosResponse,
 } from 'axios';
 import { Platform } from 'react-native';
-import { getItem, setItem, removeItem, STORAGE_KEYS } from './storage';
+import {
+  getAccessToken,
+  getRefreshToken,
+  saveTokens,
+  clearVault,
+} from './tokenVault';
 import { getStoredDeviceInfo } from './deviceInfo';
-import { ApiError } from '@/types';
+import { ApiError, AuditEventQuery } from '@/types';
 
 /* ============================================================
    API CONFIG
@@ -26,6 +31,10 @@ import { ApiError } from '@/types';
  const FULL_API_URL = `${API_BASE_URL}${API_VERSION}`;
  const API_TIMEOUT = 30000;
 
+ // Serves the audit log from services/mocks in development builds
+ const USE_AUDIT_MOCK =
+   __DEV__ && process.env.EXPO_PUBLIC_USE_AUDIT_MOCK === 'true';
+
 /* ============================================================
    API SERVICE (SINGLETON)
    ============================================================ */
@@ -39,6 +48,7 @@ class ApiService {
      ============================================================ */
 
   private isRefreshing = false;
+  private refreshPromise: Promise<string> | null = null;
   private failedQueue: Array<{
     resolve: (value?: unknown) => void;
     reject: (reason?: unknown) => void;
@@ -66,6 +76,14 @@ class ApiService {
     return ApiService.instance;
   }
 
+  // Mutations replayed from the offline outbox carry the key they were
+  // queued with, so the server applies each one at most once
+  private mutationHeaders(deviceId: string, idempotencyKey?: string) {
+    return idempotencyKey
+      ? { 'X-Device-ID': deviceId, 'Idempotency-Key': idempotencyKey }
+      : { 'X-Device-ID': deviceId };
+  }
+
   /* ============================================================
      INTERCEPTORS
      ============================================================ */
@@ -75,7 +93,7 @@ class ApiService {
 
     this.api.interceptors.request.use(
       async (config) => {
-        const token = await getItem(STORAGE_KEYS.ACCESS_TOKEN);
+        const token = await getAccessToken();
         const device = await getStoredDeviceInfo();
 
         if (token) {
@@ -94,6 +112,8 @@ class ApiService {
           config.data.device_id = device.deviceId;
           config.data.device_fingerprint = device.deviceFingerprint;
           config.data.user_agent = device.userAgent;
+          config.data.biometric_type = device.biometricType;
+          config.data.biometric_supported = device.isBiometricSupported;
         }
 
         return config;
@@ -112,7 +132,8 @@ class ApiService {
         };
 
         /* ---------- RATE LIMIT ---------- */
-        if (error.response?.status === 429) {
+        // MPIN lockouts are shown to the user rather than silently waited out
+        if (error.response?.status === 429 && !originalRequest.url?.includes('/verify-mpin')) {
           const retryAfter = error.response.data?.retry_after || 5;
           await new Promise((r) => setTimeout(r, retryAfter * 1000));
           return this.api(originalRequest);
@@ -128,9 +149,7 @@ class ApiService {
 
           /* ❌ NEVER refresh refresh endpoint */
           if (originalRequest.url?.includes('/admin-auth/refresh')) {
-            await removeItem(STORAGE_KEYS.ACCESS_TOKEN);
-            await removeItem(STORAGE_KEYS.REFRESH_TOKEN);
-            await removeItem(STORAGE_KEYS.ADMIN_INFO);
+            await clearVault();
             return Promise.reject(error);
           }
 
@@ -142,29 +161,9 @@ class ApiService {
           }
 
           originalRequest._retry = true;
-          this.isRefreshing = true;
 
           try {
-            const refreshToken = await getItem(STORAGE_KEYS.REFRESH_TOKEN);
-            if (!refreshToken) {
-              throw new Error('No refresh token available');
-            }
-
-            const response = await this.refreshToken(refreshToken);
-
-            const newAccessToken = response.data?.access_token;
-            const newRefreshToken = response.data?.refresh_token;
-
-            if (!newAccessToken) {
-              throw new Error('Invalid refresh response');
-            }
-
-            await setItem(STORAGE_KEYS.ACCESS_TOKEN, newAccessToken);
-            if (newRefreshToken) {
-              await setItem(STORAGE_KEYS.REFRESH_TOKEN, newRefreshToken);
-            }
-
-            this.processQueue(null, newAccessToken);
+            const newAccessToken = await this.refreshAccessToken();
 
             if (!originalRequest.headers) {
               originalRequest.headers = {};
@@ -176,13 +175,7 @@ class ApiService {
             return this.api(originalRequest);
 
           } catch (refreshError) {
-            this.processQueue(refreshError, null);
-            await removeItem(STORAGE_KEYS.ACCESS_TOKEN);
-            await removeItem(STORAGE_KEYS.REFRESH_TOKEN);
-            await removeItem(STORAGE_KEYS.ADMIN_INFO);
             return Promise.reject(refreshError);
-          } finally {
-            this.isRefreshing = false;
           }
         }
 
@@ -191,6 +184,60 @@ class ApiService {
     );
   }
 
+  /* ============================================================
+     SINGLE-FLIGHT REFRESH
+     ============================================================ */
+
+  /**
+   * Refreshes the access token. Shared by the 401 interceptor and the
+   * proactive scheduler in AuthContext: concurrent callers get the same
+   * in-flight request, and 401s arriving meanwhile wait in failedQueue.
+   */
+  refreshAccessToken(): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.isRefreshing = true;
+    this.refreshPromise = (async () => {
+      try {
+        const refreshToken = await getRefreshToken();
+        if (!refreshToken) {
+          throw new Error('No refresh token available');
+        }
+
+        const response = await this.refreshToken(refreshToken);
+
+        const newAccessToken = response.data?.access_token;
+        const newRefreshToken = response.data?.refresh_token;
+        const expiresIn = response.data?.expires_in;
+
+        if (!newAccessToken) {
+          throw new Error('Invalid refresh response');
+        }
+
+        await saveTokens(newAccessToken, newRefreshToken, expiresIn);
+
+        this.processQueue(null, newAccessToken);
+        return newAccessToken as string;
+
+      } catch (refreshError) {
+        this.processQueue(refreshError, null);
+
+        // Keep the session on network failures so the refresh can be retried
+        if (!(axios.isAxiosError(refreshError) && !refreshError.response)) {
+          await clearVault();
+        }
+        throw refreshError;
+      } finally {
+        this.isRefreshing = false;
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
   /* ============================================================
      QUEUE HANDLER
      ============================================================ */
@@ -278,6 +325,31 @@ class ApiService {
     });
   }
 
+  // Sessions of the signed-in admin
+  async getSessions() {
+    const device = await getStoredDeviceInfo();
+    return this.api.get('/admin-auth/sessions', {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  async revokeSession(sessionId: string) {
+    const device = await getStoredDeviceInfo();
+    return this.api.delete(`/admin-auth/sessions/${sessionId}`, {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  // Ends every session except the one holding this refresh token
+  async revokeOtherSessions(refreshToken: string) {
+    const device = await getStoredDeviceInfo();
+    return this.api.post('/admin-auth/sessions/revoke-others', {
+      refresh_token: refreshToken,
+    }, {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
   /* ============================================================
      ADMIN APIs
      ============================================================ */
@@ -315,6 +387,11 @@ class ApiService {
     });
   }
 
+  // Public so the rules can be shown before login (setup and forgot MPIN)
+  async getMPINPolicy() {
+    return this.api.get('/admin-auth/mpin/policy');
+  }
+
   async verifyForgotMPIN(phoneNumber: string, otp: string, newMpin: string) {
     const d = await getStoredDeviceInfo();
     return this.api.post('/admin-auth/mpin/forgot/verify', {
@@ -342,10 +419,10 @@ class ApiService {
      ROLE MANAGEMENT APIs
      ============================================================ */
 
-  async createEmployeeRole(roleData: any) {
+  async createEmployeeRole(roleData: any, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.post('/admin/roles/employee', roleData, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
@@ -363,10 +440,10 @@ class ApiService {
     });
   }
 
-  async createManagerRole(roleData: any) {
+  async createManagerRole(roleData: any, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.post('/admin/roles/manager', roleData, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
@@ -413,10 +490,10 @@ class ApiService {
     });
   }
 
-  async updateRole(roleId: string, updateData: any) {
+  async updateRole(roleId: string, updateData: any, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.put(`/admin/roles/${roleId}`, updateData, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
@@ -444,10 +521,10 @@ class ApiService {
    ============================================================ */
 
   // Create Admin User
-  async createAdmin(adminData: any) {
+  async createAdmin(adminData: any, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.post('/admin/admins', adminData, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
@@ -477,46 +554,46 @@ class ApiService {
   }
 
   // Update Admin User
-  async updateAdmin(adminId: string, updateData: any) {
+  async updateAdmin(adminId: string, updateData: any, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.put(`/admin/admins/${adminId}`, updateData, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
   // Update Admin Role
-  async updateAdminRole(adminId: string, newRoleId: string) {
+  async updateAdminRole(adminId: string, newRoleId: string, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.put(`/admin/admins/${adminId}/role`, {
       new_role_id: newRoleId,
     }, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
   // Update Admin Reports To
-  async updateAdminReportsTo(adminId: string, reportsTo: string) {
+  async updateAdminReportsTo(adminId: string, reportsTo: string, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.put(`/admin/admins/${adminId}/reports-to`, {
       reports_to: reportsTo,
     }, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
   // Activate Admin
-  async activateAdmin(adminId: string) {
+  async activateAdmin(adminId: string, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.post(`/admin/admins/${adminId}/activate`, {}, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
   // Deactivate Admin
-  async deactivateAdmin(adminId: string) {
+  async deactivateAdmin(adminId: string, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.post(`/admin/admins/${adminId}/deactivate`, {}, {
-      headers: { 'X-Device-ID': device.deviceId },
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
     });
   }
 
@@ -631,18 +708,69 @@ class ApiService {
     });
   }
   // Delete Admin
-    async deleteAdmin(adminId: string) {
+    async deleteAdmin(adminId: string, idempotencyKey?: string) {
       const device = await getStoredDeviceInfo();
       return this.api.delete(`/admin/admins/${adminId}`, {
-        headers: {
-          'X-Device-ID': device.deviceId,
-        },
+        headers: this.mutationHeaders(device.deviceId, idempotencyKey),
       });
     }
     
-  async deleteRole(roleId: string) {
+  async deleteRole(roleId: string, idempotencyKey?: string) {
     const device = await getStoredDeviceInfo();
     return this.api.delete(`/admin/roles/${roleId}`, {
+      headers: this.mutationHeaders(device.deviceId, idempotencyKey),
+    });
+  }
+
+  // Audit Events
+  async getAuditEvents(query: AuditEventQuery) {
+    // __DEV__ is checked inline so production builds drop the branch and,
+    // with it, the mock module
+    if (__DEV__ && USE_AUDIT_MOCK) {
+      const { getMockAuditEvents } = require('./mocks/auditEvents') as typeof import('./mocks/auditEvents');
+      return { data: await getMockAuditEvents(query) };
+    }
+    const device = await getStoredDeviceInfo();
+    return this.api.get('/admin/audit/events', {
+      params: { ...query, actions: query.actions?.join(',') },
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  // Trusted Devices (own account)
+  async getTrustedDevices() {
+    const device = await getStoredDeviceInfo();
+    return this.api.get('/admin/devices', {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  async revokeTrustedDevice(deviceId: string) {
+    const device = await getStoredDeviceInfo();
+    return this.api.delete(`/admin/devices/${encodeURIComponent(deviceId)}`, {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  // Trusted Devices of another admin (Super Admin only)
+  async getAdminTrustedDevices(adminId: string) {
+    const device = await getStoredDeviceInfo();
+    return this.api.get(`/admin/admins/${adminId}/devices`, {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  async revokeAdminTrustedDevice(adminId: string, deviceId: string) {
+    const device = await getStoredDeviceInfo();
+    return this.api.delete(`/admin/admins/${adminId}/devices/${encodeURIComponent(deviceId)}`, {
+      headers: { 'X-Device-ID': device.deviceId },
+    });
+  }
+
+  // Force Logout: ends every session of another admin (Super Admin only)
+  async forceLogoutAdmin(adminId: string) {
+    const device = await getStoredDeviceInfo();
+    return this.api.post(`/admin/admins/${adminId}/sessions/revoke`, {}, {
       headers: { 'X-Device-ID': device.deviceId },
     });
   }
@@ -0,0 +1,169 @@
+import { AppState } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { getItem, setItem, removeItem, STORAGE_KEYS } from './storage';
+
+// Keychain/Keystore key for the biometric-gated MPIN
+const SECURE_BIOMETRIC_MPIN_KEY = 'prayantra_biometric_mpin';
+
+export type BiometricType = 'fingerprint' | 'facial' | 'iris' | 'none';
+
+export interface BiometricCapability {
+  biometricType: BiometricType;
+  isBiometricSupported: boolean;
+  isEnrolled: boolean;
+}
+
+// Reading this item always triggers the OS biometric prompt, and the item is
+// invalidated if the device passcode is removed
+const biometricStoreOptions = (prompt: string): SecureStore.SecureStoreOptions => ({
+  requireAuthentication: true,
+  authenticationPrompt: prompt,
+  keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+});
+
+/* ============================================================
+   CAPABILITY
+   ============================================================ */
+
+const readBiometricCapability = async (): Promise<BiometricCapability> => {
+  try {
+    const hasHardware = await LocalAuthentication.hasHardwareAsync();
+    if (!hasHardware) {
+      return { biometricType: 'none', isBiometricSupported: false, isEnrolled: false };
+    }
+
+    const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+    const isEnrolled = await LocalAuthentication.isEnrolledAsync();
+
+    let biometricType: BiometricType = 'none';
+    if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+      biometricType = 'facial';
+    } else if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+      biometricType = 'fingerprint';
+    } else if (types.includes(LocalAuthentication.AuthenticationType.IRIS)) {
+      biometricType = 'iris';
+    }
+
+    return {
+      biometricType,
+      isBiometricSupported: biometricType !== 'none',
+      isEnrolled,
+    };
+  } catch (error) {
+    console.error('❌ [BIOMETRIC] Capability check failed:', error);
+    return { biometricType: 'none', isBiometricSupported: false, isEnrolled: false };
+  }
+};
+
+let cachedCapability: Promise<BiometricCapability> | null = null;
+
+// Asks the OS again and updates the cache. Screens that offer or enroll
+// biometrics use this so they never act on a stale answer.
+export const getBiometricCapability = (): Promise<BiometricCapability> => {
+  cachedCapability = readBiometricCapability();
+  return cachedCapability;
+};
+
+// For the device info sent with every request; avoids native calls per request
+export const getCachedBiometricCapability = (): Promise<BiometricCapability> =>
+  cachedCapability ?? getBiometricCapability();
+
+// Fingerprints or Face ID may have been changed in Settings while away
+AppState.addEventListener('change', (state) => {
+  if (state === 'active') {
+    cachedCapability = null;
+  }
+});
+
+export const getBiometricLabel = (type: BiometricType): string => {
+  switch (type) {
+    case 'facial':
+      return 'Face ID';
+    case 'fingerprint':
+      return 'Fingerprint';
+    case 'iris':
+      return 'Iris';
+    default:
+      return 'Biometrics';
+  }
+};
+
+/* ============================================================
+   ENROLLMENT
+   ============================================================ */
+
+export const isBiometricUnlockEnabled = async (phoneNumber: string): Promise<boolean> => {
+  const enrolledPhone = await getItem(STORAGE_KEYS.BIOMETRIC_PHONE);
+  return !!enrolledPhone && enrolledPhone === phoneNumber.replace(/\s/g, '');
+};
+
+// Stores an MPIN that was just verified by the server behind the OS biometric prompt
+export const enableBiometricUnlock = async (
+  phoneNumber: string,
+  mpin: string
+): Promise<boolean> => {
+  const capability = await getBiometricCapability();
+  if (!capability.isBiometricSupported || !capability.isEnrolled) {
+    throw new Error('Biometric authentication is not set up on this device');
+  }
+
+  const label = getBiometricLabel(capability.biometricType);
+
+  // iOS does not prompt on write, so confirm the user is present first
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage: `Enable ${label} unlock`,
+    cancelLabel: 'Cancel',
+    disableDeviceFallback: true,
+  });
+
+  if (!result.success) {
+    console.log('🔐 [BIOMETRIC] Enrollment cancelled:', result.error);
+    return false;
+  }
+
+  await SecureStore.setItemAsync(
+    SECURE_BIOMETRIC_MPIN_KEY,
+    mpin,
+    biometricStoreOptions(`Enable ${label} unlock`)
+  );
+  await setItem(STORAGE_KEYS.BIOMETRIC_PHONE, phoneNumber.replace(/\s/g, ''));
+
+  console.log('✅ [BIOMETRIC] Biometric unlock enabled');
+  return true;
+};
+
+export const disableBiometricUnlock = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(SECURE_BIOMETRIC_MPIN_KEY);
+  } catch (error) {
+    console.error('❌ [BIOMETRIC] Error deleting biometric credential:', error);
+  }
+  await removeItem(STORAGE_KEYS.BIOMETRIC_PHONE);
+  console.log('✅ [BIOMETRIC] Biometric unlock disabled');
+};
+
+/* ============================================================
+   UNLOCK
+   ============================================================ */
+
+// Shows the OS biometric prompt. Returns null when the user cancels or the
+// credential is no longer readable (e.g. biometrics were re-enrolled).
+export const getBiometricCredential = async (
+  phoneNumber: string,
+  prompt: string
+): Promise<string | null> => {
+  if (!(await isBiometricUnlockEnabled(phoneNumber))) {
+    return null;
+  }
+
+  try {
+    return await SecureStore.getItemAsync(
+      SECURE_BIOMETRIC_MPIN_KEY,
+      biometricStoreOptions(prompt)
+    );
+  } catch (error) {
+    console.log('🔐 [BIOMETRIC] Biometric unlock not completed:', error);
+    return null;
+  }
+};
@@ -1,9 +1,9 @@
 import * as Crypto from 'expo-crypto';
 import * as Device from 'expo-device';
-import * as LocalAuthentication from 'expo-local-authentication';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import { getItem, setItem } from './storage';
+import { getCachedBiometricCapability } from './biometric';
 
 // Keychain/Keystore keys
 const SECURE_DEVICE_ID_KEY = 'prayantra_persistent_device_id';
@@ -85,6 +85,7 @@ export const getDeviceInfo = async (): Promise<DeviceInfo> => {
     }
 
     const userAgent = generateSecureUserAgent();
+    const biometric = await getCachedBiometricCapability();
 
     // Store in AsyncStorage for quick access
     await setItem('device_id', deviceId);
@@ -95,8 +96,8 @@ export const getDeviceInfo = async (): Promise<DeviceInfo> => {
       deviceId,
       deviceFingerprint,
       userAgent,
-      biometricType: 'none',
-      isBiometricSupported: false,
+      biometricType: biometric.biometricType,
+      isBiometricSupported: biometric.isBiometricSupported,
       secureStorageAvailable: true,
     };
   } catch (error) {
@@ -146,13 +147,14 @@ export const getStoredDeviceInfo = async (): Promise<DeviceInfo> => {
     console.log('✅ [DEVICE] Using stored device info');
     
     const userAgent = await getItem('user_agent') || generateSecureUserAgent();
+    const biometric = await getCachedBiometricCapability();
     
     return {
       deviceId,
       deviceFingerprint,
       userAgent,
-      biometricType: 'none',
-      isBiometricSupported: false,
+      biometricType: biometric.biometricType,
+      isBiometricSupported: biometric.isBiometricSupported,
       secureStorageAvailable: true,
     };
   } catch (error) {
@@ -168,7 +170,8 @@ export const initializeDeviceInfo = async (): Promise<void> => {
     console.log("✅ DEVICE INFORMATION INITIALIZED:", {
       deviceId: deviceInfo.deviceId,
       fingerprintLength: deviceInfo.deviceFingerprint.length,
-      userAgent: deviceInfo.userAgent
+      userAgent: deviceInfo.userAgent,
+      biometricType: deviceInfo.biometricType
     });
   } catch (error) {
     console.error("❌ DEVICE INITIALIZATION FAILED:", error);
@@ -209,4 +212,43 @@ export const resetDeviceInfo = async (): Promise<void> => {
   } catch (error) {
     console.error("❌ [DEVICE] Error resetting device info:", error);
   }
-};
\ No newline at end of file
+};
+export interface DeviceFingerprintSummary {
+  model: string;
+  platform: string;
+  osVersion: string | null;
+  isEmulator: boolean;
+}
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+};
+
+// Reads a fingerprint built by getDeviceInfo (or sent by an older build, so
+// every field is optional) into something presentable
+export const parseDeviceFingerprint = (fingerprint: string | null | undefined): DeviceFingerprintSummary => {
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed = fingerprint ? JSON.parse(fingerprint) : null;
+    if (parsed && typeof parsed === 'object') data = parsed;
+  } catch {
+    // Not JSON; fall through to the unknown device summary
+  }
+
+  const text = (value: unknown) =>
+    typeof value === 'string' && value && value !== 'Unknown' ? value : null;
+  const brand = text(data.device_brand);
+  const model = text(data.device_model);
+  const platform = text(data.platform);
+
+  return {
+    model: model
+      ? brand && !model.toLowerCase().startsWith(brand.toLowerCase()) ? `${brand} ${model}` : model
+      : brand ?? 'Unknown device',
+    platform: platform ? PLATFORM_LABELS[platform] ?? platform : 'Unknown platform',
+    osVersion: text(data.os_version),
+    isEmulator: data.is_emulator === true,
+  };
+};
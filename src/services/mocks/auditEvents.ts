@@ -0,0 +1,109 @@
+import { AuditAction, AuditEvent, AuditEventQuery, AuditEventsResponse } from '@/types';
+
+/* ============================================================
+   AUDIT EVENT MOCK
+   ============================================================ */
+
+// Development stand-in for GET /admin/audit/events until the endpoint is
+// deployed everywhere. Enabled with EXPO_PUBLIC_USE_AUDIT_MOCK=true in
+// development builds only.
+
+const ADMINS = [
+  { id: 'mock-admin-1', name: 'Asha Verma' },
+  { id: 'mock-admin-2', name: 'Rahul Mehta' },
+  { id: 'mock-admin-3', name: 'Neha Kapoor' },
+  { id: 'mock-admin-4', name: 'Vikram Singh' },
+  { id: 'mock-admin-5', name: 'Priya Nair' },
+];
+
+const ROLES = [
+  { id: 'mock-role-1', name: 'Support Agent' },
+  { id: 'mock-role-2', name: 'Finance Approver' },
+  { id: 'mock-role-3', name: 'HR Associate' },
+];
+
+const ACTIONS: AuditAction[] = [
+  'admin_created',
+  'admin_updated',
+  'admin_deleted',
+  'admin_activated',
+  'admin_deactivated',
+  'admin_role_changed',
+  'admin_reports_to_changed',
+  'role_created',
+  'role_updated',
+  'role_deleted',
+  'mpin_reset',
+  'phone_changed',
+  'phone_viewed',
+];
+
+const EVENT_COUNT = 120;
+const SPAN_MS = 90 * 24 * 60 * 60 * 1000;
+const MOCK_LATENCY_MS = 400;
+
+// Small deterministic generator so the list is stable between reloads
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const buildEvents = (): AuditEvent[] => {
+  const random = seeded(42);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const now = Date.now();
+
+  return Array.from({ length: EVENT_COUNT }, (_, index) => {
+    const action = pick(ACTIONS);
+    const actor = pick(ADMINS);
+    const isRoleTarget = action.startsWith('role_');
+    const target = isRoleTarget ? pick(ROLES) : pick(ADMINS.filter(admin => admin.id !== actor.id));
+    const event: AuditEvent = {
+      event_id: `mock-event-${index + 1}`,
+      action,
+      actor_id: actor.id,
+      actor_name: actor.name,
+      target_type: isRoleTarget ? 'role' : 'admin',
+      target_id: target.id,
+      target_name: target.name,
+      device_id: `mock-device-${Math.ceil(random() * 3)}`,
+      ip_address: `10.0.${Math.floor(random() * 255)}.${Math.floor(random() * 255)}`,
+      created_at: new Date(now - Math.floor(random() * SPAN_MS)).toISOString(),
+    };
+
+    if (action === 'mpin_reset') event.reason = 'Admin locked out after repeated failed attempts';
+    if (action === 'admin_role_changed') {
+      event.metadata = { from_role: pick(ROLES).name, to_role: pick(ROLES).name };
+    }
+    if (action === 'phone_changed') event.metadata = { masked_phone: '+91******4321' };
+    return event;
+  }).sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+let events: AuditEvent[] | null = null;
+
+export const getMockAuditEvents = async (query: AuditEventQuery): Promise<AuditEventsResponse> => {
+  events = events ?? buildEvents();
+  const limit = query.limit ?? 50;
+  const offset = query.offset ?? 0;
+
+  const matching = events.filter(event =>
+    (!query.actor_id || event.actor_id === query.actor_id) &&
+    (!query.target_id || event.target_id === query.target_id) &&
+    (!query.actions?.length || query.actions.includes(event.action)) &&
+    (!query.from || event.created_at >= query.from) &&
+    (!query.to || event.created_at <= query.to)
+  );
+  const page = matching.slice(offset, offset + limit);
+
+  await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  return {
+    success: true,
+    data: {
+      events: page,
+      meta: { count: page.length, limit, offset, total: matching.length },
+    },
+    message: 'Audit events retrieved (mock)',
+    timestamp: new Date().toISOString(),
+  };
+};
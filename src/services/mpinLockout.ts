@@ -0,0 +1,95 @@
+import { ApiError } from '@/types';
+import { getItem, setItem, removeItem, STORAGE_KEYS } from './storage';
+
+// Used when the server rate limits without saying for how long
+const FALLBACK_LOCK_MS = 60 * 1000;
+
+export interface MPINLockState {
+  // Epoch ms after which the server accepts another attempt; null when only a reset unlocks it
+  lockedUntil: number | null;
+  // The server locked the MPIN outright; Forgot MPIN (OTP + new MPIN) unlocks it
+  requiresReset: boolean;
+  failedAttempts: number | null;
+  maxAttempts: number | null;
+}
+
+/* ============================================================
+   SERVER RESPONSE
+   ============================================================ */
+
+// Reads a failed verify-mpin response. Returns null when the failure was a
+// plain wrong MPIN and more attempts are allowed.
+export const lockStateFromError = (
+  data: ApiError | undefined,
+  status?: number
+): MPINLockState | null => {
+  if (!data) return null;
+
+  const expiresAt = data.expires_at ? Date.parse(data.expires_at) : NaN;
+  const timedUntil = data.retry_after
+    ? Date.now() + data.retry_after * 1000
+    : Number.isNaN(expiresAt) ? null : expiresAt;
+
+  const isLocked =
+    data.mpin_locked === true ||
+    status === 429 ||
+    data.error === 'MPIN rate limit exceeded' ||
+    timedUntil !== null;
+  if (!isLocked) return null;
+
+  const requiresReset = data.mpin_locked === true && timedUntil === null;
+  return {
+    lockedUntil: timedUntil ?? (requiresReset ? null : Date.now() + FALLBACK_LOCK_MS),
+    requiresReset,
+    failedAttempts: data.failed_login_attempts ?? null,
+    maxAttempts: data.max_attempts ?? null,
+  };
+};
+
+export const getLockSecondsRemaining = (state: MPINLockState | null): number => {
+  if (!state?.lockedUntil) return 0;
+  return Math.max(0, Math.ceil((state.lockedUntil - Date.now()) / 1000));
+};
+
+// "4:05" for minutes-long locks, "45s" for short ones
+export const formatLockCountdown = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+};
+
+// Still locked: either waiting for a reset or the countdown hasn't run out
+export const isMPINLocked = (state: MPINLockState | null): boolean =>
+  !!state && (state.requiresReset || getLockSecondsRemaining(state) > 0);
+
+/* ============================================================
+   PERSISTENCE
+   ============================================================ */
+
+// Only timed locks are kept: a reset-only lock is re-reported by the server on
+// the next attempt, and keeping it could block an admin-reset MPIN.
+export const saveMPINLockState = async (phoneNumber: string, state: MPINLockState): Promise<void> => {
+  if (!state.lockedUntil) return;
+  await setItem(`${STORAGE_KEYS.MPIN_LOCKOUT_PREFIX}${phoneNumber}`, JSON.stringify(state));
+};
+
+export const loadMPINLockState = async (phoneNumber: string): Promise<MPINLockState | null> => {
+  const raw = await getItem(`${STORAGE_KEYS.MPIN_LOCKOUT_PREFIX}${phoneNumber}`);
+  if (!raw) return null;
+  try {
+    const state = JSON.parse(raw) as MPINLockState;
+    if (isMPINLocked(state)) return state;
+  } catch (error) {
+    console.warn('⚠️ [MPIN_LOCKOUT] Ignoring unreadable lock state', error);
+  }
+  await clearMPINLockState(phoneNumber);
+  return null;
+};
+
+export const clearMPINLockState = (phoneNumber: string): Promise<void> =>
+  removeItem(`${STORAGE_KEYS.MPIN_LOCKOUT_PREFIX}${phoneNumber}`);
+
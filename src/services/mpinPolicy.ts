@@ -0,0 +1,336 @@
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { ServerMPINPolicy } from '@/types';
+
+/* ============================================================
+   POLICY
+   ============================================================ */
+
+export interface MPINPolicy {
+  length: number;
+  rejectSequences: boolean;
+  rejectRepeats: boolean;
+  rejectBirthdays: boolean;
+  rejectPhoneDigits: boolean;
+  // How many previous MPINs may not be reused; 0 turns the check off
+  historySize: number;
+  minUniqueDigits: number;
+  blocklist: string[];
+}
+
+export const DEFAULT_MPIN_POLICY: MPINPolicy = {
+  length: 6,
+  rejectSequences: true,
+  rejectRepeats: true,
+  rejectBirthdays: true,
+  rejectPhoneDigits: true,
+  historySize: 3,
+  minUniqueDigits: 3,
+  // Common picks that pass the pattern checks: paired digits and keypad shapes
+  blocklist: ['112233', '147258', '258369', '159357', '159753', '357159', '852456', '102030', '010203'],
+};
+
+export const policyFromServer = (server: ServerMPINPolicy | null | undefined): MPINPolicy => ({
+  length: server?.length ?? DEFAULT_MPIN_POLICY.length,
+  rejectSequences: server?.reject_sequences ?? DEFAULT_MPIN_POLICY.rejectSequences,
+  rejectRepeats: server?.reject_repeats ?? DEFAULT_MPIN_POLICY.rejectRepeats,
+  rejectBirthdays: server?.reject_birthdays ?? DEFAULT_MPIN_POLICY.rejectBirthdays,
+  rejectPhoneDigits: server?.reject_phone_digits ?? DEFAULT_MPIN_POLICY.rejectPhoneDigits,
+  historySize: server?.history_size ?? DEFAULT_MPIN_POLICY.historySize,
+  minUniqueDigits: server?.min_unique_digits ?? DEFAULT_MPIN_POLICY.minUniqueDigits,
+  blocklist: server?.blocklist ?? DEFAULT_MPIN_POLICY.blocklist,
+});
+
+/* ============================================================
+   RULES
+   ============================================================ */
+
+// What a check can know about the admin. The history here is only MPINs
+// already in memory (e.g. the current MPIN on the change screen); stored
+// history is checked separately by isInMPINHistory.
+export interface MPINPolicyContext {
+  phoneNumber?: string | null;
+  recentMPINs?: string[];
+}
+
+export type MPINIssueCode =
+  | 'length'
+  | 'digits'
+  | 'sequence'
+  | 'repeat'
+  | 'birthday'
+  | 'phone'
+  | 'history'
+  | 'blocklist'
+  | 'unique';
+
+export interface MPINIssue {
+  code: MPINIssueCode;
+  message: string;
+}
+
+// 123456, 654321 and wrapping runs such as 890123
+const isSequence = (mpin: string) => {
+  const digits = mpin.split('').map(Number);
+  const step = (digits[1] - digits[0] + 10) % 10;
+  if (step !== 1 && step !== 9) return false;
+  return digits.every((digit, i) => i === 0 || (digit - digits[i - 1] + 10) % 10 === step);
+};
+
+// 111111, plus short blocks repeated to fill the MPIN: 121212, 123123
+const isRepeat = (mpin: string) => {
+  for (let size = 1; size <= mpin.length / 2; size++) {
+    if (mpin.length % size !== 0) continue;
+    const block = mpin.slice(0, size);
+    if (block.repeat(mpin.length / size) === mpin) return true;
+  }
+  return false;
+};
+
+const isDay = (value: string) => Number(value) >= 1 && Number(value) <= 31;
+const isMonth = (value: string) => Number(value) >= 1 && Number(value) <= 12;
+const isBirthYear = (value: string) => {
+  const year = Number(value);
+  return year >= 1940 && year <= new Date().getFullYear();
+};
+
+// DDMMYY, MMDDYY, YYMMDD, MMYYYY and YYYYMM
+const isBirthday = (mpin: string) => {
+  if (mpin.length !== 6) return false;
+  const [a, b, c] = [mpin.slice(0, 2), mpin.slice(2, 4), mpin.slice(4, 6)];
+  return (
+    (isDay(a) && isMonth(b)) ||
+    (isMonth(a) && isDay(b)) ||
+    (isMonth(b) && isDay(c)) ||
+    (isMonth(a) && isBirthYear(mpin.slice(2))) ||
+    (isBirthYear(mpin.slice(0, 4)) && isMonth(c))
+  );
+};
+
+// Any run of the phone number's own digits, country code excluded
+const isFromPhone = (mpin: string, phoneNumber: string) => {
+  const digits = phoneNumber.replace(/\D/g, '');
+  const national = digits.length > 10 ? digits.slice(-10) : digits;
+  return national.length >= mpin.length && national.includes(mpin);
+};
+
+// Every rule the MPIN breaks, in the order they are worth fixing
+export const getMPINIssues = (
+  mpin: string,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY,
+  context: MPINPolicyContext = {}
+): MPINIssue[] => {
+  if (!/^\d*$/.test(mpin)) {
+    return [{ code: 'digits', message: 'MPIN must contain only numbers' }];
+  }
+  if (mpin.length !== policy.length) {
+    return [{ code: 'length', message: `MPIN must be exactly ${policy.length} digits` }];
+  }
+
+  const issues: MPINIssue[] = [];
+  if (policy.rejectRepeats && isRepeat(mpin)) {
+    issues.push({ code: 'repeat', message: 'Avoid repeated digits or patterns like 111111 or 121212' });
+  }
+  if (policy.rejectSequences && isSequence(mpin)) {
+    issues.push({ code: 'sequence', message: 'Avoid sequences like 123456 or 654321' });
+  }
+  if (policy.blocklist.includes(mpin)) {
+    issues.push({ code: 'blocklist', message: 'This MPIN is too common' });
+  }
+  if (policy.rejectBirthdays && isBirthday(mpin)) {
+    issues.push({ code: 'birthday', message: 'Looks like a date. Avoid birthdays and anniversaries' });
+  }
+  if (policy.rejectPhoneDigits && context.phoneNumber && isFromPhone(mpin, context.phoneNumber)) {
+    issues.push({ code: 'phone', message: 'Do not use digits from your phone number' });
+  }
+  if (policy.historySize > 0 && context.recentMPINs?.includes(mpin)) {
+    issues.push({ code: 'history', message: 'Choose an MPIN you have not used recently' });
+  }
+  if (new Set(mpin).size < policy.minUniqueDigits) {
+    issues.push({ code: 'unique', message: `Use at least ${policy.minUniqueDigits} different digits` });
+  }
+  return issues;
+};
+
+// First problem as a user-facing message, or null when the MPIN is allowed
+export const validateMPIN = (
+  mpin: string,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY,
+  context: MPINPolicyContext = {}
+): string | null => getMPINIssues(mpin, policy, context)[0]?.message ?? null;
+
+/* ============================================================
+   STRENGTH
+   ============================================================ */
+
+export type MPINStrengthLevel = 'weak' | 'fair' | 'good' | 'strong';
+
+export interface MPINStrength {
+  level: MPINStrengthLevel;
+  // 1-4, for the meter
+  score: number;
+  label: string;
+  issues: MPINIssue[];
+}
+
+const STRENGTH_LABELS: Record<MPINStrengthLevel, string> = {
+  weak: 'Too weak',
+  fair: 'Fair',
+  good: 'Good',
+  strong: 'Strong',
+};
+
+// Anything the policy rejects is weak; otherwise more distinct digits and
+// fewer adjacent steps (12, 98) rate higher
+export const getMPINStrength = (
+  mpin: string,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY,
+  context: MPINPolicyContext = {}
+): MPINStrength => {
+  const issues = getMPINIssues(mpin, policy, context);
+  if (issues.length > 0) {
+    return { level: 'weak', score: 1, label: STRENGTH_LABELS.weak, issues };
+  }
+
+  const unique = new Set(mpin).size;
+  const steps = mpin.split('').filter((digit, i) =>
+    i > 0 && Math.abs(Number(digit) - Number(mpin[i - 1])) === 1
+  ).length;
+  const points = unique - Math.floor(steps / 2);
+  const level: MPINStrengthLevel = points >= 5 ? 'strong' : points >= 4 ? 'good' : 'fair';
+  const score = level === 'strong' ? 4 : level === 'good' ? 3 : 2;
+  return { level, score, label: STRENGTH_LABELS[level], issues };
+};
+
+/* ============================================================
+   HISTORY
+   ============================================================ */
+
+// Kept in the keychain as salted hashes, per phone number, so old MPINs
+// can be refused on this device without storing them
+const historyKey = (phoneNumber: string) =>
+  `prayantra_mpin_history_${phoneNumber.replace(/\D/g, '')}`;
+
+const hashMPIN = (phoneNumber: string, mpin: string) =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${phoneNumber.replace(/\D/g, '')}:${mpin}`
+  );
+
+const readHistory = async (phoneNumber: string): Promise<string[]> => {
+  try {
+    const raw = await SecureStore.getItemAsync(historyKey(phoneNumber));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('⚠️ [MPIN_POLICY] Could not read MPIN history', error);
+    return [];
+  }
+};
+
+export const isInMPINHistory = async (
+  phoneNumber: string | null | undefined,
+  mpin: string,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY
+): Promise<boolean> => {
+  if (!phoneNumber || policy.historySize <= 0) return false;
+  const history = await readHistory(phoneNumber);
+  if (history.length === 0) return false;
+  const hash = await hashMPIN(phoneNumber, mpin);
+  return history.slice(0, policy.historySize).includes(hash);
+};
+
+// Call after the server accepted a new MPIN
+export const rememberMPIN = async (
+  phoneNumber: string | null | undefined,
+  mpin: string,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY
+): Promise<void> => {
+  await rememberMPINLength(phoneNumber, mpin.length);
+  if (!phoneNumber || policy.historySize <= 0) return;
+  try {
+    const hash = await hashMPIN(phoneNumber, mpin);
+    const history = (await readHistory(phoneNumber)).filter(entry => entry !== hash);
+    const next = [hash, ...history].slice(0, policy.historySize);
+    await SecureStore.setItemAsync(historyKey(phoneNumber), JSON.stringify(next));
+  } catch (error) {
+    console.warn('⚠️ [MPIN_POLICY] Could not update MPIN history', error);
+  }
+};
+
+/* ============================================================
+   EXISTING MPIN LENGTH
+   ============================================================ */
+
+// Every MPIN set before the server policy could change the length
+export const LEGACY_MPIN_LENGTH = 6;
+
+// Digits an existing MPIN may have. A policy change only applies to MPINs
+// chosen afterwards, so verify and unlock inputs go by the MPIN on record.
+export interface MPINLengthRange {
+  min: number;
+  max: number;
+}
+
+const lengthKey = (phoneNumber: string) =>
+  `prayantra_mpin_length_${phoneNumber.replace(/\D/g, '')}`;
+
+export const getStoredMPINLength = async (
+  phoneNumber: string | null | undefined
+): Promise<number | null> => {
+  if (!phoneNumber) return null;
+  try {
+    const length = Number(await SecureStore.getItemAsync(lengthKey(phoneNumber)));
+    return Number.isInteger(length) && length > 0 ? length : null;
+  } catch (error) {
+    console.warn('⚠️ [MPIN_POLICY] Could not read MPIN length', error);
+    return null;
+  }
+};
+
+// Call after the server accepted an MPIN, new or verified
+export const rememberMPINLength = async (
+  phoneNumber: string | null | undefined,
+  length: number
+): Promise<void> => {
+  if (!phoneNumber) return;
+  try {
+    await SecureStore.setItemAsync(lengthKey(phoneNumber), String(length));
+  } catch (error) {
+    console.warn('⚠️ [MPIN_POLICY] Could not save MPIN length', error);
+  }
+};
+
+// The recorded length when this device has seen the MPIN; otherwise anything
+// between the legacy length and the current policy
+export const getMPINLengthRange = (
+  storedLength: number | null,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY
+): MPINLengthRange =>
+  storedLength
+    ? { min: storedLength, max: storedLength }
+    : {
+        min: Math.min(LEGACY_MPIN_LENGTH, policy.length),
+        max: Math.max(LEGACY_MPIN_LENGTH, policy.length),
+      };
+
+export const isMPINLengthInRange = (mpin: string, range: MPINLengthRange): boolean =>
+  mpin.length >= range.min && mpin.length <= range.max;
+
+// "6-digit" or "4 to 6-digit", for prompts
+export const describeMPINLength = (range: MPINLengthRange): string =>
+  range.min === range.max ? `${range.min}-digit` : `${range.min} to ${range.max}-digit`;
+
+// Full check for a new MPIN: the rules plus this device's stored history
+export const checkNewMPIN = async (
+  mpin: string,
+  policy: MPINPolicy = DEFAULT_MPIN_POLICY,
+  context: MPINPolicyContext = {}
+): Promise<string | null> => {
+  const problem = validateMPIN(mpin, policy, context);
+  if (problem) return problem;
+  if (await isInMPINHistory(context.phoneNumber, mpin, policy)) {
+    return 'Choose an MPIN you have not used recently';
+  }
+  return null;
+};
@@ -0,0 +1,262 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AxiosResponse } from 'axios';
+import { api } from './api';
+import { STORAGE_KEYS } from './storage';
+import {
+  CreateAdminRequest,
+  UpdateAdminRequest,
+  CreateEmployeeRoleRequest,
+  CreateManagerRoleRequest,
+  UpdateRoleRequest,
+} from '@/types';
+
+/* ============================================================
+   TYPES
+   ============================================================ */
+
+export interface OutboxPayloads {
+  createAdmin: CreateAdminRequest;
+  updateAdmin: { adminId: string; data: UpdateAdminRequest };
+  updateAdminRole: { adminId: string; roleId: string };
+  updateAdminReportsTo: { adminId: string; reportsTo: string };
+  activateAdmin: { adminId: string };
+  deactivateAdmin: { adminId: string };
+  deleteAdmin: { adminId: string };
+  createEmployeeRole: CreateEmployeeRoleRequest;
+  createManagerRole: CreateManagerRoleRequest;
+  updateRole: { roleId: string; data: UpdateRoleRequest };
+  deleteRole: { roleId: string };
+}
+
+export type OutboxOperation = keyof OutboxPayloads;
+
+export type OutboxEntity = 'admin' | 'role';
+
+// pending: waiting to be sent
+// conflict: the server state no longer matches (e.g. the target was deleted)
+// failed: the server rejected the request for another reason
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry<K extends OutboxOperation = OutboxOperation> {
+  // Doubles as the Idempotency-Key sent with every attempt
+  id: string;
+  operation: K;
+  payload: OutboxPayloads[K];
+  entity: OutboxEntity;
+  // Existing admin/role the change applies to; absent for creates
+  targetId?: string;
+  label: string;
+  createdAt: number;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+}
+
+/* ============================================================
+   OPERATIONS
+   ============================================================ */
+
+type Executor<K extends OutboxOperation> = (
+  payload: OutboxPayloads[K],
+  idempotencyKey: string
+) => Promise<AxiosResponse>;
+
+const EXECUTORS: { [K in OutboxOperation]: Executor<K> } = {
+  createAdmin: (p, key) => api.createAdmin(p, key),
+  updateAdmin: (p, key) => api.updateAdmin(p.adminId, p.data, key),
+  updateAdminRole: (p, key) => api.updateAdminRole(p.adminId, p.roleId, key),
+  updateAdminReportsTo: (p, key) => api.updateAdminReportsTo(p.adminId, p.reportsTo, key),
+  activateAdmin: (p, key) => api.activateAdmin(p.adminId, key),
+  deactivateAdmin: (p, key) => api.deactivateAdmin(p.adminId, key),
+  deleteAdmin: (p, key) => api.deleteAdmin(p.adminId, key),
+  createEmployeeRole: (p, key) => api.createEmployeeRole(p, key),
+  createManagerRole: (p, key) => api.createManagerRole(p, key),
+  updateRole: (p, key) => api.updateRole(p.roleId, p.data, key),
+  deleteRole: (p, key) => api.deleteRole(p.roleId, key),
+};
+
+const ROLE_OPERATIONS: OutboxOperation[] = [
+  'createEmployeeRole',
+  'createManagerRole',
+  'updateRole',
+  'deleteRole',
+];
+
+const getTargetId = (payload: any): string | undefined =>
+  payload?.adminId ?? payload?.roleId ?? undefined;
+
+export const createOutboxEntry = <K extends OutboxOperation>(
+  operation: K,
+  payload: OutboxPayloads[K],
+  label: string
+): OutboxEntry<K> => ({
+  id: Crypto.randomUUID(),
+  operation,
+  payload,
+  entity: ROLE_OPERATIONS.includes(operation) ? 'role' : 'admin',
+  targetId: getTargetId(payload),
+  label,
+  createdAt: Date.now(),
+  attempts: 0,
+  status: 'pending',
+});
+
+export const executeOutboxEntry = (entry: OutboxEntry): Promise<AxiosResponse> =>
+  (EXECUTORS[entry.operation] as Executor<OutboxOperation>)(entry.payload, entry.id);
+
+/* ============================================================
+   PERSISTENCE
+   ============================================================ */
+
+const outboxKey = (adminId: string) => `${STORAGE_KEYS.OUTBOX_PREFIX}${adminId}`;
+
+export const loadOutbox = async (adminId: string): Promise<OutboxEntry[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(outboxKey(adminId));
+    return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('❌ [OUTBOX] Error loading queued changes:', error);
+    return [];
+  }
+};
+
+export const saveOutbox = async (adminId: string, entries: OutboxEntry[]): Promise<void> => {
+  try {
+    if (entries.length === 0) {
+      await AsyncStorage.removeItem(outboxKey(adminId));
+    } else {
+      await AsyncStorage.setItem(outboxKey(adminId), JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error('❌ [OUTBOX] Error saving queued changes:', error);
+  }
+};
+
+/* ============================================================
+   DEDUPLICATION
+   ============================================================ */
+
+const TOGGLE_OPERATIONS: OutboxOperation[] = ['activateAdmin', 'deactivateAdmin'];
+
+// Adds an entry to the queue, dropping pending entries it makes redundant:
+// a repeat of the latest pending change to the same target, an earlier
+// activate/deactivate of the same admin, or any pending edit to something
+// that is now being deleted. Only the latest change counts as a repeat, so
+// A → B → A keeps all three and the final state stays A.
+export const enqueueEntry = (entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] => {
+  const isDelete = entry.operation === 'deleteAdmin' || entry.operation === 'deleteRole';
+
+  const latest = [...entries].reverse().find(existing =>
+    existing.status === 'pending' &&
+    existing.entity === entry.entity &&
+    existing.targetId === entry.targetId
+  );
+  if (
+    latest &&
+    latest.operation === entry.operation &&
+    JSON.stringify(latest.payload) === JSON.stringify(entry.payload)
+  ) {
+    return entries;
+  }
+
+  const kept = entries.filter(existing => {
+    if (existing.status !== 'pending' || !entry.targetId) return true;
+    if (existing.targetId !== entry.targetId || existing.entity !== entry.entity) return true;
+    if (isDelete) return false;
+    return !(
+      TOGGLE_OPERATIONS.includes(entry.operation) &&
+      TOGGLE_OPERATIONS.includes(existing.operation)
+    );
+  });
+
+  return [...kept, entry];
+};
+
+/* ============================================================
+   REPLAY
+   ============================================================ */
+
+// No response means the request never reached the server
+export const isNetworkError = (error: any): boolean =>
+  !!error?.isAxiosError && !error.response;
+
+type ReplayOutcome = 'retry' | 'conflict' | 'failed';
+
+const classifyReplayError = (error: any): ReplayOutcome => {
+  const status: number | undefined = error?.response?.status;
+  if (!status || status >= 500 || status === 401 || status === 429) return 'retry';
+  if (status === 404 || status === 409 || status === 410) return 'conflict';
+  return 'failed';
+};
+
+const conflictMessage = (entry: OutboxEntry, error: any): string => {
+  const status = error?.response?.status;
+  const noun = entry.entity === 'admin' ? 'admin' : 'role';
+  if (status === 404 || status === 410) {
+    return `This ${noun} no longer exists on the server`;
+  }
+  return error?.response?.data?.message || `This ${noun} was changed on the server`;
+};
+
+export interface ReplayResult {
+  entries: OutboxEntry[];
+  synced: OutboxEntry[];
+  // True when replay stopped early because the server could not be reached
+  interrupted: boolean;
+}
+
+// Sends pending entries oldest first. Successful entries are removed; a
+// conflict or failure also blocks later changes to the same admin/role so
+// they are not applied out of context. Replay stops at the first network error.
+export const replayOutbox = async (entries: OutboxEntry[]): Promise<ReplayResult> => {
+  const remaining: OutboxEntry[] = [];
+  const synced: OutboxEntry[] = [];
+  const blockedTargets = new Set<string>();
+  let interrupted = false;
+
+  for (const entry of entries) {
+    if (interrupted || entry.status !== 'pending') {
+      remaining.push(entry);
+      continue;
+    }
+
+    const targetKey = entry.targetId ? `${entry.entity}:${entry.targetId}` : null;
+    if (targetKey && blockedTargets.has(targetKey)) {
+      remaining.push({
+        ...entry,
+        status: 'conflict',
+        error: 'An earlier queued change to this item did not go through',
+      });
+      continue;
+    }
+
+    try {
+      await executeOutboxEntry(entry);
+      synced.push(entry);
+    } catch (error: any) {
+      const attempted = { ...entry, attempts: entry.attempts + 1 };
+      const outcome = classifyReplayError(error);
+
+      if (outcome === 'retry') {
+        console.warn('⚠️ [OUTBOX] Replay interrupted:', error?.message);
+        interrupted = true;
+        remaining.push(attempted);
+      } else if (outcome === 'conflict') {
+        console.warn(`⚠️ [OUTBOX] Conflict replaying ${entry.operation}`);
+        if (targetKey) blockedTargets.add(targetKey);
+        remaining.push({ ...attempted, status: 'conflict', error: conflictMessage(entry, error) });
+      } else {
+        console.warn(`⚠️ [OUTBOX] Server rejected ${entry.operation}`);
+        if (targetKey) blockedTargets.add(targetKey);
+        remaining.push({
+          ...attempted,
+          status: 'failed',
+          error: error?.response?.data?.message || error?.message || 'Request failed',
+        });
+      }
+    }
+  }
+
+  return { entries: remaining, synced, interrupted };
+};
@@ -0,0 +1,123 @@
+import { AdminInfo } from '@/types';
+
+/* ============================================================
+   PERMISSION STRINGS
+   ============================================================ */
+
+// Backend permission names are "<category>.<action>". A trailing ".*"
+// grants every action in a category and "*" grants everything.
+export const PERMISSIONS = {
+  ADMIN_VIEW: 'admin.view',
+  ADMIN_CREATE: 'admin.create',
+  ADMIN_UPDATE: 'admin.update',
+  ADMIN_DELETE: 'admin.delete',
+  ADMIN_ACTIVATE: 'admin.activate',
+  ADMIN_CHANGE_PHONE: 'admin.change_phone',
+  ADMIN_VIEW_PHONE: 'admin.view_phone',
+  ADMIN_RESET_MPIN: 'admin.reset_mpin',
+  ADMIN_UPDATE_REPORTS_TO: 'admin.update_reports_to',
+  ROLE_VIEW: 'role.view',
+  ROLE_CREATE: 'role.create',
+  ROLE_UPDATE: 'role.update',
+  ROLE_DELETE: 'role.delete',
+  AUDIT_VIEW: 'audit.view',
+} as const;
+
+export type PermissionKey = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+// Super admins bypass permission checks (matches the role_type used in the management filters)
+export const SUPER_ADMIN_ROLE_TYPE = 4;
+
+/* ============================================================
+   SCREEN ACCESS
+   ============================================================ */
+
+interface ScreenRule {
+  // Department name from AdminInfo.departments that unlocks the screen
+  department?: string;
+  // Any one of these permissions also unlocks the screen
+  anyPermission?: string[];
+}
+
+// Screens not listed here are available to every authenticated admin
+export const SCREEN_RULES: Record<string, ScreenRule> = {
+  EmployeeManagement: {
+    department: 'Employee Management',
+    anyPermission: [PERMISSIONS.ROLE_VIEW, PERMISSIONS.ROLE_CREATE],
+  },
+  ManagerManagement: {
+    department: 'Manager Management',
+    anyPermission: [PERMISSIONS.ROLE_VIEW, PERMISSIONS.ROLE_CREATE],
+  },
+  CompanyManagement: {
+    department: 'Company Management',
+    anyPermission: [PERMISSIONS.ADMIN_VIEW, PERMISSIONS.ROLE_VIEW],
+  },
+  OrgChart: {
+    department: 'Company Management',
+    anyPermission: [PERMISSIONS.ADMIN_VIEW],
+  },
+  AdminAnalytics: {
+    department: 'Company Management',
+    anyPermission: [PERMISSIONS.ADMIN_VIEW],
+  },
+  RoleMatrix: {
+    department: 'Company Management',
+    anyPermission: [PERMISSIONS.ROLE_VIEW],
+  },
+  // No department grant: who did what is limited to admins allowed to audit
+  AuditLog: {
+    anyPermission: [PERMISSIONS.AUDIT_VIEW],
+  },
+};
+
+/* ============================================================
+   CHECKS
+   ============================================================ */
+
+export const isSuperAdmin = (adminInfo: AdminInfo | null | undefined): boolean =>
+  adminInfo?.role_type === SUPER_ADMIN_ROLE_TYPE;
+
+const grants = (granted: string, required: string): boolean => {
+  if (granted === '*' || granted === required) return true;
+  if (granted.endsWith('.*')) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+  return false;
+};
+
+export const hasPermission = (
+  adminInfo: AdminInfo | null | undefined,
+  permission: string
+): boolean => {
+  if (!adminInfo) return false;
+  if (isSuperAdmin(adminInfo)) return true;
+
+  const normalized = permission.toLowerCase();
+  return (adminInfo.permissions || []).some((p) => grants(p.toLowerCase(), normalized));
+};
+
+export const hasAnyPermission = (
+  adminInfo: AdminInfo | null | undefined,
+  permissions: string[]
+): boolean => permissions.some((p) => hasPermission(adminInfo, p));
+
+export const hasAllPermissions = (
+  adminInfo: AdminInfo | null | undefined,
+  permissions: string[]
+): boolean => permissions.every((p) => hasPermission(adminInfo, p));
+
+export const canAccessScreen = (
+  adminInfo: AdminInfo | null | undefined,
+  screenName: string
+): boolean => {
+  const rule = SCREEN_RULES[screenName];
+  if (!rule) return true;
+  if (!adminInfo) return false;
+  if (isSuperAdmin(adminInfo)) return true;
+
+  if (rule.department && (adminInfo.departments || []).includes(rule.department)) {
+    return true;
+  }
+  return !!rule.anyPermission && hasAnyPermission(adminInfo, rule.anyPermission);
+};
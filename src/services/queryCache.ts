@@ -0,0 +1,93 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryClient, dehydrate, hydrate, DehydratedState } from '@tanstack/react-query';
+import { STORAGE_KEYS } from './storage';
+
+/* ============================================================
+   CONFIG
+   ============================================================ */
+
+// Bump whenever a persisted response shape changes; older snapshots are dropped
+export const QUERY_CACHE_VERSION = 2;
+
+// Snapshots older than this are not restored
+export const QUERY_CACHE_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Only list/profile queries are worth restoring. Search results, details
+// and anything keyed by user input are refetched on demand instead.
+export const PERSISTED_QUERY_ROOTS = [
+  'allRoles',
+  'allAdmins',
+  'adminStats',
+  'adminProfile',
+  'availableManagers',
+  'adminDepartments',
+  'employeeRoles',
+  'managerRoles',
+];
+
+interface PersistedQueryCache {
+  version: number;
+  adminId: string;
+  savedAt: number;
+  state: DehydratedState;
+}
+
+const cacheKey = (adminId: string) => `${STORAGE_KEYS.QUERY_CACHE_PREFIX}${adminId}`;
+
+/* ============================================================
+   SAVE / RESTORE
+   ============================================================ */
+
+export const persistQueryCache = async (
+  queryClient: QueryClient,
+  adminId: string
+): Promise<void> => {
+  try {
+    const state = dehydrate(queryClient, {
+      shouldDehydrateQuery: query =>
+        query.state.status === 'success' &&
+        PERSISTED_QUERY_ROOTS.includes(query.queryKey[0] as string),
+    });
+
+    const snapshot: PersistedQueryCache = {
+      version: QUERY_CACHE_VERSION,
+      adminId,
+      savedAt: Date.now(),
+      state,
+    };
+    await AsyncStorage.setItem(cacheKey(adminId), JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('❌ [QUERY_CACHE] Error saving query cache:', error);
+  }
+};
+
+// Hydrates the client with the admin's last snapshot. Returns false when
+// there was nothing usable (missing, another version, or too old).
+export const restoreQueryCache = async (
+  queryClient: QueryClient,
+  adminId: string
+): Promise<boolean> => {
+  try {
+    const raw = await AsyncStorage.getItem(cacheKey(adminId));
+    if (!raw) return false;
+
+    const snapshot = JSON.parse(raw) as PersistedQueryCache;
+    const isUsable =
+      snapshot.version === QUERY_CACHE_VERSION &&
+      snapshot.adminId === adminId &&
+      Date.now() - snapshot.savedAt < QUERY_CACHE_MAX_AGE;
+
+    if (!isUsable) {
+      console.log('🗑️ [QUERY_CACHE] Discarding stale query cache');
+      await AsyncStorage.removeItem(cacheKey(adminId));
+      return false;
+    }
+
+    hydrate(queryClient, snapshot.state);
+    console.log(`✅ [QUERY_CACHE] Restored ${snapshot.state.queries.length} queries`);
+    return true;
+  } catch (error) {
+    console.error('❌ [QUERY_CACHE] Error restoring query cache:', error);
+    return false;
+  }
+};
@@ -0,0 +1,29 @@
+/* ============================================================
+   SMS RETRIEVER
+   ============================================================ */
+
+// Android can hand the app an incoming OTP message without the READ_SMS
+// permission (Google's SMS Retriever / User Consent APIs). Screens only talk
+// to this interface, so a native module, a dev stand-in or a test double can
+// be registered with setSMSRetriever. With nothing registered, OTP entry falls
+// back to the keyboard's own autofill and manual typing.
+
+export interface SMSRetriever {
+  // Starts listening for the next OTP message and returns a stop function
+  listen: (onMessage: (message: string) => void) => () => void;
+}
+
+let retriever: SMSRetriever | null = null;
+
+export const setSMSRetriever = (next: SMSRetriever | null): void => {
+  retriever = next;
+};
+
+// iOS never registers one; its keyboard suggests the code via oneTimeCode
+export const getSMSRetriever = (): SMSRetriever | null => retriever;
+
+// First standalone run of exactly `length` digits in the message
+export const extractOTP = (message: string, length: number = 6): string | null => {
+  const match = message.match(new RegExp(`(?:^|\\D)(\\d{${length}})(?:\\D|$)`));
+  return match ? match[1] : null;
+};
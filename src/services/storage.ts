@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
+import { clearVault } from './tokenVault';
 
 // Regular storage for non-sensitive data
 export const setItem = async (key: string, value: string): Promise<void> => {
@@ -31,16 +32,26 @@ export const removeItem = async (key: string): Promise<void> => {
   }
 };
 
-// Clear only session data (tokens and admin info), keep phone number
-export const clearSessionData = async (): Promise<void> => {
+// Removes every persisted React Query snapshot (one per admin)
+const removeQueryCaches = async (): Promise<void> => {
+  const allKeys = await AsyncStorage.getAllKeys();
+  const cacheKeys = allKeys.filter(key => key.startsWith(STORAGE_KEYS.QUERY_CACHE_PREFIX));
+  if (cacheKeys.length > 0) {
+    await AsyncStorage.multiRemove(cacheKeys);
+  }
+};
+
+// Clear only session data (tokens, admin info and cached responses), keep phone number.
+// Cold start passes keepQueryCache so the lists can render from the snapshot after MPIN.
+export const clearSessionData = async (
+  options: { keepQueryCache?: boolean } = {}
+): Promise<void> => {
   try {
-    const keys = [
-      STORAGE_KEYS.ACCESS_TOKEN,
-      STORAGE_KEYS.REFRESH_TOKEN,
-      STORAGE_KEYS.ADMIN_INFO,
-    ];
-    
-    await AsyncStorage.multiRemove(keys);
+    // Tokens and admin info live in the SecureStore vault
+    await clearVault();
+    if (!options.keepQueryCache) {
+      await removeQueryCaches();
+    }
     console.log("✅ SESSION DATA CLEARED, PHONE NUMBER & ADMIN ID PRESERVED");
   } catch (error) {
     console.error('Error clearing session data:', error);
@@ -51,14 +62,23 @@ export const clearSessionData = async (): Promise<void> => {
 export const clearAllUserData = async (): Promise<void> => {
   try {
     const keys = [
-      STORAGE_KEYS.ACCESS_TOKEN,
-      STORAGE_KEYS.REFRESH_TOKEN,
       STORAGE_KEYS.ADMIN_ID,
-      STORAGE_KEYS.ADMIN_INFO,
       STORAGE_KEYS.PHONE_NUMBER,
+      STORAGE_KEYS.BIOMETRIC_PHONE,
     ];
 
-    await AsyncStorage.multiRemove(keys);
+    // Queued changes, saved searches and analytics snapshots belong to one admin
+    const allKeys = await AsyncStorage.getAllKeys();
+    const adminScopedKeys = allKeys.filter(key =>
+      key.startsWith(STORAGE_KEYS.OUTBOX_PREFIX) ||
+      key.startsWith(STORAGE_KEYS.SAVED_SEARCHES_PREFIX) ||
+      key.startsWith(STORAGE_KEYS.ANALYTICS_SNAPSHOTS_PREFIX) ||
+      key.startsWith(STORAGE_KEYS.ROLE_TEMPLATES_PREFIX)
+    );
+
+    await clearVault();
+    await AsyncStorage.multiRemove([...keys, ...adminScopedKeys]);
+    await removeQueryCaches();
     console.log("✅ ALL USER DATA CLEARED");
   } catch (error) {
     console.error('Error clearing all user data:', error);
@@ -70,6 +90,9 @@ export const clearAllStorage = async (): Promise<void> => {
   try {
     // Clear all AsyncStorage
     await AsyncStorage.clear();
+
+    // Clear session secrets from the vault
+    await clearVault();
     
     // Clear all SecureStore
     await SecureStore.deleteItemAsync('persistent_device_id');
@@ -159,13 +182,18 @@ export const removePhoneNumberPermanently = async (): Promise<void> => {
 };
 
 // Storage keys based on your API responses
+// Access/refresh tokens and admin info are kept in the SecureStore vault (tokenVault.ts)
 export const STORAGE_KEYS = {
-  ACCESS_TOKEN: 'access_token',
-  REFRESH_TOKEN: 'refresh_token',
   ADMIN_ID: 'admin_id',
-  ADMIN_INFO: 'admin_info',
   PHONE_NUMBER: 'phone_number', // Store as +919876543210 format
   DEVICE_ID: 'device_id',
   USER_AGENT: 'user_agent',
   DEVICE_FINGERPRINT: 'device_fingerprint',
+  BIOMETRIC_PHONE: 'biometric_phone', // Phone number the biometric MPIN is bound to
+  OUTBOX_PREFIX: 'mutation_outbox:', // Followed by admin_id, one offline queue per admin
+  QUERY_CACHE_PREFIX: 'query_cache:', // Followed by admin_id, persisted React Query snapshot
+  SAVED_SEARCHES_PREFIX: 'saved_admin_searches:', // Followed by admin_id
+  ANALYTICS_SNAPSHOTS_PREFIX: 'admin_analytics_snapshots:', // Followed by admin_id
+  ROLE_TEMPLATES_PREFIX: 'role_templates:', // Followed by admin_id
+  MPIN_LOCKOUT_PREFIX: 'mpin_lockout:', // Followed by phone number, survives logout
 };
\ No newline at end of file
@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { AdminInfo } from '@/types';
+
+// Keychain/Keystore keys for session secrets
+const VAULT_KEYS = {
+  ACCESS_TOKEN: 'prayantra_vault_access_token',
+  REFRESH_TOKEN: 'prayantra_vault_refresh_token',
+  ADMIN_INFO: 'prayantra_vault_admin_info',
+  ACCESS_EXPIRES_AT: 'prayantra_vault_access_expires_at',
+};
+
+// AsyncStorage keys used by builds before the vault existed
+const LEGACY_ASYNC_KEYS = {
+  ACCESS_TOKEN: 'access_token',
+  REFRESH_TOKEN: 'refresh_token',
+  ADMIN_INFO: 'admin_info',
+};
+
+// Session secrets never leave this device and are unreadable while it is locked
+const VAULT_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+const readSecure = async (key: string): Promise<string | null> => {
+  try {
+    return await SecureStore.getItemAsync(key, VAULT_OPTIONS);
+  } catch (error) {
+    console.error('❌ [VAULT] Error reading secure value:', error);
+    return null;
+  }
+};
+
+const writeSecure = async (key: string, value: string): Promise<void> => {
+  if (value === undefined || value === null) {
+    console.warn(`Attempting to store null/undefined value in vault for key: ${key}`);
+    return;
+  }
+  await SecureStore.setItemAsync(key, value, VAULT_OPTIONS);
+};
+
+const deleteSecure = async (key: string): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(key, VAULT_OPTIONS);
+  } catch (error) {
+    console.error('❌ [VAULT] Error deleting secure value:', error);
+  }
+};
+
+/* ============================================================
+   TOKENS
+   ============================================================ */
+
+export const getAccessToken = (): Promise<string | null> =>
+  readSecure(VAULT_KEYS.ACCESS_TOKEN);
+
+export const getRefreshToken = (): Promise<string | null> =>
+  readSecure(VAULT_KEYS.REFRESH_TOKEN);
+
+// Refresh token is optional because the refresh endpoint may not rotate it
+export const saveTokens = async (
+  accessToken: string,
+  refreshToken?: string | null,
+  expiresIn?: number | null
+): Promise<void> => {
+  await writeSecure(VAULT_KEYS.ACCESS_TOKEN, accessToken);
+  if (refreshToken) {
+    await writeSecure(VAULT_KEYS.REFRESH_TOKEN, refreshToken);
+  }
+
+  // Prefer the server's expires_in, fall back to the JWT exp claim
+  const expiresAt = expiresIn
+    ? Date.now() + expiresIn * 1000
+    : decodeJwtExpiry(accessToken);
+  if (expiresAt) {
+    await writeSecure(VAULT_KEYS.ACCESS_EXPIRES_AT, String(expiresAt));
+  } else {
+    await deleteSecure(VAULT_KEYS.ACCESS_EXPIRES_AT);
+  }
+};
+
+// Epoch ms at which the stored access token expires, or null if unknown
+export const getAccessTokenExpiry = async (): Promise<number | null> => {
+  const raw = await readSecure(VAULT_KEYS.ACCESS_EXPIRES_AT);
+  const expiresAt = raw ? Number(raw) : NaN;
+  if (Number.isFinite(expiresAt)) {
+    return expiresAt;
+  }
+
+  const accessToken = await getAccessToken();
+  return accessToken ? decodeJwtExpiry(accessToken) : null;
+};
+
+const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  try {
+    const base64 = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(base64));
+  } catch {
+    return null;
+  }
+};
+
+export const decodeJwtExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+// Session the stored access token belongs to, if the server puts it in the JWT
+export const getAccessTokenSessionId = async (): Promise<string | null> => {
+  const accessToken = await getAccessToken();
+  const payload = accessToken ? decodeJwtPayload(accessToken) : null;
+  const sessionId = payload?.session_id ?? payload?.sid;
+  return typeof sessionId === 'string' ? sessionId : null;
+};
+
+/* ============================================================
+   ADMIN INFO
+   ============================================================ */
+
+export const getAdminInfo = async (): Promise<AdminInfo | null> => {
+  const raw = await readSecure(VAULT_KEYS.ADMIN_INFO);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as AdminInfo;
+  } catch {
+    console.warn('⚠️ [VAULT] Stored admin info is corrupt, discarding');
+    await deleteSecure(VAULT_KEYS.ADMIN_INFO);
+    return null;
+  }
+};
+
+export const saveAdminInfo = (admin: AdminInfo): Promise<void> =>
+  writeSecure(VAULT_KEYS.ADMIN_INFO, JSON.stringify(admin));
+
+/* ============================================================
+   CLEAR
+   ============================================================ */
+
+export const clearVault = async (): Promise<void> => {
+  await deleteSecure(VAULT_KEYS.ACCESS_TOKEN);
+  await deleteSecure(VAULT_KEYS.REFRESH_TOKEN);
+  await deleteSecure(VAULT_KEYS.ADMIN_INFO);
+  await deleteSecure(VAULT_KEYS.ACCESS_EXPIRES_AT);
+};
+
+/* ============================================================
+   MIGRATION FROM ASYNCSTORAGE
+   ============================================================ */
+
+// Moves any session written by a pre-vault build into SecureStore and
+// removes the plaintext copies. Safe to call on every launch.
+export const migrateLegacySession = async (): Promise<void> => {
+  try {
+    const legacyKeys = [
+      LEGACY_ASYNC_KEYS.ACCESS_TOKEN,
+      LEGACY_ASYNC_KEYS.REFRESH_TOKEN,
+      LEGACY_ASYNC_KEYS.ADMIN_INFO,
+    ];
+    const entries = await AsyncStorage.multiGet(legacyKeys);
+    const legacy = Object.fromEntries(entries);
+
+    if (!entries.some(([, value]) => value !== null)) {
+      return;
+    }
+
+    console.log('🔐 [VAULT] Migrating legacy session from AsyncStorage');
+
+    const accessToken = legacy[LEGACY_ASYNC_KEYS.ACCESS_TOKEN];
+    const refreshToken = legacy[LEGACY_ASYNC_KEYS.REFRESH_TOKEN];
+    const adminInfo = legacy[LEGACY_ASYNC_KEYS.ADMIN_INFO];
+
+    if (accessToken) {
+      await saveTokens(accessToken, refreshToken);
+    }
+    if (adminInfo) {
+      await writeSecure(VAULT_KEYS.ADMIN_INFO, adminInfo);
+    }
+
+    await AsyncStorage.multiRemove(legacyKeys);
+    console.log('✅ [VAULT] Legacy session migrated and plaintext copies removed');
+  } catch (error) {
+    console.error('❌ [VAULT] Legacy session migration failed:', error);
+    // Never leave plaintext tokens behind, even if SecureStore rejected them
+    await AsyncStorage.multiRemove([
+      LEGACY_ASYNC_KEYS.ACCESS_TOKEN,
+      LEGACY_ASYNC_KEYS.REFRESH_TOKEN,
+      LEGACY_ASYNC_KEYS.ADMIN_INFO,
+    ]).catch(() => undefined);
+  }
+};
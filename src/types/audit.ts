@@ -0,0 +1,59 @@
+export type AuditAction =
+  | 'admin_created'
+  | 'admin_updated'
+  | 'admin_deleted'
+  | 'admin_activated'
+  | 'admin_deactivated'
+  | 'admin_role_changed'
+  | 'admin_reports_to_changed'
+  | 'role_created'
+  | 'role_updated'
+  | 'role_deleted'
+  | 'mpin_reset'
+  | 'phone_changed'
+  | 'phone_viewed';
+
+export type AuditTargetType = 'admin' | 'role';
+
+export interface AuditEvent {
+  event_id: string;
+  action: AuditAction;
+  actor_id: string;
+  actor_name: string;
+  target_type: AuditTargetType;
+  target_id: string;
+  target_name: string;
+  // Free text the actor had to give, e.g. the reason for an MPIN reset
+  reason?: string;
+  // Action specific details such as { from_role, to_role }
+  metadata?: Record<string, string | number | boolean | null>;
+  device_id?: string;
+  ip_address?: string;
+  created_at: string;
+}
+
+export interface AuditEventQuery {
+  actor_id?: string;
+  target_id?: string;
+  actions?: AuditAction[];
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditEventsResponse {
+  success: boolean;
+  data: {
+    events: AuditEvent[];
+    meta: {
+      count: number;
+      limit: number;
+      offset: number;
+      total: number;
+    };
+  };
+  message: string;
+  timestamp: string;
+}
@@ -0,0 +1,21 @@
+export interface TrustedDevice {
+  device_id: string;
+  // JSON string as sent at login, see services/deviceInfo.ts
+  device_fingerprint: string;
+  user_agent?: string;
+  ip_address?: string;
+  trusted_at: string;
+  last_seen_at: string;
+}
+
+export interface TrustedDevicesResponse {
+  success: boolean;
+  data: {
+    devices: TrustedDevice[];
+    meta?: {
+      count: number;
+    };
+  };
+  message: string;
+  timestamp: string;
+}
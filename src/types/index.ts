@@ -1,4 +1,8 @@
 export * from './role.js'
+export * from './audit.js'
+export * from './device.js'
+export * from './session.js'
+export * from './mpinPolicy.js'
 export interface AdminAuthResponse {
     success: boolean;
     data: {
@@ -77,6 +81,10 @@ export interface AdminAuthResponse {
     timestamp: string;
     retry_after?: number;
     expires_at?: string;
+    // Sent with MPIN verification failures
+    mpin_locked?: boolean;
+    failed_login_attempts?: number;
+    max_attempts?: number;
   }
   
   export type LoginFlowState = 
@@ -107,6 +115,7 @@ export interface AdminAuthResponse {
     username: string;
     full_name: string;
     phone_hash: string;
+    masked_phone?: string;
     role_name: string;
     admin_role_id: string;
     role_type: number;
@@ -243,4 +252,52 @@ export interface AdminAuthResponse {
     data: Admin[];
     message: string;
     timestamp: string;
-  }
\ No newline at end of file
+  }
+
+  export interface AdminSearchResponse {
+    success: boolean;
+    data: {
+      results: Admin[];
+      meta?: {
+        count: number;
+        limit: number;
+        offset: number;
+        total?: number;
+      };
+    };
+    message: string;
+    timestamp: string;
+  }
+
+  export interface AdminSuggestion {
+    admin_id: string;
+    username: string;
+    full_name: string;
+  }
+
+  export interface AdminSuggestionsResponse {
+    success: boolean;
+    data: {
+      suggestions: AdminSuggestion[];
+    };
+    message: string;
+    timestamp: string;
+  }
+
+  // Payload shape varies by backend version, so only the common fields are named
+  export interface AdminSearchAnalytics {
+    total_searches?: number;
+    unique_queries?: number;
+    zero_result_searches?: number;
+    average_results?: number;
+    top_queries?: { query: string; count: number }[];
+    match_types?: Record<string, number>;
+    [key: string]: unknown;
+  }
+
+  export interface AdminSearchAnalyticsResponse {
+    success: boolean;
+    data: AdminSearchAnalytics;
+    message: string;
+    timestamp: string;
+  }
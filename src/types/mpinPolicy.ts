@@ -0,0 +1,19 @@
+// MPIN rules as served by GET /admin-auth/mpin/policy. Every field is
+// optional; anything missing falls back to the client defaults.
+export interface ServerMPINPolicy {
+  length?: number;
+  reject_sequences?: boolean;
+  reject_repeats?: boolean;
+  reject_birthdays?: boolean;
+  reject_phone_digits?: boolean;
+  history_size?: number;
+  min_unique_digits?: number;
+  blocklist?: string[];
+}
+
+export interface MPINPolicyResponse {
+  success: boolean;
+  data: ServerMPINPolicy;
+  message: string;
+  timestamp: string;
+}
@@ -0,0 +1,24 @@
+// One refresh-token session; a device can hold several after re-logins
+export interface AdminSession {
+  session_id: string;
+  device_id: string;
+  device_fingerprint?: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: string;
+  last_used_at: string;
+  // Set by the server for the session the request was made with
+  is_current?: boolean;
+}
+
+export interface AdminSessionsResponse {
+  success: boolean;
+  data: {
+    sessions: AdminSession[];
+    meta?: {
+      count: number;
+    };
+  };
+  message: string;
+  timestamp: string;
+}